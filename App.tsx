@@ -2,12 +2,15 @@
 import React, { useState, useCallback, useEffect, useMemo, useRef } from 'react';
 import * as THREE from 'three';
 import { MoraleStats } from './components/Agents';
-import { SimulationParams, SimulationStats, SimulationCounts, PlayerStats, DevSettings, CameraMode, BuildingMetadata, BuildingType, CONSTANTS, InteriorSpec, InteriorNarratorState, InteriorPropType, getLocationLabel, getDistrictType, NPCStats, AgentState, MerchantNPC, MiniMapData, ActionSlotState, ActionId, PLAYER_ACTIONS, PlayerActionEvent, ConversationSummary, NpcStateOverride, NPCRecord, BuildingInfectionState, PlagueType, SocialClass } from './types';
+import { SimulationParams, SimulationStats, SimulationCounts, PlayerStats, DevSettings, CameraMode, BuildingMetadata, BuildingType, CONSTANTS, InteriorSpec, InteriorNarratorState, InteriorPropType, getLocationLabel, getDistrictType, NPCStats, AgentState, MerchantNPC, MiniMapData, ActionSlotState, ActionId, PLAYER_ACTIONS, PlayerActionEvent, ConversationSummary, NpcStateOverride, NPCRecord, BuildingInfectionState, PlagueType, SocialClass, MerchantInventory, PlagueTreatmentId, StorylineState, MerchantKeeper } from './types';
 import { generatePlayerStats, seededRandom } from './utils/procedural';
 import { generateInteriorSpec } from './utils/interior';
 import { createTileNPCRegistry, getTileKey, hashToSeed as hashToSeedTile } from './utils/npcRegistry';
-import { shouldNpcBeHome } from './utils/npcSchedule';
-import { advanceNpcHealth, applyHouseholdExposure, ensureNpcPlagueMeta, resetNpcPlagueMeta } from './utils/npcHealth';
+import { moveTravelers, reconcileProvisionalTile, stepCityEpidemic } from './utils/epidemic/city';
+import { assignNpcLocation, createEpidemicState, EpidemicConfig, stepEpidemicTile, TileRegistry } from './utils/epidemic/engine';
+import { DEFAULT_SCENARIO_ID, EpidemicScenarioId, setEpidemicScenario } from './utils/epidemic/scenario';
+import { createRatColonies, RatColony } from './utils/epidemic/vectors';
+import { ensureNpcPlagueMeta, resetNpcPlagueMeta } from './utils/npcHealth';
 import { updateBuildingInfections } from './utils/buildingInfection';
 import { initializePlague, progressPlague, getPlagueTypeLabel, exposePlayerToPlague } from './utils/plague';
 import { SimulationShell } from './components/SimulationShell';
@@ -25,6 +28,26 @@ import { buildObservePrompt } from './utils/observeContext';
 import { useObserveMode } from './hooks/useObserveMode';
 import { useOverworldPath } from './hooks/useOverworldPath';
 import { useEventSystem } from './hooks/useEventSystem';
+import { useWorldEventTriggers } from './hooks/useWorldEventTriggers';
+import { useSaveGame } from './hooks/useSaveGame';
+import { useEpidemicAnalytics } from './hooks/useEpidemicAnalytics';
+import { useMarketEconomy } from './hooks/useMarketEconomy';
+import { useCrimeSystem } from './hooks/useCrimeSystem';
+import { Bystander, GUARD_PURSUIT_EVENT_ID, findOwnerBuilding, findWitnesses, getDistrictReputation, willGuardsPursue } from './utils/crime';
+import { LoadedSaveGame, SaveGameSnapshot } from './utils/saveGame';
+import { createActionEvent, executeAction } from './utils/player-actions';
+import { applyPlayerTreatment, getTreatmentOptions, getTreatmentProviders } from './utils/treatments';
+import { applyPlayerItem, getExpiredEffectMessages } from './utils/itemEffects';
+import { restockMerchantInventory, stockMerchantFromSupply } from './utils/merchantGeneration';
+import { advanceMerchantSuccession, getMerchantKeeper, inheritStock, isMerchantRecord, isShopShuttered, registerMerchants } from './utils/merchantHealth';
+import { getBuyPrice, getSellPrice } from './utils/market';
+import { rollChestLoot } from './utils/merchantItems';
+import { NpcRelationshipMap, RELATIONSHIP_STORAGE_KEY, createRelationship, loadStoredRelationships, recordConversation } from './utils/relationships';
+import { applyConversationImpact } from './utils/friendliness';
+import { HaggleOutcome, getHaggleImpact, summarizeHaggle } from './utils/haggling';
+import { STORYLINE_STORAGE_KEY, loadStoredStorylines } from './utils/events/storylines';
+import { AgentSnapshot, SpatialHash } from './utils/spatial';
+import { PickupInfo } from './utils/pushables';
 
 function App() {
   const [params, setParams] = useState<SimulationParams>({
@@ -94,6 +117,7 @@ function App() {
   const lastStatsUpdateRef = useRef(0);
   const lastMoraleUpdateRef = useRef(0);
   const pushTriggerRef = useRef<number | null>(null);
+  const agentHashRef = useRef<SpatialHash<AgentSnapshot> | null>(null);
   const scheduleWorkRef = useRef<{
     registry: { npcMap: Map<string, NPCRecord>; lastScheduleSimTime: number };
     phase: number;
@@ -105,6 +129,13 @@ function App() {
     lastScheduleSimTime: 0
   });
   const [nearMerchant, setNearMerchant] = useState<MerchantNPC | null>(null);
+  const merchantInventoriesRef = useRef<Map<string, MerchantInventory>>(new Map());
+  // Merchants generated for the current tile, registered with the epidemic on the next health step
+  const tileMerchantsRef = useRef<MerchantNPC[]>([]);
+  const [merchantKeepers, setMerchantKeepers] = useState<Record<string, MerchantKeeper>>({});
+  // Item ids already taken from each storage chest
+  const [lootedChests, setLootedChests] = useState<Record<string, string[]>>({});
+  const [saveModalMode, setSaveModalMode] = useState<'load' | 'save' | null>(null);
   const [nearChest, setNearChest] = useState<{ id: string; label: string; position: [number, number, number]; locationName: string } | null>(null);
   const [nearBirdcage, setNearBirdcage] = useState<{ id: string; label: string; position: [number, number, number]; locationName: string } | null>(null);
   const [nearStairs, setNearStairs] = useState<{ id: string; label: string; position: [number, number, number]; type: InteriorPropType } | null>(null);
@@ -117,18 +148,20 @@ function App() {
       return {};
     }
   });
-  const npcThreatMemoryRef = useRef<Record<string, { count: number; lastSimTime: number }>>({});
+  // What each NPC remembers of the player, keyed by NPC id; outlives tiles and reloads
+  const [npcRelationships, setNpcRelationships] = useState<NpcRelationshipMap>(loadStoredRelationships);
+  // Event chains in progress and the events they have scheduled
+  const [storylines, setStorylines] = useState<StorylineState>(loadStoredStorylines);
   const [showDemographicsOverlay, setShowDemographicsOverlay] = useState(false);
   const [npcStateOverride, setNpcStateOverride] = useState<NpcStateOverride | null>(null);
   const [tileBuildings, setTileBuildings] = useState<BuildingMetadata[]>([]);
   const [outdoorNpcPool, setOutdoorNpcPool] = useState<NPCRecord[]>([]);
   const [buildingInfectionState, setBuildingInfectionState] = useState<Record<string, BuildingInfectionState>>({});
-  const tileRegistriesRef = useRef<Map<string, { npcMap: Map<string, NPCRecord>; lastScheduleSimTime: number }>>(new Map());
+  const tileRegistriesRef = useRef<Map<string, TileRegistry>>(new Map());
   const buildingInfectionRef = useRef<Map<string, Map<string, BuildingInfectionState>>>(new Map());
   const npcActivityRef = useRef<Map<string, { lastPos: THREE.Vector3; lastSimTime: number; activity: string; location: 'outdoor' | 'interior' }>>(new Map());
   const rumorPoolRef = useRef<Map<import('./types').DistrictType, Array<{ text: string; simTime: number }>>>(new Map());
   const scheduleTickRef = useRef(0);
-  const offscreenHealthCursorRef = useRef(0);
   const simTimeRef = useRef(0);
   const timeOfDayRef = useRef(12);
   const lastSimCommitRef = useRef(0);
@@ -290,6 +323,22 @@ function App() {
     }
   }, [worldFlags]);
 
+  useEffect(() => {
+    try {
+      localStorage.setItem(RELATIONSHIP_STORAGE_KEY, JSON.stringify(npcRelationships));
+    } catch {
+      // Ignore storage errors.
+    }
+  }, [npcRelationships]);
+
+  useEffect(() => {
+    try {
+      localStorage.setItem(STORYLINE_STORAGE_KEY, JSON.stringify(storylines));
+    } catch {
+      // Ignore storage errors.
+    }
+  }, [storylines]);
+
   // Handler for starting the game from loading screen
   const handleStartGame = useCallback(() => {
     setGameLoading(false);
@@ -338,9 +387,31 @@ function App() {
   const [actionEvent, setActionEvent] = useState<PlayerActionEvent | null>(null);
 
   const lastOutdoorMap = useRef<{ mapX: number; mapY: number } | null>(null);
-  const playerSeed = useMemo(() => Math.floor(Math.random() * 1_000_000_000), []);
+  const [playerSeed, setPlayerSeed] = useState(() => Math.floor(Math.random() * 1_000_000_000));
   const forcedPlagueTimeRef = useRef(Math.max(1, seededRandom(playerSeed + 731) * 23));
   const forcedPlagueTriggeredRef = useRef(false);
+  const [scenarioId, setScenarioId] = useState<EpidemicScenarioId>(DEFAULT_SCENARIO_ID);
+  const handleScenarioChange = useCallback((id: EpidemicScenarioId) => {
+    setEpidemicScenario(id);
+    setScenarioId(id);
+  }, []);
+  // Headless epidemic core; shares its tile map with tileRegistriesRef.
+  const epidemicRef = useRef(createEpidemicState(playerSeed, 0, tileRegistriesRef.current));
+  const getEpidemicState = useCallback(() => epidemicRef.current, []);
+  // Colonies on the current tile, shared by reference with the epidemic core.
+  const [activeRatColonies, setActiveRatColonies] = useState<RatColony[]>([]);
+  const {
+    series: epidemicSeries,
+    restoreSeries: restoreEpidemicSeries,
+    exportCsv: exportEpidemicCsv,
+    exportJson: exportEpidemicJson
+  } = useEpidemicAnalytics({ simTime: stats.simTime, gameLoading, getEpidemicState });
+  const {
+    market,
+    getMarket,
+    recordTrade,
+    restoreMarket
+  } = useMarketEconomy({ latestSample: epidemicSeries.length > 0 ? epidemicSeries[epidemicSeries.length - 1] : null });
   const [playerStats, setPlayerStats] = useState<PlayerStats>(() => {
     const stats = generatePlayerStats(playerSeed, { districtType: getDistrictType(params.mapX, params.mapY) });
 
@@ -436,14 +507,17 @@ function App() {
         { id: 'start-mint', quantity: 2 },
         { id: 'start-aloe', quantity: 1 },
         { id: 'start-honey', quantity: 1 },
-        { id: 'start-myrrh', quantity: 1 }
+        { id: 'start-myrrh', quantity: 1 },
+        { id: 'start-vinegar-cloth', quantity: 2 },
+        { id: 'start-herb-pouch', quantity: 1 }
       );
     }
     if (stats.profession.match(/Midwife|Washer of the Dead/i)) {
       professionBasics.push(
         { id: 'start-burial-shroud', quantity: 1 },
         { id: 'start-camphor', quantity: 1 },
-        { id: 'start-soap', quantity: 1 }
+        { id: 'start-soap', quantity: 1 },
+        { id: 'start-face-cloth', quantity: 1 }
       );
     }
     if (stats.profession.match(/Henna Artist|Matchmaker/i)) {
@@ -527,13 +601,6 @@ function App() {
   const [plagueNotification, setPlagueNotification] = useState<string | null>(null);
   const prevSimSpeedRef = useRef(params.simulationSpeed);
 
-  usePlagueMonitor({
-    plague: playerStats.plague,
-    onShowInfectedModal: () => setShowPlagueModal(true),
-    onNotify: (message) => setPlagueNotification(message),
-    onDeath: (summary) => setGameOver(summary)
-  });
-
   const handlePlagueModalPauseToggle = useCallback((paused: boolean) => {
     if (paused) {
       prevSimSpeedRef.current = params.simulationSpeed;
@@ -617,16 +684,22 @@ function App() {
     llmEventsEnabled,
     setLlmEventsEnabled,
     lastEventNote,
+    llmEventLog,
     tryTriggerEvent,
     resolveEvent,
     handleConversationResult,
     handleTriggerConversationEvent,
-    handleDebugEvent
+    handleDialogueAction,
+    handleDebugEvent,
+    getTriggerState,
+    restoreTriggerState
   } = useEventSystem({
     params,
     currentWeather,
     playerStats,
     statsSimTime: stats.simTime,
+    simulationStats: stats,
+    worldFlags,
     outdoorNpcPool,
     setOutdoorNpcPool,
     setConversationHistories,
@@ -636,9 +709,34 @@ function App() {
     setIsNPCInitiatedEncounter,
     setIsFollowingAfterDismissal,
     setWorldFlags,
-    npcThreatMemoryRef
+    npcRelationships,
+    setNpcRelationships,
+    storylines,
+    setStorylines
   });
 
+  const notifyCrime = useCallback((message: string) => {
+    setToastMessages((prev) => [...prev, { id: `crime-${toastIdCounter.current++}`, message, duration: 6000 }]);
+  }, []);
+
+  const {
+    crime,
+    getCrime,
+    reportTheft,
+    restoreCrime
+  } = useCrimeSystem({
+    simTime: stats.simTime,
+    playerStats,
+    setPlayerStats,
+    storylines,
+    setStorylines,
+    notify: notifyCrime
+  });
+  const districtReputation = useMemo(
+    () => getDistrictReputation(playerStats.reputation, crime, getDistrictType(params.mapX, params.mapY)),
+    [crime, params.mapX, params.mapY, playerStats.reputation]
+  );
+
   useEffect(() => {
     if (!activeEvent) return;
     setShowEncounterModal(false);
@@ -646,6 +744,39 @@ function App() {
     setShowEnterModal(false);
   }, [activeEvent]);
 
+  const {
+    triggerSymptom,
+    triggerNpcDeath,
+    triggerItemPickup,
+    triggerItemTheft
+  } = useWorldEventTriggers({
+    tryTriggerEvent,
+    simTime: stats.simTime,
+    timeOfDay: params.timeOfDay,
+    district: getDistrictType(params.mapX, params.mapY),
+    currentWeather,
+    citywideDeaths: epidemicSeries.length > 0 ? epidemicSeries[epidemicSeries.length - 1].totals.deceased : null,
+    buildingInfectionState,
+    tileBuildings,
+    busy: !!activeEvent || showEncounterModal || showMerchantModal || showEnterModal || showPlayerModal
+  });
+
+  const handlePickupWithTriggers = useCallback((pickup: PickupInfo) => {
+    const carried = playerStats.inventory.reduce((sum, item) => sum + item.quantity, 0);
+    handlePickupItem(pickup);
+    if (pickup.type === 'coin' || carried < playerStats.maxInventorySlots) {
+      triggerItemPickup(pickup.itemId ? [pickup.itemId] : []);
+    }
+  }, [handlePickupItem, playerStats.inventory, playerStats.maxInventorySlots, triggerItemPickup]);
+
+  usePlagueMonitor({
+    plague: playerStats.plague,
+    onShowInfectedModal: () => setShowPlagueModal(true),
+    onNotify: (message) => setPlagueNotification(message),
+    onDeath: (summary) => setGameOver(summary),
+    onSymptom: triggerSymptom
+  });
+
   // Handle NPC-initiated encounters (friendly NPCs approaching the player)
   const handleNPCInitiatedEncounter = useCallback((npc: { stats: NPCStats; state: AgentState }) => {
     // Don't trigger if any modal is already open
@@ -767,49 +898,24 @@ function App() {
     setPlayerStats
   });
 
-  // Handler for opening chests in interiors
+  // Handler for opening outdoor storage chests
   const handleOpenChest = useCallback((chest: { id: string; label: string; position: [number, number, number]; locationName: string }) => {
-    // Generate random loot for the chest (1-3 items)
-    const numItems = 1 + Math.floor(Math.random() * 3);
-    const possibleItems = [
-      // Common items
-      { itemId: 'chest-silver-coin', itemName: 'Silver Dirham', rarity: 'common' as const, category: 'CURRENCY' },
-      { itemId: 'chest-incense', itemName: 'Frankincense', rarity: 'common' as const, category: 'APOTHECARY' },
-      { itemId: 'chest-medicine', itemName: 'Medicinal Herbs', rarity: 'common' as const, category: 'APOTHECARY' },
-      { itemId: 'chest-scroll', itemName: 'Parchment Scroll', rarity: 'common' as const, category: 'SCHOLARLY' },
-      { itemId: 'start-soap', itemName: 'Aleppo Soap', rarity: 'common' as const, category: 'TRADER' },
-      { itemId: 'start-sesame-oil', itemName: 'Sesame Oil', rarity: 'common' as const, category: 'TRADER' },
-      { itemId: 'start-copper-amulet', itemName: 'Copper Amulet', rarity: 'common' as const, category: 'METALSMITH' },
-      { itemId: 'start-iron-key', itemName: 'Iron Key', rarity: 'common' as const, category: 'METALSMITH' },
-      { itemId: 'start-prayer-beads', itemName: 'Prayer Beads', rarity: 'common' as const, category: 'TRADER' },
-      { itemId: 'start-kohl', itemName: 'Kohl Powder', rarity: 'common' as const, category: 'APOTHECARY' },
-      { itemId: 'start-henna', itemName: 'Henna Powder', rarity: 'common' as const, category: 'APOTHECARY' },
-      // Uncommon items
-      { itemId: 'chest-gold-coin', itemName: 'Gold Dinar', rarity: 'uncommon' as const, category: 'CURRENCY' },
-      { itemId: 'chest-silk-cloth', itemName: 'Silk Fabric', rarity: 'uncommon' as const, category: 'TEXTILE' },
-      { itemId: 'chest-spice', itemName: 'Precious Spices', rarity: 'uncommon' as const, category: 'TRADER' },
-      { itemId: 'start-indigo', itemName: 'Indigo Dye Cake', rarity: 'uncommon' as const, category: 'TEXTILE' },
-      { itemId: 'start-pistachios', itemName: 'Pistachio Nuts', rarity: 'uncommon' as const, category: 'TRADER' },
-      { itemId: 'start-sugar', itemName: 'Sugar Loaf', rarity: 'uncommon' as const, category: 'TRADER' },
-      { itemId: 'start-myrrh', itemName: 'Myrrh Resin', rarity: 'uncommon' as const, category: 'APOTHECARY' },
-      { itemId: 'start-kohl-container', itemName: 'Silver Kohl Container', rarity: 'uncommon' as const, category: 'METALSMITH' },
-      // Rare items
-      { itemId: 'chest-jewelry', itemName: 'Silver Bracelet', rarity: 'rare' as const, category: 'METALSMITH' },
-      { itemId: 'start-compass', itemName: 'Geometric Compass', rarity: 'rare' as const, category: 'METALSMITH' },
-      { itemId: 'start-perfume', itemName: 'Musk Perfume', rarity: 'rare' as const, category: 'APOTHECARY' },
-    ];
-
-    const items: Array<{ itemId: string; itemName: string; rarity: 'common' | 'uncommon' | 'rare'; category: string }> = [];
-    for (let i = 0; i < numItems; i++) {
-      // Weight towards common items
-      const roll = Math.random();
-      const targetRarity = roll < 0.6 ? 'common' : roll < 0.9 ? 'uncommon' : 'rare';
-      const eligible = possibleItems.filter(item => item.rarity === targetRarity);
-      const selected = eligible.length > 0
-        ? eligible[Math.floor(Math.random() * eligible.length)]
-        : possibleItems[Math.floor(Math.random() * possibleItems.length)];
-      items.push(selected);
-    }
+    // The house the chest stands against decides what is in it; goods already taken stay gone.
+    // Indoors it is the house we are in: room props repeat from house to house and
+    // their positions are room-local, so the id carries the tile and the building
+    const indoors = sceneMode === 'interior' && interiorBuilding !== null;
+    const building = indoors ? interiorBuilding : findOwnerBuilding(chest.position, tileBuildings);
+    const chestId = indoors ? `${chest.id}-${params.mapX}-${params.mapY}-${interiorBuilding.id}` : chest.id;
+    const owner = building
+      ? tileRegistriesRef.current.get(getTileKey(params.mapX, params.mapY))?.npcMap.get(`npc-owner-${building.id}`)
+      : undefined;
+    const taken = lootedChests[chestId] ?? [];
+    const items = rollChestLoot(chestId, {
+      buildingType: building?.type ?? null,
+      profession: building?.ownerProfession,
+      socialClass: owner?.stats.socialClass,
+      district: getDistrictType(params.mapX, params.mapY)
+    }).filter(item => !taken.includes(item.itemId));
 
     setLootModalData({
       type: 'chest',
@@ -817,11 +923,13 @@ function App() {
       sourceLocation: chest.locationName,
       items,
       isTheft: true,
+      sourceId: chestId,
+      sourcePosition: chest.position,
     });
 
     // Clear near chest after opening
     setNearChest(null);
-  }, [setLootModalData]);
+  }, [interiorBuilding, lootedChests, params.mapX, params.mapY, sceneMode, setLootModalData, tileBuildings]);
 
   const handleOpenBirdcage = useCallback((birdcage: { id: string; label: string; position: [number, number, number]; locationName: string }) => {
     setLootModalData({
@@ -834,7 +942,8 @@ function App() {
         rarity: 'uncommon',
         category: 'ANIMAL'
       }],
-      isTheft: true
+      isTheft: true,
+      sourcePosition: birdcage.position
     });
 
     setNearBirdcage(null);
@@ -1049,16 +1158,45 @@ function App() {
       return;
     }
 
+    // Resolve the action against the people, buildings and goods around the player
+    const result = executeAction(actionId, playerPositionRef.current, playerStats, agentHashRef.current, {
+      simTime: currentTime,
+      seed: playerSeed + Math.floor(currentTime * 60),
+      sanctuary: nearBuilding,
+      tradePartner: nearSpeakableNpc
+    });
+    setPickupToast({ message: result.message, id: Date.now() });
+    if (result.blocked) return;
+
+    if (result.consumedInventoryId || result.playerPlague || result.pietyDelta) {
+      setPlayerStats(prev => ({
+        ...prev,
+        piety: prev.piety + (result.pietyDelta ?? 0),
+        plague: result.playerPlague ?? prev.plague,
+        inventory: result.consumedInventoryId
+          ? prev.inventory
+            .map(item => (item.id === result.consumedInventoryId ? { ...item, quantity: item.quantity - 1 } : item))
+            .filter(item => item.quantity > 0)
+          : prev.inventory
+      }));
+    }
+
+    if (result.barterPartner) {
+      const storedInventory = merchantInventoriesRef.current.get(result.barterPartner.id);
+      setNearMerchant(storedInventory ? { ...result.barterPartner, inventory: storedInventory } : result.barterPartner);
+      setShowMerchantModal(true);
+    }
+
     // Create action event
     const event: PlayerActionEvent = {
-      actionId,
-      position: [playerPositionRef.current.x, playerPositionRef.current.y, playerPositionRef.current.z],
-      timestamp: Date.now(),
-      effect: action.effect,
-      radius: action.radius
+      ...createActionEvent(actionId, playerPositionRef.current, Date.now()),
+      ...result.event
     };
-
-    setActionEvent(event);
+    if (result.success && action.effect !== 'none') {
+      setActionEvent(event);
+      // Clear action event after a short delay
+      setTimeout(() => setActionEvent(null), 500);
+    }
 
     // Set cooldown
     if (action.cooldownSeconds > 0) {
@@ -1075,10 +1213,25 @@ function App() {
         }
       }));
     }
+  }, [actionSlots.cooldowns, playerStats, playerSeed, nearBuilding, nearSpeakableNpc, setShowMerchantModal, stats.simTime]);
+
+  // Swap actions between hotbar slots; assigning an action already slotted elsewhere trades places
+  const assignActionSlot = useCallback((slot: 'slot1' | 'slot2' | 'slot3', actionId: ActionId) => {
+    setActionSlots(prev => {
+      if (prev[slot] === actionId) return prev;
+      const next = { ...prev, [slot]: actionId };
+      (['slot1', 'slot2', 'slot3'] as const).forEach((other) => {
+        if (other !== slot && prev[other] === actionId) next[other] = prev[slot];
+      });
+      return next;
+    });
+  }, []);
 
-    // Clear action event after a short delay
-    setTimeout(() => setActionEvent(null), 500);
-  }, [actionSlots.cooldowns, playerStats.charisma, stats.simTime]);
+  // Barter partners are only merchants for the length of the deal
+  useEffect(() => {
+    if (showMerchantModal) return;
+    setNearMerchant(prev => (prev?.id.startsWith('barter-') ? null : prev));
+  }, [showMerchantModal]);
 
   // Action hotkey listener (1, 2, 3, 4, 5)
   useEffect(() => {
@@ -1233,90 +1386,269 @@ function App() {
     if (buildings.length === 0) return null;
     const tileKey = getTileKey(params.mapX, params.mapY);
     let registry = tileRegistriesRef.current.get(tileKey);
-    if (!registry) {
+    // Unvisited districts run on a stand-in layout until the real buildings are known.
+    if (!registry || epidemicRef.current.provisionalTiles.has(tileKey)) {
       const district = getDistrictType(params.mapX, params.mapY);
       const tileSeed = hashToSeedTile(tileKey);
-      const seedInitial = !seededInitialInfectionsRef.current;
-      registry = createTileNPCRegistry(buildings, district, stats.simTime, tileSeed, CONSTANTS.AGENT_COUNT, seedInitial);
+      const seedInitial = !registry && !seededInitialInfectionsRef.current;
+      const realRegistry = createTileNPCRegistry(buildings, district, stats.simTime, tileSeed, CONSTANTS.AGENT_COUNT, seedInitial);
       if (seedInitial) {
         seededInitialInfectionsRef.current = true;
       }
-      tileRegistriesRef.current.set(tileKey, registry);
+      registry = reconcileProvisionalTile(epidemicRef.current, tileKey, realRegistry, buildings);
+    }
+    // Saves from before rat colonies existed have none; build them now.
+    if (!epidemicRef.current.vectors.has(tileKey)) {
+      epidemicRef.current.vectors.set(tileKey, createRatColonies(epidemicRef.current.seed, tileKey, buildings));
     }
+    setActiveRatColonies(epidemicRef.current.vectors.get(tileKey) ?? []);
     return registry;
   }, [params.mapX, params.mapY, stats.simTime]);
 
-  const updateRegistryForSchedule = useCallback((registry: { npcMap: Map<string, NPCRecord>; lastScheduleSimTime: number }) => {
-    const timeOfDay = params.timeOfDay;
+  const updateRegistryForSchedule = useCallback((registry: TileRegistry) => {
     const lockedBuildingId = sceneMode === 'interior' ? interiorBuilding?.id ?? null : null;
-    registry.npcMap.forEach((record) => {
-      if (lockedBuildingId && record.homeBuildingId === lockedBuildingId) {
-        record.location = 'interior';
+    registry.npcMap.forEach((record) => assignNpcLocation(record, params.timeOfDay, lockedBuildingId));
+  }, [params.timeOfDay, sceneMode, interiorBuilding]);
+
+  const addDistrictRumor = useCallback((district: import('./types').DistrictType, text: string, simTime: number) => {
+    const pool = rumorPoolRef.current.get(district) ?? [];
+    const fresh = pool.filter((entry) => simTime - entry.simTime <= 24);
+    if (!fresh.some((entry) => entry.text === text)) {
+      fresh.unshift({ text, simTime });
+    }
+    if (fresh.length > 6) fresh.length = 6;
+    rumorPoolRef.current.set(district, fresh);
+  }, []);
+
+  const spreadDeathRumor = useCallback((record: NPCRecord) => {
+    const district = getDistrictType(params.mapX, params.mapY);
+    const building = record.homeBuildingId
+      ? tileBuildings.find((entry) => entry.id === record.homeBuildingId)
+      : null;
+    const profession = record.stats.profession.toLowerCase();
+    const ownerName = building?.ownerName ?? record.stats.name;
+    const placeHint = building ? `near the ${building.ownerProfession?.toLowerCase() ?? 'homes'}` : district.toLowerCase().replace(/_/g, ' ');
+    const rumorText = `${ownerName}, a ${profession}, died ${placeHint}.`;
+    addDistrictRumor(district, rumorText, stats.simTime);
+  }, [addDistrictRumor, params.mapX, params.mapY, stats.simTime, tileBuildings]);
+
+  const updateOffscreenHealth = useCallback(() => {
+    const tileKey = getTileKey(params.mapX, params.mapY);
+    const config: EpidemicConfig = {
+      infectionRate: params.infectionRate,
+      hygieneLevel: params.hygieneLevel,
+      quarantine: params.quarantine
+    };
+    const activeRegistry = tileRegistriesRef.current.get(tileKey);
+    if (activeRegistry) {
+      registerMerchants(activeRegistry, tileMerchantsRef.current, stats.simTime, getDistrictType(params.mapX, params.mapY));
+    }
+    // NPCs drawn on the street catch plague from whoever they stand beside
+    const positions = new Map<string, [number, number]>();
+    if (sceneMode === 'outdoor') {
+      agentHashRef.current?.buckets.forEach((agents) => {
+        agents.forEach((agent) => positions.set(agent.id, [agent.pos.x, agent.pos.z]));
+      });
+    }
+    const transitions = stepEpidemicTile(epidemicRef.current, tileKey, stats.simTime, config, {
+      lockedBuildingId: sceneMode === 'interior' ? interiorBuilding?.id ?? null : null,
+      positions
+    });
+
+    // The rest of the city keeps advancing whether or not the player is there.
+    stepCityEpidemic(epidemicRef.current, stats.simTime, config, tileKey);
+    // Merchants keep to their stalls
+    moveTravelers(epidemicRef.current, stats.simTime, config, (record) => (
+      isMerchantRecord(record) || (activeRegistry?.npcMap.get(record.id) === record && record.location === 'outdoor')
+    ));
+
+    advanceMerchantSuccession(epidemicRef.current.tiles, stats.simTime).forEach(({ tileKey: successionTileKey, heir, predecessor }) => {
+      if (successionTileKey !== tileKey) return;
+      const id = `succession-${toastIdCounter.current++}`;
+      const message = `${heir.stats.name} has taken down the shutters of ${predecessor.stats.name}'s stall`;
+      setToastMessages((prev) => [...prev, { id, message, duration: 6000 }]);
+    });
+    const keepers: Record<string, MerchantKeeper> = {};
+    tileMerchantsRef.current.forEach((merchant) => {
+      keepers[merchant.id] = getMerchantKeeper(activeRegistry, merchant);
+    });
+    setMerchantKeepers((prev) => {
+      const unchanged = Object.keys(keepers).length === Object.keys(prev).length && Object.values(keepers).every((keeper) => (
+        prev[keeper.merchantId]?.status === keeper.status && prev[keeper.merchantId]?.stats.id === keeper.stats.id
+      ));
+      return unchanged ? prev : keepers;
+    });
+
+    transitions.forEach((transition) => {
+      const record = activeRegistry?.npcMap.get(transition.npcId);
+      if (record && transition.to === AgentState.DECEASED) {
+        // A death in the street is seen and talked about
+        if (record.location === 'outdoor') spreadDeathRumor(record);
+        triggerNpcDeath(record.stats);
         return;
       }
-      // Keep infected and deceased NPCs inside their homes
-      if (record.homeBuildingId && (record.state === AgentState.INFECTED || record.state === AgentState.DECEASED)) {
-        record.location = 'interior';
+      // Trigger toast when NPC becomes infected
+      if (transition.from !== AgentState.INCUBATING || transition.to !== AgentState.INFECTED) return;
+      if (record && isMerchantRecord(record)) {
+        const id = `infection-${toastIdCounter.current++}`;
+        setToastMessages((prev) => [...prev, { id, message: `${record.stats.name} has shuttered their stall, sick with plague`, duration: 6000 }]);
         return;
       }
-      if (record.homeBuildingId) {
-        const shouldHome = shouldNpcBeHome(record, timeOfDay);
-        record.location = shouldHome ? 'interior' : 'outdoor';
-      } else {
-        record.location = 'outdoor';
-      }
+      if (!record?.homeBuildingId) return;
+      const building = tileBuildings.find((b) => b.id === record.homeBuildingId);
+      if (!building) return;
+      const direction = calculateDirection(
+        playerPositionRef.current.x,
+        playerPositionRef.current.z,
+        building.position[0],
+        building.position[2]
+      );
+      const district = formatDistrictName(getDistrictType(params.mapX, params.mapY));
+      const id = `infection-${toastIdCounter.current++}`;
+      const message = `${record.stats.name} is now infected with plague in their home to the ${direction} of the ${district} area`;
+      setToastMessages((prev) => [...prev, { id, message, duration: 6000 }]);
     });
-    registry.lastScheduleSimTime = stats.simTime;
-  }, [params.timeOfDay, stats.simTime, sceneMode, interiorBuilding]);
+  }, [stats.simTime, tileBuildings, params.mapX, params.mapY, params.infectionRate, params.hygieneLevel, params.quarantine, sceneMode, interiorBuilding, spreadDeathRumor, triggerNpcDeath]);
 
-  const updateOffscreenHealth = useCallback((registry: { npcMap: Map<string, NPCRecord> }) => {
-    const householdRisk = new Map<string, boolean>();
-    registry.npcMap.forEach((record) => {
-      if (!record.homeBuildingId) return;
-      if (record.location !== 'interior') return;
-      if (record.state === AgentState.INFECTED || record.state === AgentState.INCUBATING) {
-        householdRisk.set(record.homeBuildingId, true);
-      }
-    });
+  // Merchants are regenerated procedurally; restore the stock they had when last seen,
+  // refilled since then as far as the market's supply allows.
+  const handleNearMerchant = useCallback((merchant: MerchantNPC | null) => {
+    if (!merchant) {
+      setNearMerchant(null);
+      return;
+    }
+    const storedInventory = merchantInventoriesRef.current.get(merchant.id);
+    let stocked = storedInventory
+      ? restockMerchantInventory({ ...merchant, inventory: storedInventory }, simTimeRef.current, getMarket())
+      : stockMerchantFromSupply(merchant, getMarket());
+    // An heir opens with part of the stock their predecessor left
+    if ((stocked.inventory.keeperId ?? merchant.id) !== merchant.stats.id) {
+      stocked = { ...stocked, inventory: inheritStock(stocked.inventory, merchant.stats.id) };
+    }
+    merchantInventoriesRef.current.set(merchant.id, stocked.inventory);
+    setNearMerchant(stocked);
+  }, [getMarket]);
 
-    const npcList = Array.from(registry.npcMap.values());
-    const CHUNK_COUNT = 4;
-    const chunkSize = Math.max(1, Math.ceil(npcList.length / CHUNK_COUNT));
-    const start = (offscreenHealthCursorRef.current % CHUNK_COUNT) * chunkSize;
-    const end = Math.min(npcList.length, start + chunkSize);
-    for (let i = start; i < end; i++) {
-      const record = npcList[i];
-      const timeSinceUpdate = stats.simTime - record.lastUpdateSimTime;
-      if (record.location === 'outdoor' && timeSinceUpdate < 0.5) continue;
-      if (timeSinceUpdate >= 0.25) {
-        const prevState = record.state;
-        if (record.location === 'interior' && record.homeBuildingId && householdRisk.get(record.homeBuildingId)) {
-          applyHouseholdExposure(record, stats.simTime, timeSinceUpdate);
-        }
-        const stateChanged = advanceNpcHealth(record, stats.simTime);
-
-        // Trigger toast when NPC becomes infected
-        if (stateChanged && record.state === AgentState.INFECTED && prevState === AgentState.INCUBATING && record.homeBuildingId) {
-          const building = tileBuildings.find((b) => b.id === record.homeBuildingId);
-          if (building) {
-            const direction = calculateDirection(
-              playerPositionRef.current.x,
-              playerPositionRef.current.z,
-              building.position[0],
-              building.position[2]
-            );
-            const district = formatDistrictName(getDistrictType(params.mapX, params.mapY));
-            const id = `infection-${toastIdCounter.current++}`;
-            const message = `${record.stats.name} is now infected with plague in their home to the ${direction} of the ${district} area`;
-            setToastMessages((prev) => [...prev, { id, message, duration: 6000 }]);
-          }
-        }
+  const handleMerchantsChange = useCallback((merchants: MerchantNPC[]) => {
+    tileMerchantsRef.current = merchants;
+  }, []);
 
-        record.lastUpdateSimTime = stats.simTime;
-      }
+  // Shops whose owner is sick or dead stay barred
+  const handleNearBuilding = useCallback((building: BuildingMetadata | null) => {
+    const registry = tileRegistriesRef.current.get(getTileKey(params.mapX, params.mapY));
+    setNearBuilding(building && isShopShuttered(building, registry) ? { ...building, isOpen: false } : building);
+  }, [params.mapX, params.mapY]);
+
+  const collectSaveSnapshot = useCallback((): SaveGameSnapshot => ({
+    params,
+    stats: { ...stats, simTime: simTimeRef.current, daysPassed: simTimeRef.current / 24 },
+    playerSeed,
+    playerStats,
+    worldFlags,
+    eventTriggerState: getTriggerState(),
+    tileRegistries: tileRegistriesRef.current,
+    buildingInfection: buildingInfectionRef.current,
+    rumorPools: rumorPoolRef.current,
+    conversationHistories,
+    npcRelationships,
+    storylines,
+    merchantInventories: merchantInventoriesRef.current,
+    market,
+    crime: getCrime(),
+    lootedChests,
+    seededInitialInfections: seededInitialInfectionsRef.current,
+    forcedPlagueTriggered: forcedPlagueTriggeredRef.current,
+    epidemic: {
+      rngState: epidemicRef.current.rngState,
+      tileClocks: Array.from(epidemicRef.current.tileClocks.entries()),
+      provisionalTiles: Array.from(epidemicRef.current.provisionalTiles),
+      lastTravelSimTime: epidemicRef.current.lastTravelSimTime,
+      vectors: Array.from(epidemicRef.current.vectors.entries())
+    },
+    epidemicSeries,
+    scenarioId
+  }), [conversationHistories, epidemicSeries, getCrime, getTriggerState, lootedChests, market, npcRelationships, params, playerSeed, playerStats, scenarioId, stats, storylines, worldFlags]);
+
+  const applySaveGame = useCallback((save: LoadedSaveGame) => {
+    tileRegistriesRef.current = save.tileRegistries;
+    buildingInfectionRef.current = save.buildingInfection;
+    rumorPoolRef.current = save.rumorPools;
+    merchantInventoriesRef.current = save.merchantInventories;
+    seededInitialInfectionsRef.current = save.seededInitialInfections;
+    forcedPlagueTriggeredRef.current = save.forcedPlagueTriggered;
+    forcedPlagueTimeRef.current = Math.max(1, seededRandom(save.playerSeed + 731) * 23);
+    const epidemic = createEpidemicState(save.playerSeed, save.stats.simTime, save.tileRegistries);
+    if (save.epidemic) {
+      epidemic.rngState = save.epidemic.rngState;
+      epidemic.tileClocks = new Map(save.epidemic.tileClocks);
+      epidemic.provisionalTiles = new Set(save.epidemic.provisionalTiles ?? []);
+      epidemic.lastTravelSimTime = save.epidemic.lastTravelSimTime ?? save.stats.simTime;
+      epidemic.vectors = new Map(save.epidemic.vectors ?? []);
+    }
+    epidemicRef.current = epidemic;
+    restoreEpidemicSeries(save.epidemicSeries);
+    restoreMarket(save.market);
+    restoreCrime(save.crime);
+    handleScenarioChange(save.scenarioId);
+    npcActivityRef.current.clear();
+    simTimeRef.current = save.stats.simTime;
+    timeOfDayRef.current = save.params.timeOfDay;
+    scheduleTickRef.current = 0;
+    scheduleWorkRef.current = null;
+    lastOutdoorIdsRef.current = [];
+    restoreTriggerState(save.eventTriggerState);
+
+    setPlayerSeed(save.playerSeed);
+    setPlayerStats(save.playerStats);
+    setStats(save.stats);
+    setParams(prev => ({ ...prev, ...save.params }));
+    setWorldFlags(save.worldFlags);
+    setConversationHistories(save.conversationHistories);
+    setNpcRelationships(save.npcRelationships);
+    setStorylines(save.storylines);
+    setLootedChests(save.lootedChests);
+    setOutdoorNpcPool([]);
+    setSelectedNpc(null);
+    setNearMerchant(null);
+    setMapEntrySpawn(null);
+    setGameOver(null);
+    setSceneMode('outdoor');
+    setInteriorSpec(null);
+    setInteriorNarrator(null);
+    setInteriorBuilding(null);
+    setActiveInteriorFloor(0);
+    setNearStairs(null);
+    const tileInfection = save.buildingInfection.get(getTileKey(save.params.mapX, save.params.mapY));
+    setBuildingInfectionSnapshot(tileInfection ?? new Map());
+  }, [handleScenarioChange, restoreEpidemicSeries, restoreTriggerState, setBuildingInfectionSnapshot]);
+
+  const {
+    saveSlots,
+    lastSaveNote,
+    refreshSaveSlots,
+    saveGame,
+    loadGame,
+    deleteSave
+  } = useSaveGame({
+    gameLoading,
+    mapX: params.mapX,
+    mapY: params.mapY,
+    collectSnapshot: collectSaveSnapshot,
+    applySave: applySaveGame
+  });
+
+  const handleOpenSaveModal = useCallback((mode: 'load' | 'save') => {
+    refreshSaveSlots();
+    setSaveModalMode(mode);
+  }, [refreshSaveSlots]);
+
+  const handleLoadSave = useCallback((slotId: string) => {
+    if (!loadGame(slotId)) return;
+    setSaveModalMode(null);
+    if (gameLoading) {
+      handleStartGame();
     }
-    offscreenHealthCursorRef.current = (offscreenHealthCursorRef.current + 1) % CHUNK_COUNT;
-  }, [stats.simTime, tileBuildings, params.mapX, params.mapY]);
+  }, [gameLoading, handleStartGame, loadGame]);
 
   const getBuildingLabel = useCallback((type: BuildingType) => {
     switch (type) {
@@ -1398,16 +1730,6 @@ function App() {
     return { infected, deceased };
   }, [params.mapX, params.mapY]);
 
-  const addDistrictRumor = useCallback((district: import('./types').DistrictType, text: string, simTime: number) => {
-    const pool = rumorPoolRef.current.get(district) ?? [];
-    const fresh = pool.filter((entry) => simTime - entry.simTime <= 24);
-    if (!fresh.some((entry) => entry.text === text)) {
-      fresh.unshift({ text, simTime });
-    }
-    if (fresh.length > 6) fresh.length = 6;
-    rumorPoolRef.current.set(district, fresh);
-  }, []);
-
   const getDistrictRumors = useCallback((district: import('./types').DistrictType, simTime: number) => {
     const pool = rumorPoolRef.current.get(district) ?? [];
     const fresh = pool.filter((entry) => simTime - entry.simTime <= 24);
@@ -1417,14 +1739,16 @@ function App() {
     return fresh.map((entry) => entry.text).slice(0, 2);
   }, []);
 
+  const getNpcRecord = useCallback((id: string) => (
+    tileRegistriesRef.current.get(getTileKey(params.mapX, params.mapY))?.npcMap.get(id)
+  ), [params.mapX, params.mapY]);
+
   const handleNpcUpdate = useCallback((id: string, state: AgentState, pos: THREE.Vector3, awareness: number, panic: number, location: 'outdoor' | 'interior', plagueMeta?: import('./types').NPCPlagueMeta) => {
-    const tileKey = getTileKey(params.mapX, params.mapY);
-    const registry = tileRegistriesRef.current.get(tileKey);
-    if (!registry) return;
-    const record = registry.npcMap.get(id);
+    const record = getNpcRecord(id);
     if (!record) return;
     const prevState = record.state;
-    if (record.state !== state) {
+    // Street NPCs only show the health the epidemic core gives their record
+    if (location === 'interior' && record.state !== state) {
       record.state = state;
       record.stateStartTime = stats.simTime;
       if (state === AgentState.INCUBATING) {
@@ -1438,7 +1762,7 @@ function App() {
         resetNpcPlagueMeta(record);
       }
     }
-    if (plagueMeta) {
+    if (location === 'interior' && plagueMeta) {
       record.plagueMeta = plagueMeta;
     }
     record.lastUpdateSimTime = stats.simTime;
@@ -1449,16 +1773,9 @@ function App() {
       record.lastOutdoorPos = [pos.x, pos.y, pos.z];
     }
 
-    if (prevState !== AgentState.DECEASED && state === AgentState.DECEASED) {
-      const district = getDistrictType(params.mapX, params.mapY);
-      const building = record.homeBuildingId
-        ? tileBuildings.find((entry) => entry.id === record.homeBuildingId)
-        : null;
-      const profession = record.stats.profession.toLowerCase();
-      const ownerName = building?.ownerName ?? record.stats.name;
-      const placeHint = building ? `near the ${building.ownerProfession?.toLowerCase() ?? 'homes'}` : district.toLowerCase().replace(/_/g, ' ');
-      const rumorText = `${ownerName}, a ${profession}, died ${placeHint}.`;
-      addDistrictRumor(district, rumorText, stats.simTime);
+    if (prevState !== AgentState.DECEASED && record.state === AgentState.DECEASED) {
+      spreadDeathRumor(record);
+      triggerNpcDeath(record.stats);
     }
 
     const activityEntry = npcActivityRef.current.get(id);
@@ -1472,7 +1789,7 @@ function App() {
       activity,
       location
     });
-  }, [addDistrictRumor, buildNpcActivityLabel, params.mapX, params.mapY, stats.simTime, tileBuildings]);
+  }, [buildNpcActivityLabel, getNpcRecord, spreadDeathRumor, stats.simTime, triggerNpcDeath]);
 
   const handleBuildingsUpdate = useCallback((buildings: BuildingMetadata[]) => {
     scheduleTickRef.current = 0;
@@ -1517,7 +1834,7 @@ function App() {
       return;
     }
     if (work.phase === 1) {
-      updateOffscreenHealth(work.registry);
+      updateOffscreenHealth();
       work.phase = 2;
       setPerfDebug((prev) => ({
         ...prev,
@@ -1530,7 +1847,8 @@ function App() {
     }
     if (work.phase === 2) {
       const outdoor = Array.from(work.registry.npcMap.values())
-        .filter((record) => record.location === 'outdoor')
+        // Merchants are drawn at their stalls, not among the walking crowd
+        .filter((record: NPCRecord) => record.location === 'outdoor' && !isMerchantRecord(record))
         .sort((a, b) => {
           const priority = (state: AgentState) => {
             if (state === AgentState.INFECTED) return 0;
@@ -1660,10 +1978,11 @@ function App() {
     }
   }, [currentWeather, ensureTileRegistry, hashToSeed, params.mapX, params.mapY, params.timeOfDay, tileBuildings, tryTriggerEvent]);
 
-  const handlePurchase = useCallback((item: import('./types').MerchantItem, quantity: number) => {
+  const handlePurchase = useCallback((item: import('./types').MerchantItem, quantity: number, unitPrice?: number) => {
     if (!nearMerchant) return;
 
-    const finalPrice = Math.round(item.basePrice * nearMerchant.haggleModifier) * quantity;
+    // A haggled price stands in for the market price
+    const finalPrice = (unitPrice ?? getBuyPrice(market, item, nearMerchant.haggleModifier)) * quantity;
 
     // Check if player can afford
     if (playerStats.currency < finalPrice) {
@@ -1714,32 +2033,35 @@ function App() {
       };
     });
 
-    // Update merchant inventory (reduce quantity)
+    // Update merchant inventory (reduce quantity) and remember it across tiles and saves
+    const nextInventory: MerchantInventory = {
+      ...nearMerchant.inventory,
+      items: nearMerchant.inventory.items.map(i =>
+        i.id === item.id
+          ? { ...i, quantity: i.quantity - quantity }
+          : i
+      )
+    };
+    merchantInventoriesRef.current.set(nearMerchant.id, nextInventory);
     setNearMerchant(prev => {
       if (!prev) return prev;
 
       return {
         ...prev,
-        inventory: {
-          ...prev.inventory,
-          items: prev.inventory.items.map(i =>
-            i.id === item.id
-              ? { ...i, quantity: i.quantity - quantity }
-              : i
-          )
-        }
+        inventory: nextInventory
       };
     });
-  }, [nearMerchant, playerStats.currency, playerStats.inventory, playerStats.maxInventorySlots, stats.simTime]);
+    recordTrade(item, quantity, 'buy');
+  }, [market, nearMerchant, playerStats.currency, playerStats.inventory, playerStats.maxInventorySlots, recordTrade, stats.simTime]);
 
-  const handleSell = useCallback((playerItem: import('./types').PlayerItem, quantity: number) => {
+  const handleSell = useCallback((playerItem: import('./types').PlayerItem, quantity: number, unitPrice?: number) => {
     if (!nearMerchant) return;
 
     // Find the base item
     const baseItem = nearMerchant.inventory.items.find(i => i.id === playerItem.itemId);
     if (!baseItem) return;
 
-    const sellPrice = Math.round(baseItem.basePrice * 0.7) * quantity;
+    const sellPrice = (unitPrice ?? getSellPrice(market, baseItem)) * quantity;
 
     // Check if player has enough to sell
     const inventoryItem = playerStats.inventory.find(i => i.id === playerItem.id);
@@ -1766,7 +2088,51 @@ function App() {
         inventory: newInventory
       };
     });
-  }, [nearMerchant, playerStats.inventory]);
+
+    // What the player sells goes on the merchant's shelf
+    const nextInventory: MerchantInventory = {
+      ...nearMerchant.inventory,
+      items: nearMerchant.inventory.items.map(i =>
+        i.id === baseItem.id
+          ? { ...i, quantity: i.quantity + quantity }
+          : i
+      )
+    };
+    merchantInventoriesRef.current.set(nearMerchant.id, nextInventory);
+    setNearMerchant(prev => (prev ? { ...prev, inventory: nextInventory } : prev));
+    recordTrade(baseItem, quantity, 'sell');
+  }, [market, nearMerchant, playerStats.inventory, recordTrade]);
+
+  // A finished haggle is remembered like a conversation: it moves the merchant's disposition and trust, and the player's name
+  // Sim day each merchant last granted the player respect for a bargain
+  const haggleRespectDayRef = useRef<Record<string, number>>({});
+
+  const handleHaggleResult = useCallback((merchant: MerchantNPC, outcome: HaggleOutcome) => {
+    const simTime = simTimeRef.current;
+    const day = Math.floor(simTime / 24);
+    const { impact, reputationDelta } = getHaggleImpact(outcome, haggleRespectDayRef.current[merchant.stats.id] === day);
+    if (reputationDelta > 0) haggleRespectDayRef.current[merchant.stats.id] = day;
+    const summary = summarizeHaggle(outcome, merchant, simTime, impact.sentiment);
+    setConversationHistories(prev => [...prev, summary]);
+    setNpcRelationships(prev => ({
+      ...prev,
+      [merchant.stats.id]: recordConversation(
+        prev[merchant.stats.id] ?? createRelationship(merchant.stats, simTime),
+        summary,
+        impact,
+        undefined,
+        simTime
+      )
+    }));
+    setNearMerchant(prev => {
+      if (!prev || prev.id !== merchant.id) return prev;
+      const { newDisposition, newPanicLevel } = applyConversationImpact(prev.stats, impact);
+      return { ...prev, stats: { ...prev.stats, disposition: newDisposition, panicLevel: newPanicLevel } };
+    });
+    if (reputationDelta !== 0) {
+      setPlayerStats(prev => ({ ...prev, reputation: Math.max(0, Math.min(100, prev.reputation + reputationDelta)) }));
+    }
+  }, []);
 
   // Loot modal handlers
   const handleLootAccept = useCallback((items: LootItem[]) => {
@@ -1817,13 +2183,6 @@ function App() {
       };
     });
 
-    if (isBirdcageTheft) {
-      setPlayerStats(prev => ({
-        ...prev,
-        reputation: Math.max(0, prev.reputation - 2)
-      }));
-    }
-
     // Show toast
     const itemNames = items.map(i => i.itemName).join(', ');
     setToastMessages(prev => [...prev, {
@@ -1835,16 +2194,75 @@ function App() {
     // Close modal
     setLootModalData(null);
 
-    if (isBirdcageTheft) {
+    const itemIds = items.map(item => item.itemId);
+    const chestId = lootModalData?.sourceId;
+    if (chestId) {
+      setLootedChests(prev => ({ ...prev, [chestId]: [...(prev[chestId] ?? []), ...itemIds] }));
+    }
+    if (!lootModalData?.isTheft) {
+      triggerItemPickup(itemIds);
+      return;
+    }
+    triggerItemTheft(itemIds);
+
+    // Whoever on the street can see the spot is a witness; the house it stands against is the owner.
+    // Indoors the position is room-local, so the house is the one we are in and only
+    // the people on this floor of it can see
+    const origin = lootModalData.sourcePosition;
+    const indoors = sceneMode === 'interior' && interiorBuilding !== null;
+    const registry = tileRegistriesRef.current.get(getTileKey(params.mapX, params.mapY));
+    const bystanders: Bystander[] = [];
+    if (indoors) {
+      const floorNpcs = interiorSpec?.floors?.[activeInteriorFloor]?.npcs ?? interiorSpec?.npcs ?? [];
+      floorNpcs.forEach((npc) => {
+        bystanders.push({ id: npc.id, name: npc.stats.name, profession: npc.stats.profession, state: npc.state, position: npc.position });
+      });
+    } else {
+      agentHashRef.current?.buckets.forEach((agents) => {
+        agents.forEach((agent) => {
+          const record = registry?.npcMap.get(agent.id);
+          if (!record) return;
+          bystanders.push({ id: agent.id, name: record.stats.name, profession: record.stats.profession, state: agent.state, position: [agent.pos.x, agent.pos.y, agent.pos.z] });
+        });
+      });
+      // Stall keepers keep an eye on the street too
+      tileMerchantsRef.current.forEach((merchant) => {
+        const keeper = merchantKeepers[merchant.id];
+        if (keeper && keeper.status !== 'open') return;
+        const keeperStats = keeper?.stats ?? merchant.stats;
+        bystanders.push({ id: keeperStats.id, name: keeperStats.name, profession: keeperStats.profession, state: AgentState.HEALTHY, position: merchant.position });
+      });
+    }
+    const { state: crimeState, record } = reportTheft({
+      simTime: stats.simTime,
+      district: getDistrictType(params.mapX, params.mapY),
+      locationName: lootModalData.sourceLocation ?? getLocationLabel(params.mapX, params.mapY),
+      owner: indoors ? interiorBuilding : origin ? findOwnerBuilding(origin, tileBuildings) : null,
+      items,
+      witnesses: origin ? findWitnesses(origin, bystanders, indoors ? [] : tileBuildings, params.timeOfDay) : []
+    });
+
+    if (willGuardsPursue(crimeState, record)) {
+      handleTriggerConversationEvent(GUARD_PURSUIT_EVENT_ID);
+    } else if (isBirdcageTheft && record.witnesses.length > 0) {
       const eventRoll = seededRandom(playerSeed + Math.floor(stats.simTime) * 7 + items.length * 11);
-      const eventId = eventRoll < 0.34
-        ? 'event_birdcage_theft_scolded'
-        : eventRoll < 0.67
-          ? 'event_birdcage_theft_neighbor'
-          : 'event_birdcage_theft_patrol';
+      const eventId = record.guardWitness
+        ? 'event_birdcage_theft_patrol'
+        : eventRoll < 0.5
+          ? 'event_birdcage_theft_scolded'
+          : 'event_birdcage_theft_neighbor';
       handleTriggerConversationEvent(eventId);
     }
-  }, [handleTriggerConversationEvent, lootModalData, playerSeed, playerStats.inventory, playerStats.maxInventorySlots, stats.simTime]);
+    if (record.witnesses.length > 0) {
+      setToastMessages(prev => [...prev, {
+        id: `theft-seen-${toastIdCounter.current++}`,
+        message: record.witnesses.length === 1
+          ? `${record.witnesses[0]} saw you take it`
+          : `${record.witnesses.length} people saw you take it`,
+        duration: 5000
+      }]);
+    }
+  }, [activeInteriorFloor, handleTriggerConversationEvent, interiorBuilding, interiorSpec, lootModalData, merchantKeepers, params.mapX, params.mapY, params.timeOfDay, playerSeed, playerStats.inventory, playerStats.maxInventorySlots, reportTheft, sceneMode, stats.simTime, tileBuildings, triggerItemPickup, triggerItemTheft]);
 
   const handleLootDecline = useCallback(() => {
     setLootModalData(null);
@@ -1884,6 +2302,46 @@ function App() {
     }));
   }, []);
 
+  // Barbers, hakims and the bimaristan within reach decide which treatments can be had
+  const treatmentProviders = useMemo(() => getTreatmentProviders(
+    nearSpeakableNpc?.stats.profession ?? null,
+    sceneMode === 'interior' ? interiorBuilding : nearBuilding
+  ), [interiorBuilding, nearBuilding, nearSpeakableNpc, sceneMode]);
+
+  const treatmentOptions = useMemo(
+    () => getTreatmentOptions(playerStats, treatmentProviders, stats.simTime),
+    [playerStats, treatmentProviders, stats.simTime]
+  );
+
+  const handleApplyTreatment = useCallback((treatmentId: PlagueTreatmentId) => {
+    const result = applyPlayerTreatment(playerStats, treatmentId, treatmentProviders, stats.simTime);
+    if (result.applied) {
+      setPlayerStats(prev => applyPlayerTreatment(prev, treatmentId, treatmentProviders, stats.simTime).stats);
+    }
+    const id = `treatment-${toastIdCounter.current++}`;
+    setToastMessages((prev) => [...prev, { id, message: result.message, duration: 8000 }]);
+  }, [playerStats, treatmentProviders, stats.simTime]);
+
+  const handleUseItem = useCallback((inventoryId: string) => {
+    const result = applyPlayerItem(playerStats, inventoryId, stats.simTime);
+    if (result.used) {
+      setPlayerStats(prev => applyPlayerItem(prev, inventoryId, stats.simTime).stats);
+    }
+    setPickupToast({ message: result.message, id: Date.now() });
+  }, [playerStats, stats.simTime]);
+
+  // Tell the player when a cloth dries out or incense burns down
+  const prevActiveEffectsRef = useRef(playerStats.activeEffects);
+  useEffect(() => {
+    const messages = getExpiredEffectMessages(prevActiveEffectsRef.current, playerStats.activeEffects, stats.simTime);
+    prevActiveEffectsRef.current = playerStats.activeEffects;
+    if (messages.length === 0) return;
+    setToastMessages((prev) => [
+      ...prev,
+      ...messages.map(message => ({ id: `effect-${toastIdCounter.current++}`, message, duration: 5000 }))
+    ]);
+  }, [playerStats.activeEffects, stats.simTime]);
+
   // Handle fall damage from jumping off rooftops
   const handleFallDamage = useCallback((fallHeight: number, fatal: boolean) => {
     if (fatal) {
@@ -2021,6 +2479,10 @@ function App() {
     moraleStats,
     actionSlots,
     onTriggerAction: triggerAction,
+    onAssignActionSlot: assignActionSlot,
+    treatmentOptions,
+    onApplyTreatment: handleApplyTreatment,
+    onUseItem: handleUseItem,
     onTriggerPush: triggerPush,
     simTime: stats.simTime,
     showPlayerModal,
@@ -2028,8 +2490,11 @@ function App() {
     showEncounterModal,
     setShowEncounterModal,
     conversationHistories,
+    npcRelationships,
+    storylines,
     onConversationResult: handleConversationResult,
     onTriggerConversationEvent: handleTriggerConversationEvent,
+    onDialogueAction: handleDialogueAction,
     selectedNpcActivity,
     selectedNpcNearbyInfected,
     selectedNpcNearbyDeceased,
@@ -2040,6 +2505,7 @@ function App() {
     llmEventsEnabled,
     setLlmEventsEnabled,
     lastEventNote,
+    llmEventLog,
     showDemographicsOverlay,
     setShowDemographicsOverlay,
     onForceNpcState: handleForceNpcState,
@@ -2055,6 +2521,13 @@ function App() {
     onDropItem: handleDropItem,
     onDropItemAtScreen: handleDropItemAtScreen,
     perfDebug,
+    onOpenSaveGames: () => handleOpenSaveModal('save'),
+    epidemicSeries,
+    market,
+    onExportEpidemicCsv: exportEpidemicCsv,
+    onExportEpidemicJson: exportEpidemicJson,
+    scenarioId,
+    onScenarioChange: handleScenarioChange,
     onTriggerEnterBuilding: () => {
       if (nearBuilding?.isOpen && !showEnterModal) {
         setShowEnterModal(true);
@@ -2073,6 +2546,7 @@ function App() {
     handleTriggerClimb,
     handleConversationResult,
     handleDebugEvent,
+    handleDialogueAction,
     handleDropItem,
     handleDropItemAtScreen,
     handleFastTravel,
@@ -2081,6 +2555,13 @@ function App() {
     handleNavigateToHousehold,
     handleOpenGuideEntry,
     handleOpenGuideModal,
+    handleOpenSaveModal,
+    epidemicSeries,
+    market,
+    exportEpidemicCsv,
+    exportEpidemicJson,
+    handleScenarioChange,
+    scenarioId,
     handleResetFollowingState,
     handleTriggerConversationEvent,
     infectedHouseholds,
@@ -2088,11 +2569,13 @@ function App() {
     isFollowingAfterDismissal,
     isNPCInitiatedEncounter,
     lastEventNote,
+    llmEventLog,
     llmEventsEnabled,
     minimapData,
     moraleStats,
     nearBuilding,
     nearbyNPCs,
+    npcRelationships,
     overworldPath,
     params,
     perfDebug,
@@ -2117,7 +2600,12 @@ function App() {
     showPlayerModal,
     stats.simTime,
     stats,
+    storylines,
     triggerAction,
+    assignActionSlot,
+    treatmentOptions,
+    handleApplyTreatment,
+    handleUseItem,
     triggerPush
   ]);
 
@@ -2136,9 +2624,11 @@ function App() {
     onClearSelectedNpc: handleClearSelectedNpc,
     onStatsUpdate: handleStatsUpdate,
     onMapChange: handleMapChange,
-    onNearBuilding: setNearBuilding,
+    onNearBuilding: handleNearBuilding,
     onBuildingsUpdate: handleBuildingsUpdate,
-    onNearMerchant: setNearMerchant,
+    onNearMerchant: handleNearMerchant,
+    onMerchantsChange: handleMerchantsChange,
+    merchantKeepers,
     onNearSpeakableNpc: setNearSpeakableNpc,
     onNpcSelect: setSelectedNpc,
     onNpcUpdate: handleNpcUpdate,
@@ -2150,15 +2640,18 @@ function App() {
     climbInputRef,
     pickupTriggerRef,
     climbTriggerRef,
-    onPickupItem: handlePickupItem,
+    onPickupItem: handlePickupWithTriggers,
     onWeatherUpdate: setCurrentWeather,
     onPushCharge: setPushCharge,
     pushTriggerRef,
+    agentHashRef,
     onMoraleUpdate: handleMoraleUpdate,
     actionEvent,
     showDemographicsOverlay,
     npcStateOverride,
     npcPool: outdoorNpcPool,
+    getNpcRecord,
+    ratColonies: activeRatColonies,
     buildingInfection: buildingInfectionState,
     onPlayerPositionUpdate: handlePlayerPositionUpdate,
     dossierMode: showPlayerModal,
@@ -2195,7 +2688,8 @@ function App() {
     handleMoraleUpdate,
     handleNPCInitiatedEncounter,
     handleNpcUpdate,
-    handlePickupItem,
+    getNpcRecord,
+    handlePickupWithTriggers,
     handlePlayerPositionUpdate,
     handlePlagueExposure,
     handlePlayerStartMove,
@@ -2208,6 +2702,7 @@ function App() {
     npcStateOverride,
     observeMode,
     outdoorNpcPool,
+    activeRatColonies,
     params,
     performanceMonitorConfig,
     playerStats,
@@ -2215,11 +2710,13 @@ function App() {
     selectedNpc?.stats.id,
     setIsClimbing,
     setMinimapData,
-    setNearBuilding,
+    handleNearBuilding,
+    handleMerchantsChange,
+    merchantKeepers,
     setNearChest,
     setNearStairs,
     setNearBirdcage,
-    setNearMerchant,
+    handleNearMerchant,
     setNearSpeakableNpc,
     setPickupPrompt,
     setClimbablePrompt,
@@ -2260,6 +2757,8 @@ function App() {
         onTriggerMerchant={handleTriggerMerchant}
         onPurchase={handlePurchase}
         onSell={handleSell}
+        onHaggleResult={handleHaggleResult}
+        districtReputation={districtReputation}
         showGuideModal={showGuideModal}
         selectedGuideEntryId={selectedGuideEntryId}
         onCloseGuideModal={() => {
@@ -2297,6 +2796,14 @@ function App() {
         onLootAccept={handleLootAccept}
         onLootDecline={handleLootDecline}
         onLootClose={handleLootClose}
+        saveModalMode={saveModalMode}
+        saveSlots={saveSlots}
+        saveNote={lastSaveNote}
+        onOpenSaveModal={handleOpenSaveModal}
+        onCloseSaveModal={() => setSaveModalMode(null)}
+        onSaveGame={saveGame}
+        onLoadGame={handleLoadSave}
+        onDeleteSave={deleteSave}
       />
 
       <SimulationShell {...simulationShellProps} />
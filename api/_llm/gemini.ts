@@ -0,0 +1,108 @@
+import type { LlmProvider, LlmRequest, LlmResult } from './types';
+import { readServerSentEvents } from '../../utils/sse';
+
+const DEFAULT_MODEL = 'gemini-2.5-flash-lite';
+
+interface GeminiUsageMetadata {
+  promptTokenCount?: number;
+  candidatesTokenCount?: number;
+}
+
+const readUsage = (metadata: GeminiUsageMetadata | undefined) => (metadata ? {
+  inputTokens: metadata.promptTokenCount ?? 0,
+  outputTokens: metadata.candidatesTokenCount ?? 0
+} : undefined);
+
+const SAFETY_SETTINGS = [
+  { category: 'HARM_CATEGORY_HARASSMENT', threshold: 'BLOCK_ONLY_HIGH' },
+  { category: 'HARM_CATEGORY_HATE_SPEECH', threshold: 'BLOCK_ONLY_HIGH' },
+  { category: 'HARM_CATEGORY_SEXUALLY_EXPLICIT', threshold: 'BLOCK_ONLY_HIGH' },
+  { category: 'HARM_CATEGORY_DANGEROUS_CONTENT', threshold: 'BLOCK_ONLY_HIGH' },
+];
+
+export const createGeminiProvider = (apiKey: string, model = DEFAULT_MODEL): LlmProvider => {
+  // Some keys only see a model on the stable API; try v1beta first and fall back on 404
+  const urls = (method: 'generateContent' | 'streamGenerateContent') => [
+    `https://generativelanguage.googleapis.com/v1beta/models/${model}:${method}`,
+    `https://generativelanguage.googleapis.com/v1/models/${model}:${method}`,
+  ];
+
+  const buildPayload = (request: LlmRequest) => ({
+    ...(request.system ? { systemInstruction: { role: 'system', parts: [{ text: request.system }] } } : {}),
+    contents: request.messages.map(message => ({ role: message.role, parts: [{ text: message.text }] })),
+    generationConfig: {
+      maxOutputTokens: request.maxOutputTokens,
+      temperature: request.temperature,
+      topP: request.topP ?? 0.9,
+      topK: request.topK ?? 40,
+      ...(request.jsonSchema ? { responseMimeType: 'application/json', responseJsonSchema: request.jsonSchema.schema } : {}),
+    },
+    safetySettings: SAFETY_SETTINGS,
+  });
+
+  const post = async (candidates: string[], query: string, request: LlmRequest) => {
+    let response: Response | null = null;
+    let errorText = '';
+    for (const url of candidates) {
+      response = await fetch(`${url}?${query}key=${apiKey}`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(buildPayload(request)),
+        signal: request.signal
+      });
+      if (response.ok) break;
+      errorText = await response.text();
+      if (response.status !== 404) break;
+    }
+    return { response, errorText };
+  };
+
+  const generate = async (request: LlmRequest): Promise<LlmResult> => {
+    const { response, errorText } = await post(urls('generateContent'), '', request);
+
+    if (!response || !response.ok) {
+      return { ok: false, status: response?.status ?? 500, error: 'Gemini API error', details: errorText };
+    }
+
+    const data = await response.json();
+    const text = data.candidates?.[0]?.content?.parts?.[0]?.text;
+    if (!text) {
+      return { ok: false, status: 500, error: 'No response from Gemini' };
+    }
+    return { ok: true, text, usage: readUsage(data.usageMetadata) };
+  };
+
+  const stream = async (request: LlmRequest, onText: (delta: string) => void): Promise<LlmResult> => {
+    const { response, errorText } = await post(urls('streamGenerateContent'), 'alt=sse&', request);
+
+    if (!response || !response.ok || !response.body) {
+      return { ok: false, status: response?.status ?? 500, error: 'Gemini API error', details: errorText };
+    }
+
+    let text = '';
+    let usage: GeminiUsageMetadata | undefined;
+    await readServerSentEvents(response.body, ({ data }) => {
+      try {
+        const chunk = JSON.parse(data);
+        // Each chunk repeats the running totals; the last is the whole reply's
+        if (chunk.usageMetadata) usage = chunk.usageMetadata;
+        const delta = (chunk.candidates?.[0]?.content?.parts ?? [])
+          .map((part: { text?: string }) => part.text ?? '')
+          .join('');
+        if (delta) {
+          text += delta;
+          onText(delta);
+        }
+      } catch {
+        // Keep-alives and partial frames carry no text
+      }
+    });
+
+    if (!text) {
+      return { ok: false, status: 500, error: 'No response from Gemini' };
+    }
+    return { ok: true, text, usage: readUsage(usage) };
+  };
+
+  return { id: 'gemini', model, generate, stream };
+};
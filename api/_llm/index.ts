@@ -0,0 +1,112 @@
+/**
+ * LLM Provider Selection
+ * The serverless routes ask for text through one interface; which backend
+ * answers is configuration:
+ *   LLM_PROVIDER=gemini|openai|offline (optional; picked from the keys present otherwise)
+ *   GEMINI_API_KEY, GEMINI_MODEL
+ *   OPENAI_API_KEY, OPENAI_BASE_URL, OPENAI_MODEL (any OpenAI-compatible server)
+ * With nothing configured, or when the chosen backend fails, the offline
+ * provider answers so the game stays playable. Transient failures (rate
+ * limits, 5xx, dropped connections) are retried with backoff first.
+ */
+
+import { createGeminiProvider } from './gemini';
+import { createOfflineProvider } from './offline';
+import { createOpenAiProvider } from './openai';
+import type { LlmProvider, LlmProviderId, LlmRequest, LlmResult } from './types';
+import { isTransientStatus, withRetry } from '../_middleware/retry';
+import { recordRetry } from '../_middleware/metrics';
+
+export type { LlmMessage, LlmProvider, LlmProviderId, LlmRequest, LlmResult, LlmUsage } from './types';
+
+const offlineProvider = createOfflineProvider();
+
+const createProvider = (id: LlmProviderId): LlmProvider | null => {
+  const env = process.env;
+  if (id === 'gemini') {
+    return env.GEMINI_API_KEY ? createGeminiProvider(env.GEMINI_API_KEY, env.GEMINI_MODEL || undefined) : null;
+  }
+  if (id === 'openai') {
+    // Local servers usually need no key, only a base URL
+    if (!env.OPENAI_API_KEY && !env.OPENAI_BASE_URL) return null;
+    return createOpenAiProvider({ apiKey: env.OPENAI_API_KEY, baseUrl: env.OPENAI_BASE_URL, model: env.OPENAI_MODEL });
+  }
+  return offlineProvider;
+};
+
+export const getLlmProvider = (): LlmProvider => {
+  const requested = process.env.LLM_PROVIDER?.toLowerCase() as LlmProviderId | undefined;
+  if (requested === 'gemini' || requested === 'openai' || requested === 'offline') {
+    const provider = createProvider(requested);
+    if (provider) return provider;
+    console.warn(`LLM_PROVIDER=${requested} is missing its configuration; using offline replies`);
+    return offlineProvider;
+  }
+  return createProvider('gemini') ?? createProvider('openai') ?? offlineProvider;
+};
+
+// Try the provider again while it fails in a way that may pass; `canRetry` can rule it out (e.g. text already sent)
+const retryTransient = (request: LlmRequest, attempt: () => Promise<LlmResult>, canRetry = () => true) => withRetry(attempt, {
+  shouldRetry: ({ result, error }) => {
+    if (!canRetry()) return false;
+    return error !== undefined ? !request.signal?.aborted : !result?.ok && isTransientStatus(result?.status);
+  },
+  onRetry: () => recordRetry(request.task),
+  signal: request.signal
+});
+
+/** Generate with the configured provider, answering offline if it errors or cannot be reached. */
+export const generateText = async (request: LlmRequest): Promise<LlmResult & { provider: LlmProviderId }> => {
+  const provider = getLlmProvider();
+  let failure: LlmResult = { ok: false, status: 502, error: `${provider.id} provider unreachable` };
+  try {
+    const result = provider.id === 'offline'
+      ? await provider.generate(request)
+      : await retryTransient(request, () => provider.generate(request));
+    if (result.ok || provider.id === 'offline') return { ...result, provider: provider.id };
+    console.error(`${provider.id} provider error:`, result.error, result.details ?? '');
+    failure = result;
+  } catch (error) {
+    if (provider.id === 'offline') throw error;
+    console.error(`${provider.id} provider unreachable:`, error);
+  }
+  const fallback = await offlineProvider.generate(request);
+  return fallback.ok ? { ...fallback, provider: 'offline' } : { ...failure, provider: provider.id };
+};
+
+/**
+ * Stream with the configured provider, calling onText as text arrives.
+ * Providers that cannot stream answer in one piece. Offline answers only if
+ * nothing was sent yet; a reply cut off midway is returned as an error.
+ */
+export const streamText = async (
+  request: LlmRequest,
+  onText: (delta: string) => void
+): Promise<LlmResult & { provider: LlmProviderId }> => {
+  const provider = getLlmProvider();
+  let sent = false;
+  const forward = (delta: string) => {
+    sent = true;
+    onText(delta);
+  };
+  const whole = async (from: LlmProvider) => {
+    const result = await from.generate(request);
+    if (result.ok && result.text) forward(result.text);
+    return result;
+  };
+
+  let failure: LlmResult = { ok: false, status: 502, error: `${provider.id} provider unreachable` };
+  try {
+    const attempt = () => (provider.stream ? provider.stream(request, forward) : whole(provider));
+    const result = provider.id === 'offline' ? await attempt() : await retryTransient(request, attempt, () => !sent);
+    if (result.ok || provider.id === 'offline') return { ...result, provider: provider.id };
+    console.error(`${provider.id} provider error:`, result.error, result.details ?? '');
+    failure = result;
+  } catch (error) {
+    if (provider.id === 'offline' || request.signal?.aborted) throw error;
+    console.error(`${provider.id} provider unreachable:`, error);
+  }
+  if (sent || request.signal?.aborted) return { ...failure, provider: provider.id };
+  const fallback = await whole(offlineProvider);
+  return fallback.ok ? { ...fallback, provider: 'offline' } : { ...failure, provider: provider.id };
+};
@@ -0,0 +1,227 @@
+/**
+ * Offline Provider
+ * Templated, deterministic stand-ins for the language model, written from the
+ * structured context the client already sends. The same request always gives
+ * the same reply, so the game plays and tests the same without a network.
+ */
+
+import type { EncounterContext, EventContextSnapshot, NpcDialogueAction, Religion } from '../../types';
+import type { LlmProvider, LlmRequest, LlmResult } from './types';
+import { analyzeConversationImpact } from '../../utils/friendliness';
+
+const hashText = (text: string) => {
+  let hash = 2166136261;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 16777619);
+  }
+  return hash >>> 0;
+};
+
+const pick = <T,>(items: T[], key: string, salt = 0): T => items[(hashText(key) + salt) % items.length];
+
+const faithOf = (religion: Religion | string) => {
+  if (/Islam|Ismaili/.test(religion)) return 'muslim';
+  if (/Jewish|Samaritan/.test(religion)) return 'jewish';
+  if (religion === 'Druze') return 'druze';
+  return 'christian';
+};
+
+const BLESSINGS: Record<string, string[]> = {
+  muslim: ['Peace be upon you.', 'God is merciful.', 'As God wills.'],
+  christian: ['God keep you.', 'Christ have mercy on us.', 'Peace be with you.'],
+  jewish: ['Shalom.', 'May the Holy One guard you.', 'Peace on your house.'],
+  druze: ['Peace upon you.', 'May the One keep you.', 'God is generous.']
+};
+
+const TOPICS: Array<{ id: string; pattern: RegExp }> = [
+  { id: 'farewell', pattern: /\b(bye|farewell|goodbye|leave you|must go|peace be with you)\b/i },
+  { id: 'plague', pattern: /\b(plague|pestilence|sick|illness|death|dying|dead|fever|bubo|disease|mortality)\b/i },
+  { id: 'trade', pattern: /\b(buy|sell|price|trade|coin|dirham|market|goods|wares)\b/i },
+  { id: 'directions', pattern: /\b(where|which way|way to|directions|how do i get|how do i find)\b/i },
+  { id: 'faith', pattern: /\b(god|allah|pray|prayer|mosque|church|synagogue|faith|sin|heaven)\b/i },
+  { id: 'family', pattern: /\b(family|wife|husband|children|child|son|daughter|mother|father)\b/i },
+  { id: 'self', pattern: /\b(who are you|your name|what do you do|your work|your trade)\b/i }
+];
+
+// Catalogue goods an ordinary townsperson might have to spare, with their asking price
+const SPARE_GOODS: Array<{ item: string; price: number }> = [
+  { item: 'Dried Figs', price: 3 },
+  { item: 'Olives', price: 4 },
+  { item: 'Dates', price: 4 },
+  { item: 'Lemons', price: 4 },
+  { item: 'Mint Leaves', price: 3 }
+];
+
+const PLACES = ['the Umayyad Mosque', 'the Bimaristan al-Nuri', 'the Straight Street', 'Bab Tuma', 'the Suq al-Buzuriyya', 'the citadel'];
+
+const timeLabel = (hour: number) => (
+  hour < 5 ? 'deep night' : hour < 12 ? 'morning' : hour < 17 ? 'afternoon' : hour < 20 ? 'evening' : 'night'
+);
+
+const END: NpcDialogueAction = { type: 'end_conversation' };
+
+const chatReply = (context: EncounterContext, messages: LlmRequest['messages']): { message: string; action: NpcDialogueAction | null } => {
+  const { npc, environment } = context;
+  const last = messages[messages.length - 1]?.text ?? '';
+  const key = `${npc.id}:${messages.length}:${last}`;
+  const blessing = pick(BLESSINGS[faithOf(npc.religion)], key);
+  const work = npc.profession.toLowerCase();
+  const frightened = npc.panicLevel > 60;
+  const cold = npc.disposition < 30;
+  const warm = npc.disposition >= 70;
+
+  if (context.isFollowingAfterDismissal) {
+    if (frightened) return { message: 'WATCH! WATCH! THIS ONE WILL NOT LEAVE ME BE!', action: { type: 'call_guard' } };
+    return { message: pick(['Why do you follow me? Leave me be!', '*steps back sharply* I told you, go away.', 'Stop dogging my steps or I will call the watch.'], key), action: END };
+  }
+
+  if (last.startsWith('[SYSTEM:')) {
+    if (frightened) return { message: pick(['*keeps a wary distance* What is it? Be quick.', 'Not too close. What do you want?', '*covers mouth with a sleeve* Yes?'], key), action: null };
+    if (cold) return { message: pick(['What do you want?', '*barely looks up* Yes?', 'I am busy. Speak.'], key), action: null };
+    return { message: `${blessing} ${pick([`I am ${npc.name}, a ${work}.`, `You find me at my work this ${timeLabel(environment.timeOfDay)}.`, `What brings you to the ${environment.district.toLowerCase()} quarter?`], key, 1)}`, action: null };
+  }
+
+  const topic = TOPICS.find(entry => entry.pattern.test(last))?.id ?? 'other';
+  const playerTurns = messages.filter(message => message.role === 'user').length;
+
+  switch (topic) {
+    case 'farewell':
+      return { message: pick([`${blessing} Go carefully.`, 'Go, then. Keep away from the sick.', `${blessing} Until another day, if God grants it.`], key), action: END };
+    case 'plague': {
+      const seen = environment.nearbyDeceased > 0
+        ? `I have seen ${environment.nearbyDeceased === 1 ? 'a body' : 'bodies'} carried past this very ${timeLabel(environment.timeOfDay)}.`
+        : environment.nearbyInfected > 0
+          ? 'There is sickness close by; I hear the coughing through the walls.'
+          : 'They say it came up from Gaza with the caravans.';
+      return { message: frightened ? `*voice drops* Do not speak of it. ${seen}` : `${seen} ${pick(['Every household keeps its doors shut now.', 'The washers of the dead cannot keep pace.', 'The physicians burn herbs and bleed the sick, for all the good it does.'], key)}`, action: null };
+    }
+    case 'trade': {
+      if (!cold && !frightened) {
+        const good = pick(SPARE_GOODS, key, 4);
+        return { message: `I have some ${good.item.toLowerCase()} put by. ${good.price} dirhams, and they are yours; it is more than they cost last month.`, action: { type: 'offer_item', item: good.item, price: good.price } };
+      }
+      return { message: pick(['Prices climb every day; half the carters will not come into the city.', `A ${work} earns little when no one leaves their house.`, 'Bread costs twice what it did at the new moon.'], key), action: null };
+    }
+    case 'faith':
+      return { message: `${blessing} ${pick(['The prayers are longer now, and the crowds thinner.', 'Some say it is a punishment, others a martyrdom. I do not know.', 'I pray for my neighbours more than for myself.'], key, 2)}`, action: null };
+    case 'family':
+      if (warm && playerTurns >= 2) {
+        return { message: `My ${npc.gender === 'Female' ? 'husband' : 'wife'} would scold me for keeping a decent person standing in the street. Come and eat with us one evening.`, action: { type: 'invite_home' } };
+      }
+      return { message: pick(['My family is well, thanks be to God. For now.', 'Do not ask about my family. *looks away*', 'My children stay indoors; I will not let them near the market.'], key), action: null };
+    case 'self':
+      return { message: `I am ${npc.name}, ${npc.age} years a ${npc.gender === 'Female' ? 'daughter' : 'son'} of this city, and a ${work} by trade.`, action: null };
+    case 'directions': {
+      if (cold) return { message: 'Ask someone else. I am no guide.', action: null };
+      const place = pick(PLACES, key);
+      return { message: `For ${place}? Keep to the main lane and ask again at the fountain; you will not miss it.`, action: { type: 'reveal_location', location: place } };
+    }
+    default:
+      break;
+  }
+
+  // Curt NPCs lose patience after a few exchanges
+  if (cold && playerTurns >= 3) {
+    return { message: 'Enough. I have work to do.', action: END };
+  }
+  // The poor ask for a little help once they have talked a while
+  if (npc.socialClass === 'Peasant' && playerTurns === 3 && !cold) {
+    return { message: 'Forgive me for asking. Could you spare a few coins? Work has dried up since the sickness came.', action: { type: 'request_payment', amount: 2, reason: 'for bread' } };
+  }
+  const rumor = environment.localRumors[0];
+  const replies = [
+    rumor ? `Have you heard? ${rumor}` : 'The city is quieter than I have ever known it.',
+    `*${pick(['shrugs', 'nods slowly', 'frowns'], key, 3)}* I am only a ${work}; I know little of such things.`,
+    `Perhaps. In these days it is hard to think of anything but the sickness.`
+  ];
+  const index = (hashText(key) + playerTurns) % replies.length;
+  return {
+    message: replies[index],
+    action: index === 0 && rumor ? { type: 'share_rumor', rumor } : null
+  };
+};
+
+const eventReply = (context: EventContextSnapshot, seed: string | undefined) => {
+  const key = `${seed ?? ''}:${context.player.id}:${context.environment.district}:${Math.floor(context.environment.timeOfDay)}`;
+  const district = context.environment.district.toLowerCase();
+  if (context.npc) {
+    const { npc } = context;
+    const angry = npc.disposition < 35 || npc.panic > 60;
+    return {
+      title: angry ? `${npc.name} Bars the Way` : `A Request from ${npc.name}`,
+      body: angry
+        ? `${npc.name}, a ${npc.profession.toLowerCase()}, blocks your path, eyes wide with fear. Others in the ${district} turn to watch.`
+        : `${npc.name}, a ${npc.profession.toLowerCase()}, asks for help finding medicine for a sick neighbour.`,
+      options: angry
+        ? [
+          { id: 'calm', label: 'Speak calmly', requirements: { stat: 'charisma', min: 10 }, effects: [{ type: 'npcStat', stat: 'panic', delta: -10 }] },
+          { id: 'pay', label: 'Offer a few coins', requirements: { stat: 'currency', min: 5 }, effects: [{ type: 'playerStat', stat: 'currency', delta: -2 }] },
+          { id: 'flee', label: 'Turn and go', effects: [{ type: 'worldFlag', key: 'fled', value: true }] }
+        ]
+        : [
+          { id: 'give', label: 'Give what coin you can', outcomeText: 'The neighbour blesses your name.', effects: [{ type: 'playerStat', stat: 'wealth', delta: -4 }, { type: 'npcStat', stat: 'disposition', delta: 10 }] },
+          { id: 'pray', label: 'Offer to pray with them', effects: [{ type: 'playerStat', stat: 'piety', delta: 1 }] },
+          { id: 'refuse', label: 'Refuse politely', effects: [] }
+        ]
+    };
+  }
+  const scene = pick([
+    { title: 'A Cart of the Dead', body: `A cart heaped with shrouded bodies creaks through the ${district}. The driver calls for help with a fallen load.`, options: [
+      { id: 'help', label: 'Help lift the bodies', effects: [{ type: 'playerStat', stat: 'reputation', delta: 3 }, { type: 'playerStat', stat: 'health', delta: -2 }] },
+      { id: 'avoid', label: 'Keep your distance', effects: [] }
+    ] },
+    { title: 'Crowd at the Well', body: `A crowd quarrels at the well in the ${district} over rumours that the water is poisoned.`, options: [
+      { id: 'calm', label: 'Try to calm them', requirements: { stat: 'charisma', min: 10 }, effects: [{ type: 'worldFlag', key: 'calmed_crowd', value: true }, { type: 'playerStat', stat: 'reputation', delta: 2 }] },
+      { id: 'leave', label: 'Slip away', effects: [] },
+      { id: 'join', label: 'Shout with them', effects: [{ type: 'worldFlag', key: 'escalated', value: true }, { type: 'playerStat', stat: 'reputation', delta: -2 }] }
+    ] },
+    { title: 'A Beggar\'s Plea', body: 'A thin beggar clutches your sleeve, pleading for a coin in the name of God.', options: [
+      { id: 'give', label: 'Give a coin', requirements: { stat: 'currency', min: 1 }, effects: [{ type: 'playerStat', stat: 'currency', delta: -1 }, { type: 'playerStat', stat: 'piety', delta: 1 }] },
+      { id: 'bless', label: 'Offer a blessing', effects: [{ type: 'playerStat', stat: 'piety', delta: 1 }] },
+      { id: 'pull', label: 'Pull free', effects: [{ type: 'playerStat', stat: 'reputation', delta: -3 }] }
+    ] }
+  ], key);
+  return scene;
+};
+
+const observeLines = (prompt: string) => {
+  const field = (label: string) => prompt.match(new RegExp(`^${label}: (.*)$`, 'm'))?.[1]?.trim() ?? '';
+  const location = field('Location').replace(/\s*\(.*$|\.$/g, '') || 'quarter';
+  const scene = field('Scene').replace(/\.$/, '');
+  const time = field('Time').split('(')[0].trim() || 'day';
+  const weather = field('Time').match(/Weather: (.*?)\.?$/)?.[1]?.toLowerCase() || 'still';
+  const nearby = field('Nearby').replace(/\.$/, '').split(',')[0]?.trim();
+  const key = prompt;
+
+  const opening = scene === 'inside'
+    ? pick(['A rush mat lies askew by the door, one corner curled from the damp.', 'Light falls in a narrow bar across the floor and stops short of the far wall.', 'Someone has left a bowl half full of lentils, already skinned over.'], key)
+    : pick([`In the ${location}, shutters stay closed well into the ${time}.`, `Across the ${location} a dog noses at a heap of swept straw.`, `Along the lane the ${weather} weather has left the stones dull and the gutters quiet.`], key);
+  const middle = nearby
+    ? pick([`By the ${nearby} a chalk mark on the door has been rubbed half away.`, `The ${nearby} stands with its door barred.`, `Smoke rises thinly from behind the ${nearby}.`], key, 1)
+    : pick(['A water-seller passes without calling his wares.', 'Two men carry a covered litter at a fast walk.', 'Somewhere a child counts aloud and stops.'], key, 1);
+  const closing = pick(['Nobody lingers.', 'Flies, mostly.', 'Then quiet again.', 'The call to prayer comes late.'], key, 2);
+  return [opening, middle, closing].join('\n');
+};
+
+export const createOfflineProvider = (): LlmProvider => {
+  const generate = async (request: LlmRequest): Promise<LlmResult> => {
+    if (request.task === 'chat') {
+      if (!request.encounter) return { ok: false, status: 400, error: 'Offline chat needs the encounter context' };
+      return { ok: true, text: JSON.stringify(chatReply(request.encounter, request.messages)) };
+    }
+    if (request.task === 'event') {
+      if (!request.event) return { ok: false, status: 400, error: 'Offline events need the event context' };
+      return { ok: true, text: JSON.stringify(eventReply(request.event.context, request.event.seed)) };
+    }
+    if (request.task === 'impact') {
+      // The keyword lexicon is the offline judge of how a conversation landed
+      if (!request.impact) return { ok: false, status: 400, error: 'Offline impact needs the conversation' };
+      return { ok: true, text: JSON.stringify(analyzeConversationImpact(request.impact.messages)) };
+    }
+    const prompt = request.messages.map(message => message.text).join('\n');
+    return { ok: true, text: observeLines(prompt) };
+  };
+
+  return { id: 'offline', model: 'templates', generate };
+};
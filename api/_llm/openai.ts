@@ -0,0 +1,100 @@
+import type { LlmProvider, LlmRequest, LlmResult } from './types';
+import { readServerSentEvents } from '../../utils/sse';
+
+const DEFAULT_BASE_URL = 'https://api.openai.com/v1';
+const DEFAULT_MODEL = 'gpt-4o-mini';
+
+interface OpenAiUsage {
+  prompt_tokens?: number;
+  completion_tokens?: number;
+}
+
+const readUsage = (usage: OpenAiUsage | undefined) => (usage ? {
+  inputTokens: usage.prompt_tokens ?? 0,
+  outputTokens: usage.completion_tokens ?? 0
+} : undefined);
+
+/**
+ * Any server speaking the OpenAI chat completions API: OpenAI itself, or a
+ * local llama.cpp / Ollama / vLLM endpoint (which usually need no key).
+ */
+export const createOpenAiProvider = (options: { apiKey?: string; baseUrl?: string; model?: string }): LlmProvider => {
+  const baseUrl = (options.baseUrl || DEFAULT_BASE_URL).replace(/\/+$/, '');
+  const model = options.model || DEFAULT_MODEL;
+
+  const post = (request: LlmRequest, stream: boolean) => {
+    const messages = [
+      ...(request.system ? [{ role: 'system', content: request.system }] : []),
+      ...request.messages.map(message => ({
+        role: message.role === 'model' ? 'assistant' : 'user',
+        content: message.text
+      }))
+    ];
+
+    return fetch(`${baseUrl}/chat/completions`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...(options.apiKey ? { Authorization: `Bearer ${options.apiKey}` } : {})
+      },
+      body: JSON.stringify({
+        model,
+        messages,
+        max_tokens: request.maxOutputTokens,
+        temperature: request.temperature,
+        top_p: request.topP ?? 0.9,
+        ...(request.jsonSchema ? { response_format: { type: 'json_schema', json_schema: request.jsonSchema } } : {}),
+        // Usage arrives in a last chunk of its own when asked for
+        ...(stream ? { stream: true, stream_options: { include_usage: true } } : {})
+      }),
+      signal: request.signal
+    });
+  };
+
+  const generate = async (request: LlmRequest): Promise<LlmResult> => {
+    const response = await post(request, false);
+
+    if (!response.ok) {
+      return { ok: false, status: response.status, error: 'OpenAI-compatible API error', details: await response.text() };
+    }
+
+    const data = await response.json();
+    const text = data.choices?.[0]?.message?.content;
+    if (!text) {
+      return { ok: false, status: 500, error: 'No response from OpenAI-compatible API' };
+    }
+    return { ok: true, text, usage: readUsage(data.usage) };
+  };
+
+  const stream = async (request: LlmRequest, onText: (delta: string) => void): Promise<LlmResult> => {
+    const response = await post(request, true);
+
+    if (!response.ok || !response.body) {
+      return { ok: false, status: response.status, error: 'OpenAI-compatible API error', details: await response.text() };
+    }
+
+    let text = '';
+    let usage: OpenAiUsage | undefined;
+    await readServerSentEvents(response.body, ({ data }) => {
+      if (data === '[DONE]') return;
+      try {
+        const chunk = JSON.parse(data);
+        if (chunk.usage) usage = chunk.usage;
+        const delta = chunk.choices?.[0]?.delta?.content;
+        if (typeof delta === 'string' && delta) {
+          text += delta;
+          onText(delta);
+        }
+      } catch {
+        // Some local servers interleave non-JSON status lines
+      }
+    });
+
+    if (!text) {
+      return { ok: false, status: 500, error: 'No response from OpenAI-compatible API' };
+    }
+    return { ok: true, text, usage: readUsage(usage) };
+  };
+
+  return { id: 'openai', model, generate, stream };
+};
@@ -0,0 +1,52 @@
+import type { ConversationMessage, EncounterContext, EventContextSnapshot } from '../../types';
+
+export type LlmProviderId = 'gemini' | 'openai' | 'offline';
+
+export type LlmTask = 'chat' | 'event' | 'observe' | 'impact';
+
+export interface LlmMessage {
+  role: 'user' | 'model';
+  text: string;
+}
+
+export interface LlmRequest {
+  task: LlmTask;
+  system?: string;
+  messages: LlmMessage[];
+  maxOutputTokens: number;
+  temperature: number;
+  topP?: number;
+  topK?: number;
+  /** Structured context the offline provider writes from instead of reading the prompt. */
+  encounter?: EncounterContext;
+  event?: { context: EventContextSnapshot; seed?: string };
+  impact?: { messages: ConversationMessage[] };
+  /** Constrain the reply to JSON matching this schema, where the provider supports it */
+  jsonSchema?: { name: string; schema: object };
+  /** Aborts the upstream request, e.g. when the player closes the conversation */
+  signal?: AbortSignal;
+}
+
+export interface LlmUsage {
+  inputTokens: number;
+  outputTokens: number;
+}
+
+/** `text` when ok; otherwise an HTTP status and error for the route to pass on. */
+export interface LlmResult {
+  ok: boolean;
+  text?: string;
+  /** Tokens billed, when the provider reports them */
+  usage?: LlmUsage;
+  status?: number;
+  error?: string;
+  details?: string;
+}
+
+export interface LlmProvider {
+  id: LlmProviderId;
+  model: string;
+  generate: (request: LlmRequest) => Promise<LlmResult>;
+  /** Like generate, calling onText with each piece of text as it arrives; `text` is still the whole reply. */
+  stream?: (request: LlmRequest, onText: (delta: string) => void) => Promise<LlmResult>;
+}
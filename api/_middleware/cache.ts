@@ -0,0 +1,16 @@
+import { createHash } from 'crypto';
+import type { LlmProviderId, LlmResult } from '../_llm/types';
+import type { MiddlewareStore } from './store';
+
+export type CachedReply = LlmResult & { provider: LlmProviderId };
+
+/** A short stable key for everything that decides a reply (prompt, seed, settings) */
+export const cacheKey = (route: string, parts: unknown[]) => (
+  `cache:${route}:${createHash('sha256').update(JSON.stringify(parts)).digest('hex').slice(0, 32)}`
+);
+
+export const readCachedReply = (store: MiddlewareStore, key: string) => store.get<CachedReply>(key);
+
+export const writeCachedReply = (store: MiddlewareStore, key: string, reply: CachedReply, ttlMs: number) => (
+  store.set<CachedReply>(key, reply, ttlMs)
+);
@@ -0,0 +1,125 @@
+/**
+ * LLM Route Middleware
+ * Wraps an api/ handler so every model call it makes goes through the same
+ * policy: a token-bucket rate limit per client and route, a reply cache for
+ * prompts that should always read the same (the observe prompt and its seed),
+ * and latency/usage counters for /api/metrics. Retries of transient provider
+ * failures happen below this, in _llm.
+ *
+ * The client names its session in an X-Session-Id header; without one the
+ * caller's address stands in. Buckets are keyed on the address alone, since a
+ * client can send a new session id with every request. State lives in a
+ * MiddlewareStore, in memory unless a route is given another.
+ */
+
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { generateText, getLlmProvider, streamText } from '../_llm';
+import type { LlmProviderId, LlmRequest, LlmResult } from '../_llm';
+import { cacheKey, readCachedReply, writeCachedReply } from './cache';
+import { LlmRouteId, recordProviderReply, recordRequest } from './metrics';
+import { TokenBucketConfig, takeToken } from './rateLimit';
+import { MiddlewareStore, createMemoryStore } from './store';
+
+export type { MiddlewareStore } from './store';
+export type { TokenBucketConfig } from './rateLimit';
+
+export interface LlmRouteOptions {
+  rateLimit?: TokenBucketConfig;
+  /** How long a cached reply is served; routes without it never cache */
+  cacheTtlMs?: number;
+  store?: MiddlewareStore;
+}
+
+export interface LlmRouteContext {
+  sessionId: string;
+  /**
+   * generateText, counted. With `cacheParts` (everything that decides the
+   * reply) a fresh reply from the configured provider is cached, and a
+   * cached one is served instead of calling it.
+   */
+  generate: (request: LlmRequest, cacheParts?: unknown[]) => Promise<LlmResult & { provider: LlmProviderId }>;
+  /** streamText, counted; streams are never cached */
+  stream: (request: LlmRequest, onText: (delta: string) => void) => Promise<LlmResult & { provider: LlmProviderId }>;
+}
+
+type LlmRouteHandler = (req: VercelRequest, res: VercelResponse, context: LlmRouteContext) => Promise<unknown>;
+
+/** Bursts a player can reasonably cause, refilling at a pace no one talks or looks around faster than */
+export const LLM_ROUTE_LIMITS: Record<LlmRouteId, TokenBucketConfig> = {
+  chat: { capacity: 12, refillPerSecond: 0.2 },
+  event: { capacity: 6, refillPerSecond: 0.05 },
+  observe: { capacity: 6, refillPerSecond: 0.1 },
+  impact: { capacity: 12, refillPerSecond: 0.2 }
+};
+
+const sharedStore = createMemoryStore();
+
+const header = (req: VercelRequest, name: string) => {
+  const value = req.headers[name];
+  return Array.isArray(value) ? value[0] : value;
+};
+
+/** The caller's address; Vercel overwrites X-Forwarded-For, so its first entry is the client */
+export const getClientAddress = (req: VercelRequest): string => {
+  const forwarded = header(req, 'x-forwarded-for')?.split(',')[0]?.trim();
+  return forwarded || req.socket?.remoteAddress || 'unknown';
+};
+
+export const getSessionId = (req: VercelRequest): string => {
+  const session = header(req, 'x-session-id')?.replace(/[^a-zA-Z0-9_-]/g, '').slice(0, 64);
+  return session || `ip:${getClientAddress(req)}`;
+};
+
+export const withLlmRoute = (route: LlmRouteId, handler: LlmRouteHandler, options: LlmRouteOptions = {}) => {
+  const store = options.store ?? sharedStore;
+  const rateLimit = options.rateLimit ?? LLM_ROUTE_LIMITS[route];
+
+  return async (req: VercelRequest, res: VercelResponse) => {
+    const startedAt = Date.now();
+    const sessionId = getSessionId(req);
+    let cached = false;
+
+    // Only calls that reach a model spend a token; a 405 is the handler's to give
+    if (req.method === 'POST') {
+      const limit = await takeToken(store, `rate:${route}:${getClientAddress(req)}`, rateLimit, startedAt);
+      res.setHeader('X-RateLimit-Remaining', String(limit.remaining));
+      if (!limit.allowed) {
+        res.setHeader('Retry-After', String(Math.ceil(limit.retryAfterMs / 1000)));
+        recordRequest(route, { status: 429, latencyMs: Date.now() - startedAt });
+        return res.status(429).json({ error: 'Too many requests', retryAfterMs: limit.retryAfterMs });
+      }
+    }
+
+    const context: LlmRouteContext = {
+      sessionId,
+      generate: async (request, cacheParts) => {
+        const key = options.cacheTtlMs && cacheParts ? cacheKey(route, cacheParts) : null;
+        if (key) {
+          const hit = await readCachedReply(store, key);
+          if (hit) {
+            cached = true;
+            return hit;
+          }
+        }
+        const result = await generateText(request);
+        recordProviderReply(route, result.provider, result.usage);
+        // An offline stand-in for a failed provider should not outlive the failure
+        if (key && options.cacheTtlMs && result.ok && result.provider === getLlmProvider().id) {
+          await writeCachedReply(store, key, result, options.cacheTtlMs);
+        }
+        return result;
+      },
+      stream: async (request, onText) => {
+        const result = await streamText(request, onText);
+        recordProviderReply(route, result.provider, result.usage);
+        return result;
+      }
+    };
+
+    try {
+      return await handler(req, res, context);
+    } finally {
+      recordRequest(route, { status: res.statusCode, latencyMs: Date.now() - startedAt, cached });
+    }
+  };
+};
@@ -0,0 +1,120 @@
+/**
+ * Counters for the LLM routes, kept in memory per server instance and read
+ * by /api/metrics for the dev panel.
+ */
+
+import type { LlmTask, LlmUsage } from '../_llm/types';
+
+/** One route per LLM task */
+export type LlmRouteId = LlmTask;
+
+export interface RouteMetrics {
+  requests: number;
+  /** Replies with a 4xx/5xx status, rate limiting aside */
+  errors: number;
+  rateLimited: number;
+  cacheHits: number;
+  retries: number;
+  latency: { count: number; totalMs: number; maxMs: number; p50Ms: number; p95Ms: number };
+  /** Replies by the provider that wrote them */
+  providers: Record<string, number>;
+  usage: LlmUsage;
+}
+
+export interface MetricsSnapshot {
+  since: number;
+  routes: Partial<Record<LlmRouteId, RouteMetrics>>;
+}
+
+// Latency percentiles come from the most recent samples only
+const LATENCY_SAMPLES = 200;
+
+interface RouteCounters extends Omit<RouteMetrics, 'latency'> {
+  latencyCount: number;
+  latencyTotalMs: number;
+  latencyMaxMs: number;
+  samples: number[];
+}
+
+let since = Date.now();
+const routes = new Map<LlmRouteId, RouteCounters>();
+
+const counters = (route: LlmRouteId): RouteCounters => {
+  let entry = routes.get(route);
+  if (!entry) {
+    entry = {
+      requests: 0,
+      errors: 0,
+      rateLimited: 0,
+      cacheHits: 0,
+      retries: 0,
+      providers: {},
+      usage: { inputTokens: 0, outputTokens: 0 },
+      latencyCount: 0,
+      latencyTotalMs: 0,
+      latencyMaxMs: 0,
+      samples: []
+    };
+    routes.set(route, entry);
+  }
+  return entry;
+};
+
+export const recordRequest = (route: LlmRouteId, outcome: { status: number; latencyMs: number; cached?: boolean }) => {
+  const entry = counters(route);
+  entry.requests += 1;
+  if (outcome.status === 429) entry.rateLimited += 1;
+  else if (outcome.status >= 400) entry.errors += 1;
+  if (outcome.cached) entry.cacheHits += 1;
+  entry.latencyCount += 1;
+  entry.latencyTotalMs += outcome.latencyMs;
+  entry.latencyMaxMs = Math.max(entry.latencyMaxMs, outcome.latencyMs);
+  entry.samples.push(outcome.latencyMs);
+  if (entry.samples.length > LATENCY_SAMPLES) entry.samples.shift();
+};
+
+export const recordRetry = (route: LlmRouteId) => {
+  counters(route).retries += 1;
+};
+
+export const recordProviderReply = (route: LlmRouteId, provider: string, usage?: LlmUsage) => {
+  const entry = counters(route);
+  entry.providers[provider] = (entry.providers[provider] ?? 0) + 1;
+  if (usage) {
+    entry.usage.inputTokens += usage.inputTokens;
+    entry.usage.outputTokens += usage.outputTokens;
+  }
+};
+
+const percentile = (sorted: number[], p: number) => (
+  sorted.length === 0 ? 0 : sorted[Math.min(sorted.length - 1, Math.floor((p / 100) * sorted.length))]
+);
+
+export const getMetricsSnapshot = (): MetricsSnapshot => {
+  const snapshot: MetricsSnapshot = { since, routes: {} };
+  routes.forEach((entry, route) => {
+    const sorted = [...entry.samples].sort((a, b) => a - b);
+    snapshot.routes[route] = {
+      requests: entry.requests,
+      errors: entry.errors,
+      rateLimited: entry.rateLimited,
+      cacheHits: entry.cacheHits,
+      retries: entry.retries,
+      latency: {
+        count: entry.latencyCount,
+        totalMs: entry.latencyTotalMs,
+        maxMs: entry.latencyMaxMs,
+        p50Ms: percentile(sorted, 50),
+        p95Ms: percentile(sorted, 95)
+      },
+      providers: { ...entry.providers },
+      usage: { ...entry.usage }
+    };
+  });
+  return snapshot;
+};
+
+export const resetMetrics = () => {
+  routes.clear();
+  since = Date.now();
+};
@@ -0,0 +1,142 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { CachedReply, cacheKey, readCachedReply, writeCachedReply } from './cache';
+import metricsHandler from '../metrics';
+import { withLlmRoute } from './index';
+import { takeToken } from './rateLimit';
+import { createMemoryStore } from './store';
+
+const fakeRequest = (headers: Record<string, string>): VercelRequest => (
+  { method: 'POST', headers, body: {}, socket: { remoteAddress: '10.0.0.1' } } as unknown as VercelRequest
+);
+
+const fakeResponse = () => {
+  const res = {
+    statusCode: 200,
+    headers: {} as Record<string, string>,
+    body: undefined as unknown,
+    setHeader(name: string, value: string) {
+      res.headers[name] = value;
+      return res;
+    },
+    status(code: number) {
+      res.statusCode = code;
+      return res;
+    },
+    json(body: unknown) {
+      res.body = body;
+      return res;
+    }
+  };
+  return res;
+};
+
+describe('createMemoryStore', () => {
+  it('forgets entries once their ttl has passed', async () => {
+    let now = 0;
+    const store = createMemoryStore({ now: () => now });
+    await store.set('a', 1, 1000);
+    await store.set('b', 2);
+    now = 999;
+    expect(await store.get('a')).toBe(1);
+    now = 1000;
+    expect(await store.get('a')).toBeUndefined();
+    expect(await store.get('b')).toBe(2);
+  });
+
+  it('evicts the least recently used entry past maxEntries', async () => {
+    const store = createMemoryStore({ maxEntries: 2 });
+    await store.set('a', 1);
+    await store.set('b', 2);
+    await store.get('a');
+    await store.set('c', 3);
+    expect(await store.get('a')).toBe(1);
+    expect(await store.get('b')).toBeUndefined();
+    expect(await store.get('c')).toBe(3);
+  });
+});
+
+describe('takeToken', () => {
+  const config = { capacity: 2, refillPerSecond: 1 };
+
+  it('refuses once the bucket is empty and refills over time', async () => {
+    const store = createMemoryStore();
+    expect((await takeToken(store, 'k', config, 0)).allowed).toBe(true);
+    expect((await takeToken(store, 'k', config, 0)).allowed).toBe(true);
+    const refused = await takeToken(store, 'k', config, 0);
+    expect(refused.allowed).toBe(false);
+    expect(refused.retryAfterMs).toBe(1000);
+    expect((await takeToken(store, 'k', config, 1000)).allowed).toBe(true);
+  });
+
+  it('keeps a separate bucket per key', async () => {
+    const store = createMemoryStore();
+    await takeToken(store, 'a', { capacity: 1, refillPerSecond: 1 }, 0);
+    expect((await takeToken(store, 'a', { capacity: 1, refillPerSecond: 1 }, 0)).allowed).toBe(false);
+    expect((await takeToken(store, 'b', { capacity: 1, refillPerSecond: 1 }, 0)).allowed).toBe(true);
+  });
+});
+
+describe('reply cache', () => {
+  it('keys on every part of the prompt and serves until the ttl passes', async () => {
+    let now = 0;
+    const store = createMemoryStore({ now: () => now });
+    const key = cacheKey('observe', ['prompt', 7]);
+    expect(cacheKey('observe', ['prompt', 8])).not.toBe(key);
+    const reply: CachedReply = { ok: true, text: 'Dust hangs over the souq.', provider: 'offline' };
+    await writeCachedReply(store, key, reply, 500);
+    expect(await readCachedReply(store, key)).toEqual(reply);
+    now = 500;
+    expect(await readCachedReply(store, key)).toBeUndefined();
+  });
+});
+
+describe('withLlmRoute', () => {
+  const route = (store = createMemoryStore()) => withLlmRoute(
+    'event',
+    async (_req, res) => res.status(200).json({ ok: true }),
+    { store, rateLimit: { capacity: 2, refillPerSecond: 0.001 } }
+  );
+
+  it('rate-limits by client address whatever session id is sent', async () => {
+    const handler = route();
+    const statuses: number[] = [];
+    for (let i = 0; i < 3; i++) {
+      const res = fakeResponse();
+      await handler(fakeRequest({ 'x-forwarded-for': '203.0.113.5', 'x-session-id': `session-${i}` }), res as unknown as VercelResponse);
+      statuses.push(res.statusCode);
+    }
+    expect(statuses).toEqual([200, 200, 429]);
+  });
+
+  it('gives each address its own bucket', async () => {
+    const handler = route();
+    for (const address of ['203.0.113.5', '203.0.113.5', '198.51.100.9']) {
+      const res = fakeResponse();
+      await handler(fakeRequest({ 'x-forwarded-for': `${address}, 10.0.0.2` }), res as unknown as VercelResponse);
+      expect(res.statusCode).toBe(200);
+    }
+  });
+});
+
+describe('/api/metrics', () => {
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  const remove = async () => {
+    const res = fakeResponse();
+    await metricsHandler({ method: 'DELETE', headers: {} } as unknown as VercelRequest, res as unknown as VercelResponse);
+    return res.statusCode;
+  };
+
+  it('resets the counters in development', async () => {
+    vi.stubEnv('NODE_ENV', 'development');
+    expect(await remove()).toBe(200);
+  });
+
+  it('refuses to reset them in production', async () => {
+    vi.stubEnv('NODE_ENV', 'production');
+    expect(await remove()).toBe(403);
+  });
+});
@@ -0,0 +1,40 @@
+import type { MiddlewareStore } from './store';
+
+/** A bucket holds up to `capacity` requests and refills `refillPerSecond` of them each second */
+export interface TokenBucketConfig {
+  capacity: number;
+  refillPerSecond: number;
+}
+
+interface BucketState {
+  tokens: number;
+  updatedAt: number;
+}
+
+export interface RateLimitResult {
+  allowed: boolean;
+  remaining: number;
+  /** How long until one more request is allowed; 0 when allowed */
+  retryAfterMs: number;
+}
+
+/** Take one request's token from the bucket at `key`, refilling it for the time since it was last touched */
+export const takeToken = async (
+  store: MiddlewareStore,
+  key: string,
+  config: TokenBucketConfig,
+  now = Date.now()
+): Promise<RateLimitResult> => {
+  const saved = await store.get<BucketState>(key);
+  const elapsed = saved ? Math.max(0, now - saved.updatedAt) / 1000 : 0;
+  const tokens = saved ? Math.min(config.capacity, saved.tokens + elapsed * config.refillPerSecond) : config.capacity;
+  // An idle bucket is full again, so it need not outlive the refill
+  const ttlMs = Math.ceil((config.capacity / config.refillPerSecond) * 1000);
+
+  if (tokens < 1) {
+    await store.set<BucketState>(key, { tokens, updatedAt: now }, ttlMs);
+    return { allowed: false, remaining: 0, retryAfterMs: Math.ceil(((1 - tokens) / config.refillPerSecond) * 1000) };
+  }
+  await store.set<BucketState>(key, { tokens: tokens - 1, updatedAt: now }, ttlMs);
+  return { allowed: true, remaining: Math.floor(tokens - 1), retryAfterMs: 0 };
+};
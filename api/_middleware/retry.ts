@@ -0,0 +1,55 @@
+export interface RetryPolicy {
+  /** Tries in all, the first included */
+  attempts: number;
+  baseDelayMs: number;
+  maxDelayMs: number;
+}
+
+export const DEFAULT_RETRY_POLICY: RetryPolicy = { attempts: 3, baseDelayMs: 250, maxDelayMs: 2000 };
+
+// Rate limits and server trouble upstream tend to pass; bad requests and bad keys do not
+const TRANSIENT_STATUSES = new Set([408, 425, 429, 500, 502, 503, 504]);
+
+export const isTransientStatus = (status: number | undefined) => status !== undefined && TRANSIENT_STATUSES.has(status);
+
+/** Exponential backoff with full jitter */
+export const backoffDelay = (policy: RetryPolicy, retry: number, random = Math.random) => (
+  Math.round(random() * Math.min(policy.maxDelayMs, policy.baseDelayMs * 2 ** retry))
+);
+
+const sleep = (ms: number, signal?: AbortSignal) => new Promise<void>(resolve => {
+  const timer = setTimeout(resolve, ms);
+  signal?.addEventListener('abort', () => {
+    clearTimeout(timer);
+    resolve();
+  }, { once: true });
+});
+
+/**
+ * Run `attempt` until it succeeds, gives a result or error `shouldRetry`
+ * rejects, or the policy runs out. The last result is returned (or its error
+ * thrown) either way; `onRetry` hears of each retry before its delay.
+ */
+export async function withRetry<T>(
+  attempt: (index: number) => Promise<T>,
+  options: {
+    shouldRetry: (outcome: { result?: T; error?: unknown }) => boolean;
+    policy?: RetryPolicy;
+    onRetry?: (retry: number, delayMs: number) => void;
+    signal?: AbortSignal;
+  }
+): Promise<T> {
+  const policy = options.policy ?? DEFAULT_RETRY_POLICY;
+  for (let index = 0; ; index += 1) {
+    const last = index >= policy.attempts - 1;
+    try {
+      const result = await attempt(index);
+      if (last || options.signal?.aborted || !options.shouldRetry({ result })) return result;
+    } catch (error) {
+      if (last || options.signal?.aborted || !options.shouldRetry({ error })) throw error;
+    }
+    const delayMs = backoffDelay(policy, index);
+    options.onRetry?.(index + 1, delayMs);
+    await sleep(delayMs, options.signal);
+  }
+}
@@ -0,0 +1,57 @@
+/**
+ * Key-value storage for the route middleware: cached replies and rate-limit
+ * buckets. The memory store lives as long as the server instance does, so on
+ * a serverless host each warm instance keeps its own; anything shared (a
+ * hosted KV) only has to implement this interface.
+ */
+
+export interface MiddlewareStore {
+  get: <T>(key: string) => Promise<T | undefined>;
+  /** `ttlMs` omitted keeps the value until it is evicted */
+  set: <T>(key: string, value: T, ttlMs?: number) => Promise<void>;
+  delete: (key: string) => Promise<void>;
+}
+
+interface MemoryEntry {
+  value: unknown;
+  expiresAt: number | null;
+}
+
+/**
+ * Entries past `maxEntries` evict the least recently used; `now` can be
+ * replaced to drive expiry by hand.
+ */
+export const createMemoryStore = (options: { maxEntries?: number; now?: () => number } = {}): MiddlewareStore => {
+  const maxEntries = options.maxEntries ?? 500;
+  const now = options.now ?? Date.now;
+  const entries = new Map<string, MemoryEntry>();
+
+  const read = (key: string) => {
+    const entry = entries.get(key);
+    if (!entry) return undefined;
+    if (entry.expiresAt !== null && entry.expiresAt <= now()) {
+      entries.delete(key);
+      return undefined;
+    }
+    // Re-insert so iteration order tracks recent use
+    entries.delete(key);
+    entries.set(key, entry);
+    return entry;
+  };
+
+  return {
+    get: async <T>(key: string) => read(key)?.value as T | undefined,
+    set: async <T>(key: string, value: T, ttlMs?: number) => {
+      entries.delete(key);
+      entries.set(key, { value, expiresAt: ttlMs === undefined ? null : now() + ttlMs });
+      while (entries.size > maxEntries) {
+        const oldest = entries.keys().next().value;
+        if (oldest === undefined) break;
+        entries.delete(oldest);
+      }
+    },
+    delete: async (key: string) => {
+      entries.delete(key);
+    }
+  };
+};
@@ -1,108 +1,121 @@
 import type { VercelRequest, VercelResponse } from '@vercel/node';
-
-const GEMINI_API_URL = 'https://generativelanguage.googleapis.com/v1beta/models/gemini-2.5-flash-lite:generateContent';
+import type { EncounterContext, NpcDialogueAction, NpcDialogueActionType } from '../types';
+import type { LlmRequest } from './_llm';
+import { withLlmRoute } from './_middleware';
+import type { LlmRouteContext } from './_middleware';
+import { formatServerSentEvent } from '../utils/sse';
 
 interface ChatRequest {
   systemPrompt: string;
   messages: { role: 'user' | 'model'; parts: { text: string }[] }[];
   playerMessage: string;
+  /** Lets the offline provider answer without reading the prompt. */
+  context?: EncounterContext;
+  /** Reply as server-sent events instead of one JSON body */
+  stream?: boolean;
 }
 
 interface ChatResponse {
   message: string;
-  action: 'end_conversation' | null;
+  /** An action object, or a bare type from the older contract; the client validates it */
+  action: NpcDialogueAction | NpcDialogueActionType | null;
 }
 
-export default async function handler(req: VercelRequest, res: VercelResponse) {
+// Strip markdown code fences models sometimes wrap JSON in
+const stripFences = (text: string) => text
+  .replace(/^```json\s*/i, '')
+  .replace(/^```\s*/i, '')
+  .replace(/\s*```$/i, '')
+  .trim();
+
+/**
+ * Split a finished reply into dialogue and action.
+ * Expected: { "message": "dialogue", "action": null | { "type": "offer_item", ... } };
+ * anything else is treated as plain dialogue (backwards compatible).
+ */
+const parseChatReply = (text: string): { response: string; action: ChatResponse['action'] } => {
+  try {
+    const parsed = JSON.parse(stripFences(text)) as ChatResponse;
+    if (typeof parsed.message === 'string') {
+      return { response: parsed.message, action: parsed.action || null };
+    }
+  } catch {
+    // Not valid JSON - return as plain text
+  }
+  return { response: text, action: null };
+};
+
+/**
+ * The dialogue decoded so far from a reply that is still arriving. For a JSON
+ * reply that is the prefix of the "message" string, stopping short of any
+ * escape sequence that is only half received; the action trails it and is
+ * read once the reply is complete.
+ */
+const readStreamingMessage = (raw: string): string => {
+  // An opening fence still arriving; wait to see whether JSON follows
+  if (/^`{1,3}[a-z]*$/i.test(raw.trimStart())) return '';
+  const text = raw.trimStart().replace(/^```(json)?\s*/i, '');
+  if (!text.startsWith('{')) return text.replace(/\s*`{1,3}$/, '');
+  const start = text.match(/"message"\s*:\s*"/);
+  if (!start || start.index === undefined) return '';
+  let message = '';
+  for (let i = start.index + start[0].length; i < text.length; i++) {
+    const char = text[i];
+    if (char === '"') break;
+    if (char !== '\\') {
+      message += char;
+      continue;
+    }
+    const escape = text[i + 1] === 'u' ? text.slice(i, i + 6) : text.slice(i, i + 2);
+    if (escape.length < (text[i + 1] === 'u' ? 6 : 2)) break;
+    try {
+      message += JSON.parse(`"${escape}"`);
+    } catch {
+      break;
+    }
+    i += escape.length - 1;
+  }
+  return message;
+};
+
+async function handler(req: VercelRequest, res: VercelResponse, llm: LlmRouteContext) {
   // Only allow POST
   if (req.method !== 'POST') {
     return res.status(405).json({ error: 'Method not allowed' });
   }
 
-  const apiKey = process.env.GEMINI_API_KEY;
-  if (!apiKey) {
-    return res.status(500).json({ error: 'GEMINI_API_KEY not configured' });
-  }
-
   try {
-    const { systemPrompt, messages, playerMessage } = req.body as ChatRequest;
+    const { systemPrompt, messages, playerMessage, context, stream } = req.body as ChatRequest;
 
     if (!systemPrompt || !playerMessage) {
       return res.status(400).json({ error: 'Missing required fields' });
     }
 
-    const contents = [
-      ...messages,
-      {
-        role: 'user' as const,
-        parts: [{ text: playerMessage }]
-      }
-    ];
-
-    const response = await fetch(`${GEMINI_API_URL}?key=${apiKey}`, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify({
-        systemInstruction: {
-          role: 'system',
-          parts: [{ text: systemPrompt }]
-        },
-        contents,
-        generationConfig: {
-          maxOutputTokens: 300,
-          temperature: 0.85,
-          topP: 0.9,
-          topK: 40,
-        },
-        safetySettings: [
-          { category: 'HARM_CATEGORY_HARASSMENT', threshold: 'BLOCK_ONLY_HIGH' },
-          { category: 'HARM_CATEGORY_HATE_SPEECH', threshold: 'BLOCK_ONLY_HIGH' },
-          { category: 'HARM_CATEGORY_SEXUALLY_EXPLICIT', threshold: 'BLOCK_ONLY_HIGH' },
-          { category: 'HARM_CATEGORY_DANGEROUS_CONTENT', threshold: 'BLOCK_ONLY_HIGH' },
-        ],
-      }),
-    });
-
-    if (!response.ok) {
-      const errorText = await response.text();
-      console.error('Gemini API error:', errorText);
-      return res.status(response.status).json({ error: 'Gemini API error', details: errorText });
+    const request: LlmRequest = {
+      task: 'chat',
+      system: systemPrompt,
+      messages: [
+        ...(messages ?? []).map(message => ({ role: message.role, text: message.parts.map(part => part.text).join('') })),
+        { role: 'user' as const, text: playerMessage }
+      ],
+      maxOutputTokens: 300,
+      temperature: 0.85,
+      topP: 0.9,
+      topK: 40,
+      encounter: context
+    };
+
+    if (stream) {
+      return streamReply(request, res, llm);
     }
 
-    const data = await response.json();
-
-    // Extract the response text
-    const responseText = data.candidates?.[0]?.content?.parts?.[0]?.text;
+    const result = await llm.generate(request);
 
-    if (!responseText) {
-      return res.status(500).json({ error: 'No response from Gemini' });
+    if (!result.ok) {
+      return res.status(result.status ?? 500).json({ error: result.error, details: result.details });
     }
 
-    // Try to parse as JSON (new structured format)
-    // Expected: { "message": "dialogue", "action": null | "end_conversation" }
-    try {
-      // Strip markdown code blocks if present
-      const cleanedText = responseText
-        .replace(/^```json\s*/i, '')
-        .replace(/^```\s*/i, '')
-        .replace(/\s*```$/i, '')
-        .trim();
-
-      const parsed = JSON.parse(cleanedText) as ChatResponse;
-      if (typeof parsed.message === 'string') {
-        return res.status(200).json({
-          response: parsed.message,
-          action: parsed.action || null
-        });
-      }
-    } catch {
-      // Not valid JSON - return as plain text (backwards compatible)
-    }
-
-    // Fallback: return as plain text response
-    return res.status(200).json({ response: responseText, action: null });
+    return res.status(200).json({ ...parseChatReply(result.text ?? ''), provider: result.provider });
 
   } catch (error) {
     console.error('Chat API error:', error);
@@ -112,3 +125,52 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
     });
   }
 }
+
+/**
+ * Server-sent events: `token` events carry the dialogue as it arrives, then a
+ * single `done` event carries the whole reply and its action (or `error`).
+ * Closing the connection aborts the upstream model request.
+ */
+async function streamReply(request: LlmRequest, res: VercelResponse, llm: LlmRouteContext) {
+  const controller = new AbortController();
+  res.on('close', () => {
+    if (!res.writableEnded) controller.abort();
+  });
+
+  res.status(200);
+  res.setHeader('Content-Type', 'text/event-stream');
+  res.setHeader('Cache-Control', 'no-cache, no-transform');
+  res.setHeader('Connection', 'keep-alive');
+
+  let raw = '';
+  let sent = '';
+  try {
+    const result = await llm.stream({ ...request, signal: controller.signal }, delta => {
+      raw += delta;
+      const message = readStreamingMessage(raw);
+      if (message.length > sent.length && message.startsWith(sent)) {
+        res.write(formatServerSentEvent('token', { text: message.slice(sent.length) }));
+        sent = message;
+      }
+    });
+
+    if (controller.signal.aborted) return res.end();
+    if (!result.ok) {
+      res.write(formatServerSentEvent('error', { error: result.error, details: result.details }));
+      return res.end();
+    }
+    res.write(formatServerSentEvent('done', { ...parseChatReply(result.text ?? ''), provider: result.provider }));
+    return res.end();
+  } catch (error) {
+    if (!controller.signal.aborted) {
+      console.error('Chat stream error:', error);
+      res.write(formatServerSentEvent('error', {
+        error: 'Internal server error',
+        message: error instanceof Error ? error.message : 'Unknown error'
+      }));
+    }
+    return res.end();
+  }
+}
+
+export default withLlmRoute('chat', handler);
@@ -1,90 +1,71 @@
 import type { VercelRequest, VercelResponse } from '@vercel/node';
-
-const GEMINI_API_URL = 'https://generativelanguage.googleapis.com/v1beta/models/gemini-2.5-flash-lite:generateContent';
+import type { EventContextSnapshot } from '../types';
+import { withLlmRoute } from './_middleware';
+import type { LlmRouteContext } from './_middleware';
+import {
+  LLM_EFFECT_BUDGETS,
+  LLM_EVENT_LIMITS,
+  LLM_FLAG_PREFIX,
+  LlmEventSource,
+  buildLlmEventJsonSchema,
+  describeLlmEffects
+} from '../utils/events/llmEventSchema';
 
 interface EventRequest {
-  context: {
-    player: { name: string; socialClass: string; stats: { charisma: number; piety: number; currency: number; health: number; reputation: number; wealth: number } };
-    npc?: { name: string; profession: string; socialClass: string; disposition: number; panic: number; religion: string };
-    environment: { district: string; timeOfDay: number; weather: string };
-    conversation?: { playerMessages: string[]; npcMessages: string[] };
-  };
+  context: EventContextSnapshot;
   eventSeed?: string;
+  /** Which effect budget applies; defaults to environment */
+  source?: LlmEventSource;
 }
 
-export default async function handler(req: VercelRequest, res: VercelResponse) {
+async function handler(req: VercelRequest, res: VercelResponse, llm: LlmRouteContext) {
   if (req.method !== 'POST') {
     return res.status(405).json({ error: 'Method not allowed' });
   }
 
-  const apiKey = process.env.GEMINI_API_KEY;
-  if (!apiKey) {
-    return res.status(500).json({ error: 'GEMINI_API_KEY not configured' });
-  }
-
-  const { context, eventSeed } = req.body as EventRequest;
+  const { context, eventSeed, source: requestedSource } = req.body as EventRequest;
   if (!context) {
     return res.status(400).json({ error: 'Missing context' });
   }
+  const source: LlmEventSource = requestedSource && Object.keys(LLM_EFFECT_BUDGETS).includes(requestedSource)
+    ? requestedSource
+    : 'environment';
+  const schema = buildLlmEventJsonSchema(source);
 
   const systemPrompt = [
     'You generate short in-world decision events for a historical simulation set in Damascus, 1348.',
     'Return JSON only, matching this schema:',
-    '{ "title": string, "body": string, "options": [ { "id": string, "label": string, "effectKey": string, "outcomeText"?: string, "followupEventId"?: string, "requirements": { "stat"?: "charisma"|"piety"|"currency"|"health"|"reputation"|"wealth", "min"?: number, "max"?: number } } ] }',
+    JSON.stringify(schema),
+    'Each option lists its effects; an effect is an object with a "type" and that type\'s fields:',
+    ...describeLlmEffects(source),
     'Rules:',
-    '- 2 to 4 options only.',
+    `- ${LLM_EVENT_LIMITS.minOptions} to ${LLM_EVENT_LIMITS.maxOptions} options only.`,
+    `- At most ${LLM_EFFECT_BUDGETS[source].effectsPerOption} effects per option; an option may have none.`,
     '- Keep body under 3 sentences.',
     '- Use period-appropriate language.',
-    '- effectKey must be one of: "end_conversation", "bribe_small", "bribe_large", "flee", "appeal_faith", "calm_crowd", "escalate", "health_up", "health_down", "reputation_up", "reputation_down", "wealth_up", "wealth_down".',
+    `- worldFlag keys are short snake_case words; they are stored under "${LLM_FLAG_PREFIX}".`,
+    '- An option with an effect outside this list is thrown away.',
     eventSeed ? `- Event seed: ${eventSeed}` : ''
   ].filter(Boolean).join('\n');
 
   try {
-    const response = await fetch(`${GEMINI_API_URL}?key=${apiKey}`, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify({
-        systemInstruction: {
-          role: 'system',
-          parts: [{ text: systemPrompt }]
-        },
-        contents: [
-          {
-            role: 'user',
-            parts: [{ text: JSON.stringify(context) }]
-          }
-        ],
-        generationConfig: {
-          maxOutputTokens: 350,
-          temperature: 0.7,
-          topP: 0.9,
-          topK: 40,
-        },
-        safetySettings: [
-          { category: 'HARM_CATEGORY_HARASSMENT', threshold: 'BLOCK_ONLY_HIGH' },
-          { category: 'HARM_CATEGORY_HATE_SPEECH', threshold: 'BLOCK_ONLY_HIGH' },
-          { category: 'HARM_CATEGORY_SEXUALLY_EXPLICIT', threshold: 'BLOCK_ONLY_HIGH' },
-          { category: 'HARM_CATEGORY_DANGEROUS_CONTENT', threshold: 'BLOCK_ONLY_HIGH' },
-        ],
-      }),
+    const result = await llm.generate({
+      task: 'event',
+      system: systemPrompt,
+      messages: [{ role: 'user', text: JSON.stringify(context) }],
+      maxOutputTokens: 600,
+      temperature: 0.7,
+      topP: 0.9,
+      topK: 40,
+      event: { context, seed: eventSeed },
+      jsonSchema: { name: 'event', schema }
     });
 
-    if (!response.ok) {
-      const errorText = await response.text();
-      console.error('Gemini API error:', errorText);
-      return res.status(response.status).json({ error: 'Gemini API error', details: errorText });
+    if (!result.ok) {
+      return res.status(result.status ?? 500).json({ error: result.error, details: result.details });
     }
 
-    const data = await response.json();
-    const responseText = data.candidates?.[0]?.content?.parts?.[0]?.text;
-
-    if (!responseText) {
-      return res.status(500).json({ error: 'No response from Gemini' });
-    }
-
-    return res.status(200).json({ response: responseText });
+    return res.status(200).json({ response: result.text, provider: result.provider });
   } catch (error) {
     console.error('Event API error:', error);
     return res.status(500).json({
@@ -93,3 +74,5 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
     });
   }
 }
+
+export default withLlmRoute('event', handler);
@@ -0,0 +1,93 @@
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import type { ConversationMessage } from '../types';
+import { withLlmRoute } from './_middleware';
+import type { LlmRouteContext } from './_middleware';
+import { analyzeConversationImpact, normalizeConversationImpact } from '../utils/friendliness';
+
+interface ImpactRequest {
+  messages: ConversationMessage[];
+  npcName?: string;
+  npcProfession?: string;
+}
+
+// Enough of the exchange to judge tone without sending an entire long chat
+const MAX_MESSAGES = 16;
+
+// The judge runs cold, so the same exchange earns the same verdict
+const CACHE_TTL_MS = 10 * 60 * 1000;
+
+async function handler(req: VercelRequest, res: VercelResponse, llm: LlmRouteContext) {
+  if (req.method !== 'POST') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  const { messages, npcName, npcProfession } = req.body as ImpactRequest;
+  if (!Array.isArray(messages)) {
+    return res.status(400).json({ error: 'Missing messages' });
+  }
+
+  const recent = messages
+    .filter(message => message && (message.role === 'player' || message.role === 'npc') && typeof message.content === 'string')
+    .slice(-MAX_MESSAGES);
+
+  const systemPrompt = [
+    'You judge how a conversation in Damascus, 1348, affected the townsperson the player spoke to.',
+    npcName ? `The townsperson is ${npcName}${npcProfession ? `, a ${npcProfession}` : ''}.` : '',
+    'Only the PLAYER lines count. They may be written in English, Arabic, Armenian, Hebrew, Greek or a Latin-letter transliteration of any of them.',
+    'Read intent, not keywords: sarcasm, veiled threats and polite insults count; mentioning the plague while offering help is not a threat.',
+    'Return JSON only, matching this schema:',
+    '{ "friendlinessChange": number, "panicChange": number, "threatLevel": number, "offenseLevel": number, "sentiment": "positive"|"neutral"|"negative" }',
+    'Ranges:',
+    '- friendlinessChange: -30 (hostile) to 15 (warm). Most ordinary exchanges are between -3 and 5.',
+    '- panicChange: -10 (reassured) to 40 (terrified).',
+    '- threatLevel: 0 to 100. 60 or more means a threat against life.',
+    '- offenseLevel: 0 to 100. 50 or more means open insult.',
+    '- sentiment: positive when friendlinessChange is 5 or more, negative when -5 or less.'
+  ].filter(Boolean).join('\n');
+
+  const transcript = recent
+    .map(message => `${message.role === 'player' ? 'PLAYER' : 'TOWNSPERSON'}: ${message.content}`)
+    .join('\n');
+
+  try {
+    const result = await llm.generate({
+      task: 'impact',
+      system: systemPrompt,
+      messages: [{ role: 'user', text: transcript || '(no conversation)' }],
+      maxOutputTokens: 120,
+      temperature: 0.2,
+      impact: { messages: recent }
+    }, [systemPrompt, transcript]);
+
+    if (!result.ok) {
+      return res.status(result.status ?? 500).json({ error: result.error, details: result.details });
+    }
+
+    let impact = null;
+    try {
+      const cleanedText = (result.text ?? '')
+        .replace(/^```json\s*/i, '')
+        .replace(/^```\s*/i, '')
+        .replace(/\s*```$/i, '')
+        .trim();
+      impact = normalizeConversationImpact(JSON.parse(cleanedText));
+    } catch {
+      impact = null;
+    }
+
+    if (!impact) {
+      console.warn('Impact reply was not valid JSON; scoring with keywords');
+      return res.status(200).json({ impact: analyzeConversationImpact(recent), provider: 'keywords' });
+    }
+
+    return res.status(200).json({ impact, provider: result.provider });
+  } catch (error) {
+    console.error('Impact API error:', error);
+    return res.status(500).json({
+      error: 'Internal server error',
+      message: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+}
+
+export default withLlmRoute('impact', handler, { cacheTtlMs: CACHE_TTL_MS });
@@ -0,0 +1,21 @@
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { getMetricsSnapshot, resetMetrics } from './_middleware/metrics';
+
+/**
+ * Counters for the dev panel: GET reads them, DELETE starts them over outside
+ * production (the route is public once deployed). Per server instance.
+ */
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  if (req.method === 'DELETE') {
+    if (process.env.NODE_ENV === 'production') {
+      return res.status(403).json({ error: 'Metrics can only be reset in development' });
+    }
+    resetMetrics();
+    return res.status(200).json(getMetricsSnapshot());
+  }
+  if (req.method !== 'GET') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+  res.setHeader('Cache-Control', 'no-store');
+  return res.status(200).json(getMetricsSnapshot());
+}
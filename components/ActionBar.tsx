@@ -7,6 +7,7 @@ import { NarratorInput } from './NarratorInput';
 interface ActionBarProps {
   actionSlots: ActionSlotState;
   onTriggerAction: (actionId: ActionId) => void;
+  onAssignSlot?: (slot: 'slot1' | 'slot2' | 'slot3', actionId: ActionId) => void;
   onTriggerPush?: () => void;
   simTime: number;
   playerStats: PlayerStats;
@@ -61,6 +62,7 @@ interface ActionButtonProps {
   simTime: number;
   playerStats: PlayerStats;
   onTrigger: () => void;
+  onAssign?: (actionId: ActionId) => void;
 }
 
 const ActionButton: React.FC<ActionButtonProps> = ({
@@ -69,8 +71,10 @@ const ActionButton: React.FC<ActionButtonProps> = ({
   cooldownEnd,
   simTime,
   playerStats,
-  onTrigger
+  onTrigger,
+  onAssign
 }) => {
+  const [picking, setPicking] = useState(false);
   const action = PLAYER_ACTIONS[actionId];
   const isOnCooldown = simTime < cooldownEnd;
   const cooldownRemaining = isOnCooldown ? Math.ceil(cooldownEnd - simTime) : 0;
@@ -86,7 +90,12 @@ const ActionButton: React.FC<ActionButtonProps> = ({
     <div className="relative group">
       <button
         onClick={() => isReady && onTrigger()}
-        disabled={!isReady}
+        onContextMenu={(event) => {
+          if (!onAssign) return;
+          event.preventDefault();
+          setPicking(prev => !prev);
+        }}
+        disabled={!isReady && !onAssign}
         className={`
           relative w-14 h-14 rounded-lg
           bg-black/50 backdrop-blur-md
@@ -132,15 +141,41 @@ const ActionButton: React.FC<ActionButtonProps> = ({
         )}
       </button>
 
+      {/* Slot picker (right-click) */}
+      {picking && onAssign && (
+        <div
+          className="absolute bottom-full right-0 mb-2 w-44 p-1.5 bg-black/95 backdrop-blur-md rounded-lg border border-amber-800/50 shadow-xl z-[60]"
+          onMouseLeave={() => setPicking(false)}
+        >
+          <div className="px-1.5 pb-1 text-[9px] uppercase tracking-widest text-amber-500/60">Assign to [{hotkey}]</div>
+          {(Object.keys(PLAYER_ACTIONS) as ActionId[]).map(id => (
+            <button
+              key={id}
+              onClick={() => {
+                onAssign(id);
+                setPicking(false);
+              }}
+              className={`
+                w-full flex items-center gap-2 px-1.5 py-1 rounded text-left text-xs
+                ${id === actionId ? 'bg-amber-900/40 text-amber-300' : 'text-amber-100/80 hover:bg-amber-900/20'}
+              `}
+            >
+              <span className="text-amber-400">{getActionIcon(PLAYER_ACTIONS[id].icon, 14)}</span>
+              {PLAYER_ACTIONS[id].name}
+            </button>
+          ))}
+        </div>
+      )}
+
       {/* Tooltip */}
-      <div className="
+      <div className={`
         absolute bottom-full right-0 mb-2 w-48 p-2.5
         bg-black/95 backdrop-blur-md rounded-lg
         border border-amber-800/50 shadow-xl
-        opacity-0 group-hover:opacity-100
+        opacity-0 ${picking ? '' : 'group-hover:opacity-100'}
         pointer-events-none transition-opacity duration-150
         z-50
-      ">
+      `}>
         <div className="flex items-center gap-2 mb-1">
           <span className="text-amber-400 font-bold text-sm">{action.name}</span>
           <span className="text-amber-600/60 text-[10px] uppercase tracking-wider">[{hotkey}]</span>
@@ -160,6 +195,11 @@ const ActionButton: React.FC<ActionButtonProps> = ({
             Requires {action.requiresCharisma} Charisma
           </div>
         )}
+        {onAssign && (
+          <div className="mt-1 text-[9px] text-amber-500/40 uppercase tracking-wider">
+            Right-click to change
+          </div>
+        )}
       </div>
     </div>
   );
@@ -223,6 +263,7 @@ const PushButton: React.FC<PushButtonProps> = ({ onTrigger }) => {
 export const ActionBar: React.FC<ActionBarProps> = ({
   actionSlots,
   onTriggerAction,
+  onAssignSlot,
   onTriggerPush,
   simTime,
   playerStats,
@@ -573,6 +614,7 @@ export const ActionBar: React.FC<ActionBarProps> = ({
           simTime={simTime}
           playerStats={playerStats}
           onTrigger={() => onTriggerAction(actionSlots.slot1)}
+          onAssign={onAssignSlot ? (id) => onAssignSlot('slot1', id) : undefined}
         />
 
         {/* Action Slot 2 - Hotkey 4 */}
@@ -583,6 +625,7 @@ export const ActionBar: React.FC<ActionBarProps> = ({
           simTime={simTime}
           playerStats={playerStats}
           onTrigger={() => onTriggerAction(actionSlots.slot2)}
+          onAssign={onAssignSlot ? (id) => onAssignSlot('slot2', id) : undefined}
         />
 
         {/* Action Slot 3 - Hotkey 5 */}
@@ -593,6 +636,7 @@ export const ActionBar: React.FC<ActionBarProps> = ({
           simTime={simTime}
           playerStats={playerStats}
           onTrigger={() => onTriggerAction(actionSlots.slot3)}
+          onAssign={onAssignSlot ? (id) => onAssignSlot('slot3', id) : undefined}
         />
       </div>
 
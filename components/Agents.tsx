@@ -39,6 +39,8 @@ interface AgentsProps {
   showDemographicsOverlay?: boolean;
   npcStateOverride?: NpcStateOverride | null;
   npcPool?: NPCRecord[];
+  /** Live registry record by id; the NPCs show the health the epidemic core gives it */
+  getNpcRecord?: (id: string) => NPCRecord | undefined;
   /** Player stats for NPC friendliness calculation */
   playerStats?: PlayerStats | null;
   /** Callback when a friendly NPC approaches and initiates an encounter */
@@ -69,6 +71,7 @@ export const Agents: React.FC<AgentsProps> = ({
   showDemographicsOverlay = false,
   npcStateOverride,
   npcPool = [],
+  getNpcRecord,
   playerStats,
   onNPCInitiatedEncounter
 }) => {
@@ -296,8 +299,8 @@ export const Agents: React.FC<AgentsProps> = ({
             position={cached.pos}
             target={cached.target}
             getSimTime={() => simTime}
+            getRecord={getNpcRecord}
             onUpdate={handleUpdate}
-            infectionRate={params.infectionRate}
             quarantine={params.quarantine}
             simulationSpeed={params.simulationSpeed}
             buildings={buildings}
@@ -0,0 +1,86 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import type { LlmRouteId, MetricsSnapshot } from '../api/_middleware/metrics';
+
+const ROUTES: LlmRouteId[] = ['chat', 'event', 'observe', 'impact'];
+
+/** Latency, caching, rate limiting and token counts for the LLM routes, read from /api/metrics */
+export const ApiUsagePanel: React.FC = () => {
+  const [snapshot, setSnapshot] = useState<MetricsSnapshot | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const load = useCallback(async (method: 'GET' | 'DELETE' = 'GET') => {
+    try {
+      const response = await fetch('/api/metrics', { method });
+      if (!response.ok) throw new Error(`status ${response.status}`);
+      setSnapshot(await response.json());
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'unavailable');
+    }
+  }, []);
+
+  useEffect(() => {
+    void load();
+  }, [load]);
+
+  return (
+    <div className="bg-black/40 border border-amber-900/40 rounded-lg p-4">
+      <div className="flex items-center justify-between mb-3">
+        <div className="text-[10px] uppercase tracking-[0.25em] text-amber-400/80 font-bold">API Usage</div>
+        <div className="flex gap-2">
+          <button
+            onClick={() => void load()}
+            className="px-2 py-1 rounded border border-amber-500/40 text-amber-200 hover:bg-amber-600/20 text-[9px] uppercase tracking-widest"
+          >
+            Refresh
+          </button>
+          {/* The route only resets in development */}
+          {process.env.NODE_ENV !== 'production' && (
+            <button
+              onClick={() => void load('DELETE')}
+              className="px-2 py-1 rounded border border-amber-900/40 text-amber-200/60 hover:bg-amber-600/10 text-[9px] uppercase tracking-widest"
+            >
+              Reset
+            </button>
+          )}
+        </div>
+      </div>
+      {error && <div className="text-[10px] text-red-300/70 mb-2">Metrics unavailable ({error})</div>}
+      {snapshot && (
+        <>
+          <div className="grid grid-cols-[auto_repeat(6,minmax(0,1fr))] gap-x-2 gap-y-1 text-[10px] text-amber-100/70">
+            {['Route', 'Calls', 'Cached', '429', 'Retry', 'Err', 'p50/p95'].map(label => (
+              <span key={label} className="uppercase tracking-widest text-amber-400/60 text-[9px]">{label}</span>
+            ))}
+            {ROUTES.map(route => {
+              const metrics = snapshot.routes[route];
+              return (
+                <React.Fragment key={route}>
+                  <span className="text-amber-200">{route}</span>
+                  <span className="font-mono">{metrics?.requests ?? 0}</span>
+                  <span className="font-mono">{metrics?.cacheHits ?? 0}</span>
+                  <span className="font-mono">{metrics?.rateLimited ?? 0}</span>
+                  <span className="font-mono">{metrics?.retries ?? 0}</span>
+                  <span className="font-mono">{metrics?.errors ?? 0}</span>
+                  <span className="font-mono">{metrics ? `${metrics.latency.p50Ms}/${metrics.latency.p95Ms}ms` : '—'}</span>
+                </React.Fragment>
+              );
+            })}
+          </div>
+          <div className="mt-3 space-y-1 text-[10px] text-amber-100/50">
+            {ROUTES.filter(route => snapshot.routes[route]).map(route => {
+              const metrics = snapshot.routes[route]!;
+              const providers = Object.entries(metrics.providers).map(([id, count]) => `${id} ${count}`).join(', ') || '—';
+              return (
+                <div key={route}>
+                  <span className="text-amber-200/70">{route}:</span> {providers}; tokens {metrics.usage.inputTokens} in / {metrics.usage.outputTokens} out
+                </div>
+              );
+            })}
+            <div className="text-amber-100/30">Since {new Date(snapshot.since).toLocaleTimeString()}, this server instance only.</div>
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
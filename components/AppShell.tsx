@@ -6,6 +6,9 @@ import { LootModal, LootModalData, LootItem } from './LootModal';
 import { ObserveController } from './observe/ObserveController';
 import { PlagueUI } from './PlagueUI';
 import { Toast, ToastMessage } from './Toast';
+import { SaveGameModal } from './SaveGameModal';
+import { SaveSlotSummary } from '../utils/saveGame';
+import { HaggleOutcome } from '../utils/haggling';
 import { BuildingMetadata, MerchantNPC, MerchantItem, PlayerItem } from '../types';
 
 // Format time of day to readable string
@@ -40,8 +43,10 @@ interface AppShellProps {
   nearMerchant: MerchantNPC | null;
   onCloseMerchant: () => void;
   onTriggerMerchant?: () => void;  // Mobile/touch trigger for trading
-  onPurchase: (item: MerchantItem, quantity: number) => void;
-  onSell: (item: PlayerItem, quantity: number) => void;
+  onPurchase: (item: MerchantItem, quantity: number, unitPrice?: number) => void;
+  onSell: (item: PlayerItem, quantity: number, unitPrice?: number) => void;
+  onHaggleResult: (merchant: MerchantNPC, outcome: HaggleOutcome) => void;
+  districtReputation: number;
   showGuideModal: boolean;
   selectedGuideEntryId: string | null;
   onCloseGuideModal: () => void;
@@ -76,6 +81,14 @@ interface AppShellProps {
   onLootAccept: (items: LootItem[]) => void;
   onLootDecline: () => void;
   onLootClose: () => void;
+  saveModalMode: 'load' | 'save' | null;
+  saveSlots: SaveSlotSummary[];
+  saveNote: string | null;
+  onOpenSaveModal: (mode: 'load' | 'save') => void;
+  onCloseSaveModal: () => void;
+  onSaveGame: (name: string, slotId?: string) => void;
+  onLoadGame: (slotId: string) => void;
+  onDeleteSave: (slotId: string) => void;
 }
 
 export const AppShell = React.memo(({
@@ -95,6 +108,8 @@ export const AppShell = React.memo(({
   onTriggerMerchant,
   onPurchase,
   onSell,
+  onHaggleResult,
+  districtReputation,
   showGuideModal,
   selectedGuideEntryId,
   onCloseGuideModal,
@@ -129,7 +144,15 @@ export const AppShell = React.memo(({
   lootModalData,
   onLootAccept,
   onLootDecline,
-  onLootClose
+  onLootClose,
+  saveModalMode,
+  saveSlots,
+  saveNote,
+  onOpenSaveModal,
+  onCloseSaveModal,
+  onSaveGame,
+  onLoadGame,
+  onDeleteSave
 }: AppShellProps) => {
   const [showAbout, setShowAbout] = useState(false);
 
@@ -201,6 +224,15 @@ export const AppShell = React.memo(({
             >
               Begin My Day
             </button>
+            {saveSlots.length > 0 && (
+              <button
+                onClick={() => onOpenSaveModal('load')}
+                className="mt-3 text-amber-200/50 text-xs tracking-[0.2em] uppercase hover:text-amber-200/80 transition-colors animate-[fadeIn_1s_ease-out_4s_forwards]"
+                style={{ fontFamily: 'Cinzel, Georgia, serif', opacity: 0 }}
+              >
+                Resume a Journey
+              </button>
+            )}
           </div>
         )}
 
@@ -370,9 +402,13 @@ export const AppShell = React.memo(({
         <MerchantModal
           merchant={nearMerchant}
           playerStats={uiProps.playerStats}
+          market={uiProps.market}
+          relationship={uiProps.npcRelationships?.[nearMerchant.stats.id]}
+          districtReputation={districtReputation}
           onClose={onCloseMerchant}
           onPurchase={onPurchase}
           onSell={onSell}
+          onHaggleResult={onHaggleResult}
         />
       )}
 
@@ -509,6 +545,14 @@ export const AppShell = React.memo(({
             >
               Begin Anew
             </button>
+            {saveSlots.length > 0 && (
+              <button
+                onClick={() => onOpenSaveModal('load')}
+                className="block mx-auto mt-4 text-amber-300/60 text-xs tracking-widest uppercase hover:text-amber-200 transition-colors"
+              >
+                Load a Saved Journey
+              </button>
+            )}
 
             <div className="mt-8 text-[10px] text-amber-900/50 uppercase tracking-widest">
               "In the midst of life we are in death"
@@ -517,6 +561,19 @@ export const AppShell = React.memo(({
         </div>
       )}
 
+      {/* Save / Load Modal */}
+      {saveModalMode && (
+        <SaveGameModal
+          mode={saveModalMode}
+          slots={saveSlots}
+          note={saveNote}
+          onSave={saveModalMode === 'save' ? onSaveGame : undefined}
+          onLoad={onLoadGame}
+          onDelete={onDeleteSave}
+          onClose={onCloseSaveModal}
+        />
+      )}
+
       {/* Toast Notifications */}
       <Toast
         messages={toastMessages}
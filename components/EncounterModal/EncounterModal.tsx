@@ -9,10 +9,19 @@ import {
   SimulationStats,
   ConversationSummary,
   EncounterContext,
+  NpcDialogueAction,
+  NpcRelationship,
   getLocationLabel
 } from '../../types';
 import { ConversationImpact } from '../../utils/friendliness';
+import {
+  DIALOGUE_ACTIONS,
+  dialogueActionNeedsConsent,
+  getDialogueActionCost,
+  isClosingDialogueAction
+} from '../../utils/dialogueActions';
 import { MoraleStats } from '../Agents';
+import { ConversationNotes } from '../../utils/relationships';
 import { useConversation, ConversationAction } from './useConversation';
 import * as THREE from 'three';
 
@@ -32,11 +41,15 @@ interface EncounterModalProps {
   publicMorale: MoraleStats;
   simulationStats: SimulationStats;
   conversationHistory: ConversationSummary[];
+  /** This NPC's memory of the player, if they have met */
+  relationship?: NpcRelationship | null;
   onClose: () => void;
   /** Called when conversation ends with both summary and impact */
-  onConversationResult: (npcId: string, summary: ConversationSummary, impact: ConversationImpact, meta?: { action?: ConversationAction }) => void;
+  onConversationResult: (npcId: string, summary: ConversationSummary, impact: ConversationImpact, meta?: { action?: ConversationAction; notes?: ConversationNotes }) => void;
   /** Called when NPC triggers an event (e.g., end_conversation triggers npc_dismissed_player event) */
   onTriggerEvent?: (eventId: string, context?: { npcId: string; npcName: string }, delayMs?: number) => void;
+  /** Called when an NPC action takes effect; offers and requests report whether the player accepted */
+  onDialogueAction?: (npcId: string, action: NpcDialogueAction, accepted: boolean) => void;
   /** If true, the NPC approached the player (not vice versa) - uses different greeting style */
   isNPCInitiated?: boolean;
   /** If true, the player insisted on following the NPC after being dismissed - NPC is now angry/fearful */
@@ -237,9 +250,11 @@ export const EncounterModal: React.FC<EncounterModalProps> = ({
   publicMorale,
   simulationStats,
   conversationHistory,
+  relationship,
   onClose,
   onConversationResult,
   onTriggerEvent,
+  onDialogueAction,
   isNPCInitiated = false,
   isFollowingAfterDismissal = false
 }) => {
@@ -251,6 +266,8 @@ export const EncounterModal: React.FC<EncounterModalProps> = ({
   const [barsAnimated, setBarsAnimated] = useState(false);
   const [nativeLanguageMode, setNativeLanguageMode] = useState(false);
   const [pendingAction, setPendingAction] = useState<ConversationAction>(null);
+  // An offer or request waiting on the player's answer
+  const [pendingOffer, setPendingOffer] = useState<NpcDialogueAction | null>(null);
   const [emotion, setEmotion] = useState<EmotionSignal>({
     type: 'neutral',
     intensity: 0,
@@ -288,18 +305,38 @@ export const EncounterModal: React.FC<EncounterModalProps> = ({
 
   // Handle NPC action - just set state, effect will handle the rest
   const handleNPCAction = useCallback((action: ConversationAction, actionNpc: NPCStats) => {
-    if (action === 'end_conversation') {
+    if (!action) return;
+    if (isClosingDialogueAction(action)) {
       triggerEmotion({
-        type: 'angry',
+        type: action.type === 'call_guard' ? 'fearful' : 'angry',
         intensity: 2,
         ttlMs: 4000,
         source: 'action',
         startedAt: Date.now()
       });
+      if (action.type !== 'end_conversation') {
+        onDialogueAction?.(actionNpc.id, action, true);
+      }
       dismissingNpcRef.current = actionNpc;
+      setPendingOffer(null);
       setPendingAction(action);
+      return;
+    }
+    if (dialogueActionNeedsConsent(action)) {
+      setPendingOffer(action);
+      return;
     }
-  }, [triggerEmotion]);
+    if (action.type === 'invite_home') {
+      triggerEmotion({
+        type: 'warm',
+        intensity: 1,
+        ttlMs: 3000,
+        source: 'action',
+        startedAt: Date.now()
+      });
+    }
+    onDialogueAction?.(actionNpc.id, action, true);
+  }, [onDialogueAction, triggerEmotion]);
 
   // Build context for conversation
   const context: EncounterContext = {
@@ -318,21 +355,25 @@ export const EncounterModal: React.FC<EncounterModalProps> = ({
     simulationStats,
     conversationHistory: conversationHistory.filter(h => h.npcId === npc.id),
     nativeLanguageMode,
-    isFollowingAfterDismissal
+    isFollowingAfterDismissal,
+    relationship
   };
 
   const {
     messages,
     isLoading,
+    streamingMessageId,
     error,
     sendMessage,
+    addSystemMessage,
     endConversation,
+    cancelReply,
     clearError
   } = useConversation({
     npc,
     context,
     onConversationEnd: (result) => {
-      onConversationResult(npc.id, result.summary, result.impact, { action: pendingAction });
+      onConversationResult(npc.id, result.summary, result.impact, { action: pendingAction, notes: result.notes });
     },
     onNPCAction: handleNPCAction,
     isNPCInitiated
@@ -340,7 +381,8 @@ export const EncounterModal: React.FC<EncounterModalProps> = ({
 
   // Handle NPC dismissal: save conversation summary, then trigger event immediately
   useEffect(() => {
-    if (pendingAction !== 'end_conversation' || hasSummarizedRef.current) return;
+    if (!pendingAction || !isClosingDialogueAction(pendingAction) || hasSummarizedRef.current) return;
+    const closingEventId = DIALOGUE_ACTIONS[pendingAction.type].closingEventId;
 
     let cancelled = false;
     hasSummarizedRef.current = true;
@@ -348,8 +390,8 @@ export const EncounterModal: React.FC<EncounterModalProps> = ({
     const run = async () => {
       await endConversation();
       if (cancelled) return;
-      if (onTriggerEvent && dismissingNpcRef.current) {
-        onTriggerEvent('npc_dismissed_player', {
+      if (onTriggerEvent && closingEventId && dismissingNpcRef.current) {
+        onTriggerEvent(closingEventId, {
           npcId: dismissingNpcRef.current.id,
           npcName: dismissingNpcRef.current.name
         }, 3000);
@@ -420,6 +462,7 @@ export const EncounterModal: React.FC<EncounterModalProps> = ({
   };
 
   const handleClose = async () => {
+    cancelReply();
     if (messages.length > 1 && !hasSummarizedRef.current) {
       hasSummarizedRef.current = true;
       await endConversation();
@@ -435,6 +478,33 @@ export const EncounterModal: React.FC<EncounterModalProps> = ({
     setInputValue('');
   };
 
+  const conversationClosed = isClosingDialogueAction(pendingAction);
+  const offerCost = pendingOffer ? getDialogueActionCost(pendingOffer) : 0;
+  const inventoryCount = player.inventory.reduce((sum, item) => sum + item.quantity, 0);
+  const offerBlockedReason = !pendingOffer
+    ? null
+    : player.currency < offerCost
+      ? 'You lack the coin'
+      : pendingOffer.type === 'offer_item' && inventoryCount >= player.maxInventorySlots
+        ? 'Your pack is full'
+        : null;
+
+  const handleAnswerOffer = (accepted: boolean) => {
+    if (!pendingOffer || (accepted && offerBlockedReason)) return;
+    onDialogueAction?.(npc.id, pendingOffer, accepted);
+    const firstName = npc.name.split(' ')[0];
+    if (pendingOffer.type === 'offer_item') {
+      addSystemMessage(accepted
+        ? `You pay ${offerCost} dirham${offerCost === 1 ? '' : 's'} and take the ${pendingOffer.item}.`
+        : `You decline ${firstName}'s offer.`);
+    } else {
+      addSystemMessage(accepted
+        ? `You give ${firstName} ${offerCost} dirham${offerCost === 1 ? '' : 's'}.`
+        : `You keep your purse closed.`);
+    }
+    setPendingOffer(null);
+  };
+
   const handleKeyDown = (e: React.KeyboardEvent) => {
     if (e.key === 'Enter' && !e.shiftKey) {
       e.preventDefault();
@@ -443,6 +513,7 @@ export const EncounterModal: React.FC<EncounterModalProps> = ({
   };
 
   const handleEndTalk = async () => {
+    cancelReply();
     if (!hasSummarizedRef.current) {
       hasSummarizedRef.current = true;
       await endConversation();
@@ -467,7 +538,11 @@ export const EncounterModal: React.FC<EncounterModalProps> = ({
   };
 
   // Filter history for this NPC
-  const npcHistory = conversationHistory.filter(h => h.npcId === npc.id);
+  const sessionHistory = conversationHistory.filter(h => h.npcId === npc.id);
+  // After a reload only the relationship's memories of earlier talks remain
+  const npcHistory: ConversationSummary[] = sessionHistory.length > 0 || !relationship
+    ? sessionHistory
+    : relationship.memories.map(memory => ({ npcId: npc.id, simTime: memory.simTime, summary: memory.text, sentiment: memory.sentiment }));
 
   return (
     <div
@@ -789,7 +864,19 @@ export const EncounterModal: React.FC<EncounterModalProps> = ({
                   onScroll={handleScroll}
                   className="flex-1 overflow-y-auto p-4 space-y-4 min-h-0 scroll-smooth"
                 >
-                  {messages.map((msg, index) => (
+                  {messages.map((msg, index) => msg.role === 'system' ? (
+                    <div
+                      key={msg.id}
+                      className="flex justify-center"
+                      style={{
+                        animation: `slideUp 0.3s ease-out ${index * 0.05}s both`
+                      }}
+                    >
+                      <p className="max-w-[85%] text-center text-[12px] italic text-amber-200/60 border-y border-amber-900/30 px-3 py-1">
+                        {msg.content}
+                      </p>
+                    </div>
+                  ) : (
                     <div
                       key={msg.id}
                       className={`flex ${msg.role === 'player' ? 'justify-end' : 'justify-start'}`}
@@ -806,6 +893,9 @@ export const EncounterModal: React.FC<EncounterModalProps> = ({
                       >
                         <p className="text-[15px] leading-relaxed whitespace-pre-wrap">
                           {renderMessageContent(msg.content)}
+                          {msg.id === streamingMessageId && (
+                            <span className="inline-block w-1.5 h-4 ml-0.5 align-text-bottom bg-amber-400/60 animate-pulse" />
+                          )}
                         </p>
                         <p className={`text-[10px] mt-1 ${
                           msg.role === 'player' ? 'text-amber-400/50' : 'text-stone-400/50'
@@ -816,8 +906,8 @@ export const EncounterModal: React.FC<EncounterModalProps> = ({
                     </div>
                   ))}
 
-                  {/* Typing indicator */}
-                  {isLoading && (
+                  {/* Typing indicator, until the reply starts streaming in */}
+                  {isLoading && !streamingMessageId && (
                     <div className="flex justify-start animate-fadeIn">
                       <div className="bg-stone-800/60 rounded-lg px-4 py-3 border border-stone-700/30">
                         <div className="flex gap-1.5">
@@ -845,6 +935,31 @@ export const EncounterModal: React.FC<EncounterModalProps> = ({
 
                 {/* Input Area - keyboard avoidance for iOS */}
                 <div className="p-2 sm:p-3 border-t border-amber-900/30 bg-black/30 flex-shrink-0">
+                  {pendingOffer && !conversationClosed && (
+                    <div className="mb-2 flex items-center justify-between gap-3 rounded-lg border border-amber-700/40 bg-amber-950/40 px-3 py-2 animate-fadeIn">
+                      <p className="text-[12px] text-amber-100/80">
+                        {pendingOffer.type === 'offer_item'
+                          ? `${pendingOffer.item} for ${offerCost} dirham${offerCost === 1 ? '' : 's'}`
+                          : `${offerCost} dirham${offerCost === 1 ? '' : 's'}${pendingOffer.reason ? ` ${pendingOffer.reason}` : ''}`}
+                        {offerBlockedReason && <span className="ml-2 text-red-300/70">({offerBlockedReason})</span>}
+                      </p>
+                      <div className="flex gap-2 flex-shrink-0">
+                        <button
+                          onClick={() => handleAnswerOffer(true)}
+                          disabled={!!offerBlockedReason}
+                          className="text-[11px] px-3 py-1 rounded bg-amber-600/80 hover:bg-amber-500 text-amber-50 transition-colors disabled:bg-stone-700/50 disabled:text-stone-400 disabled:cursor-not-allowed"
+                        >
+                          {pendingOffer.type === 'offer_item' ? 'Buy' : 'Pay'}
+                        </button>
+                        <button
+                          onClick={() => handleAnswerOffer(false)}
+                          className="text-[11px] px-3 py-1 rounded border border-amber-900/50 text-amber-100/60 hover:text-amber-100/90 transition-colors"
+                        >
+                          Decline
+                        </button>
+                      </div>
+                    </div>
+                  )}
                   <div className="flex gap-2">
                     <input
                       ref={inputRef}
@@ -858,15 +973,15 @@ export const EncounterModal: React.FC<EncounterModalProps> = ({
                           inputRef.current?.scrollIntoView({ behavior: 'smooth', block: 'center' });
                         }, 300);
                       }}
-                      placeholder={pendingAction === 'end_conversation' ? 'They have ended the conversation...' : 'Ask your question...'}
-                      disabled={isLoading || pendingAction === 'end_conversation'}
+                      placeholder={conversationClosed ? 'They have ended the conversation...' : 'Ask your question...'}
+                      disabled={isLoading || conversationClosed}
                       className="flex-1 bg-stone-900/80 border border-amber-900/30 rounded-lg px-3 py-3 text-base text-amber-100 placeholder-amber-100/30 focus:outline-none focus:border-amber-500/60 focus:ring-2 focus:ring-amber-500/20 focus:shadow-[0_0_15px_rgba(251,191,36,0.15)] transition-all duration-200 disabled:opacity-50"
                     />
                     <button
                       onClick={handleSend}
-                      disabled={!inputValue.trim() || isLoading || pendingAction === 'end_conversation'}
+                      disabled={!inputValue.trim() || isLoading || conversationClosed}
                       className={`px-4 py-2.5 rounded-lg transition-all duration-200 flex items-center gap-2 ${
-                        inputValue.trim() && !isLoading && pendingAction !== 'end_conversation'
+                        inputValue.trim() && !isLoading && !conversationClosed
                           ? 'bg-amber-600 hover:bg-amber-500 text-amber-50 shadow-lg shadow-amber-900/30 hover:shadow-amber-800/40 hover:scale-105'
                           : 'bg-stone-700/50 text-stone-400 cursor-not-allowed'
                       }`}
@@ -3,41 +3,53 @@ import {
   ConversationMessage,
   ConversationSummary,
   EncounterContext,
-  NPCStats
+  NPCStats,
+  NpcDialogueAction
 } from '../../types';
 import {
   buildSystemPrompt,
   formatMessagesForGemini,
   trimConversationHistory
 } from '../../utils/conversationContext';
-import {
-  analyzeConversationImpact,
-  ConversationImpact
-} from '../../utils/friendliness';
+import { ConversationImpact } from '../../utils/friendliness';
+import { defaultImpactAnalyzer, ImpactAnalyzer } from '../../utils/impactAnalysis';
+import { describeDialogueAction, parseDialogueAction } from '../../utils/dialogueActions';
+import { ConversationNotes, extractConversationNotes } from '../../utils/relationships';
+import { readServerSentEvents } from '../../utils/sse';
+import { apiJsonHeaders } from '../../utils/apiSession';
 
-export type ConversationAction = 'end_conversation' | null;
+export type ConversationAction = NpcDialogueAction | null;
 
 interface ChatAPIResponse {
   message: string;
   action: ConversationAction;
 }
 
+interface ChatAPIOptions {
+  /** Receives the NPC's words as they stream in */
+  onToken?: (text: string) => void;
+  signal?: AbortSignal;
+}
+
 // Call serverless chat route to keep API key off the client.
 async function callChatAPI(
   systemPrompt: string,
   messages: { role: 'user' | 'model'; parts: { text: string }[] }[],
-  playerMessage: string
+  playerMessage: string,
+  context: EncounterContext,
+  { onToken, signal }: ChatAPIOptions = {}
 ): Promise<ChatAPIResponse> {
   const response = await fetch('/api/chat', {
     method: 'POST',
-    headers: {
-      'Content-Type': 'application/json',
-    },
+    headers: apiJsonHeaders(),
     body: JSON.stringify({
       systemPrompt,
       messages,
-      playerMessage
+      playerMessage,
+      context,
+      stream: true
     }),
+    signal
   });
 
   if (!response.ok) {
@@ -46,9 +58,27 @@ async function callChatAPI(
     throw new Error(`Gemini API error: ${response.status}`);
   }
 
-  const data = await response.json();
+  let data: { response?: string; action?: unknown; error?: string } = {};
+  if (response.body && response.headers.get('Content-Type')?.includes('text/event-stream')) {
+    // Tokens render as they arrive; the action trails in the final `done` event
+    await readServerSentEvents(response.body, ({ event, data: payload }) => {
+      const parsed = JSON.parse(payload);
+      if (event === 'token' && typeof parsed.text === 'string') onToken?.(parsed.text);
+      else if (event === 'done') data = parsed;
+      else if (event === 'error') data = { error: parsed.error || 'Stream failed' };
+    });
+  } else {
+    // A server that buffers responses answers with one JSON body
+    data = await response.json();
+  }
+
+  if (data.error) {
+    throw new Error(`Gemini API error: ${data.error}`);
+  }
+
   const responseText = data.response;
-  const action = data.action as ConversationAction || null;
+  // Models drift from the contract; anything outside the action vocabulary is ignored
+  const action = parseDialogueAction(data.action);
 
   if (!responseText) {
     throw new Error('No response from Gemini');
@@ -66,24 +96,34 @@ function sanitizeNpcResponse(text: string): string {
 interface ConversationResult {
   summary: ConversationSummary;
   impact: ConversationImpact;
+  /** What the player said about themself and promised, for the NPC's memory */
+  notes: ConversationNotes;
 }
 
 interface UseConversationOptions {
   npc: NPCStats;
   context: EncounterContext;
   onConversationEnd?: (result: ConversationResult) => void;
-  /** Called when NPC triggers an action (e.g., end_conversation) */
+  /** Called when NPC triggers an action (e.g., end_conversation, offer_item) */
   onNPCAction?: (action: ConversationAction, npc: NPCStats) => void;
   /** If true, the NPC initiated this encounter by approaching the player */
   isNPCInitiated?: boolean;
+  /** Scores the finished conversation; defaults to the model analyzer with keyword fallback */
+  impactAnalyzer?: ImpactAnalyzer;
 }
 
 interface UseConversationReturn {
   messages: ConversationMessage[];
   isLoading: boolean;
+  /** Id of the NPC message still streaming in, if any */
+  streamingMessageId: string | null;
   error: string | null;
   sendMessage: (content: string) => Promise<void>;
+  /** Narration line in the log; never sent to the model as dialogue */
+  addSystemMessage: (content: string) => void;
   endConversation: () => Promise<ConversationResult | null>;
+  /** Abort the NPC reply in flight; what already arrived stays in the log */
+  cancelReply: () => void;
   clearError: () => void;
 }
 
@@ -92,25 +132,71 @@ export function useConversation({
   context,
   onConversationEnd,
   onNPCAction,
-  isNPCInitiated = false
+  isNPCInitiated = false,
+  impactAnalyzer = defaultImpactAnalyzer
 }: UseConversationOptions): UseConversationReturn {
   const [messages, setMessages] = useState<ConversationMessage[]>([]);
   const [isLoading, setIsLoading] = useState(true); // Start loading for initial greeting
+  const [streamingMessageId, setStreamingMessageId] = useState<string | null>(null);
   const [error, setError] = useState<string | null>(null);
+  const replyAbortRef = useRef<AbortController | null>(null);
   const messagesRef = useRef<ConversationMessage[]>(messages);
   const greetingGeneratedRef = useRef(false);
 
   // Cache the system prompt to avoid rebuilding on every message
   const systemPromptRef = useRef<string>(buildSystemPrompt(context));
+  const contextRef = useRef(context);
 
   useEffect(() => {
     systemPromptRef.current = buildSystemPrompt(context);
+    contextRef.current = context;
   }, [context]);
 
   useEffect(() => {
     messagesRef.current = messages;
   }, [messages]);
 
+  // Abort any reply still streaming when the encounter closes
+  useEffect(() => () => replyAbortRef.current?.abort(), []);
+
+  const beginReply = useCallback(() => {
+    replyAbortRef.current?.abort();
+    const controller = new AbortController();
+    replyAbortRef.current = controller;
+    return controller;
+  }, []);
+
+  // Grow one NPC message in place as tokens arrive
+  const streamInto = useCallback((messageId: string) => {
+    let content = '';
+    return (text: string) => {
+      const first = content === '';
+      content += text;
+      if (first) {
+        setStreamingMessageId(messageId);
+        setMessages(prev => [...prev, { id: messageId, role: 'npc', content, timestamp: Date.now() }]);
+      } else {
+        setMessages(prev => prev.map(m => (m.id === messageId ? { ...m, content } : m)));
+      }
+    };
+  }, []);
+
+  // Replace the streamed text with the final reply, or add it if nothing streamed
+  const settleReply = useCallback((message: ConversationMessage) => {
+    setStreamingMessageId(null);
+    setMessages(prev => (
+      prev.some(m => m.id === message.id)
+        ? prev.map(m => (m.id === message.id ? message : m))
+        : [...prev, message]
+    ));
+  }, []);
+
+  // After a failure: a reply cut off midway stays as it is, otherwise the fallback is added
+  const settleFailedReply = useCallback((message: ConversationMessage) => {
+    setStreamingMessageId(null);
+    setMessages(prev => (prev.some(m => m.id === message.id) ? prev : [...prev, message]));
+  }, []);
+
   // Generate initial greeting via LLM on mount
   useEffect(() => {
     if (greetingGeneratedRef.current) return;
@@ -123,34 +209,40 @@ export function useConversation({
         ? '[SYSTEM: You notice this stranger and decide to approach them. Generate a brief, natural greeting to initiate conversation. 1-2 sentences max.]'
         : '[SYSTEM: This person has just approached you. Generate a brief, natural greeting based on what you are currently doing and your mood. 1-2 sentences max.]';
 
+      const controller = beginReply();
+      const messageId = `msg-${Date.now()}`;
       try {
         const { message } = await callChatAPI(
           systemPromptRef.current,
           [],
-          greetingPrompt
+          greetingPrompt,
+          contextRef.current,
+          { onToken: streamInto(messageId), signal: controller.signal }
         );
 
         if (cancelled) return;
 
-        const greeting: ConversationMessage = {
-          id: `msg-${Date.now()}`,
+        settleReply({
+          id: messageId,
           role: 'npc',
           content: sanitizeNpcResponse(message) || getFallbackGreeting(npc),
           timestamp: Date.now()
-        };
-        setMessages([greeting]);
+        });
       } catch (err) {
-        console.error('Failed to generate greeting:', err);
         if (cancelled) return;
+        if (controller.signal.aborted) {
+          setStreamingMessageId(null);
+          return;
+        }
+        console.error('Failed to generate greeting:', err);
 
         // Use fallback greeting
-        const fallback: ConversationMessage = {
-          id: `msg-${Date.now()}`,
+        settleFailedReply({
+          id: messageId,
           role: 'npc',
           content: getFallbackGreeting(npc),
           timestamp: Date.now()
-        };
-        setMessages([fallback]);
+        });
       } finally {
         if (!cancelled) {
           setIsLoading(false);
@@ -161,7 +253,7 @@ export function useConversation({
     generateGreeting();
 
     return () => { cancelled = true; };
-  }, [npc, isNPCInitiated]);
+  }, [npc, isNPCInitiated, beginReply, streamInto, settleReply, settleFailedReply]);
 
   const sendMessage = useCallback(async (content: string) => {
     if (!content.trim() || isLoading) return;
@@ -178,57 +270,69 @@ export function useConversation({
     setIsLoading(true);
     setError(null);
 
+    const controller = beginReply();
+    const npcMessageId = `msg-${Date.now() + 1}`;
     try {
       // Prepare messages for API (trim to avoid token overflow)
       const trimmedMessages = trimConversationHistory(messagesRef.current, 10);
       const formattedMessages = formatMessagesForGemini(trimmedMessages);
 
-      // Call Gemini API directly
       const { message, action } = await callChatAPI(
         systemPromptRef.current,
         formattedMessages,
-        content.trim()
+        content.trim(),
+        contextRef.current,
+        { onToken: streamInto(npcMessageId), signal: controller.signal }
       );
 
-      // Add NPC response
+      // Settle the NPC response
       const sanitizedResponse = sanitizeNpcResponse(message);
-      const npcMessage: ConversationMessage = {
-        id: `msg-${Date.now() + 1}`,
+      settleReply({
+        id: npcMessageId,
         role: 'npc',
         content: sanitizedResponse || getFallbackResponse(npc),
         timestamp: Date.now()
-      };
-
-      setMessages(prev => [...prev, npcMessage]);
-
-      // If NPC triggered an action, notify the parent
-      if (action && onNPCAction) {
-        onNPCAction(action, npc);
+      });
+
+      // If NPC triggered an action, narrate it and notify the parent
+      if (action) {
+        if (action.type !== 'end_conversation') {
+          setMessages(prev => [...prev, {
+            id: `msg-${Date.now() + 2}`,
+            role: 'system',
+            content: describeDialogueAction(action, npc.name),
+            timestamp: Date.now()
+          }]);
+        }
+        onNPCAction?.(action, npc);
       }
 
     } catch (err) {
+      setStreamingMessageId(null);
+      // Cancelled on purpose: keep whatever was said, add nothing
+      if (controller.signal.aborted) return;
       console.error('Conversation error:', err);
       setError(err instanceof Error ? err.message : 'Failed to get response');
 
       // Add a fallback NPC response for offline/error cases
-      const fallbackMessage: ConversationMessage = {
-        id: `msg-${Date.now() + 1}`,
+      settleFailedReply({
+        id: npcMessageId,
         role: 'npc',
         content: getFallbackResponse(npc),
         timestamp: Date.now()
-      };
-      setMessages(prev => [...prev, fallbackMessage]);
+      });
 
     } finally {
+      if (replyAbortRef.current === controller) replyAbortRef.current = null;
       setIsLoading(false);
     }
-  }, [isLoading, npc, onNPCAction]);
+  }, [isLoading, npc, onNPCAction, beginReply, streamInto, settleReply, settleFailedReply]);
 
   const endConversation = useCallback(async (): Promise<ConversationResult | null> => {
     if (messages.length < 2) return null;
 
     // Analyze conversation impact on NPC disposition and panic
-    const impact = analyzeConversationImpact(messages);
+    const impact = await impactAnalyzer.analyze(messages, npc);
 
     // Generate summary locally
     const playerMessages = messages.filter(m => m.role === 'player').map(m => m.content);
@@ -242,14 +346,28 @@ export function useConversation({
       sentiment: impact.sentiment // Use sentiment from impact analysis
     };
 
-    const result: ConversationResult = { summary, impact };
+    const result: ConversationResult = { summary, impact, notes: extractConversationNotes(messages) };
 
     if (onConversationEnd) {
       onConversationEnd(result);
     }
 
     return result;
-  }, [messages, npc, context.simulationStats.simTime, onConversationEnd]);
+  }, [messages, npc, context.simulationStats.simTime, onConversationEnd, impactAnalyzer]);
+
+  const addSystemMessage = useCallback((content: string) => {
+    setMessages(prev => [...prev, {
+      id: `msg-${Date.now()}-system`,
+      role: 'system',
+      content,
+      timestamp: Date.now()
+    }]);
+  }, []);
+
+  const cancelReply = useCallback(() => {
+    replyAbortRef.current?.abort();
+    replyAbortRef.current = null;
+  }, []);
 
   const clearError = useCallback(() => {
     setError(null);
@@ -258,9 +376,12 @@ export function useConversation({
   return {
     messages,
     isLoading,
+    streamingMessageId,
     error,
     sendMessage,
+    addSystemMessage,
     endConversation,
+    cancelReply,
     clearError
   };
 }
@@ -0,0 +1,292 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { Download, X } from 'lucide-react';
+import {
+  AnalyticsBreakdown,
+  EpidemicSample,
+  attackRateByQuarter,
+  buildEpidemicCurve,
+  estimateRt,
+  everInfected
+} from '../utils/epidemic/analytics';
+import { formatDistrictName } from '../utils/directions';
+
+type EpidemicDashboardProps = {
+  open: boolean;
+  series: EpidemicSample[];
+  onExportCsv: () => void;
+  onExportJson: () => void;
+  onClose: () => void;
+};
+
+type Series = { label: string; color: string; points: Array<[number, number]> };
+
+const CHART_WIDTH = 520;
+const CHART_HEIGHT = 150;
+const PAD = { left: 34, right: 8, top: 8, bottom: 20 };
+const GROUP_COLORS = ['#f59e0b', '#ef4444', '#38bdf8', '#a3e635', '#e879f9', '#fb923c', '#2dd4bf', '#f43f5e', '#c4b5fd', '#fde68a'];
+
+const BREAKDOWN_LABELS: Record<AnalyticsBreakdown, string> = {
+  byDistrict: 'District',
+  bySocialClass: 'Social Class',
+  byReligion: 'Religion',
+  byPlagueType: 'Plague Type'
+};
+
+const LineChart: React.FC<{ series: Series[]; xLabel: string; referenceY?: number; bars?: boolean }> = ({ series, xLabel, referenceY, bars = false }) => {
+  const allPoints = series.flatMap((s) => s.points);
+  if (allPoints.length === 0) {
+    return <div className="h-[150px] flex items-center justify-center text-[11px] italic text-amber-100/30">Not enough data yet.</div>;
+  }
+  const minX = Math.min(...allPoints.map(([x]) => x));
+  const maxX = Math.max(...allPoints.map(([x]) => x));
+  const maxY = Math.max(1, referenceY ?? 0, ...allPoints.map(([, y]) => y));
+  const innerW = CHART_WIDTH - PAD.left - PAD.right;
+  const innerH = CHART_HEIGHT - PAD.top - PAD.bottom;
+  const sx = (x: number) => PAD.left + (maxX === minX ? innerW / 2 : ((x - minX) / (maxX - minX)) * innerW);
+  const sy = (y: number) => PAD.top + innerH - (y / maxY) * innerH;
+  const barWidth = bars && series[0] ? Math.max(2, innerW / Math.max(1, series[0].points.length) - 2) : 0;
+
+  return (
+    <svg viewBox={`0 0 ${CHART_WIDTH} ${CHART_HEIGHT}`} className="w-full h-auto">
+      <line x1={PAD.left} y1={PAD.top + innerH} x2={CHART_WIDTH - PAD.right} y2={PAD.top + innerH} stroke="rgba(251,191,36,0.3)" />
+      <line x1={PAD.left} y1={PAD.top} x2={PAD.left} y2={PAD.top + innerH} stroke="rgba(251,191,36,0.3)" />
+      <text x={PAD.left - 4} y={PAD.top + 8} textAnchor="end" fontSize="9" fill="rgba(253,230,138,0.6)">{maxY >= 10 ? Math.round(maxY) : maxY.toFixed(1)}</text>
+      <text x={PAD.left - 4} y={PAD.top + innerH} textAnchor="end" fontSize="9" fill="rgba(253,230,138,0.6)">0</text>
+      <text x={CHART_WIDTH - PAD.right} y={CHART_HEIGHT - 4} textAnchor="end" fontSize="9" fill="rgba(253,230,138,0.6)">{xLabel}</text>
+      {referenceY !== undefined && (
+        <line x1={PAD.left} y1={sy(referenceY)} x2={CHART_WIDTH - PAD.right} y2={sy(referenceY)} stroke="rgba(248,113,113,0.5)" strokeDasharray="4 3" />
+      )}
+      {series.map((s, index) => (
+        bars && index === 0
+          ? s.points.map(([x, y]) => (
+            <rect key={`${s.label}-${x}`} x={sx(x) - barWidth / 2} y={sy(y)} width={barWidth} height={PAD.top + innerH - sy(y)} fill={s.color} opacity={0.7} />
+          ))
+          : (
+            <polyline
+              key={s.label}
+              fill="none"
+              stroke={s.color}
+              strokeWidth={1.5}
+              points={s.points.map(([x, y]) => `${sx(x)},${sy(y)}`).join(' ')}
+            />
+          )
+      ))}
+    </svg>
+  );
+};
+
+const Legend: React.FC<{ series: Series[] }> = ({ series }) => (
+  <div className="flex flex-wrap gap-x-3 gap-y-1 mt-1">
+    {series.map((s) => (
+      <span key={s.label} className="flex items-center gap-1 text-[9px] uppercase tracking-wider text-amber-100/60">
+        <span className="w-2 h-2 rounded-full" style={{ background: s.color }} />
+        {s.label}
+      </span>
+    ))}
+  </div>
+);
+
+export const EpidemicDashboard: React.FC<EpidemicDashboardProps> = ({
+  open,
+  series,
+  onExportCsv,
+  onExportJson,
+  onClose
+}) => {
+  const [breakdown, setBreakdown] = useState<AnalyticsBreakdown>('byDistrict');
+
+  useEffect(() => {
+    if (!open) return;
+    const handleEscape = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') onClose();
+    };
+    window.addEventListener('keydown', handleEscape);
+    return () => window.removeEventListener('keydown', handleEscape);
+  }, [open, onClose]);
+
+  const curve = useMemo(() => buildEpidemicCurve(series), [series]);
+  const rt = useMemo(() => estimateRt(series), [series]);
+  const attackRates = useMemo(() => attackRateByQuarter(series[series.length - 1] ?? null), [series]);
+
+  const breakdownSeries = useMemo<Series[]>(() => {
+    const groups = new Set<string>();
+    series.forEach((sample) => Object.keys(sample[breakdown]).forEach((group) => groups.add(group)));
+    return Array.from(groups).sort().slice(0, GROUP_COLORS.length).map((group, index) => ({
+      label: breakdown === 'byDistrict' ? formatDistrictName(group) : group,
+      color: GROUP_COLORS[index],
+      points: series.map((sample) => {
+        const counts = sample[breakdown][group];
+        return [sample.simTime / 24, counts ? everInfected(counts) : 0] as [number, number];
+      })
+    }));
+  }, [breakdown, series]);
+
+  if (!open) return null;
+
+  const latest = series[series.length - 1];
+  const latestRt = [...rt].reverse().find((point) => point.rt !== null)?.rt ?? null;
+
+  return (
+    <div
+      className="fixed inset-0 z-[120] flex items-center justify-center pointer-events-auto"
+      style={{ background: 'rgba(0, 0, 0, 0.8)' }}
+      onClick={onClose}
+    >
+      <div
+        className="bg-gradient-to-br from-stone-900 via-stone-800 to-stone-900 border-2 border-amber-700/50 rounded-lg shadow-2xl p-6 w-full max-w-3xl mx-4 max-h-[90vh] overflow-y-auto"
+        onClick={(e) => e.stopPropagation()}
+        style={{ boxShadow: '0 0 40px rgba(217, 119, 6, 0.3), inset 0 0 20px rgba(0, 0, 0, 0.5)' }}
+      >
+        <div className="flex items-center justify-between mb-4">
+          <div>
+            <h2 className="historical-font text-2xl text-amber-100 tracking-wide">Epidemic Dashboard</h2>
+            <p className="text-[10px] uppercase tracking-widest text-amber-200/40">
+              {series.length} samples · city-wide
+            </p>
+          </div>
+          <div className="flex items-center gap-2">
+            <button
+              onClick={onExportCsv}
+              className="flex items-center gap-1.5 px-3 py-1.5 bg-amber-900/40 border border-amber-700/50 rounded text-[10px] uppercase tracking-widest text-amber-200 hover:bg-amber-800/50 transition-colors"
+            >
+              <Download size={11} /> CSV
+            </button>
+            <button
+              onClick={onExportJson}
+              className="flex items-center gap-1.5 px-3 py-1.5 bg-amber-900/40 border border-amber-700/50 rounded text-[10px] uppercase tracking-widest text-amber-200 hover:bg-amber-800/50 transition-colors"
+            >
+              <Download size={11} /> JSON
+            </button>
+            <button onClick={onClose} className="ml-2 text-amber-400/70 hover:text-amber-200 transition-colors">
+              <X size={20} />
+            </button>
+          </div>
+        </div>
+
+        {latest && (
+          <div className="grid grid-cols-5 gap-3 mb-5 text-center">
+            <div className="p-2 rounded bg-black/30 border border-amber-900/40">
+              <div className="font-mono text-lg text-amber-100">{everInfected(latest.totals)}</div>
+              <div className="text-[9px] uppercase tracking-widest text-amber-200/50">Total cases</div>
+            </div>
+            <div className="p-2 rounded bg-black/30 border border-amber-900/40">
+              <div className="font-mono text-lg text-gray-300">{latest.totals.deceased}</div>
+              <div className="text-[9px] uppercase tracking-widest text-amber-200/50">Deaths</div>
+            </div>
+            <div className="p-2 rounded bg-black/30 border border-amber-900/40">
+              <div className="font-mono text-lg text-red-400">{latest.totals.infected}</div>
+              <div className="text-[9px] uppercase tracking-widest text-amber-200/50">Sick now</div>
+            </div>
+            <div className="p-2 rounded bg-black/30 border border-amber-900/40">
+              <div className="font-mono text-lg text-emerald-300">{latest.totals.recovered ?? 0}</div>
+              <div className="text-[9px] uppercase tracking-widest text-amber-200/50">Recovered</div>
+            </div>
+            <div className="p-2 rounded bg-black/30 border border-amber-900/40">
+              <div className={`font-mono text-lg ${latestRt !== null && latestRt > 1 ? 'text-red-400' : 'text-emerald-400'}`}>
+                {latestRt !== null ? latestRt.toFixed(2) : '—'}
+              </div>
+              <div className="text-[9px] uppercase tracking-widest text-amber-200/50">Rt estimate</div>
+            </div>
+          </div>
+        )}
+
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-5">
+          <div>
+            <h3 className="text-xs font-bold text-amber-500 uppercase tracking-widest mb-1">Epidemic Curve</h3>
+            {(() => {
+              const curveSeries: Series[] = [
+                { label: 'New cases', color: '#f59e0b', points: curve.map((p) => [p.day, p.newCases] as [number, number]) },
+                { label: 'New deaths', color: '#9ca3af', points: curve.map((p) => [p.day, p.newDeaths] as [number, number]) }
+              ];
+              return (
+                <>
+                  <LineChart series={curveSeries} xLabel="day" bars />
+                  <Legend series={curveSeries} />
+                </>
+              );
+            })()}
+          </div>
+          <div>
+            <h3 className="text-xs font-bold text-amber-500 uppercase tracking-widest mb-1">Cumulative Deaths</h3>
+            {(() => {
+              const deathSeries: Series[] = [
+                { label: 'People', color: '#d1d5db', points: series.map((s) => [s.simTime / 24, s.totals.deceased] as [number, number]) },
+                {
+                  label: 'Rats',
+                  color: '#a16207',
+                  points: series.filter((s) => s.rats).map((s) => [s.simTime / 24, Math.round(s.rats!.dead)] as [number, number])
+                }
+              ];
+              return (
+                <>
+                  <LineChart series={deathSeries} xLabel="day" />
+                  <Legend series={deathSeries} />
+                </>
+              );
+            })()}
+            <p className="text-[9px] text-amber-100/40 mt-1">
+              A rat die-off usually runs ahead of human bubonic cases as the fleas look for new hosts.
+            </p>
+          </div>
+          <div>
+            <h3 className="text-xs font-bold text-amber-500 uppercase tracking-widest mb-1">Reproduction Number (Rt)</h3>
+            <LineChart
+              series={[{
+                label: 'Rt',
+                color: '#f87171',
+                points: rt.filter((p) => p.rt !== null).map((p) => [p.simTime / 24, p.rt as number] as [number, number])
+              }]}
+              xLabel="day"
+              referenceY={1}
+            />
+            <p className="text-[9px] text-amber-100/40 mt-1">
+              Cases in the last 12 sim-hours over the 12 before. Above the dashed line the outbreak is growing.
+            </p>
+          </div>
+          <div>
+            <h3 className="text-xs font-bold text-amber-500 uppercase tracking-widest mb-1">Attack Rate by Quarter</h3>
+            <div className="space-y-1 max-h-[170px] overflow-y-auto pr-1">
+              {attackRates.length === 0 && (
+                <div className="text-[11px] italic text-amber-100/30">Not enough data yet.</div>
+              )}
+              {attackRates.map((entry) => (
+                <div key={entry.district} className="text-[10px] text-amber-100/80">
+                  <div className="flex justify-between">
+                    <span>{formatDistrictName(entry.district)}</span>
+                    <span className="font-mono text-amber-200/70">
+                      {Math.round(entry.attackRate * 100)}% · {entry.deaths}/{entry.population}
+                    </span>
+                  </div>
+                  <div className="w-full h-1 bg-gray-700/50 rounded-full overflow-hidden">
+                    <div className="h-full bg-gradient-to-r from-red-700 to-red-500" style={{ width: `${Math.round(entry.attackRate * 100)}%` }} />
+                  </div>
+                </div>
+              ))}
+            </div>
+          </div>
+        </div>
+
+        <div className="mt-6">
+          <div className="flex items-center justify-between mb-1">
+            <h3 className="text-xs font-bold text-amber-500 uppercase tracking-widest">Cases by {BREAKDOWN_LABELS[breakdown]}</h3>
+            <div className="flex gap-1">
+              {(Object.keys(BREAKDOWN_LABELS) as AnalyticsBreakdown[]).map((key) => (
+                <button
+                  key={key}
+                  onClick={() => setBreakdown(key)}
+                  className={`px-2 py-0.5 rounded-full text-[9px] uppercase tracking-widest transition-colors ${
+                    breakdown === key ? 'bg-amber-700 text-white' : 'text-amber-200/50 hover:text-amber-200'
+                  }`}
+                >
+                  {BREAKDOWN_LABELS[key]}
+                </button>
+              ))}
+            </div>
+          </div>
+          <LineChart series={breakdownSeries} xLabel="day" />
+          <Legend series={breakdownSeries} />
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -3,7 +3,7 @@ import * as THREE from 'three';
 import { useFrame, useThree } from '@react-three/fiber';
 import { Html } from '@react-three/drei';
 import { InteriorSpec, InteriorProp, InteriorPropType, InteriorRoom, InteriorRoomType, SimulationParams, PlayerStats, Obstacle, SocialClass, BuildingType, NPCStats, AgentState, CONSTANTS, PANIC_SUSCEPTIBILITY, NpcStateOverride, NPCPlagueMeta, PlagueType, DroppedItemRequest } from '../types';
-import { EXPOSURE_CONFIG, calculatePlagueProtection } from '../utils/plagueExposure';
+import { EXPOSURE_CONFIG, calculatePlagueProtection, getExposureBaseChances } from '../utils/plagueExposure';
 import { exposePlayerToPlague } from '../utils/plague';
 import { createNpcPlagueMeta } from '../utils/npcHealth';
 import { seededRandom } from '../utils/procedural';
@@ -1230,7 +1230,7 @@ export const InteriorScene: React.FC<InteriorSceneProps> = ({ spec, params, simT
       if (exposureCheckTimerRef.current >= EXPOSURE_CONFIG.CHECK_INTERVAL_SECONDS) {
         exposureCheckTimerRef.current = 0;
         const pos = playerRef.current.position;
-        const protectionMultiplier = calculatePlagueProtection(playerStats.inventory);
+        const protectionMultiplier = calculatePlagueProtection(playerStats.activeEffects);
 
         const nearbyInfected = npcStatesRef.current.filter((npc) => {
           if (npc.state !== AgentState.INFECTED) return false;
@@ -1242,7 +1242,7 @@ export const InteriorScene: React.FC<InteriorSceneProps> = ({ spec, params, simT
           const pneumonicCount = nearbyInfected.filter((npc) => npc.plagueMeta?.plagueType === PlagueType.PNEUMONIC).length;
           const infectedDensity = Math.min(1, nearbyInfected.length / EXPOSURE_CONFIG.MAX_INFECTED_DENSITY);
           const pneumonicBoost = pneumonicCount > 0 ? 1.4 : 0.4;
-          const exposureChance = EXPOSURE_CONFIG.INFECTED_BASE_CHANCE * infectedDensity * pneumonicBoost * protectionMultiplier;
+          const exposureChance = getExposureBaseChances().infected * infectedDensity * pneumonicBoost * protectionMultiplier;
           if (Math.random() < Math.min(0.2, exposureChance)) {
             const updatedPlague = exposePlayerToPlague(playerStats.plague, 'airborne', 0.8, simTime);
             if (updatedPlague.state !== AgentState.HEALTHY) {
@@ -1261,7 +1261,7 @@ export const InteriorScene: React.FC<InteriorSceneProps> = ({ spec, params, simT
         });
 
         if (nearbyCorpses.length > 0) {
-          const exposureChance = EXPOSURE_CONFIG.CORPSE_BASE_CHANCE * protectionMultiplier;
+          const exposureChance = getExposureBaseChances().corpse * protectionMultiplier;
           if (Math.random() < Math.min(0.15, exposureChance)) {
             const updatedPlague = exposePlayerToPlague(playerStats.plague, 'contact', 0.6, simTime);
             if (updatedPlague.state !== AgentState.HEALTHY) {
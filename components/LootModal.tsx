@@ -18,6 +18,8 @@ export interface LootModalData {
   sourceLocation?: string;   // "Market District", "Ibn Khalil's House"
   items: LootItem[];
   isTheft?: boolean;         // For chests - taking items might be theft
+  sourceId?: string;         // Storage chest id, so taken goods stay taken
+  sourcePosition?: [number, number, number]; // Where it was taken from, for witnesses and the owner
 }
 
 interface LootModalProps {
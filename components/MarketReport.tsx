@@ -0,0 +1,73 @@
+import React from 'react';
+import { GoodCategory, MarketState } from '../types';
+import { GOOD_CATEGORIES, GOOD_CATEGORY_LABELS } from '../utils/market';
+
+const SPARK_WIDTH = 72;
+const SPARK_HEIGHT = 16;
+
+const priceColor = (price: number) => (
+  price >= 2 ? 'text-red-400' :
+  price > 1.15 ? 'text-orange-300' :
+  price < 0.87 ? 'text-emerald-400' : 'text-amber-200/90'
+);
+
+// Price history for one category, scaled to the range seen across all of them
+const Sparkline: React.FC<{ points: number[]; max: number }> = ({ points, max }) => {
+  if (points.length < 2) return <svg width={SPARK_WIDTH} height={SPARK_HEIGHT} />;
+  const path = points
+    .map((price, index) => {
+      const x = (index / (points.length - 1)) * SPARK_WIDTH;
+      const y = SPARK_HEIGHT - (price / max) * SPARK_HEIGHT;
+      return `${x.toFixed(1)},${y.toFixed(1)}`;
+    })
+    .join(' ');
+  const baseline = SPARK_HEIGHT - (1 / max) * SPARK_HEIGHT;
+  return (
+    <svg width={SPARK_WIDTH} height={SPARK_HEIGHT} className="overflow-visible">
+      <line x1={0} x2={SPARK_WIDTH} y1={baseline} y2={baseline} stroke="rgba(251,191,36,0.15)" strokeDasharray="2 2" />
+      <polyline points={path} fill="none" stroke="rgba(251,191,36,0.7)" strokeWidth={1.2} />
+    </svg>
+  );
+};
+
+/** City prices by good category against an ordinary year, their history, and what moved them */
+export const MarketReport: React.FC<{ market: MarketState }> = ({ market }) => {
+  const history = (category: GoodCategory) => [
+    ...market.history.map(point => point.prices[category]),
+    market.categories[category].price
+  ];
+  const max = Math.max(2, ...GOOD_CATEGORIES.flatMap(history));
+
+  return (
+    <div className="bg-black/50 p-3 rounded-lg border border-amber-900/40 shadow-inner">
+      <div className="flex items-center justify-between mb-3 border-b border-white/10 pb-2">
+        <span className="historical-font text-amber-500 text-xs uppercase tracking-widest">City Market</span>
+        <span className="text-[9px] text-amber-100/40 uppercase tracking-widest">Price vs. usual</span>
+      </div>
+
+      <div className="space-y-1.5">
+        {GOOD_CATEGORIES.map(category => {
+          const { price } = market.categories[category];
+          return (
+            <div key={category} className="flex items-center justify-between gap-2 text-[10px]">
+              <span className="flex-1 text-amber-100/80 uppercase tracking-wide font-semibold">{GOOD_CATEGORY_LABELS[category]}</span>
+              <Sparkline points={history(category)} max={max} />
+              <span className={`w-10 text-right font-mono ${priceColor(price)}`}>×{price.toFixed(2)}</span>
+            </div>
+          );
+        })}
+      </div>
+
+      {market.news.length > 0 && (
+        <div className="mt-3 pt-2 border-t border-white/10 space-y-1">
+          {market.news.slice(-3).reverse().map(entry => (
+            <div key={`${entry.simTime}-${entry.kind}-${entry.text}`} className="text-[9px] text-amber-100/50 italic">
+              <span className="not-italic font-mono text-amber-500/50 mr-1">Day {Math.floor(entry.simTime / 24) + 1}</span>
+              {entry.text}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -10,6 +10,7 @@ interface MarketStallProps {
 
 export const MarketStall: React.FC<MarketStallProps> = ({ stall, nightFactor }) => {
   const { position, rotation, size, awningColor, woodColor, goodsColor, type } = stall;
+  const isOpen = stall.isOpen !== false;
 
   // Size configurations
   const sizeConfig = {
@@ -243,7 +244,7 @@ export const MarketStall: React.FC<MarketStallProps> = ({ stall, nightFactor })
   return (
     <group position={position} rotation={[0, rotationRadians, 0]}>
       {/* Colored glass lantern lighting at night */}
-      {nightFactor > 0.05 && (() => {
+      {isOpen && nightFactor > 0.05 && (() => {
         // Simple lantern colors - mostly traditional amber/gold with occasional pink/green
         const lanternColors = [
           { glass: '#ffb347', light: '#ff7a18', name: 'amber' },      // Warm amber (most common)
@@ -350,10 +351,20 @@ export const MarketStall: React.FC<MarketStallProps> = ({ stall, nightFactor })
         ))
       )}
 
-      {/* Goods specific to stall type */}
-      {renderGoods()}
-      {/* Extra stall clutter */}
-      {renderExtras()}
+      {isOpen ? (
+        <>
+          {/* Goods specific to stall type */}
+          {renderGoods()}
+          {/* Extra stall clutter */}
+          {renderExtras()}
+        </>
+      ) : (
+        /* Shuttered: the counter cleared and covered with sackcloth */
+        <mesh position={[0, 0.97, 0]} castShadow receiveShadow>
+          <boxGeometry args={[sizeConfig.width - 0.1, 0.04, sizeConfig.depth * 0.75]} />
+          <meshStandardMaterial color="#8a7a5e" roughness={0.95} />
+        </mesh>
+      )}
     </group>
   );
 };
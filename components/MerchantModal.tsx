@@ -1,30 +1,109 @@
 import React, { useState } from 'react';
-import { MerchantNPC, PlayerStats, MerchantItem, PlayerItem } from '../types';
-import { Coins, Package, ShoppingCart, TrendingUp, Sparkles, X } from 'lucide-react';
+import { MerchantNPC, PlayerStats, MerchantItem, PlayerItem, MarketState, NpcRelationship } from '../types';
+import { Coins, Handshake, Package, ShoppingCart, TrendingUp, Sparkles, X } from 'lucide-react';
+import { getBuyPrice, getMarketMultiplier, getSellPrice } from '../utils/market';
+import {
+  HaggleOutcome,
+  HaggleSession,
+  acceptHagglePrice,
+  getBuyBackCeiling,
+  getHaggleTerms,
+  makeHaggleOffer,
+  startHaggle,
+  toHaggleOutcome
+} from '../utils/haggling';
 
 interface MerchantModalProps {
   merchant: MerchantNPC;
   playerStats: PlayerStats;
+  market: MarketState;
+  /** The player's history with this merchant; sways how far they bend when haggling */
+  relationship?: NpcRelationship | null;
+  /** The player's reputation in this district, which may be worse than their name at large */
+  districtReputation?: number;
   onClose: () => void;
-  onPurchase: (item: MerchantItem, quantity: number) => void;
-  onSell: (playerItem: PlayerItem, quantity: number) => void;
+  onPurchase: (item: MerchantItem, quantity: number, unitPrice?: number) => void;
+  onSell: (playerItem: PlayerItem, quantity: number, unitPrice?: number) => void;
+  onHaggleResult?: (merchant: MerchantNPC, outcome: HaggleOutcome) => void;
 }
 
 export const MerchantModal: React.FC<MerchantModalProps> = ({
   merchant,
   playerStats,
+  market,
+  relationship,
+  districtReputation,
   onClose,
   onPurchase,
-  onSell
+  onSell,
+  onHaggleResult
 }) => {
   const [selectedTab, setSelectedTab] = useState<'buy' | 'sell'>('buy');
+  const [haggle, setHaggle] = useState<HaggleSession | null>(null);
+  const [offer, setOffer] = useState(0);
+  // Items whose haggle ended with the merchant walking away; they will not bargain over them again this visit
+  const [refusedItemIds, setRefusedItemIds] = useState<string[]>([]);
 
-  const getFinalPrice = (basePrice: number) => {
-    return Math.round(basePrice * merchant.haggleModifier);
+  const getFinalPrice = (item: MerchantItem) => getBuyPrice(market, item, merchant.haggleModifier);
+
+  // Merchants here judge the player by their name in this district
+  const haggler = { ...playerStats, reputation: districtReputation ?? playerStats.reputation };
+
+  // What the merchant pays outright, never as much as the least they would sell it for
+  const getOfferPrice = (item: MerchantItem) => Math.min(
+    getSellPrice(market, item),
+    getBuyBackCeiling(merchant, haggler, relationship, getFinalPrice(item))
+  );
+
+  const beginHaggle = (itemId: string, itemName: string, side: 'buy' | 'sell', listPrice: number, askPrice?: number) => {
+    setHaggle(startHaggle(itemId, itemName, side, listPrice, getHaggleTerms(merchant, haggler, relationship, listPrice, side, askPrice)));
+    // Open with a tenth off (or on top), the customary first move
+    setOffer(Math.max(1, Math.round(listPrice * (side === 'buy' ? 0.9 : 1.1))));
+  };
+
+  // Trades at the agreed price and reports the bargaining once it is over
+  const settleHaggle = (next: HaggleSession) => {
+    setHaggle(next);
+    if (next.status === 'open') {
+      setOffer(next.currentPrice);
+      return;
+    }
+    if (next.status === 'agreed' && next.agreedPrice !== null) {
+      if (next.side === 'buy') {
+        const item = merchant.inventory.items.find(entry => entry.id === next.itemId);
+        if (item) onPurchase(item, 1, next.agreedPrice);
+      } else {
+        const playerItem = playerStats.inventory.find(entry => entry.id === next.itemId);
+        if (playerItem) onSell(playerItem, 1, next.agreedPrice);
+      }
+    } else {
+      setRefusedItemIds(prev => [...prev, next.itemId]);
+    }
+    onHaggleResult?.(merchant, toHaggleOutcome(next));
   };
 
-  const getSellPrice = (basePrice: number) => {
-    return Math.round(basePrice * 0.7);
+  const leaveHaggle = () => {
+    if (haggle?.status === 'open' && haggle.offers > 0) onHaggleResult?.(merchant, toHaggleOutcome(haggle));
+    setHaggle(null);
+  };
+
+  const haggleButton = (itemId: string, itemName: string, side: 'buy' | 'sell', listPrice: number, disabled: boolean, askPrice?: number) => (
+    <button
+      onClick={() => beginHaggle(itemId, itemName, side, listPrice, askPrice)}
+      disabled={disabled || !!haggle || refusedItemIds.includes(itemId)}
+      title={refusedItemIds.includes(itemId) ? 'They will not bargain over this again today' : 'Make an offer'}
+      className="px-3 py-2.5 rounded border border-amber-700/50 text-amber-200/80 hover:bg-amber-700/20 disabled:opacity-30 disabled:cursor-not-allowed transition-all"
+    >
+      <Handshake size={14} />
+    </button>
+  );
+
+  // Marks goods the plague has made dear or cheap
+  const getPriceTrend = (item: MerchantItem) => {
+    const multiplier = getMarketMultiplier(market, item);
+    if (multiplier > 1.15) return { label: `Scarce ×${multiplier.toFixed(1)}`, className: 'text-red-400/80' };
+    if (multiplier < 0.87) return { label: `Glut ×${multiplier.toFixed(1)}`, className: 'text-emerald-400/80' };
+    return null;
   };
 
   const rarityMeta = {
@@ -94,7 +173,7 @@ export const MerchantModal: React.FC<MerchantModalProps> = ({
         {/* Tabs */}
         <div className="flex border-b border-amber-900/30">
           <button
-            onClick={() => setSelectedTab('buy')}
+            onClick={() => { leaveHaggle(); setSelectedTab('buy'); }}
             className={`flex-1 py-3 text-xs font-semibold uppercase tracking-widest transition-all flex items-center justify-center gap-2 ${
               selectedTab === 'buy'
                 ? 'bg-amber-700/90 text-white'
@@ -105,7 +184,7 @@ export const MerchantModal: React.FC<MerchantModalProps> = ({
             Buy
           </button>
           <button
-            onClick={() => setSelectedTab('sell')}
+            onClick={() => { leaveHaggle(); setSelectedTab('sell'); }}
             className={`flex-1 py-3 text-xs font-semibold uppercase tracking-widest transition-all flex items-center justify-center gap-2 ${
               selectedTab === 'sell'
                 ? 'bg-amber-700/90 text-white'
@@ -117,12 +196,60 @@ export const MerchantModal: React.FC<MerchantModalProps> = ({
           </button>
         </div>
 
+        {/* Haggle */}
+        {haggle && (
+          <div className="border-b border-amber-900/30 bg-amber-950/20 px-3 md:px-6 py-3">
+            <div className="flex items-center justify-between mb-2">
+              <span className="text-[10px] uppercase tracking-widest text-amber-500/80 font-semibold">
+                Haggling over {haggle.itemName}
+              </span>
+              <button onClick={leaveHaggle} className="text-[10px] uppercase tracking-widest text-amber-200/50 hover:text-amber-200">
+                {haggle.status === 'open' ? 'Leave it' : 'Close'}
+              </button>
+            </div>
+            <div className="max-h-28 overflow-y-auto space-y-1 mb-2">
+              {haggle.lines.map((line, index) => (
+                <div key={index} className={`text-[11px] ${line.speaker === 'merchant' ? 'text-amber-100/80 italic' : 'text-amber-300/80 text-right'}`}>
+                  {line.speaker === 'merchant' ? `${merchant.stats.name.split(' ')[0]}: "${line.text}"` : line.text}
+                </div>
+              ))}
+            </div>
+            {haggle.status === 'open' && (
+              <div className="flex items-center gap-2">
+                <Coins size={13} className="text-amber-500" />
+                <input
+                  type="number"
+                  min={1}
+                  value={offer}
+                  onChange={(e) => setOffer(Math.max(0, parseInt(e.target.value, 10) || 0))}
+                  className="w-20 bg-black/60 border border-amber-800/50 rounded px-2 py-1 text-amber-100 font-mono text-sm"
+                />
+                <button
+                  onClick={() => settleHaggle(makeHaggleOffer(haggle, offer))}
+                  disabled={offer < 1 || (haggle.side === 'buy' && offer > playerStats.currency)}
+                  className="px-3 py-1.5 rounded bg-amber-700 hover:bg-amber-600 disabled:bg-white/5 disabled:text-gray-600 text-white text-[10px] font-semibold uppercase tracking-widest"
+                >
+                  Offer
+                </button>
+                <button
+                  onClick={() => settleHaggle(acceptHagglePrice(haggle))}
+                  disabled={haggle.side === 'buy' && haggle.currentPrice > playerStats.currency}
+                  className="px-3 py-1.5 rounded border border-amber-600/50 text-amber-200 hover:bg-amber-700/20 disabled:opacity-30 text-[10px] font-semibold uppercase tracking-widest"
+                >
+                  Accept {haggle.currentPrice}
+                </button>
+              </div>
+            )}
+          </div>
+        )}
+
         {/* Content */}
         <div className="flex-1 overflow-y-auto p-6">
           {selectedTab === 'buy' ? (
             <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
               {merchant.inventory.items.map((item) => {
-                const finalPrice = getFinalPrice(item.basePrice);
+                const finalPrice = getFinalPrice(item);
+                const trend = getPriceTrend(item);
                 const canAfford = playerStats.currency >= finalPrice;
                 const hasSpace = playerStats.inventory.reduce((sum, i) => sum + i.quantity, 0) < playerStats.maxInventorySlots;
                 const meta = rarityMeta[item.rarity];
@@ -166,6 +293,7 @@ export const MerchantModal: React.FC<MerchantModalProps> = ({
                       <div className="flex items-center gap-1.5">
                         <Coins size={13} className="text-amber-500" />
                         <span className="text-amber-100 font-mono font-semibold text-sm">{finalPrice}</span>
+                        {trend && <span className={`text-[9px] uppercase tracking-wider ${trend.className}`}>{trend.label}</span>}
                       </div>
                       <div className="text-[10px] text-amber-100/40 uppercase tracking-wider">
                         Stock: <span className="font-mono text-amber-100/60">{item.quantity}</span>
@@ -173,17 +301,20 @@ export const MerchantModal: React.FC<MerchantModalProps> = ({
                     </div>
 
                     {/* Buy Button */}
-                    <button
-                      onClick={() => onPurchase(item, 1)}
-                      disabled={!canAfford || !hasSpace || item.quantity === 0}
-                      className={`w-full py-2.5 rounded font-semibold text-[10px] tracking-widest uppercase transition-all ${
-                        canAfford && hasSpace && item.quantity > 0
-                          ? 'bg-amber-700 hover:bg-amber-600 text-white shadow-md active:scale-[0.98]'
-                          : 'bg-white/5 text-gray-600 cursor-not-allowed'
-                      }`}
-                    >
-                      {item.quantity === 0 ? 'Out of Stock' : !canAfford ? 'Insufficient Funds' : !hasSpace ? 'Inventory Full' : 'Purchase'}
-                    </button>
+                    <div className="flex gap-2">
+                      <button
+                        onClick={() => onPurchase(item, 1)}
+                        disabled={!canAfford || !hasSpace || item.quantity === 0}
+                        className={`flex-1 py-2.5 rounded font-semibold text-[10px] tracking-widest uppercase transition-all ${
+                          canAfford && hasSpace && item.quantity > 0
+                            ? 'bg-amber-700 hover:bg-amber-600 text-white shadow-md active:scale-[0.98]'
+                            : 'bg-white/5 text-gray-600 cursor-not-allowed'
+                        }`}
+                      >
+                        {item.quantity === 0 ? 'Out of Stock' : !canAfford ? 'Insufficient Funds' : !hasSpace ? 'Inventory Full' : 'Purchase'}
+                      </button>
+                      {haggleButton(item.id, item.name, 'buy', finalPrice, !hasSpace || item.quantity === 0)}
+                    </div>
                   </div>
                 );
               })}
@@ -202,7 +333,8 @@ export const MerchantModal: React.FC<MerchantModalProps> = ({
                   const baseItem = merchant.inventory.items.find(i => i.id === playerItem.itemId);
                   if (!baseItem) return null;
 
-                  const sellPrice = getSellPrice(baseItem.basePrice);
+                  const sellPrice = getOfferPrice(baseItem);
+                  const trend = getPriceTrend(baseItem);
                   const meta = rarityMeta[baseItem.rarity];
 
                   return (
@@ -232,6 +364,7 @@ export const MerchantModal: React.FC<MerchantModalProps> = ({
                         <div className="flex items-center gap-1.5">
                           <Coins size={13} className="text-green-500" />
                           <span className="text-green-400 font-mono font-semibold text-sm">{sellPrice}</span>
+                          {trend && <span className={`text-[9px] uppercase tracking-wider ${trend.className}`}>{trend.label}</span>}
                         </div>
                         <div className="text-[10px] text-amber-100/40 uppercase tracking-wider">
                           Owned: <span className="font-mono text-amber-100/60">{playerItem.quantity}</span>
@@ -239,12 +372,15 @@ export const MerchantModal: React.FC<MerchantModalProps> = ({
                       </div>
 
                       {/* Sell Button */}
-                      <button
-                        onClick={() => onSell(playerItem, 1)}
-                        className="w-full bg-green-700 hover:bg-green-600 text-white py-2.5 rounded font-semibold text-[10px] tracking-widest uppercase transition-all shadow-md active:scale-[0.98]"
-                      >
-                        Sell
-                      </button>
+                      <div className="flex gap-2">
+                        <button
+                          onClick={() => onSell(playerItem, 1, sellPrice)}
+                          className="flex-1 bg-green-700 hover:bg-green-600 text-white py-2.5 rounded font-semibold text-[10px] tracking-widest uppercase transition-all shadow-md active:scale-[0.98]"
+                        >
+                          Sell
+                        </button>
+                        {haggleButton(playerItem.id, baseItem.name, 'sell', sellPrice, sellPrice < 1, getFinalPrice(baseItem))}
+                      </div>
                     </div>
                   );
                 })
@@ -2,7 +2,7 @@ import React, { useRef, useState, useMemo, memo, useEffect } from 'react';
 import { useFrame, useThree } from '@react-three/fiber';
 import * as THREE from 'three';
 import { Html } from '@react-three/drei';
-import { AgentState, NPCStats, SocialClass, CONSTANTS, BuildingMetadata, BuildingInfectionState, BuildingType, DistrictType, Obstacle, PANIC_SUSCEPTIBILITY, PlayerActionEvent, NpcStateOverride, NPCPlagueMeta, PlagueType } from '../types';
+import { AgentState, NPCStats, SocialClass, CONSTANTS, BuildingMetadata, BuildingInfectionState, BuildingType, DistrictType, Obstacle, PANIC_SUSCEPTIBILITY, PlayerActionEvent, NpcStateOverride, NPCPlagueMeta, NPCRecord, PlagueType } from '../types';
 import { Humanoid } from './Humanoid';
 import { isBlockedByBuildings, isBlockedByObstacles } from '../utils/collision';
 import { AgentSnapshot, SpatialHash, queryNearbyAgents } from '../utils/spatial';
@@ -185,7 +185,8 @@ interface NPCProps {
   target: THREE.Vector3;
   onUpdate: (id: string, state: AgentState, pos: THREE.Vector3, awareness: number, panic: number, plagueMeta?: NPCPlagueMeta) => void;
   getSimTime: () => number;
-  infectionRate: number;
+  /** The registry record; the epidemic core decides its health and the NPC shows it */
+  getRecord?: (id: string) => NPCRecord | undefined;
   quarantine: boolean;
   simulationSpeed: number;
   buildings: BuildingMetadata[];
@@ -220,7 +221,7 @@ export const NPC: React.FC<NPCProps> = memo(({
   target,
   onUpdate,
   getSimTime,
-  infectionRate,
+  getRecord,
   quarantine,
   simulationSpeed,
   buildings,
@@ -262,6 +263,7 @@ export const NPC: React.FC<NPCProps> = memo(({
   const incubationHoursRef = useRef<number | null>(plagueMeta?.incubationHours ?? null);
   const deathHoursRef = useRef<number | null>(plagueMeta?.deathHours ?? null);
   const onsetTimeRef = useRef<number | null>(plagueMeta?.onsetTime ?? null);
+  const recoveredTimeRef = useRef<number | null>(plagueMeta?.recoveredTime ?? null);
   const currentPosRef = useRef(position.clone());
   const currentTargetRef = useRef(target.clone());
   const retargetTimerRef = useRef(0);
@@ -271,14 +273,6 @@ export const NPC: React.FC<NPCProps> = memo(({
   const impactPulseRef = useRef(0);
   const lastSentPlagueMetaRef = useRef<string>('');
 
-  useEffect(() => {
-    if (!plagueMeta) return;
-    plagueTypeRef.current = plagueMeta.plagueType;
-    exposureTimeRef.current = plagueMeta.exposureTime;
-    incubationHoursRef.current = plagueMeta.incubationHours;
-    deathHoursRef.current = plagueMeta.deathHours;
-    onsetTimeRef.current = plagueMeta.onsetTime;
-  }, [plagueMeta?.plagueType, plagueMeta?.exposureTime, plagueMeta?.incubationHours, plagueMeta?.deathHours, plagueMeta?.onsetTime]);
   const playerImpactCooldownRef = useRef(0);
   const impactGroupRef = useRef<THREE.Group>(null);
   const statusMarkerRef = useRef<THREE.Mesh>(null);
@@ -300,10 +294,6 @@ export const NPC: React.FC<NPCProps> = memo(({
   // PERFORMANCE: Distance LOD - calculate distance from camera for detail level
   const distanceFromCameraRef = useRef(0);
 
-  // PERFORMANCE: Throttle infection checks to once per second instead of every frame
-  const infectionCheckTimerRef = useRef(0);
-  const infectionCheckJitterRef = useRef(Math.random() * 0.6);
-
   // MORALE SYSTEM: Track awareness and panic levels
   const awarenessRef = useRef(stats.awarenessLevel);
   const panicRef = useRef(stats.panicLevel);
@@ -484,6 +474,40 @@ export const NPC: React.FC<NPCProps> = memo(({
   const moodDisplay = moodOverride ?? stats.mood;
   const lastOverrideNonceRef = useRef<number | null>(null);
 
+  // Health lives on the registry record, which the epidemic core advances; it is
+  // read every frame and written back only when a remedy or the dev tools change it here
+  const syncHealthFromRecord = () => {
+    const record = getRecord?.(stats.id);
+    if (!record) return;
+    if (record.state !== stateRef.current) {
+      stateRef.current = record.state;
+      stateStartTimeRef.current = record.stateStartTime;
+      // The sick and the dead don't approach
+      if (record.state !== AgentState.HEALTHY) isApproachingPlayerRef.current = false;
+    }
+    plagueTypeRef.current = record.plagueMeta?.plagueType ?? PlagueType.NONE;
+    exposureTimeRef.current = record.plagueMeta?.exposureTime ?? null;
+    incubationHoursRef.current = record.plagueMeta?.incubationHours ?? null;
+    deathHoursRef.current = record.plagueMeta?.deathHours ?? null;
+    onsetTimeRef.current = record.plagueMeta?.onsetTime ?? null;
+    recoveredTimeRef.current = record.plagueMeta?.recoveredTime ?? null;
+  };
+
+  const writeHealthToRecord = () => {
+    const record = getRecord?.(stats.id);
+    if (!record) return;
+    record.state = stateRef.current;
+    record.stateStartTime = stateStartTimeRef.current;
+    record.plagueMeta = {
+      plagueType: plagueTypeRef.current,
+      exposureTime: exposureTimeRef.current,
+      incubationHours: incubationHoursRef.current,
+      deathHours: deathHoursRef.current,
+      onsetTime: onsetTimeRef.current,
+      recoveredTime: recoveredTimeRef.current
+    };
+  };
+
   useEffect(() => {
     if (!npcStateOverride || (npcStateOverride.id !== stats.id && npcStateOverride.id !== '*')) return;
     if (lastOverrideNonceRef.current === npcStateOverride.nonce) return;
@@ -497,12 +521,14 @@ export const NPC: React.FC<NPCProps> = memo(({
       incubationHoursRef.current = meta.incubationHours;
       deathHoursRef.current = meta.deathHours;
       onsetTimeRef.current = meta.onsetTime;
+      recoveredTimeRef.current = null;
     } else if (npcStateOverride.state === AgentState.HEALTHY) {
       plagueTypeRef.current = PlagueType.NONE;
       exposureTimeRef.current = null;
       incubationHoursRef.current = null;
       deathHoursRef.current = null;
       onsetTimeRef.current = null;
+      recoveredTimeRef.current = null;
     } else if (npcStateOverride.state === AgentState.INFECTED && plagueTypeRef.current === PlagueType.NONE) {
       const meta = createNpcPlagueMeta(idSeed + Math.floor(getSimTime() * 10), getSimTime());
       plagueTypeRef.current = meta.plagueType;
@@ -511,6 +537,7 @@ export const NPC: React.FC<NPCProps> = memo(({
       deathHoursRef.current = meta.deathHours;
       onsetTimeRef.current = getSimTime();
     }
+    writeHealthToRecord();
   }, [npcStateOverride, stats.id, getSimTime]);
   const getReligionColor = (value: string) => {
     switch (value) {
@@ -661,6 +688,7 @@ export const NPC: React.FC<NPCProps> = memo(({
     if (!group.current || stateRef.current === AgentState.DECEASED) return;
 
     const simTime = getSimTime();
+    syncHealthFromRecord();
     // Freeze movement and logic if simulation is paused
     if (simulationSpeed <= 0) return;
     const baseDelta = Math.min(delta, 0.1);
@@ -1067,26 +1095,6 @@ export const NPC: React.FC<NPCProps> = memo(({
       lastPositionRef.current.copy(currentPosRef.current);
     }
 
-    // 2. State Progression
-    if (stateRef.current === AgentState.INCUBATING) {
-      const exposureTime = exposureTimeRef.current ?? stateStartTimeRef.current;
-      const incubationHours = incubationHoursRef.current ?? CONSTANTS.HOURS_TO_INFECTED;
-      if (simTime - exposureTime >= incubationHours) {
-        stateRef.current = AgentState.INFECTED;
-        stateStartTimeRef.current = simTime;
-        onsetTimeRef.current = simTime;
-        isApproachingPlayerRef.current = false; // Sick NPCs don't approach
-      }
-    } else if (stateRef.current === AgentState.INFECTED) {
-      const onsetTime = onsetTimeRef.current ?? stateStartTimeRef.current;
-      const deathHours = deathHoursRef.current ?? (CONSTANTS.HOURS_TO_DEATH - CONSTANTS.HOURS_TO_INFECTED);
-      if (simTime - onsetTime >= deathHours) {
-        stateRef.current = AgentState.DECEASED;
-        stateStartTimeRef.current = simTime;
-        isApproachingPlayerRef.current = false; // Dead NPCs don't approach
-      }
-    }
-
     let cachedNeighbors: AgentSnapshot[] | null = null;
     const getNeighbors = () => {
       if (!cachedNeighbors && agentHash) {
@@ -1095,45 +1103,6 @@ export const NPC: React.FC<NPCProps> = memo(({
       return cachedNeighbors ?? [];
     };
 
-    // 3. Infection Spread (Throttled and de-synced for performance)
-    if (stateRef.current === AgentState.HEALTHY && agentHash) {
-      infectionCheckTimerRef.current += simDelta;
-
-      // Only check infection on a jittered interval (de-synced across NPCs)
-      if (infectionCheckTimerRef.current >= 1.2 + infectionCheckJitterRef.current) {
-        infectionCheckTimerRef.current = 0;
-        infectionCheckJitterRef.current = Math.random() * 0.6;
-
-        if (distanceFromCameraRef.current < 45) {
-          const neighbors = getNeighbors();
-          for (const other of neighbors) {
-            if (other.id === stats.id) continue;
-            if (other.state === AgentState.INFECTED || other.state === AgentState.INCUBATING) {
-              if (currentPosRef.current.distanceToSquared(other.pos) < 4.0) {
-                // Compensate for slower cadence to maintain same infection rate
-                const contagionMod = other.state === AgentState.INFECTED
-                  ? (other.plagueType === PlagueType.PNEUMONIC ? 1 : other.plagueType === PlagueType.BUBONIC ? 0.35 : 0.2)
-                  : (other.plagueType === PlagueType.PNEUMONIC ? 0.35 : 0.12);
-                const exposureChance = Math.min(0.25, infectionRate * simulationSpeed * 0.5 * 48 * contagionMod);
-                if (Math.random() < exposureChance) {
-                  const meta = createNpcPlagueMeta(idSeed + Math.floor(simTime * 10), simTime);
-                  plagueTypeRef.current = meta.plagueType;
-                  exposureTimeRef.current = meta.exposureTime;
-                  incubationHoursRef.current = meta.incubationHours;
-                  deathHoursRef.current = meta.deathHours;
-                  onsetTimeRef.current = meta.onsetTime;
-                  stateRef.current = AgentState.INCUBATING;
-                  stateStartTimeRef.current = simTime;
-                  isApproachingPlayerRef.current = false; // Sick NPCs don't approach
-                  break;
-                }
-              }
-            }
-          }
-        }
-      }
-    }
-
     // 3b. RUMOR SPREAD & PANIC (Throttled and de-synced)
     if (agentHash) {
       rumorCheckTimerRef.current += simDelta;
@@ -1239,48 +1208,43 @@ export const NPC: React.FC<NPCProps> = memo(({
           setMoodOverride('Reassured');
           moodExpireRef.current = performance.now() + 6000;
         } else if (actionEvent.effect === 'aoe_heal') {
-          // HEAL: Can cure incubating NPCs, reduce symptoms of infected
-          if (stateRef.current === AgentState.INCUBATING) {
-            // 60% chance to cure if caught early (incubating)
-            if (Math.random() < 0.6) {
-              stateRef.current = AgentState.HEALTHY;
-              stateStartTimeRef.current = simTime;
-              plagueTypeRef.current = PlagueType.NONE;
-              exposureTimeRef.current = null;
-              incubationHoursRef.current = null;
-              deathHoursRef.current = null;
-              onsetTimeRef.current = null;
-              setMoodOverride('Grateful');
-              moodExpireRef.current = performance.now() + 15000;
-              panicRef.current = Math.max(0, panicRef.current - 30);
-            } else {
-              setMoodOverride('Hopeful');
-              moodExpireRef.current = performance.now() + 8000;
-            }
-          } else if (stateRef.current === AgentState.INFECTED) {
-            // 20% chance to cure if already infected (harder to heal)
-            if (Math.random() < 0.2) {
-              stateRef.current = AgentState.HEALTHY;
-              stateStartTimeRef.current = simTime;
-              plagueTypeRef.current = PlagueType.NONE;
-              exposureTimeRef.current = null;
-              incubationHoursRef.current = null;
-              deathHoursRef.current = null;
-              onsetTimeRef.current = null;
-              setMoodOverride('Grateful');
-              moodExpireRef.current = performance.now() + 20000;
-              panicRef.current = Math.max(0, panicRef.current - 40);
-            } else {
-              // At least reduce panic and reset death timer slightly
-              panicRef.current = Math.max(0, panicRef.current - 15);
-              setMoodOverride('Comforted');
-              moodExpireRef.current = performance.now() + 10000;
-            }
-          } else if (stateRef.current === AgentState.HEALTHY) {
+          // HEAL: the outcome was rolled when the remedy was spent; apply it to the plague timeline
+          const outcome = actionEvent.healOutcomes?.[stats.id] ?? 'untouched';
+          const potency = actionEvent.remedyPotency ?? 0;
+          if (stateRef.current === AgentState.HEALTHY) {
             // Healthy NPCs are grateful for the attention
             setMoodOverride('Appreciative');
             moodExpireRef.current = performance.now() + 5000;
             panicRef.current = Math.max(0, panicRef.current - 10);
+          } else if (outcome === 'cured' && (stateRef.current === AgentState.INCUBATING || stateRef.current === AgentState.INFECTED)) {
+            // Treated survivors keep their plague record and the immunity that comes with it
+            stateRef.current = AgentState.HEALTHY;
+            stateStartTimeRef.current = simTime;
+            recoveredTimeRef.current = simTime;
+            setMoodOverride('Grateful');
+            moodExpireRef.current = performance.now() + 15000;
+            panicRef.current = Math.max(0, panicRef.current - 35);
+          } else if (outcome === 'eased' && stateRef.current === AgentState.INCUBATING) {
+            // Holds the sickness back a while
+            incubationHoursRef.current = (incubationHoursRef.current ?? CONSTANTS.HOURS_TO_INFECTED) * (1 + 0.5 * potency);
+            setMoodOverride('Hopeful');
+            moodExpireRef.current = performance.now() + 8000;
+          } else if (outcome === 'eased' && stateRef.current === AgentState.INFECTED) {
+            // Buys time before the end, and with it another day's chance to pull through
+            deathHoursRef.current = (deathHoursRef.current ?? (CONSTANTS.HOURS_TO_DEATH - CONSTANTS.HOURS_TO_INFECTED)) * (1 + 0.5 * potency);
+            panicRef.current = Math.max(0, panicRef.current - 15);
+            setMoodOverride('Comforted');
+            moodExpireRef.current = performance.now() + 10000;
+          }
+          writeHealthToRecord();
+        } else if (actionEvent.effect === 'self_buff' && stateRef.current !== AgentState.DECEASED) {
+          // PRAY: fellow believers join in and are steadied; others are merely quieted
+          const devotion = actionEvent.devotion ?? 0.5;
+          const sharesFaith = actionEvent.religion === stats.religion;
+          panicRef.current = Math.max(0, panicRef.current - (sharesFaith ? 25 : 6) * devotion / panicMod);
+          if (sharesFaith) {
+            setMoodOverride('Devout');
+            moodExpireRef.current = performance.now() + 8000;
           }
         }
       }
@@ -1299,7 +1263,8 @@ export const NPC: React.FC<NPCProps> = memo(({
         exposureTimeRef.current ?? 'n',
         incubationHoursRef.current ?? 'n',
         deathHoursRef.current ?? 'n',
-        onsetTimeRef.current ?? 'n'
+        onsetTimeRef.current ?? 'n',
+        recoveredTimeRef.current ?? 'n'
       ].join('|');
       if (metaKey !== lastSentPlagueMetaRef.current) {
         lastSentPlagueMetaRef.current = metaKey;
@@ -1308,7 +1273,8 @@ export const NPC: React.FC<NPCProps> = memo(({
           exposureTime: exposureTimeRef.current,
           incubationHours: incubationHoursRef.current,
           deathHours: deathHoursRef.current,
-          onsetTime: onsetTimeRef.current
+          onsetTime: onsetTimeRef.current,
+          recoveredTime: recoveredTimeRef.current
         };
       }
     }
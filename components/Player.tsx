@@ -21,7 +21,7 @@ import { PushableObject, PickupInfo, PushableMaterial, isClimbablePushable, getP
 import { sampleTerrainHeight, TerrainHeightmap } from '../utils/terrain';
 import { calculateTerrainGradient } from '../utils/terrain-gradient';
 import { collisionSounds, CollisionMaterial } from './audio/CollisionSounds';
-import { EXPOSURE_CONFIG, calculatePlagueProtection } from '../utils/plagueExposure';
+import { EXPOSURE_CONFIG, calculatePlagueProtection, getExposureBaseChances } from '../utils/plagueExposure';
 import { Rat } from './Rats';
 import { getAllItems, getItemDetailsByItemId } from '../utils/merchantItems';
 
@@ -2825,18 +2825,19 @@ export const Player = forwardRef<THREE.Group, PlayerProps>(({
         const pos = group.current.position;
 
         // Calculate plague protection from inventory items
-        const protectionMultiplier = calculatePlagueProtection(playerStats.inventory);
+        const protectionMultiplier = calculatePlagueProtection(playerStats.activeEffects);
 
-        // 5a. RAT-FLEA EXPOSURE (Primary vector)
+        // 5a. RAT-FLEA EXPOSURE (Primary vector) - only plague rats and their corpses carry infective fleas
         if (ratsRef?.current) {
           const nearbyRats = ratsRef.current.filter(rat => {
+            if (!rat.active || (!rat.infected && !rat.dead)) return false;
             const dist = Math.hypot(rat.position.x - pos.x, rat.position.z - pos.z);
             return dist < EXPOSURE_CONFIG.RAT_RADIUS;
           });
 
           if (nearbyRats.length > 0) {
             const ratDensity = Math.min(1, nearbyRats.length / EXPOSURE_CONFIG.MAX_RAT_DENSITY);
-            const exposureChance = EXPOSURE_CONFIG.RAT_BASE_CHANCE * ratDensity * protectionMultiplier;
+            const exposureChance = getExposureBaseChances().rat * ratDensity * protectionMultiplier;
 
             if (Math.random() < exposureChance) {
               onPlagueExposure('flea', 1.0);
@@ -2860,7 +2861,7 @@ export const Player = forwardRef<THREE.Group, PlayerProps>(({
             const infectedDensity = Math.min(1, nearbyInfected.length / EXPOSURE_CONFIG.MAX_INFECTED_DENSITY);
             const pneumonicCount = nearbyInfected.filter(agent => agent.plagueType === PlagueType.PNEUMONIC).length;
             const pneumonicBoost = pneumonicCount > 0 ? 1.4 : 0.35;
-            const exposureChance = EXPOSURE_CONFIG.INFECTED_BASE_CHANCE * infectedDensity * pneumonicBoost * protectionMultiplier;
+            const exposureChance = getExposureBaseChances().infected * infectedDensity * pneumonicBoost * protectionMultiplier;
 
             if (Math.random() < Math.min(0.2, exposureChance)) {
               onPlagueExposure('airborne', 0.8);
@@ -2880,7 +2881,7 @@ export const Player = forwardRef<THREE.Group, PlayerProps>(({
           });
 
           if (nearbyCorpses.length > 0) {
-            const exposureChance = EXPOSURE_CONFIG.CORPSE_BASE_CHANCE * protectionMultiplier;
+            const exposureChance = getExposureBaseChances().corpse * protectionMultiplier;
 
             if (Math.random() < exposureChance) {
               onPlagueExposure('contact', 0.6);
@@ -1,7 +1,10 @@
 import React from 'react';
 import { X } from 'lucide-react';
-import { AgentState, PlayerStats, ItemAppearance } from '../types';
+import { AgentState, PlayerStats, ItemAppearance, PlagueTreatmentId, NpcRelationship, StorylineState } from '../types';
 import { ItemIcon } from './items/ItemIcon';
+import { TreatmentOption } from '../utils/treatments';
+import { describeDeed, describeTrust, getDebtBalance } from '../utils/relationships';
+import { listStorylines } from '../utils/events/storylines';
 
 interface InventoryEntry {
   id: string;
@@ -14,13 +17,14 @@ interface InventoryEntry {
   category: string;
   effects?: Array<{ type: string; value: number }>;
   appearance?: ItemAppearance;
+  useLabel?: string | null;
 }
 
 interface PlayerDossierModalProps {
   open: boolean;
   playerStats: PlayerStats;
-  dossierTab: 'overview' | 'health' | 'inventory';
-  onChangeTab: (tab: 'overview' | 'health' | 'inventory') => void;
+  dossierTab: 'overview' | 'health' | 'inventory' | 'relations' | 'stories';
+  onChangeTab: (tab: 'overview' | 'health' | 'inventory' | 'relations' | 'stories') => void;
   inventoryView: 'list' | 'grid';
   onChangeInventoryView: (view: 'list' | 'grid') => void;
   inventoryEntries: InventoryEntry[];
@@ -30,6 +34,12 @@ interface PlayerDossierModalProps {
   onClose: () => void;
   getHealthStatusLabel: (plague: PlayerStats['plague']) => string;
   getPlagueTypeLabel: (plagueType: PlayerStats['plague']['plagueType']) => string;
+  treatmentOptions?: TreatmentOption[];
+  onApplyTreatment?: (treatmentId: PlagueTreatmentId) => void;
+  onUseItem?: (inventoryId: string) => void;
+  simTime?: number;
+  npcRelationships?: Record<string, NpcRelationship>;
+  storylines?: StorylineState;
 }
 
 export const PlayerDossierModal: React.FC<PlayerDossierModalProps> = ({
@@ -45,10 +55,29 @@ export const PlayerDossierModal: React.FC<PlayerDossierModalProps> = ({
   buildApparelEntry,
   onClose,
   getHealthStatusLabel,
-  getPlagueTypeLabel
+  getPlagueTypeLabel,
+  treatmentOptions = [],
+  onApplyTreatment,
+  onUseItem,
+  simTime = 0,
+  npcRelationships = {},
+  storylines
 }) => {
   if (!open) return null;
 
+  const relationships = Object.values<NpcRelationship>(npcRelationships).sort((a, b) => b.lastSeenSimTime - a.lastSeenSimTime);
+  const stories = storylines ? listStorylines(storylines) : [];
+  const trustColor = (trust: number) => (
+    trust >= 25 ? 'bg-emerald-400/80' : trust > -15 ? 'bg-amber-400/80' : 'bg-red-400/80'
+  );
+
+  const activeEffects = playerStats.activeEffects ?? [];
+  const describeActiveEffect = (effect: NonNullable<PlayerStats['activeEffects']>[number]) => {
+    if (effect.type === 'plagueProtection') return `${effect.value}% less exposure`;
+    if (effect.type === 'heal') return 'Healing';
+    return `${effect.type === 'buff' ? '+' : '-'}${effect.value} ${effect.stat ?? ''}`.trim();
+  };
+
   return (
     <div className="absolute inset-0 z-[70] flex items-center justify-start p-6 md:p-10 pointer-events-auto">
       <div
@@ -67,7 +96,7 @@ export const PlayerDossierModal: React.FC<PlayerDossierModalProps> = ({
           </div>
           <div className="flex flex-wrap items-center gap-3">
             <div className="inline-flex items-center gap-2 rounded-full bg-black/50 border border-amber-600/40 p-1.5 text-[10px] uppercase tracking-[0.35em] shadow-[0_0_18px_rgba(245,158,11,0.2)]">
-              {(['overview', 'health', 'inventory'] as const).map((tab) => (
+              {(['overview', 'health', 'inventory', 'relations', 'stories'] as const).map((tab) => (
                 <button
                   key={tab}
                   onClick={() => onChangeTab(tab)}
@@ -333,6 +362,37 @@ export const PlayerDossierModal: React.FC<PlayerDossierModalProps> = ({
                     ))}
                   </div>
                 </div>
+
+                {onApplyTreatment && treatmentOptions.length > 0 && (
+                  <div className="rounded-xl border border-white/10 bg-white/5 p-5">
+                    <div className="text-[10px] uppercase tracking-widest text-amber-400/70 mb-1">Treatment</div>
+                    <div className="text-[10px] text-amber-200/50 mb-3">
+                      Seek out a barber, a hakim or the bimaristan. Few remedies of the age touched the pestilence itself.
+                    </div>
+                    <div className="space-y-2">
+                      {treatmentOptions.map(({ definition, available, reason, usesItem }) => (
+                        <div key={definition.id} className="flex items-center gap-3 rounded-lg border border-white/10 bg-black/30 p-3">
+                          <div className="flex-1">
+                            <div className="text-amber-100 text-[12px] font-semibold">{definition.name}</div>
+                            <div className="text-[10px] text-amber-200/50">{definition.description}</div>
+                          </div>
+                          <button
+                            onClick={() => onApplyTreatment(definition.id)}
+                            disabled={!available}
+                            title={reason}
+                            className={`shrink-0 px-3 py-1.5 rounded-full text-[9px] uppercase tracking-widest border ${
+                              available
+                                ? 'border-amber-400/60 text-amber-200 hover:bg-amber-600/30'
+                                : 'border-white/10 text-amber-200/30 cursor-not-allowed'
+                            }`}
+                          >
+                            {!available ? reason : usesItem ? `Use ${definition.itemName}` : definition.cost > 0 ? `${definition.cost} dirhams` : 'Free'}
+                          </button>
+                        </div>
+                      ))}
+                    </div>
+                  </div>
+                )}
               </div>
             </div>
           )}
@@ -364,6 +424,26 @@ export const PlayerDossierModal: React.FC<PlayerDossierModalProps> = ({
                 </div>
               </div>
 
+              {activeEffects.length > 0 && (
+                <div className="rounded-xl border border-emerald-500/20 bg-emerald-500/5 p-4">
+                  <div className="text-[10px] uppercase tracking-widest text-emerald-300/70 mb-2">In Use</div>
+                  <div className="space-y-1.5">
+                    {activeEffects.map((effect) => (
+                      <div key={effect.id} className="flex items-center justify-between gap-3">
+                        <span className="text-amber-100">{effect.itemName}</span>
+                        <span className="text-[10px] text-amber-200/60">
+                          {describeActiveEffect(effect)}
+                          {' · '}
+                          {effect.expiresAt === null
+                            ? 'worn'
+                            : `${Math.max(0, effect.expiresAt - simTime).toFixed(1)}h left`}
+                        </span>
+                      </div>
+                    ))}
+                  </div>
+                </div>
+              )}
+
               {inventoryView === 'list' ? (
                 <div className="space-y-3">
                   {inventoryEntries.map((entry) => {
@@ -388,6 +468,17 @@ export const PlayerDossierModal: React.FC<PlayerDossierModalProps> = ({
                             <span className="text-[9px] uppercase tracking-widest px-2 py-1 rounded-full border border-amber-400/30 text-amber-300/70">
                               {entry.rarity}
                             </span>
+                            {onUseItem && entry.useLabel && (
+                              <button
+                                onClick={(event) => {
+                                  event.stopPropagation();
+                                  onUseItem(entry.id);
+                                }}
+                                className="text-[9px] uppercase tracking-widest text-emerald-300/80 hover:text-emerald-200"
+                              >
+                                {entry.useLabel}
+                              </button>
+                            )}
                             {onDropItem && (
                               <button
                                 onClick={(event) => {
@@ -426,6 +517,17 @@ export const PlayerDossierModal: React.FC<PlayerDossierModalProps> = ({
                         <div className="text-[10px] text-amber-200/50 mt-1">{entry.description}</div>
                         <div className="mt-3 flex items-center justify-between text-[10px] text-amber-200/70">
                           <span>Qty: {entry.quantity}</span>
+                          {onUseItem && entry.useLabel && (
+                            <button
+                              onClick={(event) => {
+                                event.stopPropagation();
+                                onUseItem(entry.id);
+                              }}
+                              className="uppercase tracking-widest text-emerald-300/80 hover:text-emerald-200"
+                            >
+                              {entry.useLabel}
+                            </button>
+                          )}
                           {onDropItem && (
                             <button
                               onClick={(event) => {
@@ -445,6 +547,115 @@ export const PlayerDossierModal: React.FC<PlayerDossierModalProps> = ({
               )}
             </div>
           )}
+
+          {dossierTab === 'relations' && (
+            <div className="space-y-4 text-amber-50/85 text-[12px]">
+              <div className="text-[10px] uppercase tracking-widest text-amber-400/70">People You Have Met</div>
+              {relationships.length === 0 ? (
+                <div className="rounded-xl border border-white/10 bg-white/5 p-6 text-center text-amber-100/50">
+                  No one in Damascus knows you yet. Speak with people to be remembered.
+                </div>
+              ) : (
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                  {relationships.map((relationship) => {
+                    const balance = getDebtBalance(relationship);
+                    const trustWidth = Math.round((relationship.trust + 100) / 2);
+                    return (
+                      <div key={relationship.npcId} className="rounded-xl border border-white/10 bg-white/5 p-4 backdrop-blur space-y-3">
+                        <div className="flex items-start justify-between gap-3">
+                          <div>
+                            <div className="font-bold text-amber-100">{relationship.npcName}</div>
+                            <div className="text-[10px] text-amber-200/50">{relationship.npcProfession}</div>
+                          </div>
+                          <div className="text-right">
+                            <div className="text-[10px] uppercase tracking-widest text-amber-300/80">{describeTrust(relationship.trust)}</div>
+                            <div className="text-[10px] text-amber-200/40">
+                              {relationship.conversations} talk{relationship.conversations === 1 ? '' : 's'} · day {Math.floor(relationship.lastSeenSimTime / 24) + 1}
+                            </div>
+                          </div>
+                        </div>
+                        <div className="h-1.5 rounded-full bg-black/40 overflow-hidden">
+                          <div className={`h-full ${trustColor(relationship.trust)}`} style={{ width: `${trustWidth}%` }} />
+                        </div>
+                        {balance !== 0 && (
+                          <div className={balance > 0 ? 'text-emerald-300/80' : 'text-red-300/80'}>
+                            {balance > 0 ? `Owes you ${balance} dirhams` : `You owe ${-balance} dirhams`}
+                          </div>
+                        )}
+                        {(relationship.favors.length > 0 || relationship.grudges.length > 0) && (
+                          <ul className="space-y-1 text-[11px]">
+                            {relationship.favors.map((favor, index) => (
+                              <li key={`favor-${index}`} className="text-amber-100/70">{describeDeed(favor.text, favor.doneBy, 'player', relationship.npcName)}</li>
+                            ))}
+                            {relationship.grudges.map((grudge, index) => (
+                              <li key={`grudge-${index}`} className="text-red-300/70">{describeDeed(grudge.text, 'player', 'player', relationship.npcName)}</li>
+                            ))}
+                          </ul>
+                        )}
+                        {relationship.promises.length > 0 && (
+                          <div>
+                            <div className="text-[9px] uppercase tracking-widest text-amber-500/60 mb-1">Your promises</div>
+                            <ul className="space-y-1 text-[11px] italic text-amber-100/70">
+                              {relationship.promises.map((promise, index) => <li key={index}>"{promise.text}"</li>)}
+                            </ul>
+                          </div>
+                        )}
+                        {relationship.facts.length > 0 && (
+                          <div>
+                            <div className="text-[9px] uppercase tracking-widest text-amber-500/60 mb-1">What you told them</div>
+                            <ul className="space-y-1 text-[11px] italic text-amber-100/70">
+                              {relationship.facts.map((fact, index) => <li key={index}>"{fact.text}"</li>)}
+                            </ul>
+                          </div>
+                        )}
+                      </div>
+                    );
+                  })}
+                </div>
+              )}
+            </div>
+          )}
+
+          {dossierTab === 'stories' && (
+            <div className="space-y-4 text-amber-50/85 text-[12px]">
+              <div className="text-[10px] uppercase tracking-widest text-amber-400/70">Storylines</div>
+              {stories.length === 0 ? (
+                <div className="rounded-xl border border-white/10 bg-white/5 p-6 text-center text-amber-100/50">
+                  Nothing has drawn you in yet. What you choose in the city's troubles will be recorded here.
+                </div>
+              ) : (
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                  {stories.map((story) => (
+                    <div
+                      key={story.id}
+                      className={`rounded-xl border border-white/10 bg-white/5 p-4 backdrop-blur space-y-3 ${story.status === 'active' ? '' : 'opacity-60'}`}
+                    >
+                      <div className="flex items-start justify-between gap-3">
+                        <div className="font-bold text-amber-100">{story.title}</div>
+                        <div className="text-right">
+                          <div className={`text-[10px] uppercase tracking-widest ${
+                            story.status === 'active' ? 'text-amber-300/80' : story.status === 'completed' ? 'text-emerald-300/80' : 'text-red-300/80'
+                          }`}>
+                            {story.status === 'active' ? 'Unfolding' : story.status === 'completed' ? 'Concluded' : 'Lost'}
+                          </div>
+                          <div className="text-[10px] text-amber-200/40">since day {Math.floor(story.startedAt / 24) + 1}</div>
+                        </div>
+                      </div>
+                      {story.journal.length > 0 && (
+                        <ul className="space-y-1 text-[11px] text-amber-100/70">
+                          {story.journal.map((entry, index) => (
+                            <li key={index}>
+                              <span className="text-amber-500/60">Day {Math.floor(entry.simTime / 24) + 1}.</span> {entry.text}
+                            </li>
+                          ))}
+                        </ul>
+                      )}
+                    </div>
+                  ))}
+                </div>
+              )}
+            </div>
+          )}
         </div>
       </div>
     </div>
@@ -3,11 +3,15 @@ import { useFrame } from '@react-three/fiber';
 import * as THREE from 'three';
 import { SimulationParams, CONSTANTS, AgentState } from '../types';
 import { AgentSnapshot, SpatialHash } from '../utils/spatial';
+import { RatColony } from '../utils/epidemic/vectors';
+import { seededRandom } from '../utils/procedural';
 
 // Speed constants by state
 const SPEED_IDLE = 0;
 const SPEED_WANDER = 2.5;
 const SPEED_FLEE = 9.0;
+// Plague-sick rats stagger into the open and barely react to threats
+const SICK_SPEED_MULTIPLIER = 0.35;
 
 // Threat detection ranges
 const PLAYER_FLEE_RANGE = 4.0;
@@ -18,6 +22,7 @@ const SAFE_DISTANCE = 12.0;
 // Minimum rats always present
 const MIN_RATS = 3;
 const MAX_RATS = 8; // PERFORMANCE: Reduced from 50 to 8
+const COLONY_SYNC_INTERVAL = 1.0;
 
 // Temp objects for instanced mesh updates
 const tempBody = new THREE.Object3D();
@@ -46,6 +51,10 @@ export class Rat {
   animPhase: number;
   size: number;
   fleeTarget: THREE.Vector3 | null;
+  /** Colony this rat belongs to, and its plague state mirrored from that colony. */
+  colonyId: string | null;
+  infected: boolean;
+  dead: boolean;
 
   constructor(index: number) {
     // Spread rats around map edges (prefer cover)
@@ -64,6 +73,20 @@ export class Rat {
     this.animPhase = Math.random() * Math.PI * 2;
     this.size = 0.85 + Math.random() * 0.3; // 0.85 to 1.15
     this.fleeTarget = null;
+    this.colonyId = null;
+    this.infected = false;
+    this.dead = false;
+  }
+
+  /** Move to the colony's nest the first time the rat is assigned to it. */
+  assignColony(colony: RatColony) {
+    if (this.colonyId === colony.id) return;
+    this.colonyId = colony.id;
+    const angle = Math.random() * Math.PI * 2;
+    const radius = 1 + Math.random() * 3;
+    this.position.set(colony.position[0] + Math.cos(angle) * radius, 0.05, colony.position[1] + Math.sin(angle) * radius);
+    this.velocity.set(0, 0, 0);
+    this.targetVelocity.set(0, 0, 0);
   }
 
   update(
@@ -74,7 +97,7 @@ export class Rat {
     npcPositions?: THREE.Vector3[],
     corpsePositions?: THREE.Vector3[]
   ) {
-    if (!this.active || dt <= 0) return;
+    if (!this.active || this.dead || dt <= 0) return;
 
     this.stateTimer -= dt;
 
@@ -109,8 +132,8 @@ export class Rat {
       }
     }
 
-    // State transitions
-    if (threat) {
+    // State transitions (sick rats are too weak to bolt)
+    if (threat && !this.infected) {
       if (this.state !== 'flee') {
         this.state = 'flee';
         this.stateTimer = 2 + Math.random();
@@ -190,6 +213,10 @@ export class Rat {
       }
     }
 
+    if (this.infected) {
+      this.targetVelocity.multiplyScalar(SICK_SPEED_MULTIPLIER);
+    }
+
     // Smooth velocity interpolation
     const lerpFactor = this.state === 'flee' ? 8 : 4;
     this.velocity.lerp(this.targetVelocity, Math.min(1, lerpFactor * dt));
@@ -226,9 +253,11 @@ interface RatsProps {
   npcPositions?: THREE.Vector3[];
   ratsRef?: React.MutableRefObject<Rat[] | null>;
   agentHashRef?: React.MutableRefObject<SpatialHash<AgentSnapshot> | null>;
+  /** Colonies on this tile from the epidemic core; drives which rats are sick or dead. */
+  colonies?: RatColony[];
 }
 
-export const Rats = forwardRef<Rat[], RatsProps>(({ params, playerPos, catPos, npcPositions, ratsRef, agentHashRef }, ref) => {
+export const Rats = forwardRef<Rat[], RatsProps>(({ params, playerPos, catPos, npcPositions, ratsRef, agentHashRef, colonies }, ref) => {
   const bodyRef = useRef<THREE.InstancedMesh>(null);
   const headRef = useRef<THREE.InstancedMesh>(null);
   const tailRef = useRef<THREE.InstancedMesh>(null);
@@ -237,6 +266,7 @@ export const Rats = forwardRef<Rat[], RatsProps>(({ params, playerPos, catPos, n
   // PERFORMANCE: Throttle updates and cache NPC/corpse lists
   const npcCheckTimerRef = useRef(0);
   const corpseCheckTimerRef = useRef(0);
+  const colonySyncTimerRef = useRef(COLONY_SYNC_INTERVAL);
   const nearUpdateTimerRef = useRef(0);
   const farUpdateTimerRef = useRef(0);
   const cachedNpcPositions = useRef<THREE.Vector3[] | undefined>(undefined);
@@ -273,6 +303,7 @@ export const Rats = forwardRef<Rat[], RatsProps>(({ params, playerPos, catPos, n
     farUpdateTimerRef.current += baseDelta;
     npcCheckTimerRef.current += baseDelta;
     corpseCheckTimerRef.current += baseDelta;
+    colonySyncTimerRef.current += baseDelta;
 
     const shouldUpdateNear = nearUpdateTimerRef.current >= NEAR_UPDATE_INTERVAL;
     const shouldUpdateFar = farUpdateTimerRef.current >= FAR_UPDATE_INTERVAL;
@@ -294,6 +325,28 @@ export const Rats = forwardRef<Rat[], RatsProps>(({ params, playerPos, catPos, n
       : 0;
     const activeCount = MIN_RATS + hygieneBonus;
 
+    // Mirror colony plague state onto the visible rats. Rats past a colony's
+    // surviving share lie dead while its fleas are still looking for hosts.
+    if (colonySyncTimerRef.current >= COLONY_SYNC_INTERVAL) {
+      colonySyncTimerRef.current = 0;
+      if (colonies && colonies.length > 0) {
+        rats.forEach((rat, i) => {
+          const colony = colonies[i % colonies.length];
+          rat.assignColony(colony);
+          const alive = colony.susceptible + colony.infected;
+          const slot = seededRandom(i * 7 + 1);
+          rat.dead = slot > alive / colony.capacity && colony.hungryFleas > 0;
+          rat.infected = !rat.dead && alive > 0 && seededRandom(i * 13 + 5) < colony.infected / alive;
+        });
+      } else {
+        rats.forEach((rat) => {
+          rat.colonyId = null;
+          rat.infected = false;
+          rat.dead = false;
+        });
+      }
+    }
+
     // Extract corpse positions for rat attraction (low frequency, no allocations)
     if (agentHashRef?.current && corpseCheckTimerRef.current >= CORPSE_CHECK_INTERVAL) {
       const corpses = cachedCorpsePositions.current;
@@ -336,7 +389,7 @@ export const Rats = forwardRef<Rat[], RatsProps>(({ params, playerPos, catPos, n
         const speed = rat.velocity.length();
         const isMoving = speed > 0.1;
         const bodyBob = isMoving ? Math.sin(rat.animPhase * 2) * 0.01 : 0;
-        const tailWag = Math.sin(rat.animPhase) * (isMoving ? 0.4 : 0.15);
+        const tailWag = rat.dead ? 0 : Math.sin(rat.animPhase) * (isMoving ? 0.4 : 0.15);
         const s = rat.size;
 
         // Calculate facing direction
@@ -345,9 +398,9 @@ export const Rats = forwardRef<Rat[], RatsProps>(({ params, playerPos, catPos, n
           angle = Math.atan2(rat.velocity.x, rat.velocity.z);
         }
 
-        // Body - elongated ellipsoid
+        // Body - elongated ellipsoid (dead rats roll onto their side)
         tempBody.position.set(rat.position.x, rat.position.y + 0.06 * s + bodyBob, rat.position.z);
-        tempBody.rotation.set(0, angle, 0);
+        tempBody.rotation.set(0, angle, rat.dead ? Math.PI / 2 : 0);
         tempBody.scale.set(0.08 * s, 0.06 * s, 0.14 * s);
         tempBody.updateMatrix();
         bodyRef.current!.setMatrixAt(i, tempBody.matrix);
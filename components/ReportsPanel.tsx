@@ -1,9 +1,10 @@
 import React from 'react';
-import { ArrowUpDown, ChevronDown, Package, ShieldAlert, Skull } from 'lucide-react';
-import { AgentState, InfectedHouseholdInfo, ItemAppearance, NPCStats, PlayerStats, SimulationParams, SimulationStats } from '../types';
+import { ArrowUpDown, ChevronDown, LineChart, Package, ShieldAlert, Skull } from 'lucide-react';
+import { AgentState, InfectedHouseholdInfo, ItemAppearance, MarketState, NPCStats, PlayerStats, SimulationParams, SimulationStats } from '../types';
 import { MoraleStats } from './Agents';
 import { GuideTab } from './HistoricalGuide';
 import { ItemIcon } from './items/ItemIcon';
+import { MarketReport } from './MarketReport';
 
 interface InventoryEntry {
   id: string;
@@ -16,6 +17,7 @@ interface InventoryEntry {
   category: string;
   effects?: Array<{ type: string; value: number }>;
   appearance?: ItemAppearance;
+  useLabel?: string | null;
 }
 
 interface ReportsPanelProps {
@@ -29,6 +31,7 @@ interface ReportsPanelProps {
   infectedHouseholds: InfectedHouseholdInfo[];
   onNavigateToHousehold?: (buildingPosition: [number, number, number]) => void;
   moraleStats: MoraleStats;
+  market: MarketState;
   alchemistTableCollapsed: boolean;
   setAlchemistTableCollapsed: (collapsed: boolean) => void;
   params: SimulationParams;
@@ -39,6 +42,7 @@ interface ReportsPanelProps {
   onShowPlayerModal: () => void;
   inventoryEntries: InventoryEntry[];
   onDropItem?: (item: { inventoryId: string; itemId: string; label: string; appearance?: ItemAppearance }) => void;
+  onUseItem?: (inventoryId: string) => void;
   inventorySortBy: 'name' | 'rarity' | 'quantity';
   setInventorySortBy: (value: 'name' | 'rarity' | 'quantity') => void;
   getRarityMeta: (rarity: 'common' | 'uncommon' | 'rare') => { label: string; color: string };
@@ -49,6 +53,7 @@ interface ReportsPanelProps {
   onOpenGuideModal?: () => void;
   onSelectGuideEntry?: (entryId: string) => void;
   playerInfected: boolean;
+  onOpenEpidemicDashboard?: () => void;
 }
 
 export const ReportsPanel: React.FC<ReportsPanelProps> = ({
@@ -62,6 +67,7 @@ export const ReportsPanel: React.FC<ReportsPanelProps> = ({
   infectedHouseholds,
   onNavigateToHousehold,
   moraleStats,
+  market,
   alchemistTableCollapsed,
   setAlchemistTableCollapsed,
   params,
@@ -72,6 +78,7 @@ export const ReportsPanel: React.FC<ReportsPanelProps> = ({
   onShowPlayerModal,
   inventoryEntries,
   onDropItem,
+  onUseItem,
   inventorySortBy,
   setInventorySortBy,
   getRarityMeta,
@@ -81,7 +88,8 @@ export const ReportsPanel: React.FC<ReportsPanelProps> = ({
   nearbyNPCs = [],
   onOpenGuideModal,
   onSelectGuideEntry,
-  playerInfected
+  playerInfected,
+  onOpenEpidemicDashboard
 }) => {
   return (
     <div className="self-end md:self-start mt-0 md:mt-0 w-full md:w-[420px]">
@@ -189,6 +197,16 @@ export const ReportsPanel: React.FC<ReportsPanelProps> = ({
                     </div>
                   </div>
                 )}
+
+                {onOpenEpidemicDashboard && (
+                  <button
+                    onClick={onOpenEpidemicDashboard}
+                    className="mt-3 w-full flex items-center justify-center gap-2 px-3 py-1.5 bg-amber-900/30 border border-amber-800/50 rounded-lg text-[9px] uppercase tracking-widest text-amber-200/80 hover:bg-amber-800/40 hover:text-amber-100 transition-colors"
+                  >
+                    <LineChart size={11} />
+                    City-wide Epidemic Dashboard
+                  </button>
+                )}
               </div>
 
               <div className="bg-black/50 p-3 rounded-lg border border-amber-900/40 shadow-inner">
@@ -249,6 +267,8 @@ export const ReportsPanel: React.FC<ReportsPanelProps> = ({
                 </div>
               </div>
 
+              <MarketReport market={market} />
+
               <div className="bg-black/50 p-3 rounded-lg border border-amber-900/40 shadow-inner">
                 <div
                   className="flex items-center justify-between cursor-pointer select-none group"
@@ -467,6 +487,14 @@ export const ReportsPanel: React.FC<ReportsPanelProps> = ({
                                 {getRarityMeta(item.rarity).label}
                               </span>
                               <span className="text-[10px] font-mono text-amber-200/80">x{item.quantity}</span>
+                              {onUseItem && item.useLabel && (
+                                <button
+                                  onClick={() => onUseItem(item.id)}
+                                  className="text-[9px] uppercase tracking-widest text-emerald-300/80 hover:text-emerald-200"
+                                >
+                                  {item.useLabel}
+                                </button>
+                              )}
                               {onDropItem && (
                                 <button
                                   onClick={() => onDropItem({ inventoryId: item.id, itemId: item.itemId, label: item.name, appearance: item.appearance })}
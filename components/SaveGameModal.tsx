@@ -0,0 +1,154 @@
+import React, { useEffect, useState } from 'react';
+import { Save, Trash2, Upload, X } from 'lucide-react';
+import { getLocationLabel } from '../types';
+import { MAX_SAVE_SLOTS, SaveSlotSummary } from '../utils/saveGame';
+
+type SaveGameModalProps = {
+  mode: 'load' | 'save';
+  slots: SaveSlotSummary[];
+  note?: string | null;
+  onSave?: (name: string, slotId?: string) => void;
+  onLoad: (slotId: string) => void;
+  onDelete: (slotId: string) => void;
+  onClose: () => void;
+};
+
+const formatSimTime = (simTime: number) => {
+  const day = Math.floor(simTime / 24) + 1;
+  const hour = Math.floor(simTime % 24);
+  return `Day ${day}, ${hour.toString().padStart(2, '0')}:00`;
+};
+
+export const SaveGameModal: React.FC<SaveGameModalProps> = ({
+  mode,
+  slots,
+  note,
+  onSave,
+  onLoad,
+  onDelete,
+  onClose
+}) => {
+  const [newSaveName, setNewSaveName] = useState('');
+  const manualSlots = slots.filter((slot) => !slot.isAutosave);
+  const canCreate = mode === 'save' && manualSlots.length < MAX_SAVE_SLOTS;
+
+  useEffect(() => {
+    const handleEscape = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') onClose();
+    };
+    window.addEventListener('keydown', handleEscape);
+    return () => window.removeEventListener('keydown', handleEscape);
+  }, [onClose]);
+
+  return (
+    <div
+      className="fixed inset-0 z-[250] flex items-center justify-center pointer-events-auto"
+      style={{ background: 'rgba(0, 0, 0, 0.8)' }}
+      onClick={onClose}
+    >
+      <div
+        className="bg-gradient-to-br from-stone-900 via-stone-800 to-stone-900 border-2 border-amber-700/50 rounded-lg shadow-2xl p-6 w-full max-w-lg mx-4 max-h-[85vh] overflow-y-auto"
+        onClick={(e) => e.stopPropagation()}
+        style={{ boxShadow: '0 0 40px rgba(217, 119, 6, 0.3), inset 0 0 20px rgba(0, 0, 0, 0.5)' }}
+      >
+        <div className="flex items-center justify-between mb-4">
+          <h2 className="historical-font text-2xl text-amber-100 tracking-wide">
+            {mode === 'save' ? 'Record Your Journey' : 'Resume a Journey'}
+          </h2>
+          <button onClick={onClose} className="text-amber-400/70 hover:text-amber-200 transition-colors">
+            <X size={20} />
+          </button>
+        </div>
+
+        {canCreate && onSave && (
+          <div className="flex gap-2 mb-5">
+            <input
+              value={newSaveName}
+              onChange={(e) => setNewSaveName(e.target.value)}
+              onKeyDown={(e) => {
+                if (e.key === 'Enter') {
+                  onSave(newSaveName);
+                  setNewSaveName('');
+                }
+              }}
+              placeholder="Name this save..."
+              className="flex-1 bg-black/40 border border-amber-800/50 rounded px-3 py-2 text-sm text-amber-100 placeholder:text-amber-200/30 focus:outline-none focus:border-amber-600"
+            />
+            <button
+              onClick={() => {
+                onSave(newSaveName);
+                setNewSaveName('');
+              }}
+              className="flex items-center gap-1.5 px-4 py-2 bg-amber-700 hover:bg-amber-600 text-amber-50 text-xs uppercase tracking-widest rounded transition-colors"
+            >
+              <Save size={12} />
+              New Save
+            </button>
+          </div>
+        )}
+        {mode === 'save' && !canCreate && (
+          <p className="text-[11px] text-amber-200/50 mb-4">
+            All {MAX_SAVE_SLOTS} slots are used. Overwrite or delete an existing save.
+          </p>
+        )}
+
+        {slots.length === 0 ? (
+          <p className="text-amber-200/50 text-sm italic text-center py-6">No saved journeys yet.</p>
+        ) : (
+          <div className="space-y-2">
+            {slots.map((slot) => (
+              <div
+                key={slot.id}
+                className="flex items-center justify-between gap-3 p-3 rounded border border-amber-900/40 bg-black/30"
+              >
+                <div className="min-w-0">
+                  <div className="text-amber-100 text-sm font-semibold truncate">
+                    {slot.name}
+                    {slot.isAutosave && (
+                      <span className="ml-2 text-[9px] uppercase tracking-widest text-amber-500/70">auto</span>
+                    )}
+                  </div>
+                  <div className="text-[10px] text-amber-200/50 truncate">
+                    {slot.playerName}, {slot.playerProfession.toLowerCase()} · {formatSimTime(slot.simTime)} · {getLocationLabel(slot.mapX, slot.mapY)}
+                  </div>
+                  <div className="text-[9px] text-amber-200/30">
+                    {new Date(slot.savedAt).toLocaleString()}
+                  </div>
+                </div>
+                <div className="flex gap-1.5 shrink-0">
+                  {mode === 'save' && onSave && !slot.isAutosave && (
+                    <button
+                      onClick={() => onSave(slot.name, slot.id)}
+                      title="Overwrite"
+                      className="p-2 rounded bg-amber-900/40 border border-amber-700/40 text-amber-200 hover:bg-amber-800/50 transition-colors"
+                    >
+                      <Save size={14} />
+                    </button>
+                  )}
+                  <button
+                    onClick={() => onLoad(slot.id)}
+                    title="Load"
+                    className="p-2 rounded bg-amber-900/40 border border-amber-700/40 text-amber-200 hover:bg-amber-800/50 transition-colors"
+                  >
+                    <Upload size={14} />
+                  </button>
+                  <button
+                    onClick={() => onDelete(slot.id)}
+                    title="Delete"
+                    className="p-2 rounded bg-red-950/40 border border-red-900/40 text-red-300/80 hover:bg-red-900/50 transition-colors"
+                  >
+                    <Trash2 size={14} />
+                  </button>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+
+        {note && (
+          <p className="mt-4 text-center text-[11px] text-amber-300/70">{note}</p>
+        )}
+      </div>
+    </div>
+  );
+};
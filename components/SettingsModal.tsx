@@ -3,6 +3,9 @@ import { Play, Square, Volume2, X } from 'lucide-react';
 import { AMBIENCE_INFO, BiomeAmbience, BiomeType } from './audio/BiomeAmbience';
 import { MelodyName } from './audio/synthesis/AdhanSynth';
 import { AgentState, DevSettings, NPCStats, SimulationStats, getLocationLabel } from '../types';
+import { EPIDEMIC_SCENARIOS, EpidemicScenarioId } from '../utils/epidemic/scenario';
+import { LlmEventRejection } from '../utils/events/llmEventValidation';
+import { ApiUsagePanel } from './ApiUsagePanel';
 
 interface SettingsModalProps {
   open: boolean;
@@ -11,6 +14,8 @@ interface SettingsModalProps {
   setSettingsTab: (tab: 'about' | 'music' | 'dev') => void;
   llmEventsEnabled: boolean;
   setLlmEventsEnabled: (enabled: boolean) => void;
+  scenarioId: EpidemicScenarioId;
+  onScenarioChange: (id: EpidemicScenarioId) => void;
   currentPreview: BiomeType | null;
   playPreview: (biome: BiomeType) => void;
   stopPreview: () => void;
@@ -21,6 +26,7 @@ interface SettingsModalProps {
   setDevSettings: React.Dispatch<React.SetStateAction<DevSettings>>;
   onTriggerDebugEvent: () => void;
   lastEventNote: string | null;
+  llmEventLog: LlmEventRejection[];
   spreadRate: number | null;
   mapX: number;
   mapY: number;
@@ -28,6 +34,7 @@ interface SettingsModalProps {
   selectedNpc: { stats: NPCStats; state: AgentState } | null;
   onForceNpcState: (id: string, state: AgentState) => void;
   onForceAllNpcState: (state: AgentState) => void;
+  onOpenSaveGames?: () => void;
 }
 
 export const SettingsModal: React.FC<SettingsModalProps> = ({
@@ -37,6 +44,8 @@ export const SettingsModal: React.FC<SettingsModalProps> = ({
   setSettingsTab,
   llmEventsEnabled,
   setLlmEventsEnabled,
+  scenarioId,
+  onScenarioChange,
   currentPreview,
   playPreview,
   stopPreview,
@@ -47,13 +56,15 @@ export const SettingsModal: React.FC<SettingsModalProps> = ({
   setDevSettings,
   onTriggerDebugEvent,
   lastEventNote,
+  llmEventLog,
   spreadRate,
   mapX,
   mapY,
   stats,
   selectedNpc,
   onForceNpcState,
-  onForceAllNpcState
+  onForceAllNpcState,
+  onOpenSaveGames
 }) => {
   if (!open) return null;
 
@@ -141,6 +152,35 @@ export const SettingsModal: React.FC<SettingsModalProps> = ({
                   When off, events are fully deterministic and prewritten.
                 </p>
               </div>
+              <div className="mt-4 p-4 bg-amber-950/30 border border-amber-900/40 rounded-lg">
+                <h4 className="text-xs font-bold text-amber-500 uppercase mb-2">Epidemic Scenario</h4>
+                <select
+                  value={scenarioId}
+                  onChange={(e) => onScenarioChange(e.target.value as EpidemicScenarioId)}
+                  className="w-full bg-black/40 border border-amber-800/50 rounded px-2 py-1.5 text-[11px] text-amber-100"
+                >
+                  {(Object.keys(EPIDEMIC_SCENARIOS) as EpidemicScenarioId[]).map((id) => (
+                    <option key={id} value={id}>{EPIDEMIC_SCENARIOS[id].name}</option>
+                  ))}
+                </select>
+                <p className="text-[10px] text-amber-100/40 mt-2">
+                  {EPIDEMIC_SCENARIOS[scenarioId].description} Applies to new infections from now on and is stored with saves.
+                </p>
+              </div>
+              {onOpenSaveGames && (
+                <div className="mt-4 p-4 bg-amber-950/30 border border-amber-900/40 rounded-lg">
+                  <h4 className="text-xs font-bold text-amber-500 uppercase mb-2">Saved Games</h4>
+                  <button
+                    onClick={onOpenSaveGames}
+                    className="w-full px-3 py-2 bg-amber-900/40 border border-amber-700/50 rounded-lg text-[10px] uppercase tracking-widest text-amber-200 hover:bg-amber-800/50 transition-colors"
+                  >
+                    Save or Load Journey
+                  </button>
+                  <p className="text-[10px] text-amber-100/40 mt-2">
+                    The game also autosaves whenever you cross into a new district tile.
+                  </p>
+                </div>
+              )}
             </div>
           </div>
         ) : settingsTab === 'music' ? (
@@ -545,9 +585,42 @@ export const SettingsModal: React.FC<SettingsModalProps> = ({
                 <div className="text-[10px] text-amber-100/40 mt-2">
                   Last trigger: {lastEventNote || '—'}
                 </div>
+                <div className="mt-3 border-t border-amber-900/30 pt-3">
+                  <div className="text-[10px] uppercase tracking-widest text-amber-400/60 mb-2">
+                    Rejected LLM events ({llmEventLog.length})
+                  </div>
+                  {llmEventLog.length === 0 ? (
+                    <div className="text-[10px] text-amber-100/40">
+                      {llmEventsEnabled ? 'None yet.' : 'LLM events are off.'}
+                    </div>
+                  ) : (
+                    <div className="space-y-2 max-h-64 overflow-y-auto pr-1">
+                      {llmEventLog.map(entry => (
+                        <div key={entry.id} className="bg-black/40 border border-amber-900/30 rounded px-2 py-1.5 text-[10px]">
+                          <div className="flex items-center justify-between text-amber-200/80">
+                            <span>{entry.definitionId ?? entry.source}</span>
+                            <span className="font-mono text-amber-100/40">h{entry.simTime.toFixed(1)}</span>
+                          </div>
+                          <div className="text-amber-100/50 mt-0.5">Used instead: {entry.fallbackTitle}</div>
+                          <ul className="list-disc pl-4 mt-1 text-red-300/70">
+                            {entry.errors.map((error, index) => <li key={index}>{error}</li>)}
+                          </ul>
+                          {entry.raw && (
+                            <details className="mt-1">
+                              <summary className="cursor-pointer text-amber-100/40">Raw response</summary>
+                              <pre className="mt-1 whitespace-pre-wrap break-all font-mono text-[9px] text-amber-100/50">{entry.raw}</pre>
+                            </details>
+                          )}
+                        </div>
+                      ))}
+                    </div>
+                  )}
+                </div>
               </div>
             )}
 
+            <ApiUsagePanel />
+
             <div className="bg-black/40 border border-amber-900/40 rounded-lg p-4">
               <div className="flex items-center justify-between mb-3">
                 <div className="text-[10px] uppercase tracking-[0.25em] text-amber-400/80 font-bold">Infection Debug</div>
@@ -3,7 +3,7 @@ import React, { useRef, useState, useMemo, useEffect, useCallback } from 'react'
 import { useFrame, useThree } from '@react-three/fiber';
 import { Environment as DreiEnvironment, Stars, ContactShadows } from '@react-three/drei';
 import * as THREE from 'three';
-import { SimulationParams, SimulationCounts, DevSettings, PlayerStats, CONSTANTS, BuildingMetadata, BuildingType, Obstacle, CameraMode, NPCStats, AgentState, MarketStall as MarketStallData, MarketStallType, MerchantNPC as MerchantNPCType, MiniMapData, getDistrictType, PlayerActionEvent, PlagueStatus, NpcStateOverride, NPCRecord, BuildingInfectionState, DroppedItemRequest } from '../types';
+import { SimulationParams, SimulationCounts, DevSettings, PlayerStats, CONSTANTS, BuildingMetadata, BuildingType, Obstacle, CameraMode, NPCStats, AgentState, MarketStall as MarketStallData, MarketStallType, MerchantNPC as MerchantNPCType, MiniMapData, getDistrictType, PlayerActionEvent, PlagueStatus, NpcStateOverride, NPCRecord, BuildingInfectionState, DroppedItemRequest, MerchantKeeper } from '../types';
 import { Environment as WorldEnvironment } from './Environment';
 import { Agents, MoraleStats } from './Agents';
 import { Rats, Rat } from './Rats';
@@ -16,6 +16,7 @@ import { seededRandom } from '../utils/procedural';
 import { isBlockedByBuildings, isBlockedByObstacles } from '../utils/collision';
 import { ImpactPuffs, ImpactPuffSlot, MAX_PUFFS } from './ImpactPuffs';
 import { generateMerchantNPC, mapStallTypeToMerchantType } from '../utils/merchantGeneration';
+import { applyMerchantKeeper } from '../utils/merchantHealth';
 import { LaundryLine, generateLaundryLine, shouldGenerateLaundryLine } from '../utils/laundry';
 import { HangingCarpet, generateMarketCarpets } from '../utils/hangingCarpets';
 import { getBedouinTentPositionsForTile } from '../utils/bedouinMerchants';
@@ -32,6 +33,7 @@ import { FluteMusic } from './audio/FluteMusic';
 import { Astrologer } from './npcs/Astrologer';
 import { Scribe } from './npcs/Scribe';
 import { exposePlayerToPlague } from '../utils/plague';
+import { RatColony } from '../utils/epidemic/vectors';
 import { InfectedBuildingMarkers } from './environment/InfectedBuildingMarkers';
 import { BoundaryHeadingIndicator } from './BoundaryHeadingIndicator';
 
@@ -45,6 +47,10 @@ interface SimulationProps {
   onNearBuilding: (building: BuildingMetadata | null) => void;
   onBuildingsUpdate?: (buildings: BuildingMetadata[]) => void;
   onNearMerchant?: (merchant: MerchantNPCType | null) => void;
+  /** The tile's merchants as generated, so their keepers can be registered with the epidemic */
+  onMerchantsChange?: (merchants: MerchantNPCType[]) => void;
+  /** Current keeper of each stall by merchant id; stalls without an entry are open */
+  merchantKeepers?: Record<string, MerchantKeeper>;
   /** Callback when player is near an NPC they can speak to (for "E to speak" prompt) */
   onNearSpeakableNpc?: (npc: { stats: NPCStats; state: AgentState } | null) => void;
   onNpcSelect?: (npc: { stats: NPCStats; state: AgentState } | null) => void;
@@ -61,11 +67,16 @@ interface SimulationProps {
   onWeatherUpdate?: (weatherType: string) => void;
   onPushCharge?: (charge: number) => void;
   pushTriggerRef?: React.MutableRefObject<number | null>;
+  /** Shared with App so player actions can find the NPCs around the player. */
+  agentHashRef?: React.MutableRefObject<SpatialHash<AgentSnapshot> | null>;
   onMoraleUpdate?: (morale: MoraleStats) => void;
   actionEvent?: PlayerActionEvent | null;
   showDemographicsOverlay?: boolean;
   npcStateOverride?: NpcStateOverride | null;
   npcPool?: NPCRecord[];
+  getNpcRecord?: (id: string) => NPCRecord | undefined;
+  /** Rat colonies on this tile from the epidemic core. */
+  ratColonies?: RatColony[];
   buildingInfection?: Record<string, BuildingInfectionState>;
   onPlayerPositionUpdate?: (pos: THREE.Vector3) => void;
   dossierMode?: boolean;
@@ -1228,7 +1239,7 @@ const SunDisc: React.FC<{ timeOfDay: number; weather: React.MutableRefObject<Wea
 };
 
 
-export const Simulation: React.FC<SimulationProps> = ({ params, simTime, devSettings, playerStats, onStatsUpdate, onMapChange, onNearBuilding, onBuildingsUpdate, onNearMerchant, onNearSpeakableNpc, onNpcSelect, onNpcUpdate, selectedNpcId, onMinimapUpdate, onPickupPrompt, onClimbablePrompt, onClimbingStateChange, climbInputRef, pickupTriggerRef, climbTriggerRef, onPickupItem, onWeatherUpdate, onPushCharge, pushTriggerRef, onMoraleUpdate, actionEvent, showDemographicsOverlay, npcStateOverride, npcPool = [], buildingInfection, onPlayerPositionUpdate, dossierMode, onPlagueExposure, onNPCInitiatedEncounter, onFallDamage, cameraViewTarget, onPlayerStartMove, dropRequests, observeMode, gameLoading, mapEntrySpawn, onShowLootModal, onNearChest, onNearBirdcage }) => {
+export const Simulation: React.FC<SimulationProps> = ({ params, simTime, devSettings, playerStats, onStatsUpdate, onMapChange, onNearBuilding, onBuildingsUpdate, onNearMerchant, onMerchantsChange, merchantKeepers, onNearSpeakableNpc, onNpcSelect, onNpcUpdate, selectedNpcId, onMinimapUpdate, onPickupPrompt, onClimbablePrompt, onClimbingStateChange, climbInputRef, pickupTriggerRef, climbTriggerRef, onPickupItem, onWeatherUpdate, onPushCharge, pushTriggerRef, agentHashRef: externalAgentHashRef, onMoraleUpdate, actionEvent, showDemographicsOverlay, npcStateOverride, npcPool = [], getNpcRecord, ratColonies, buildingInfection, onPlayerPositionUpdate, dossierMode, onPlagueExposure, onNPCInitiatedEncounter, onFallDamage, cameraViewTarget, onPlayerStartMove, dropRequests, observeMode, gameLoading, mapEntrySpawn, onShowLootModal, onNearChest, onNearBirdcage }) => {
   const lightRef = useRef<THREE.DirectionalLight>(null);
   const rimLightRef = useRef<THREE.DirectionalLight>(null);
   const shadowFillLightRef = useRef<THREE.DirectionalLight>(null);
@@ -1261,7 +1272,8 @@ export const Simulation: React.FC<SimulationProps> = ({ params, simTime, devSett
     temp3: new THREE.Color(),
   });
   const buildingHashRef = useRef<SpatialHash<BuildingMetadata> | null>(null);
-  const agentHashRef = useRef<SpatialHash<AgentSnapshot> | null>(null);
+  const localAgentHashRef = useRef<SpatialHash<AgentSnapshot> | null>(null);
+  const agentHashRef = externalAgentHashRef ?? localAgentHashRef;
   const impactMapRef = useRef<Map<string, { time: number; intensity: number }>>(new Map());
   const impactPuffsRef = useRef<ImpactPuffSlot[]>(Array.from({ length: MAX_PUFFS }, () => null));
   const impactPuffIndexRef = useRef(0);
@@ -1885,7 +1897,7 @@ export const Simulation: React.FC<SimulationProps> = ({ params, simTime, devSett
           ? caravanPositions[i % caravanPositions.length]
           : null;
       stalls.push({
-        id: `stall-${i}`,
+        id: `stall-${params.mapX}-${params.mapY}-${i}`,
         type,
         position: positionOverride ?? position,
         rotation,
@@ -1985,6 +1997,26 @@ export const Simulation: React.FC<SimulationProps> = ({ params, simTime, devSett
     return [...merchants, ...bedouinMerchants];
   }, [merchants, bedouinMerchants]);
 
+  useEffect(() => {
+    onMerchantsChange?.(allMerchants);
+  }, [allMerchants, onMerchantsChange]);
+
+  // Merchants as their current keepers present them; sick, dead and unreplaced keepers leave the stall shut
+  const openMerchants = useMemo<MerchantNPCType[]>(() => (
+    allMerchants.flatMap(merchant => {
+      const keeper = merchantKeepers?.[merchant.id];
+      if (!keeper) return [merchant];
+      return keeper.status === 'open' ? [applyMerchantKeeper(merchant, keeper)] : [];
+    })
+  ), [allMerchants, merchantKeepers]);
+
+  const displayedStalls = useMemo<MarketStallData[]>(() => (
+    marketStalls.map(stall => {
+      const keeper = merchantKeepers?.[`merchant-${stall.id}`];
+      return { ...stall, isOpen: !keeper || keeper.status === 'open' };
+    })
+  ), [marketStalls, merchantKeepers]);
+
   // Snake Charmer Sufi - Saʿdiyya tariqa member
   // Always spawns in marketplace corners, 20% chance in other districts
   const snakeCharmerPosition = useMemo<[number, number, number] | null>(() => {
@@ -2686,7 +2718,7 @@ export const Simulation: React.FC<SimulationProps> = ({ params, simTime, devSett
       let closestMerchant: MerchantNPCType | null = null;
       let minMerchantDist = 5; // 5 unit interaction range for merchants
 
-      allMerchants.forEach(m => {
+      openMerchants.forEach(m => {
         const dx = m.position[0] - pos.x;
         const dz = m.position[2] - pos.z;
         const dist = Math.sqrt(dx * dx + dz * dz);
@@ -2716,7 +2748,8 @@ export const Simulation: React.FC<SimulationProps> = ({ params, simTime, devSett
           minChestDist = dist;
           const districtLabel = getDistrictType(params.mapX, params.mapY).replace(/_/g, ' ').toLowerCase();
           closestChest = {
-            id: p.id,
+            // Every tile of a district shares the same chest layout, so the id carries the tile
+            id: `${p.id}-${params.mapX}-${params.mapY}`,
             label: 'Storage Chest',
             position: [p.position.x, p.position.y, p.position.z],
             locationName: districtLabel
@@ -2995,12 +3028,12 @@ export const Simulation: React.FC<SimulationProps> = ({ params, simTime, devSett
       />
 
       {/* Market Stalls - procedurally generated with variety */}
-      {marketStalls.map((stall) => (
+      {displayedStalls.map((stall) => (
         <MarketStall key={stall.id} stall={stall} nightFactor={nightFactor} />
       ))}
 
       {/* Merchant NPCs - standing at their stalls and tents */}
-      {allMerchants.map((merchant) => {
+      {openMerchants.map((merchant) => {
         const stall = marketStalls.find(s => s.id === merchant.locationId);
         return (
           <MerchantNPC
@@ -3097,6 +3130,7 @@ export const Simulation: React.FC<SimulationProps> = ({ params, simTime, devSett
           npcStateOverride={npcStateOverride}
           showDemographicsOverlay={showDemographicsOverlay}
           npcPool={npcPool}
+          getNpcRecord={getNpcRecord}
           playerStats={playerStats}
           onNPCInitiatedEncounter={onNPCInitiatedEncounter}
         />
@@ -3112,7 +3146,7 @@ export const Simulation: React.FC<SimulationProps> = ({ params, simTime, devSett
           playerRef.current?.position.z ?? 0
         ]}
       />
-      {devSettings.showRats && <Rats ref={ratsRef} ratsRef={ratsRef} params={params} playerPos={playerRef.current?.position} catPos={catPositionRef.current} npcPositions={npcPositionsRef.current} agentHashRef={agentHashRef} />}
+      {devSettings.showRats && <Rats ref={ratsRef} ratsRef={ratsRef} params={params} playerPos={playerRef.current?.position} catPos={catPositionRef.current} npcPositions={npcPositionsRef.current} agentHashRef={agentHashRef} colonies={ratColonies} />}
 
       <Player
         ref={playerRef}
@@ -2,9 +2,11 @@ import React, { Suspense } from 'react';
 import { Canvas } from '@react-three/fiber';
 import { AdaptiveEvents, PerformanceMonitor } from '@react-three/drei';
 import * as THREE from 'three';
-import { DevSettings, InteriorSpec, PlayerStats, SimulationParams, SimulationStats, NPCRecord, BuildingInfectionState, PlayerActionEvent, NpcStateOverride } from '../types';
+import { DevSettings, InteriorSpec, PlayerStats, SimulationParams, SimulationStats, NPCRecord, BuildingInfectionState, PlayerActionEvent, NpcStateOverride, MerchantKeeper, MerchantNPC } from '../types';
 import { Simulation } from './Simulation';
 import { InteriorScene } from './InteriorScene';
+import { RatColony } from '../utils/epidemic/vectors';
+import { AgentSnapshot, SpatialHash } from '../utils/spatial';
 
 interface SimulationShellProps {
   transitioning: boolean;
@@ -25,6 +27,8 @@ interface SimulationShellProps {
   onNearBuilding: (building: any | null) => void;
   onBuildingsUpdate: (buildings: any[]) => void;
   onNearMerchant: (merchant: any | null) => void;
+  onMerchantsChange: (merchants: MerchantNPC[]) => void;
+  merchantKeepers: Record<string, MerchantKeeper>;
   onNearSpeakableNpc: (npc: any | null) => void;
   onNpcSelect: (npc: any | null) => void;
   onNpcUpdate: (npc: any) => void;
@@ -38,11 +42,14 @@ interface SimulationShellProps {
   onWeatherUpdate: (weather: string) => void;
   onPushCharge: (charge: number) => void;
   pushTriggerRef: React.MutableRefObject<number | null>;
+  agentHashRef: React.MutableRefObject<SpatialHash<AgentSnapshot> | null>;
   onMoraleUpdate: (morale: any) => void;
   actionEvent: PlayerActionEvent | null;
   showDemographicsOverlay: boolean;
   npcStateOverride: NpcStateOverride | null;
   npcPool: NPCRecord[];
+  getNpcRecord: (id: string) => NPCRecord | undefined;
+  ratColonies: RatColony[];
   buildingInfection: Record<string, BuildingInfectionState>;
   onPlayerPositionUpdate: (pos: THREE.Vector3) => void;
   dossierMode: boolean;
@@ -100,6 +107,8 @@ export const SimulationShell: React.FC<SimulationShellProps> = React.memo(({
   onNearBuilding,
   onBuildingsUpdate,
   onNearMerchant,
+  onMerchantsChange,
+  merchantKeepers,
   onNearSpeakableNpc,
   onNpcSelect,
   onNpcUpdate,
@@ -113,11 +122,14 @@ export const SimulationShell: React.FC<SimulationShellProps> = React.memo(({
   onWeatherUpdate,
   onPushCharge,
   pushTriggerRef,
+  agentHashRef,
   onMoraleUpdate,
   actionEvent,
   showDemographicsOverlay,
   npcStateOverride,
   npcPool,
+  getNpcRecord,
+  ratColonies,
   buildingInfection,
   onPlayerPositionUpdate,
   dossierMode,
@@ -200,6 +212,8 @@ export const SimulationShell: React.FC<SimulationShellProps> = React.memo(({
             onNearBuilding={onNearBuilding}
             onBuildingsUpdate={onBuildingsUpdate}
             onNearMerchant={onNearMerchant}
+            onMerchantsChange={onMerchantsChange}
+            merchantKeepers={merchantKeepers}
             onNpcSelect={onNpcSelect}
             onNpcUpdate={onNpcUpdate}
             selectedNpcId={selectedNpcId}
@@ -212,11 +226,14 @@ export const SimulationShell: React.FC<SimulationShellProps> = React.memo(({
             onWeatherUpdate={onWeatherUpdate}
             onPushCharge={onPushCharge}
             pushTriggerRef={pushTriggerRef}
+            agentHashRef={agentHashRef}
             onMoraleUpdate={onMoraleUpdate}
             actionEvent={actionEvent}
             showDemographicsOverlay={showDemographicsOverlay}
             npcStateOverride={npcStateOverride}
             npcPool={npcPool}
+            getNpcRecord={getNpcRecord}
+            ratColonies={ratColonies}
             buildingInfection={buildingInfection}
             onPlayerPositionUpdate={onPlayerPositionUpdate}
             dossierMode={dossierMode}
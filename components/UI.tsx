@@ -1,12 +1,13 @@
 
 import React, { useState, useEffect, useMemo, useRef, useCallback } from 'react';
 import { Canvas, useThree } from '@react-three/fiber';
-import { SimulationParams, SimulationStats, PlayerStats, DevSettings, CameraMode, BuildingMetadata, BuildingType, BuildingInfectionState, MiniMapData, getLocationLabel, NPCStats, AgentState, ActionSlotState, ActionId, EventInstance, EventEffect, EventOption, SocialClass, ItemAppearance } from '../types';
+import { SimulationParams, SimulationStats, PlayerStats, DevSettings, CameraMode, BuildingMetadata, BuildingType, BuildingInfectionState, MiniMapData, getLocationLabel, NPCStats, AgentState, ActionSlotState, ActionId, EventInstance, EventEffect, EventOption, SocialClass, ItemAppearance, PlagueTreatmentId, NpcDialogueAction, NpcRelationship, StorylineState, MarketState } from '../types';
 import { MoraleStats } from './Agents';
 import { ActionBar } from './ActionBar';
 import { Humanoid } from './Humanoid';
 import { seededRandom } from '../utils/procedural';
 import { getItemDetailsByItemId } from '../utils/merchantItems';
+import { getItemUseLabel } from '../utils/itemEffects';
 import {
   Layers,
   Eye,
@@ -27,6 +28,8 @@ import { ConversationSummary } from '../types';
 import { OverworldMap } from './OverworldMap';
 import { TravelConfirmationModal } from './TravelConfirmationModal';
 import { ConversationImpact } from '../utils/friendliness';
+import { ConversationNotes } from '../utils/relationships';
+import { LlmEventRejection } from '../utils/events/llmEventValidation';
 import { getHealthStatusLabel, getPlagueTypeLabel } from '../utils/plague';
 import { ItemPreview3D } from './ItemPreview3D';
 import { Compass } from './Compass';
@@ -39,6 +42,10 @@ import { MapModal } from './MapModal';
 import { PlayerDossierModal } from './PlayerDossierModal';
 import { SettingsModal } from './SettingsModal';
 import { ReportsPanel } from './ReportsPanel';
+import { EpidemicDashboard } from './EpidemicDashboard';
+import { EpidemicSample } from '../utils/epidemic/analytics';
+import { EpidemicScenarioId } from '../utils/epidemic/scenario';
+import { TreatmentOption } from '../utils/treatments';
 import { AboutModal } from './AboutModal';
 
 interface UIProps {
@@ -69,6 +76,10 @@ interface UIProps {
   moraleStats: MoraleStats;
   actionSlots: ActionSlotState;
   onTriggerAction: (actionId: ActionId) => void;
+  onAssignActionSlot: (slot: 'slot1' | 'slot2' | 'slot3', actionId: ActionId) => void;
+  treatmentOptions: TreatmentOption[];
+  onApplyTreatment: (treatmentId: PlagueTreatmentId) => void;
+  onUseItem?: (inventoryId: string) => void;
   onTriggerPush?: () => void;
   simTime: number;
   showPlayerModal: boolean;
@@ -76,10 +87,15 @@ interface UIProps {
   showEncounterModal: boolean;
   setShowEncounterModal: React.Dispatch<React.SetStateAction<boolean>>;
   conversationHistories: ConversationSummary[];
+  /** Each NPC's memory of the player, keyed by NPC id */
+  npcRelationships: Record<string, NpcRelationship>;
+  storylines: StorylineState;
   /** Handler for when conversation ends - receives npcId, summary, and impact for disposition updates */
-  onConversationResult: (npcId: string, summary: ConversationSummary, impact: ConversationImpact, meta?: { action?: 'end_conversation' | null }) => void;
+  onConversationResult: (npcId: string, summary: ConversationSummary, impact: ConversationImpact, meta?: { action?: NpcDialogueAction | null; notes?: ConversationNotes }) => void;
   /** Handler for triggering events from conversation actions (e.g., NPC dismissing player) */
   onTriggerConversationEvent?: (eventId: string, npcContext?: { npcId: string; npcName: string }, delayMs?: number) => void;
+  /** Handler for NPC dialogue actions that change the world (offers, directions, calling the watch) */
+  onDialogueAction?: (npcId: string, action: NpcDialogueAction, accepted: boolean) => void;
   selectedNpcActivity: string;
   selectedNpcNearbyInfected: number;
   selectedNpcNearbyDeceased: number;
@@ -90,6 +106,7 @@ interface UIProps {
   llmEventsEnabled: boolean;
   setLlmEventsEnabled: React.Dispatch<React.SetStateAction<boolean>>;
   lastEventNote: string | null;
+  llmEventLog: LlmEventRejection[];
   showDemographicsOverlay: boolean;
   setShowDemographicsOverlay: React.Dispatch<React.SetStateAction<boolean>>;
   onForceNpcState: (id: string, state: AgentState) => void;
@@ -122,6 +139,15 @@ interface UIProps {
   };
   /** Callback to trigger entering a building (same as pressing Enter) */
   onTriggerEnterBuilding?: () => void;
+  /** Open the save/load slot manager */
+  onOpenSaveGames?: () => void;
+  /** Recorded city-wide epidemic samples for the analytics dashboard */
+  epidemicSeries?: EpidemicSample[];
+  market: MarketState;
+  onExportEpidemicCsv?: () => void;
+  onExportEpidemicJson?: () => void;
+  scenarioId: EpidemicScenarioId;
+  onScenarioChange: (id: EpidemicScenarioId) => void;
 }
 
 interface InventoryEntry {
@@ -135,6 +161,7 @@ interface InventoryEntry {
   category: string;
   effects?: Array<{ type: string; value: number }>;
   appearance?: ItemAppearance;
+  useLabel?: string | null;
 }
 
 const MiniMap: React.FC<{ data: MiniMapData | null; sceneMode: 'outdoor' | 'interior'; onClose: () => void; onToggle: () => void; isNight?: boolean }> = ({ data, sceneMode, onClose, onToggle, isNight = false }) => {
@@ -560,8 +587,9 @@ const NpcPortrait: React.FC<{
   );
 };
 
-export const UI: React.FC<UIProps> = ({ params, setParams, stats, playerStats, devSettings, setDevSettings, nearBuilding, buildingInfection, onFastTravel, selectedNpc, minimapData, sceneMode, mapX, mapY, overworldPath, pickupPrompt, climbablePrompt, isClimbing, onClimbInput, onTriggerPickup, onTriggerClimb, pickupToast, currentWeather, pushCharge, moraleStats, actionSlots, onTriggerAction, onTriggerPush, simTime, showPlayerModal, setShowPlayerModal, showEncounterModal, setShowEncounterModal, conversationHistories, onConversationResult, onTriggerConversationEvent, selectedNpcActivity, selectedNpcNearbyInfected, selectedNpcNearbyDeceased, selectedNpcRumors, activeEvent, onResolveEvent, onTriggerDebugEvent, llmEventsEnabled, setLlmEventsEnabled, lastEventNote, showDemographicsOverlay, setShowDemographicsOverlay, onForceNpcState, onForceAllNpcState, isNPCInitiatedEncounter = false, isFollowingAfterDismissal = false, onResetFollowingState, nearbyNPCs = [], onOpenGuideModal, onSelectGuideEntry, infectedHouseholds, onNavigateToHousehold, onDropItem, onDropItemAtScreen, perfDebug, onTriggerEnterBuilding }) => {
+export const UI: React.FC<UIProps> = ({ params, setParams, stats, playerStats, devSettings, setDevSettings, nearBuilding, buildingInfection, onFastTravel, selectedNpc, minimapData, sceneMode, mapX, mapY, overworldPath, pickupPrompt, climbablePrompt, isClimbing, onClimbInput, onTriggerPickup, onTriggerClimb, pickupToast, currentWeather, pushCharge, moraleStats, actionSlots, onTriggerAction, onAssignActionSlot, treatmentOptions, onApplyTreatment, onUseItem, onTriggerPush, simTime, showPlayerModal, setShowPlayerModal, showEncounterModal, setShowEncounterModal, conversationHistories, npcRelationships, storylines, onConversationResult, onTriggerConversationEvent, onDialogueAction, selectedNpcActivity, selectedNpcNearbyInfected, selectedNpcNearbyDeceased, selectedNpcRumors, activeEvent, onResolveEvent, onTriggerDebugEvent, llmEventsEnabled, setLlmEventsEnabled, lastEventNote, llmEventLog, showDemographicsOverlay, setShowDemographicsOverlay, onForceNpcState, onForceAllNpcState, isNPCInitiatedEncounter = false, isFollowingAfterDismissal = false, onResetFollowingState, nearbyNPCs = [], onOpenGuideModal, onSelectGuideEntry, infectedHouseholds, onNavigateToHousehold, onDropItem, onDropItemAtScreen, perfDebug, onTriggerEnterBuilding, onOpenSaveGames, epidemicSeries = [], market, onExportEpidemicCsv, onExportEpidemicJson, scenarioId, onScenarioChange }) => {
   const [showSettings, setShowSettings] = useState(false);
+  const [showEpidemicDashboard, setShowEpidemicDashboard] = useState(false);
   const [showAbout, setShowAbout] = useState(false);
   const [showMap, setShowMap] = useState(false);
   const [showWeather, setShowWeather] = useState(false);
@@ -585,7 +613,7 @@ export const UI: React.FC<UIProps> = ({ params, setParams, stats, playerStats, d
   const prevStatsRef = useRef<{ infected: number; incubating: number; simTime: number } | null>(null);
   const [hasPlayerMoved, setHasPlayerMoved] = useState(false);
   const [showHealthMeter, setShowHealthMeter] = useState(false);
-  const [dossierTab, setDossierTab] = useState<'overview' | 'health' | 'inventory'>('overview');
+  const [dossierTab, setDossierTab] = useState<'overview' | 'health' | 'inventory' | 'relations' | 'stories'>('overview');
   const [inventoryView, setInventoryView] = useState<'list' | 'grid'>('list');
   const [selectedInventoryItem, setSelectedInventoryItem] = useState<InventoryEntry | null>(null);
   const [travelDestination, setTravelDestination] = useState<{ mapX: number; mapY: number; label: string } | null>(null);
@@ -706,7 +734,8 @@ export const UI: React.FC<UIProps> = ({ params, setParams, stats, playerStats, d
         description: details?.description ?? 'No description available.',
         rarity: details?.rarity ?? 'common',
         category: details?.category ?? 'Unknown',
-        effects: details?.effects ?? []
+        effects: details?.effects ?? [],
+        useLabel: getItemUseLabel(playerStats.activeEffects, item.itemId)
       };
     });
     entries.sort((a, b) => {
@@ -723,7 +752,7 @@ export const UI: React.FC<UIProps> = ({ params, setParams, stats, playerStats, d
       return a.name.localeCompare(b.name);
     });
     return entries;
-  }, [playerStats.inventory, inventorySortBy]);
+  }, [playerStats.inventory, playerStats.activeEffects, inventorySortBy]);
 
   const apparelRarity: InventoryEntry['rarity'] =
     playerStats.socialClass === SocialClass.NOBILITY ? 'rare'
@@ -1282,6 +1311,7 @@ export const UI: React.FC<UIProps> = ({ params, setParams, stats, playerStats, d
               infectedHouseholds={infectedHouseholds}
               onNavigateToHousehold={onNavigateToHousehold}
               moraleStats={moraleStats}
+              market={market}
               alchemistTableCollapsed={alchemistTableCollapsed}
               setAlchemistTableCollapsed={setAlchemistTableCollapsed}
               params={params}
@@ -1292,6 +1322,7 @@ export const UI: React.FC<UIProps> = ({ params, setParams, stats, playerStats, d
               onShowPlayerModal={() => setShowPlayerModal(true)}
               inventoryEntries={inventoryEntries}
               onDropItem={onDropItem}
+              onUseItem={onUseItem}
               inventorySortBy={inventorySortBy}
               setInventorySortBy={setInventorySortBy}
               getRarityMeta={getRarityMeta}
@@ -1302,6 +1333,7 @@ export const UI: React.FC<UIProps> = ({ params, setParams, stats, playerStats, d
               onOpenGuideModal={onOpenGuideModal}
               onSelectGuideEntry={onSelectGuideEntry}
               playerInfected={playerStats.plague.state !== AgentState.HEALTHY}
+              onOpenEpidemicDashboard={() => setShowEpidemicDashboard(true)}
             />
           </div>
         </div>
@@ -1735,6 +1767,8 @@ export const UI: React.FC<UIProps> = ({ params, setParams, stats, playerStats, d
         setSettingsTab={setSettingsTab}
         llmEventsEnabled={llmEventsEnabled}
         setLlmEventsEnabled={setLlmEventsEnabled}
+        scenarioId={scenarioId}
+        onScenarioChange={onScenarioChange}
         currentPreview={currentPreview}
         playPreview={playPreview}
         stopPreview={stopPreview}
@@ -1745,6 +1779,7 @@ export const UI: React.FC<UIProps> = ({ params, setParams, stats, playerStats, d
         setDevSettings={setDevSettings}
         onTriggerDebugEvent={onTriggerDebugEvent}
         lastEventNote={lastEventNote}
+        llmEventLog={llmEventLog}
         spreadRate={spreadRate}
         mapX={params.mapX}
         mapY={params.mapY}
@@ -1752,6 +1787,18 @@ export const UI: React.FC<UIProps> = ({ params, setParams, stats, playerStats, d
         selectedNpc={selectedNpc}
         onForceNpcState={onForceNpcState}
         onForceAllNpcState={onForceAllNpcState}
+        onOpenSaveGames={onOpenSaveGames ? () => {
+          setShowSettings(false);
+          onOpenSaveGames();
+        } : undefined}
+      />
+
+      <EpidemicDashboard
+        open={showEpidemicDashboard}
+        series={epidemicSeries}
+        onExportCsv={() => onExportEpidemicCsv?.()}
+        onExportJson={() => onExportEpidemicJson?.()}
+        onClose={() => setShowEpidemicDashboard(false)}
       />
 
       <PlayerDossierModal
@@ -1768,6 +1815,12 @@ export const UI: React.FC<UIProps> = ({ params, setParams, stats, playerStats, d
         onClose={() => setShowPlayerModal(false)}
         getHealthStatusLabel={getHealthStatusLabel}
         getPlagueTypeLabel={getPlagueTypeLabel}
+        treatmentOptions={treatmentOptions}
+        onApplyTreatment={onApplyTreatment}
+        onUseItem={onUseItem}
+        simTime={simTime}
+        npcRelationships={npcRelationships}
+        storylines={storylines}
       />
 
       {selectedInventoryItem && (
@@ -1806,6 +1859,17 @@ export const UI: React.FC<UIProps> = ({ params, setParams, stats, playerStats, d
                 </div>
               </div>
               <div className="space-y-4 text-amber-50/80 text-[12px]">
+                {onUseItem && selectedInventoryItem.useLabel && (
+                  <button
+                    onClick={() => {
+                      onUseItem(selectedInventoryItem.id);
+                      setSelectedInventoryItem(null);
+                    }}
+                    className="w-full rounded-full border border-emerald-500/40 bg-emerald-500/10 px-4 py-2 text-[10px] uppercase tracking-widest text-emerald-200 hover:bg-emerald-500/20"
+                  >
+                    {selectedInventoryItem.useLabel}
+                  </button>
+                )}
                 {onDropItem && (
                   <button
                     onClick={() => onDropItem({ inventoryId: selectedInventoryItem.id, itemId: selectedInventoryItem.itemId, label: selectedInventoryItem.name, appearance: selectedInventoryItem.appearance })}
@@ -1874,12 +1938,14 @@ export const UI: React.FC<UIProps> = ({ params, setParams, stats, playerStats, d
           publicMorale={moraleStats}
           simulationStats={stats}
           conversationHistory={conversationHistories}
+          relationship={npcRelationships[selectedNpc.stats.id] ?? null}
           onClose={() => {
             setShowEncounterModal(false);
             if (onResetFollowingState) onResetFollowingState();
           }}
           onConversationResult={onConversationResult}
           onTriggerEvent={onTriggerConversationEvent}
+          onDialogueAction={onDialogueAction}
           isNPCInitiated={isNPCInitiatedEncounter}
           isFollowingAfterDismissal={isFollowingAfterDismissal}
         />
@@ -1898,6 +1964,7 @@ export const UI: React.FC<UIProps> = ({ params, setParams, stats, playerStats, d
           <ActionBar
             actionSlots={actionSlots}
             onTriggerAction={onTriggerAction}
+            onAssignSlot={onAssignActionSlot}
             onTriggerPush={onTriggerPush}
             simTime={simTime}
             playerStats={playerStats}
@@ -0,0 +1,128 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import type { Dispatch, SetStateAction } from 'react';
+import { CrimeRecord, CrimeState, PlayerStats, StorylineState } from '../types';
+import { applyStorylineEffect } from '../utils/events/storylines';
+import {
+  COURT_STORYLINE_ID,
+  TheftInput,
+  advanceCrimes,
+  assignHearing,
+  createCrimeState,
+  getCourtEffects,
+  getRestitution,
+  recordTheft,
+  settleCrimes
+} from '../utils/crime';
+import { getItemDetailsByItemId } from '../utils/merchantItems';
+
+interface UseCrimeSystemArgs {
+  simTime: number;
+  playerStats: PlayerStats;
+  setPlayerStats: Dispatch<SetStateAction<PlayerStats>>;
+  storylines: StorylineState;
+  setStorylines: Dispatch<SetStateAction<StorylineState>>;
+  notify: (message: string) => void;
+}
+
+// Householders and notoriety are looked at once a sim hour
+const ADVANCE_INTERVAL_HOURS = 1;
+
+const itemName = (itemId: string) => getItemDetailsByItemId(itemId)?.name ?? 'goods';
+
+export const useCrimeSystem = ({
+  simTime,
+  playerStats,
+  setPlayerStats,
+  storylines,
+  setStorylines,
+  notify
+}: UseCrimeSystemArgs) => {
+  const [crime, setCrime] = useState<CrimeState>(createCrimeState);
+  const crimeRef = useRef(crime);
+  // Which hearing a new report joins depends on the court as it stands
+  const storylinesRef = useRef(storylines);
+
+  useEffect(() => {
+    storylinesRef.current = storylines;
+  }, [storylines]);
+
+  const commit = useCallback((next: CrimeState) => {
+    crimeRef.current = next;
+    setCrime(next);
+  }, []);
+
+  const bringToCourt = useCallback((record: CrimeRecord, simTime: number) => {
+    commit(assignHearing(crimeRef.current, record.id, storylinesRef.current.storylines[COURT_STORYLINE_ID], simTime));
+    setStorylines(prev => getCourtEffects(record, prev.storylines[COURT_STORYLINE_ID]).reduce(
+      (state, effect) => applyStorylineEffect(state, effect, simTime),
+      prev
+    ));
+  }, [commit, setStorylines]);
+
+  /** Record a theft the player has just committed; a seen theft goes straight to the qadi */
+  const reportTheft = useCallback((input: TheftInput) => {
+    const { state, record, reputationDelta } = recordTheft(crimeRef.current, input);
+    commit(state);
+    if (reputationDelta !== 0) {
+      setPlayerStats(prev => ({ ...prev, reputation: Math.max(0, Math.min(100, prev.reputation + reputationDelta)) }));
+    }
+    if (record.status === 'reported') bringToCourt(record, input.simTime);
+    return { state: crimeRef.current, record };
+  }, [bringToCourt, commit, setPlayerStats]);
+
+  useEffect(() => {
+    if (simTime - crimeRef.current.updatedAt < ADVANCE_INTERVAL_HOURS) return;
+    const { state, discovered } = advanceCrimes(crimeRef.current, simTime);
+    commit(state);
+    discovered.forEach((record) => {
+      const goods = record.items.map(itemName).join(', ');
+      if (record.status === 'reported') {
+        notify(`${record.ownerName} has found their ${goods} missing in ${record.locationName}, and names you as the thief`);
+        bringToCourt(record, simTime);
+      } else {
+        notify(`${record.ownerName} has found their ${goods} missing in ${record.locationName}`);
+      }
+    });
+  }, [bringToCourt, commit, notify, simTime]);
+
+  // The hearing is over once the court storyline ends with a sanction
+  useEffect(() => {
+    const { state, judged, sanction } = settleCrimes(crimeRef.current, storylines.storylines[COURT_STORYLINE_ID]);
+    if (!sanction || judged.length === 0) return;
+    commit(state);
+    if (sanction !== 'restitution' && sanction !== 'fine' && sanction !== 'flogging') return;
+
+    const held = playerStats.inventory.flatMap(item => Array<string>(item.quantity).fill(item.itemId));
+    const { returned, owed } = getRestitution(judged, sanction, held);
+    setPlayerStats(prev => {
+      const remaining = [...returned];
+      const inventory = prev.inventory
+        .map(item => {
+          let quantity = item.quantity;
+          while (quantity > 0 && remaining.includes(item.itemId)) {
+            remaining.splice(remaining.indexOf(item.itemId), 1);
+            quantity -= 1;
+          }
+          return quantity === item.quantity ? item : { ...item, quantity };
+        })
+        .filter(item => item.quantity > 0);
+      return { ...prev, inventory, currency: Math.max(0, prev.currency - owed) };
+    });
+    const parts = [
+      returned.length > 0 ? `${returned.map(itemName).join(', ')} returned` : null,
+      owed > 0 ? `${owed} dirhams paid` : null
+    ].filter(Boolean);
+    if (parts.length > 0) notify(`By order of the qadi: ${parts.join(', ')}`);
+  }, [commit, notify, playerStats.inventory, setPlayerStats, storylines]);
+
+  const restoreCrime = useCallback((next: CrimeState) => commit(next), [commit]);
+
+  const getCrime = useCallback(() => crimeRef.current, []);
+
+  return {
+    crime,
+    getCrime,
+    reportTheft,
+    restoreCrime
+  };
+};
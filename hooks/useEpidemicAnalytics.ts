@@ -0,0 +1,58 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { EpidemicState } from '../utils/epidemic/engine';
+import {
+  ANALYTICS_SAMPLE_HOURS,
+  EpidemicSample,
+  appendSample,
+  sampleEpidemic,
+  seriesToCsv,
+  seriesToJson
+} from '../utils/epidemic/analytics';
+
+interface UseEpidemicAnalyticsArgs {
+  simTime: number;
+  gameLoading: boolean;
+  getEpidemicState: () => EpidemicState;
+}
+
+const downloadText = (filename: string, text: string, mimeType: string) => {
+  const url = URL.createObjectURL(new Blob([text], { type: mimeType }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  URL.revokeObjectURL(url);
+};
+
+export const useEpidemicAnalytics = ({ simTime, gameLoading, getEpidemicState }: UseEpidemicAnalyticsArgs) => {
+  const [series, setSeries] = useState<EpidemicSample[]>([]);
+  const lastSampleRef = useRef<number | null>(null);
+
+  useEffect(() => {
+    if (gameLoading) return;
+    if (lastSampleRef.current !== null && simTime - lastSampleRef.current < ANALYTICS_SAMPLE_HOURS) return;
+    lastSampleRef.current = simTime;
+    const sample = sampleEpidemic(getEpidemicState(), simTime);
+    setSeries((prev) => appendSample(prev, sample));
+  }, [gameLoading, getEpidemicState, simTime]);
+
+  const restoreSeries = useCallback((next: EpidemicSample[]) => {
+    setSeries(next);
+    lastSampleRef.current = next.length > 0 ? next[next.length - 1].simTime : null;
+  }, []);
+
+  const exportCsv = useCallback(() => {
+    downloadText(`damascus-1348-epidemic-day${Math.floor(simTime / 24) + 1}.csv`, seriesToCsv(series), 'text/csv');
+  }, [series, simTime]);
+
+  const exportJson = useCallback(() => {
+    downloadText(`damascus-1348-epidemic-day${Math.floor(simTime / 24) + 1}.json`, seriesToJson(series), 'application/json');
+  }, [series, simTime]);
+
+  return {
+    series,
+    restoreSeries,
+    exportCsv,
+    exportJson
+  };
+};
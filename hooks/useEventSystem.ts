@@ -1,9 +1,39 @@
 import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import type { Dispatch, SetStateAction } from 'react';
 import { ConversationImpact, applyConversationImpact } from '../utils/friendliness';
 import { checkConversationTrigger, getBiomeForDistrict } from '../utils/eventTriggers';
 import { getEventsForBiome, getEventById } from '../utils/events/catalog';
 import { evaluateTriggers, TriggerState } from '../utils/events/triggerSystem';
+import { EventConditionContext, getEpidemicSeverity, meetsEventConditions } from '../utils/events/conditions';
+import {
+  applyStorylineEffect,
+  getAvailableOptions,
+  getDueStorylets,
+  hasStorylineContent,
+  isStorylineEffect
+} from '../utils/events/storylines';
+import {
+  LLM_REJECTION_LOG_LIMIT,
+  LLM_REJECTION_RAW_LIMIT,
+  LlmEventRejection,
+  validateLlmEvent
+} from '../utils/events/llmEventValidation';
 import { getDistrictType } from '../types';
+import {
+  DIALOGUE_ACTIONS,
+  getDeclinedDialogueActionEffects,
+  getDialogueActionEffects,
+  isDialogueClosingEvent
+} from '../utils/dialogueActions';
+import { findItemByName, makeLooseItemId } from '../utils/merchantItems';
+import { apiJsonHeaders } from '../utils/apiSession';
+import {
+  ConversationNotes,
+  NpcRelationshipMap,
+  createRelationship,
+  recordConversation,
+  recordDialogueAction
+} from '../utils/relationships';
 import {
   EventContextSnapshot,
   EventDefinition,
@@ -11,8 +41,11 @@ import {
   EventInstance,
   EventOption,
   NPCRecord,
+  NpcDialogueAction,
   PlayerStats,
-  SimulationParams
+  SimulationParams,
+  SimulationStats,
+  StorylineState
 } from '../types';
 import { TriggerTargetType, TriggerWhen } from '../utils/events/triggerCatalog';
 
@@ -21,6 +54,8 @@ interface UseEventSystemArgs {
   currentWeather: string;
   playerStats: PlayerStats;
   statsSimTime: number;
+  simulationStats: SimulationStats;
+  worldFlags: Record<string, boolean | number | string>;
   outdoorNpcPool: NPCRecord[];
   setOutdoorNpcPool: React.Dispatch<React.SetStateAction<NPCRecord[]>>;
   setConversationHistories: React.Dispatch<React.SetStateAction<import('../types').ConversationSummary[]>>;
@@ -30,7 +65,10 @@ interface UseEventSystemArgs {
   setIsNPCInitiatedEncounter: React.Dispatch<React.SetStateAction<boolean>>;
   setIsFollowingAfterDismissal: React.Dispatch<React.SetStateAction<boolean>>;
   setWorldFlags: React.Dispatch<React.SetStateAction<Record<string, boolean | number | string>>>;
-  npcThreatMemoryRef: React.MutableRefObject<Record<string, { count: number; lastSimTime: number }>>;
+  npcRelationships: NpcRelationshipMap;
+  setNpcRelationships: Dispatch<SetStateAction<NpcRelationshipMap>>;
+  storylines: StorylineState;
+  setStorylines: Dispatch<SetStateAction<StorylineState>>;
 }
 
 export const useEventSystem = ({
@@ -38,6 +76,8 @@ export const useEventSystem = ({
   currentWeather,
   playerStats,
   statsSimTime,
+  simulationStats,
+  worldFlags,
   outdoorNpcPool,
   setOutdoorNpcPool,
   setConversationHistories,
@@ -47,12 +87,16 @@ export const useEventSystem = ({
   setIsNPCInitiatedEncounter,
   setIsFollowingAfterDismissal,
   setWorldFlags,
-  npcThreatMemoryRef
+  npcRelationships,
+  setNpcRelationships,
+  storylines,
+  setStorylines
 }: UseEventSystemArgs) => {
   const [activeEvent, setActiveEvent] = useState<EventInstance | null>(null);
   const [eventQueue, setEventQueue] = useState<EventInstance[]>([]);
   const [llmEventsEnabled, setLlmEventsEnabled] = useState(false);
   const [lastEventNote, setLastEventNote] = useState<string | null>(null);
+  const [llmEventLog, setLlmEventLog] = useState<LlmEventRejection[]>([]);
 
   const eventCooldownsRef = useRef<Record<string, number>>({});
   const suppressDismissalEventRef = useRef(false);
@@ -68,6 +112,19 @@ export const useEventSystem = ({
   }, []);
   const triggerStateRef = useRef<TriggerState>(initialTriggerState);
 
+  const getTriggerState = useCallback(() => triggerStateRef.current, []);
+
+  const restoreTriggerState = useCallback((state: TriggerState) => {
+    triggerStateRef.current = state;
+    setActiveEvent(null);
+    setEventQueue([]);
+    try {
+      localStorage.setItem('eventTriggerState', JSON.stringify(state));
+    } catch {
+      // Ignore storage errors.
+    }
+  }, []);
+
   useEffect(() => {
     if (!lastEventNote) return;
     const timeout = window.setTimeout(() => setLastEventNote(null), 4000);
@@ -107,6 +164,18 @@ export const useEventSystem = ({
     };
   }, [currentWeather, params.mapX, params.mapY, params.timeOfDay, playerStats]);
 
+  // What event conditions are checked against, for the moment in this snapshot
+  const buildConditionContext = useCallback((context: EventContextSnapshot): EventConditionContext => ({
+    district: context.environment.district,
+    timeOfDay: context.environment.timeOfDay,
+    weather: context.environment.weather,
+    player: playerStats,
+    worldFlags,
+    epidemicSeverity: getEpidemicSeverity(simulationStats),
+    relationship: context.npc ? npcRelationships[context.npc.id] ?? null : undefined,
+    storylines: storylines.storylines
+  }), [npcRelationships, playerStats, simulationStats, storylines.storylines, worldFlags]);
+
   const makeEventInstance = useCallback((def: EventDefinition, source: EventInstance['source'], context: EventContextSnapshot): EventInstance => {
     return {
       id: `${def.id}-${Date.now()}`,
@@ -115,149 +184,93 @@ export const useEventSystem = ({
       content: {
         title: def.title,
         body: def.body,
-        options: def.options
+        options: getAvailableOptions(def.options, storylines.storylines)
       },
       definitionId: def.id
     };
-  }, []);
-
-  const mapEffectKey = useCallback((effectKey: string): EventEffect[] => {
-    switch (effectKey) {
-      case 'end_conversation':
-        return [{ type: 'endConversation' }];
-      case 'bribe_small':
-        return [{ type: 'playerStat', stat: 'currency', delta: -2 }];
-      case 'bribe_large':
-        return [{ type: 'playerStat', stat: 'currency', delta: -5 }];
-      case 'health_up':
-        return [{ type: 'playerStat', stat: 'health', delta: 5 }];
-      case 'health_down':
-        return [{ type: 'playerStat', stat: 'health', delta: -5 }];
-      case 'reputation_up':
-        return [{ type: 'playerStat', stat: 'reputation', delta: 3 }];
-      case 'reputation_down':
-        return [{ type: 'playerStat', stat: 'reputation', delta: -3 }];
-      case 'wealth_up':
-        return [{ type: 'playerStat', stat: 'wealth', delta: 4 }];
-      case 'wealth_down':
-        return [{ type: 'playerStat', stat: 'wealth', delta: -4 }];
-      case 'flee':
-        return [{ type: 'worldFlag', key: 'fled', value: true }];
-      case 'appeal_faith':
-        return [{ type: 'playerStat', stat: 'piety', delta: 1 }];
-      case 'calm_crowd':
-        return [{ type: 'worldFlag', key: 'calmed_crowd', value: true }];
-      case 'escalate':
-        return [{ type: 'worldFlag', key: 'escalated', value: true }];
-      default:
-        return [];
-    }
-  }, []);
-
-  const buildLlmEventInstance = useCallback((baseEvent: EventInstance, payload: {
-    title: string;
-    body: string;
-    options: Array<{
-      id?: string;
-      label: string;
-      effectKey: string;
-      outcomeText?: string;
-      followupEventId?: string;
-      requirements?: { stat?: 'charisma' | 'piety' | 'currency' | 'health' | 'reputation' | 'wealth'; min?: number; max?: number };
-    }>;
-  }): EventInstance => {
-    const options = payload.options
-      .filter(option => typeof option.label === 'string' && option.label.trim().length > 0)
-      .slice(0, 4)
-      .map((option, index) => ({
-        id: option.id || `opt-${index + 1}`,
-        label: option.label.trim(),
-        outcomeText: option.outcomeText,
-        followupEventId: option.followupEventId && getEventById(option.followupEventId)
-          ? option.followupEventId
-          : undefined,
-        requirements: option.requirements?.stat ? {
-          stat: option.requirements.stat,
-          min: option.requirements.min,
-          max: option.requirements.max
-        } : undefined,
-        effects: mapEffectKey(option.effectKey)
-      }));
-
-    return {
-      ...baseEvent,
-      content: {
-        title: payload.title,
-        body: payload.body,
-        options
-      }
+  }, [storylines.storylines]);
+
+  // Keep the prewritten event and say why the generated one was not used
+  const fallBackFromLlm = useCallback((event: EventInstance, errors: string[], raw?: string) => {
+    const entry: LlmEventRejection = {
+      id: `${event.id}-rejected`,
+      simTime: statsSimTime,
+      source: event.source,
+      definitionId: event.definitionId,
+      fallbackTitle: event.content.title,
+      errors,
+      raw: raw?.slice(0, LLM_REJECTION_RAW_LIMIT)
     };
-  }, [mapEffectKey]);
+    setLlmEventLog(prev => [entry, ...prev].slice(0, LLM_REJECTION_LOG_LIMIT));
+    enqueueEvent(event);
+  }, [enqueueEvent, statsSimTime]);
 
   const enqueueEventWithOptionalLLM = useCallback(async (event: EventInstance) => {
-    if (!llmEventsEnabled) {
+    // Rewritten options would lose the storyline effects and tests
+    if (!llmEventsEnabled || hasStorylineContent(event.content.options)) {
       enqueueEvent(event);
       return;
     }
 
+    let text: string | undefined;
     try {
       const response = await fetch('/api/event', {
         method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
+        headers: apiJsonHeaders(),
         body: JSON.stringify({
           context: event.context,
-          eventSeed: event.definitionId
+          eventSeed: event.definitionId,
+          source: event.source
         })
       });
 
       if (!response.ok) {
-        enqueueEvent(event);
+        fallBackFromLlm(event, [`request failed (${response.status})`]);
         return;
       }
 
       const data = await response.json();
-      const text = data.response;
+      text = data.response;
       if (!text) {
-        enqueueEvent(event);
+        fallBackFromLlm(event, ['empty response']);
         return;
       }
 
-      const parsed = JSON.parse(text);
-      const validOptions = Array.isArray(parsed.options) && parsed.options.length >= 2;
-      if (!parsed.title || !parsed.body || !validOptions) {
-        enqueueEvent(event);
+      const result = validateLlmEvent(JSON.parse(text), event.source, event.context.npc);
+      if (!result.ok || !result.content) {
+        fallBackFromLlm(event, result.errors, text);
         return;
       }
-
-      const llmEvent = buildLlmEventInstance(event, parsed);
-      if (llmEvent.content.options.length < 2) {
-        enqueueEvent(event);
-        return;
+      if (result.errors.length > 0 || result.adjustments.length > 0) {
+        console.warn('[Events] Generated event adjusted:', [...result.errors, ...result.adjustments]);
       }
-      enqueueEvent(llmEvent);
-    } catch {
-      enqueueEvent(event);
+      enqueueEvent({ ...event, content: result.content });
+    } catch (error) {
+      fallBackFromLlm(event, [error instanceof Error ? error.message : 'request failed'], text);
     }
-  }, [buildLlmEventInstance, enqueueEvent, llmEventsEnabled]);
+  }, [enqueueEvent, fallBackFromLlm, llmEventsEnabled]);
 
+  /** Fire the trigger point; true when it produced an event */
   const tryTriggerEvent = useCallback((params: {
     when: TriggerWhen;
     targetType: TriggerTargetType;
     targetId: string;
     contextOverrides?: Partial<EventContextSnapshot>;
     source: EventInstance['source'];
-  }) => {
-    const dayIndex = Math.floor(statsSimTime);
+  }): boolean => {
+    // Sim time is in hours; trigger cooldowns count days
+    const dayIndex = Math.floor(statsSimTime / 24);
+    const context = buildEventContext(params.contextOverrides);
     const def = evaluateTriggers({
       when: params.when,
       targetType: params.targetType,
       targetId: params.targetId,
       dayIndex,
-      state: triggerStateRef.current
+      state: triggerStateRef.current,
+      conditions: buildConditionContext(context)
     });
-    if (!def) return;
+    if (!def) return false;
 
-    const context = buildEventContext(params.contextOverrides);
     const event = makeEventInstance(def, params.source, context);
     setLastEventNote(`${params.when}:${params.targetType}:${params.targetId}`);
     try {
@@ -266,11 +279,37 @@ export const useEventSystem = ({
       // Ignore storage errors.
     }
     void enqueueEventWithOptionalLLM(event);
-  }, [buildEventContext, enqueueEventWithOptionalLLM, makeEventInstance, statsSimTime]);
+    return true;
+  }, [buildConditionContext, buildEventContext, enqueueEventWithOptionalLLM, makeEventInstance, statsSimTime]);
 
-  const applyEffects = useCallback((effects: EventEffect[]) => {
+  // Scheduled storylets fire once their sim hour has passed. One whose
+  // conditions no longer hold is dropped, so alternatives scheduled side by
+  // side (e.g. one for each earlier choice) leave only the fitting one.
+  useEffect(() => {
+    const due = getDueStorylets(storylines, statsSimTime);
+    if (due.length === 0) return;
+    const dueIds = new Set(due.map(entry => entry.id));
+    setStorylines(prev => ({ ...prev, scheduled: prev.scheduled.filter(entry => !dueIds.has(entry.id)) }));
+
+    const events = due.flatMap(entry => {
+      const def = getEventById(entry.eventId);
+      if (!def) return [];
+      const context = buildEventContext(entry.npc ? { npc: entry.npc } : undefined);
+      if (!meetsEventConditions(def.conditions, buildConditionContext(context))) return [];
+      return [makeEventInstance(def, 'system', context)];
+    });
+    if (events.length === 0) return;
+    const [first, ...rest] = events;
+    enqueueEvent(first);
+    if (rest.length > 0) setEventQueue(prev => [...prev, ...rest]);
+    setLastEventNote(`storylet:${first.definitionId}`);
+  }, [buildConditionContext, buildEventContext, enqueueEvent, makeEventInstance, setStorylines, statsSimTime, storylines]);
+
+  const applyEffects = useCallback((effects: EventEffect[], npc?: EventContextSnapshot['npc']) => {
     effects.forEach(effect => {
-      if (effect.type === 'playerStat') {
+      if (isStorylineEffect(effect)) {
+        setStorylines(prev => applyStorylineEffect(prev, effect, statsSimTime, npc));
+      } else if (effect.type === 'playerStat') {
         const clampStat = (stat: EventEffect['stat'], value: number) => {
           if (stat === 'health' || stat === 'reputation' || stat === 'wealth') {
             return Math.max(0, Math.min(100, value));
@@ -298,6 +337,21 @@ export const useEventSystem = ({
         }));
       } else if (effect.type === 'worldFlag') {
         setWorldFlags(prev => ({ ...prev, [effect.key]: effect.value }));
+      } else if (effect.type === 'grantItem') {
+        if (!findItemByName(effect.itemName) || effect.quantity <= 0) return;
+        const itemId = makeLooseItemId('gift', effect.itemName);
+        setPlayerStats(prev => {
+          const carried = prev.inventory.reduce((sum, item) => sum + item.quantity, 0);
+          const quantity = Math.min(effect.quantity, prev.maxInventorySlots - carried);
+          if (quantity <= 0) return prev;
+          const existing = prev.inventory.find(item => item.itemId === itemId);
+          return {
+            ...prev,
+            inventory: existing
+              ? prev.inventory.map(item => item === existing ? { ...item, quantity: item.quantity + quantity } : item)
+              : [...prev.inventory, { id: `player-item-${Date.now()}`, itemId, quantity, acquiredAt: statsSimTime }]
+          };
+        });
       } else if (effect.type === 'triggerEvent') {
         const def = getEventById(effect.eventId);
         if (!def) return;
@@ -307,10 +361,10 @@ export const useEventSystem = ({
         setShowEncounterModal(false);
       }
     });
-  }, [buildEventContext, enqueueEventWithOptionalLLM, makeEventInstance, setOutdoorNpcPool, setPlayerStats, setShowEncounterModal, setWorldFlags]);
+  }, [buildEventContext, enqueueEventWithOptionalLLM, makeEventInstance, setOutdoorNpcPool, setPlayerStats, setShowEncounterModal, setStorylines, setWorldFlags, statsSimTime]);
 
   const resolveEvent = useCallback((option: EventOption) => {
-    applyEffects(option.effects);
+    applyEffects(option.effects, activeEvent?.context.npc);
 
     if (option.id === 'insist_follow' && dismissedNpcRef.current) {
       const dismissedNpc = dismissedNpcRef.current;
@@ -352,9 +406,9 @@ export const useEventSystem = ({
       setActiveEvent(next || null);
       return rest;
     });
-  }, [applyEffects, buildEventContext, enqueueEventWithOptionalLLM, makeEventInstance, outdoorNpcPool, setIsFollowingAfterDismissal, setIsNPCInitiatedEncounter, setSelectedNpc, setShowEncounterModal, setOutdoorNpcPool]);
+  }, [activeEvent, applyEffects, buildEventContext, enqueueEventWithOptionalLLM, makeEventInstance, outdoorNpcPool, setIsFollowingAfterDismissal, setIsNPCInitiatedEncounter, setSelectedNpc, setShowEncounterModal, setOutdoorNpcPool]);
 
-  const handleConversationResult = useCallback((npcId: string, summary: import('../types').ConversationSummary, impact: ConversationImpact, meta?: { action?: 'end_conversation' | null }) => {
+  const handleConversationResult = useCallback((npcId: string, summary: import('../types').ConversationSummary, impact: ConversationImpact, meta?: { action?: NpcDialogueAction | null; notes?: ConversationNotes }) => {
     setConversationHistories(prev => [...prev, summary]);
 
     setOutdoorNpcPool(prev => prev.map(record => {
@@ -373,17 +427,15 @@ export const useEventSystem = ({
     const npcRecord = outdoorNpcPool.find(record => record.stats.id === npcId);
     if (!npcRecord) return;
 
-    const threatEntry = npcThreatMemoryRef.current[npcId];
-    const recentWindow = 1;
-    let threatCount = threatEntry?.count ?? 0;
-    if (impact.threatLevel >= 40 || impact.offenseLevel >= 50) {
-      if (!threatEntry || statsSimTime - threatEntry.lastSimTime > recentWindow) {
-        threatCount = 1;
-      } else {
-        threatCount += 1;
-      }
-      npcThreatMemoryRef.current[npcId] = { count: threatCount, lastSimTime: statsSimTime };
-    }
+    const relationship = recordConversation(
+      npcRelationships[npcId] ?? createRelationship(npcRecord.stats, statsSimTime),
+      summary,
+      impact,
+      meta?.notes,
+      statsSimTime
+    );
+    setNpcRelationships(prev => ({ ...prev, [npcId]: relationship }));
+    const threatCount = relationship.threats.count;
 
     const context: EventContextSnapshot = {
       player: {
@@ -423,15 +475,15 @@ export const useEventSystem = ({
     const convoEvent = checkConversationTrigger(context, impact, recentIds);
     if (convoEvent) {
       eventCooldownsRef.current[convoEvent.definitionId || convoEvent.id] = dayIndex;
-      if (meta?.action === 'end_conversation') {
+      if (meta?.action && DIALOGUE_ACTIONS[meta.action.type].closingEventId) {
         suppressDismissalEventRef.current = true;
       }
       void enqueueEventWithOptionalLLM(convoEvent);
     }
-  }, [currentWeather, enqueueEventWithOptionalLLM, outdoorNpcPool, params.mapX, params.mapY, params.timeOfDay, playerStats, setConversationHistories, setOutdoorNpcPool, statsSimTime, npcThreatMemoryRef]);
+  }, [currentWeather, enqueueEventWithOptionalLLM, npcRelationships, outdoorNpcPool, params.mapX, params.mapY, params.timeOfDay, playerStats, setConversationHistories, setNpcRelationships, setOutdoorNpcPool, statsSimTime]);
 
   const handleTriggerConversationEvent = useCallback((eventId: string, npcContext?: { npcId: string; npcName: string }, delayMs = 0) => {
-    if (eventId === 'npc_dismissed_player' && suppressDismissalEventRef.current) {
+    if (isDialogueClosingEvent(eventId) && suppressDismissalEventRef.current) {
       suppressDismissalEventRef.current = false;
       return;
     }
@@ -468,6 +520,18 @@ export const useEventSystem = ({
     }
   }, [buildEventContext, enqueueEventWithOptionalLLM, makeEventInstance, outdoorNpcPool, setShowEncounterModal]);
 
+  const handleDialogueAction = useCallback((npcId: string, action: NpcDialogueAction, accepted: boolean) => {
+    applyEffects(accepted ? getDialogueActionEffects(action, npcId) : getDeclinedDialogueActionEffects(action, npcId));
+    const npcRecord = outdoorNpcPool.find(record => record.stats.id === npcId);
+    if (npcRecord) {
+      setNpcRelationships(prev => ({
+        ...prev,
+        [npcId]: recordDialogueAction(prev[npcId] ?? createRelationship(npcRecord.stats, statsSimTime), action, accepted, statsSimTime)
+      }));
+    }
+    setLastEventNote(`dialogue:${action.type}:${npcId}`);
+  }, [applyEffects, outdoorNpcPool, setNpcRelationships, statsSimTime]);
+
   const handleDebugEvent = useCallback(() => {
     const district = getDistrictType(params.mapX, params.mapY);
     const biome = getBiomeForDistrict(district);
@@ -504,10 +568,14 @@ export const useEventSystem = ({
     llmEventsEnabled,
     setLlmEventsEnabled,
     lastEventNote,
+    llmEventLog,
     tryTriggerEvent,
     resolveEvent,
     handleConversationResult,
     handleTriggerConversationEvent,
-    handleDebugEvent
+    handleDialogueAction,
+    handleDebugEvent,
+    getTriggerState,
+    restoreTriggerState
   };
 };
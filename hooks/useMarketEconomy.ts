@@ -0,0 +1,42 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { MarketState } from '../types';
+import { EpidemicSample } from '../utils/epidemic/analytics';
+import { MarketGood, advanceMarket, applyTrade, createMarketState, getMarketConditions } from '../utils/market';
+
+interface UseMarketEconomyArgs {
+  /** The latest epidemic sample; the market moves each time it changes */
+  latestSample: EpidemicSample | null;
+}
+
+export const useMarketEconomy = ({ latestSample }: UseMarketEconomyArgs) => {
+  const [market, setMarket] = useState<MarketState>(createMarketState);
+  // For callbacks that must not change identity every time prices move
+  const marketRef = useRef(market);
+
+  useEffect(() => {
+    marketRef.current = market;
+  }, [market]);
+
+  useEffect(() => {
+    if (!latestSample) return;
+    setMarket(prev => advanceMarket(prev, getMarketConditions(latestSample)));
+  }, [latestSample]);
+
+  const recordTrade = useCallback((item: MarketGood, quantity: number, side: 'buy' | 'sell') => {
+    setMarket(prev => applyTrade(prev, item, quantity, side));
+  }, []);
+
+  const restoreMarket = useCallback((next: MarketState) => {
+    marketRef.current = next;
+    setMarket(next);
+  }, []);
+
+  const getMarket = useCallback(() => marketRef.current, []);
+
+  return {
+    market,
+    getMarket,
+    recordTrade,
+    restoreMarket
+  };
+};
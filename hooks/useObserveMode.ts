@@ -1,6 +1,7 @@
 import { useCallback, useEffect, useRef, useState } from 'react';
 import { CameraMode, SimulationParams } from '../types';
 import { observeLines as defaultObserveLines } from '../components/observe/observeCopy';
+import { apiJsonHeaders } from '../utils/apiSession';
 
 interface ObserveDeps {
   params: SimulationParams;
@@ -64,8 +65,9 @@ export const useObserveMode = ({
         try {
           const response = await fetch('/api/observe', {
             method: 'POST',
-            headers: { 'Content-Type': 'application/json' },
-            body: JSON.stringify({ prompt: observePrompt }),
+            headers: apiJsonHeaders(),
+            // Looking again at the same tile in the same hour reads the same
+            body: JSON.stringify({ prompt: observePrompt, seed: `${params.mapX},${params.mapY}:${Math.floor(params.timeOfDay)}` }),
             signal: controller.signal
           });
           if (!response.ok) {
@@ -96,7 +98,7 @@ export const useObserveMode = ({
     } else {
       setObserveLines(defaultObserveLines);
     }
-  }, [observeMode, params.simulationSpeed, params.uiMinimized, params.cameraMode, setParams, setShowEncounterModal, setShowMerchantModal, setShowEnterModal, setShowPlayerModal, observePrompt]);
+  }, [observeMode, params.simulationSpeed, params.uiMinimized, params.cameraMode, params.mapX, params.mapY, params.timeOfDay, setParams, setShowEncounterModal, setShowMerchantModal, setShowEnterModal, setShowPlayerModal, observePrompt]);
 
   const stopObserveMode = useCallback(() => {
     if (!observeMode) return;
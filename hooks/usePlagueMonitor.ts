@@ -1,19 +1,23 @@
 import { useEffect, useRef } from 'react';
 import { AgentState, PlagueStatus } from '../types';
 import { getPlagueTypeLabel } from '../utils/plague';
+import { PlagueSymptom } from '../utils/events/worldTriggers';
 
 interface UsePlagueMonitorOptions {
   plague: PlagueStatus;
   onShowInfectedModal: () => void;
   onNotify: (message: string) => void;
   onDeath: (summary: { reason: string; description: string }) => void;
+  /** A symptom has just passed the threshold announced to the player */
+  onSymptom?: (symptom: PlagueSymptom) => void;
 }
 
 export function usePlagueMonitor({
   plague,
   onShowInfectedModal,
   onNotify,
-  onDeath
+  onDeath,
+  onSymptom
 }: UsePlagueMonitorOptions) {
   const prevPlagueStateRef = useRef(plague.state);
   const prevSymptomsRef = useRef({
@@ -49,20 +53,28 @@ export function usePlagueMonitor({
       const prev = prevSymptomsRef.current;
       const THRESHOLD = 40;
 
+      let symptom: PlagueSymptom | null = null;
       if (plague.fever >= THRESHOLD && prev.fever < THRESHOLD) {
+        symptom = 'fever';
         onNotify('A burning fever consumes you...');
       } else if (plague.buboes >= THRESHOLD && prev.buboes < THRESHOLD) {
+        symptom = 'buboes';
         const location = plague.buboLocation === 1 ? 'groin' : plague.buboLocation === 2 ? 'armpit' : 'neck';
         onNotify(`Painful swellings appear in your ${location}...`);
       } else if (plague.coughingBlood >= THRESHOLD && prev.coughingBlood < THRESHOLD) {
+        symptom = 'coughingBlood';
         onNotify('You begin coughing blood...');
       } else if (plague.skinBleeding >= THRESHOLD && prev.skinBleeding < THRESHOLD) {
+        symptom = 'skinBleeding';
         onNotify('Dark patches of bleeding appear beneath your skin...');
       } else if (plague.delirium >= THRESHOLD && prev.delirium < THRESHOLD) {
+        symptom = 'delirium';
         onNotify('Your mind grows clouded with fever dreams...');
       } else if (plague.gangrene >= THRESHOLD && prev.gangrene < THRESHOLD) {
+        symptom = 'gangrene';
         onNotify('Your extremities begin to blacken...');
       }
+      if (symptom) onSymptom?.(symptom);
 
       prevSymptomsRef.current = {
         fever: plague.fever,
@@ -73,5 +85,5 @@ export function usePlagueMonitor({
         gangrene: plague.gangrene
       };
     }
-  }, [onDeath, onNotify, onShowInfectedModal, plague]);
+  }, [onDeath, onNotify, onShowInfectedModal, onSymptom, plague]);
 }
@@ -0,0 +1,97 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import {
+  AUTOSAVE_SLOT_ID,
+  LoadedSaveGame,
+  SaveGameSnapshot,
+  SaveSlotSummary,
+  createSaveSlotId,
+  deleteSaveGame,
+  listSaveSlots,
+  readSaveGame,
+  writeSaveGame
+} from '../utils/saveGame';
+
+interface UseSaveGameArgs {
+  gameLoading: boolean;
+  mapX: number;
+  mapY: number;
+  collectSnapshot: () => SaveGameSnapshot;
+  applySave: (save: LoadedSaveGame) => void;
+}
+
+export const useSaveGame = ({
+  gameLoading,
+  mapX,
+  mapY,
+  collectSnapshot,
+  applySave
+}: UseSaveGameArgs) => {
+  const [saveSlots, setSaveSlots] = useState<SaveSlotSummary[]>(() => listSaveSlots());
+  const [lastSaveNote, setLastSaveNote] = useState<string | null>(null);
+  const collectSnapshotRef = useRef(collectSnapshot);
+  const lastAutosaveTileRef = useRef<string | null>(null);
+
+  useEffect(() => {
+    collectSnapshotRef.current = collectSnapshot;
+  }, [collectSnapshot]);
+
+  useEffect(() => {
+    if (!lastSaveNote) return;
+    const timeout = window.setTimeout(() => setLastSaveNote(null), 3000);
+    return () => window.clearTimeout(timeout);
+  }, [lastSaveNote]);
+
+  const refreshSaveSlots = useCallback(() => {
+    setSaveSlots(listSaveSlots());
+  }, []);
+
+  const saveGame = useCallback((name: string, slotId?: string) => {
+    const id = slotId ?? createSaveSlotId();
+    const label = name.trim() || 'Untitled journey';
+    const summary = writeSaveGame(collectSnapshotRef.current(), id, label);
+    setLastSaveNote(summary ? `Saved "${label}"` : 'Save failed: storage is full or unavailable');
+    refreshSaveSlots();
+    return summary;
+  }, [refreshSaveSlots]);
+
+  const loadGame = useCallback((slotId: string) => {
+    const save = readSaveGame(slotId);
+    if (!save) {
+      setLastSaveNote('That save could not be read');
+      return false;
+    }
+    // Loading counts as arriving on the saved tile; don't immediately autosave over it.
+    lastAutosaveTileRef.current = `${save.params.mapX},${save.params.mapY}`;
+    applySave(save);
+    setLastSaveNote(`Loaded "${listSaveSlots().find((slot) => slot.id === slotId)?.name ?? 'save'}"`);
+    return true;
+  }, [applySave]);
+
+  const deleteSave = useCallback((slotId: string) => {
+    deleteSaveGame(slotId);
+    refreshSaveSlots();
+  }, [refreshSaveSlots]);
+
+  // Autosave whenever the player crosses into a new tile.
+  useEffect(() => {
+    if (gameLoading) return;
+    const tileKey = `${mapX},${mapY}`;
+    if (lastAutosaveTileRef.current === null) {
+      lastAutosaveTileRef.current = tileKey;
+      return;
+    }
+    if (lastAutosaveTileRef.current === tileKey) return;
+    lastAutosaveTileRef.current = tileKey;
+    writeSaveGame(collectSnapshotRef.current(), AUTOSAVE_SLOT_ID, 'Autosave');
+    refreshSaveSlots();
+  }, [gameLoading, mapX, mapY, refreshSaveSlots]);
+
+  return {
+    saveSlots,
+    lastSaveNote,
+    refreshSaveSlots,
+    saveGame,
+    loadGame,
+    deleteSave
+  };
+};
@@ -1,5 +1,6 @@
 import { useEffect } from 'react';
 import { CONSTANTS, PlayerStats, SimulationParams, SimulationStats } from '../types';
+import { tickItemEffects } from '../utils/itemEffects';
 import { progressPlague } from '../utils/plague';
 
 interface SimulationClockArgs {
@@ -49,10 +50,10 @@ export const useSimulationClock = ({
             ...prev,
             timeOfDay: nextTimeOfDay
           }));
-          setPlayerStats(prevPlayer => ({
+          setPlayerStats(prevPlayer => tickItemEffects({
             ...prevPlayer,
             plague: progressPlague(prevPlayer.plague, nextSimTime)
-          }));
+          }, nextSimTime));
         }
       }
 
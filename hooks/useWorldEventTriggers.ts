@@ -0,0 +1,157 @@
+import { useCallback, useEffect, useRef } from 'react';
+import { BuildingInfectionState, BuildingMetadata, DistrictType, EventContextSnapshot, EventInstance, NPCStats } from '../types';
+import { getItemDetailsByItemId } from '../utils/merchantItems';
+import { TriggerTargetType, TriggerWhen } from '../utils/events/triggerCatalog';
+import {
+  PlagueSymptom,
+  WORLD_TRIGGER_COOLDOWN_HOURS,
+  getDeathMilestonesCrossed,
+  getPrayersBetween
+} from '../utils/events/worldTriggers';
+
+type TryTriggerEvent = (params: {
+  when: TriggerWhen;
+  targetType: TriggerTargetType;
+  targetId: string;
+  contextOverrides?: Partial<EventContextSnapshot>;
+  source: EventInstance['source'];
+}) => boolean;
+
+type WorldTriggerWhen = keyof typeof WORLD_TRIGGER_COOLDOWN_HOURS;
+
+interface UseWorldEventTriggersArgs {
+  tryTriggerEvent: TryTriggerEvent;
+  simTime: number;
+  timeOfDay: number;
+  /** The player's district */
+  district: DistrictType;
+  currentWeather: string;
+  /** Dead across the whole city, from the latest epidemic sample */
+  citywideDeaths: number | null;
+  buildingInfectionState: Record<string, BuildingInfectionState>;
+  tileBuildings: BuildingMetadata[];
+  /** Ambient moments (weather, prayer, deaths) pass unremarked while the player is busy */
+  busy: boolean;
+}
+
+// Coins have no catalogue entry, so they only reach itemAny triggers
+const itemTargets = (itemIds: string[]): Array<[TriggerTargetType, string]> => [
+  ...itemIds
+    .map(itemId => getItemDetailsByItemId(itemId)?.name)
+    .filter((name): name is string => !!name)
+    .map(name => ['item', name] as [TriggerTargetType, string]),
+  ['itemAny', 'any']
+];
+
+/**
+ * Routes the world trigger points (utils/events/worldTriggers.ts) through
+ * tryTriggerEvent. Ambient ones are watched here; the rest are returned as
+ * handlers for the places that see them happen.
+ */
+export const useWorldEventTriggers = ({
+  tryTriggerEvent,
+  simTime,
+  timeOfDay,
+  district,
+  currentWeather,
+  citywideDeaths,
+  buildingInfectionState,
+  tileBuildings,
+  busy
+}: UseWorldEventTriggersArgs) => {
+  // Sim time each kind of moment last produced an event
+  const lastFiredRef = useRef<Partial<Record<WorldTriggerWhen, number>>>({});
+
+  // Try each target in turn until one produces an event, honouring the per-moment cooldown
+  const fire = useCallback((
+    when: WorldTriggerWhen,
+    targets: Array<[TriggerTargetType, string]>,
+    source: EventInstance['source'],
+    contextOverrides?: Partial<EventContextSnapshot>
+  ) => {
+    const last = lastFiredRef.current[when];
+    if (last !== undefined && simTime - last < WORLD_TRIGGER_COOLDOWN_HOURS[when]) return;
+    const fired = targets.some(([targetType, targetId]) => tryTriggerEvent({ when, targetType, targetId, contextOverrides, source }));
+    if (fired) lastFiredRef.current[when] = simTime;
+  }, [simTime, tryTriggerEvent]);
+
+  const prevWeatherRef = useRef(currentWeather);
+  useEffect(() => {
+    if (prevWeatherRef.current === currentWeather) return;
+    prevWeatherRef.current = currentWeather;
+    if (!busy) fire('weatherChange', [['weather', currentWeather]], 'environment');
+  }, [busy, currentWeather, fire]);
+
+  const prevTimeOfDayRef = useRef(timeOfDay);
+  useEffect(() => {
+    const prayers = getPrayersBetween(prevTimeOfDayRef.current, timeOfDay);
+    prevTimeOfDayRef.current = timeOfDay;
+    if (!busy && prayers.length > 0) fire('prayerTime', prayers.map(name => ['prayer', name]), 'environment');
+  }, [busy, fire, timeOfDay]);
+
+  // Starts from the first sample seen, so loading a save does not replay old milestones
+  const prevDeathsRef = useRef<number | null>(null);
+  useEffect(() => {
+    if (citywideDeaths === null) return;
+    const previous = prevDeathsRef.current;
+    prevDeathsRef.current = citywideDeaths;
+    if (previous === null || citywideDeaths < previous) return;
+    const milestones = getDeathMilestonesCrossed(previous, citywideDeaths);
+    if (milestones.length === 0) return;
+    // Only the highest matters when several pass at once
+    fire('deathMilestone', [['deathCount', String(milestones[milestones.length - 1])]], 'environment');
+  }, [citywideDeaths, fire]);
+
+  // A household counts once it was seen alive and is then seen dead; houses
+  // already dead when the player arrives are not news
+  const householdStatusRef = useRef<Map<string, BuildingInfectionState['status']>>(new Map());
+  useEffect(() => {
+    // Emptied on every tile change
+    if (Object.keys(buildingInfectionState).length === 0) householdStatusRef.current.clear();
+    const died: BuildingMetadata[] = [];
+    Object.entries(buildingInfectionState).forEach(([buildingId, state]) => {
+      const previous = householdStatusRef.current.get(buildingId);
+      householdStatusRef.current.set(buildingId, state.status);
+      if (state.status !== 'deceased' || previous === undefined || previous === 'deceased') return;
+      const building = tileBuildings.find(entry => entry.id === buildingId);
+      if (building) died.push(building);
+    });
+    if (busy || died.length === 0) return;
+    fire('householdDeath', [['buildingType', died[0].type], ['district', district]], 'environment');
+  }, [buildingInfectionState, busy, district, fire, tileBuildings]);
+
+  const triggerSymptom = useCallback((symptom: PlagueSymptom) => {
+    fire('plagueSymptom', [['symptom', symptom]], 'system');
+  }, [fire]);
+
+  /** Someone on the player's tile has died */
+  const triggerNpcDeath = useCallback((npc: NPCStats) => {
+    if (busy) return;
+    fire('npcDeath', [['npcProfession', npc.profession], ['district', district]], 'environment', {
+      npc: {
+        id: npc.id,
+        name: npc.name,
+        profession: npc.profession,
+        socialClass: npc.socialClass,
+        disposition: npc.disposition,
+        panic: npc.panicLevel,
+        religion: npc.religion
+      }
+    });
+  }, [busy, district, fire]);
+
+  const triggerItemPickup = useCallback((itemIds: string[]) => {
+    fire('itemPickup', itemTargets(itemIds), 'action');
+  }, [fire]);
+
+  const triggerItemTheft = useCallback((itemIds: string[]) => {
+    fire('itemTheft', itemTargets(itemIds), 'action');
+  }, [fire]);
+
+  return {
+    triggerSymptom,
+    triggerNpcDeath,
+    triggerItemPickup,
+    triggerItemTheft
+  };
+};
@@ -46,6 +46,24 @@ export interface PlagueStatus {
   // Derived metrics
   overallSeverity: number; // 0-100 for UI display
   survivalChance: number;  // 0-100% estimated survival
+
+  // Treatments still acting on the course of the disease (see utils/treatments.ts)
+  treatments?: PlagueTreatmentCourse[];
+  // Symptom offsets applied on the last tick, taken back off before the next one
+  treatmentOffset?: { fever: number; weakness: number };
+}
+
+export type PlagueTreatmentId = 'bloodletting' | 'lanceBubo' | 'theriac' | 'roseWater' | 'vinegar' | 'bimaristan';
+
+export interface PlagueTreatmentCourse {
+  id: PlagueTreatmentId;
+  givenAt: number;
+  expiresAt: number;
+  // Added to symptom curves when given, fading to nothing by expiry
+  feverOffset: number;
+  weaknessOffset: number;
+  // Multiplies the chance of dying while the course lasts (>1 is harmful)
+  mortalityFactor: number;
 }
 
 export enum SocialClass {
@@ -164,6 +182,8 @@ export interface NPCPlagueMeta {
   incubationHours: number | null;
   deathHours: number | null;
   onsetTime: number | null;
+  /** Set when the NPC survived; they are immune afterwards. */
+  recoveredTime?: number | null;
 }
 
 export type NpcLocation = 'outdoor' | 'interior';
@@ -249,6 +269,7 @@ export interface PlayerStats {
   inventory: PlayerItem[];
   maxInventorySlots: number; // Start with 20
   plague: PlagueStatus;      // Plague infection status
+  activeEffects?: ActiveItemEffect[]; // Items eaten, worn or burning; absent in older saves
 }
 
 export interface BuildingMetadata {
@@ -600,6 +621,7 @@ export interface MarketStall {
   awningColor: string;
   woodColor: string;
   goodsColor: string; // Primary color of displayed goods
+  isOpen?: boolean; // False while the keeper is sick, dead or not yet replaced
 }
 
 export enum MerchantType {
@@ -610,10 +632,31 @@ export enum MerchantType {
   BEDOUIN = 'BEDOUIN'         // Desert nomad trader, rare exotic goods
 }
 
+export type ItemEffectStat = 'strength' | 'perceptiveness' | 'charisma' | 'piety';
+
 export interface ItemEffect {
   type: 'heal' | 'buff' | 'debuff' | 'plagueProtection';
+  value: number;        // Health restored, stat points, or % exposure reduction
+  duration?: number;    // Sim hours for temporary effects; heal spreads over it
+  stat?: ItemEffectStat; // Stat shifted by a buff or debuff
+}
+
+export type ItemUseVerb = 'eat' | 'drink' | 'wear' | 'burn' | 'apply';
+
+/** An item effect running on the player, from use until `expiresAt`. */
+export interface ActiveItemEffect {
+  id: string;
+  itemId: string;
+  itemName: string;
+  use: ItemUseVerb;
+  type: ItemEffect['type'];
   value: number;
-  duration?: number; // For temporary effects
+  stat?: ItemEffectStat;
+  startedAt: number;
+  /** Null while an equipped item is worn; it lasts until taken off. */
+  expiresAt: number | null;
+  /** Sim time heal-over-time was last credited. */
+  lastTickAt: number;
 }
 
 export interface MerchantItem {
@@ -626,6 +669,8 @@ export interface MerchantItem {
   rarity: 'common' | 'uncommon' | 'rare';
   icon?: string;     // For future icon system
   effects?: ItemEffect[]; // For consumables (healing, etc)
+  use?: ItemUseVerb;       // How the effects are taken; defaults from the effect type
+  stockTarget?: number;    // What the merchant keeps on hand when supply is normal
 }
 
 export interface MerchantInventory {
@@ -633,6 +678,7 @@ export interface MerchantInventory {
   items: MerchantItem[];
   lastRestockTime: number;  // Sim time when inventory last refreshed
   restockInterval: number;  // Hours between restocks (24-48)
+  keeperId?: string;        // Keeper who held this stock; absent means the founder
 }
 
 export interface MerchantNPC {
@@ -647,6 +693,53 @@ export interface MerchantNPC {
   greeting: string;         // Procedurally generated flavor text
 }
 
+/** Who keeps a stall now: the merchant first met, or a relative who inherited it */
+export interface MerchantKeeper {
+  merchantId: string;
+  /** 'mourning' until an heir takes over; 'closed' when nobody is left */
+  status: 'open' | 'sick' | 'mourning' | 'closed';
+  stats: NPCStats;
+  /** 0 for the founder, 1 for the first heir, ... */
+  generation: number;
+  predecessorName?: string;
+  relation?: string;
+}
+
+// ============================================
+// MARKET
+// ============================================
+
+/** How the city trades a good, independent of which stall sells it */
+export type GoodCategory = 'staples' | 'medicine' | 'funerary' | 'protection' | 'cloth' | 'wares' | 'luxury';
+
+/** Supply and demand are 1 in an ordinary year; price is the multiplier on an item's basePrice */
+export interface MarketCategoryState {
+  supply: number;
+  demand: number;
+  price: number;
+}
+
+export interface MarketPricePoint {
+  simTime: number;
+  prices: Record<GoodCategory, number>;
+}
+
+export interface MarketNews {
+  simTime: number;
+  kind: 'caravan' | 'caravanTurnedBack' | 'shortage' | 'glut';
+  text: string;
+  categories: GoodCategory[];
+}
+
+export interface MarketState {
+  categories: Record<GoodCategory, MarketCategoryState>;
+  history: MarketPricePoint[];
+  news: MarketNews[];
+  /** Sim time the market last moved; null until the first epidemic sample */
+  lastUpdate: number | null;
+  nextCaravanAt: number;
+}
+
 export interface PlayerItem {
   id: string;
   itemId: string;    // Reference to base MerchantItem
@@ -842,7 +935,7 @@ export const PLAYER_ACTIONS: Record<ActionId, PlayerAction> = {
   pray: {
     id: 'pray',
     name: 'Pray',
-    description: 'Seek divine comfort to steady your nerves.',
+    description: 'Seek divine comfort. Stronger in a house of your own faith, and it steadies believers nearby.',
     icon: 'Sparkles',
     cooldownSeconds: 60,
     radius: 0,
@@ -851,7 +944,7 @@ export const PLAYER_ACTIONS: Record<ActionId, PlayerAction> = {
   trade: {
     id: 'trade',
     name: 'Trade',
-    description: 'Initiate a trade with nearby merchants.',
+    description: 'Barter with the person beside you for the goods of their trade.',
     icon: 'Coins',
     cooldownSeconds: 0,
     radius: 3,
@@ -860,7 +953,7 @@ export const PLAYER_ACTIONS: Record<ActionId, PlayerAction> = {
   heal: {
     id: 'heal',
     name: 'Heal',
-    description: 'Use medical supplies to treat the afflicted.',
+    description: 'Spend a remedy from your pack to treat the sick beside you. Tending them risks catching it yourself.',
     icon: 'Cross',
     cooldownSeconds: 45,
     radius: 2,
@@ -868,12 +961,22 @@ export const PLAYER_ACTIONS: Record<ActionId, PlayerAction> = {
   }
 };
 
+export type HealOutcome = 'cured' | 'eased' | 'untouched';
+
 export interface PlayerActionEvent {
   actionId: ActionId;
   position: [number, number, number];
   timestamp: number;
   effect: ActionEffect;
   radius: number;
+  /** Heal: pre-rolled result for each sick NPC in range, keyed by NPC id. */
+  healOutcomes?: Record<string, HealOutcome>;
+  /** Heal: strength of the remedy used (0-1), scales how long it holds the sickness back. */
+  remedyPotency?: number;
+  /** Pray: the player's faith; fellow believers in range are steadied more. */
+  religion?: Religion;
+  /** Pray: 0-1, higher in a house of the player's own faith. */
+  devotion?: number;
 }
 
 export const getLocationLabel = (x: number, y: number) => {
@@ -1096,6 +1199,37 @@ export interface ConversationSummary {
   sentiment: 'positive' | 'neutral' | 'negative';
 }
 
+/** One remembered thing in an NPC relationship, stamped with the sim time it happened. */
+export interface RelationshipNote {
+  text: string;
+  simTime: number;
+}
+
+export interface RelationshipDebt {
+  amount: number;            // dirhams
+  owedBy: 'player' | 'npc';
+  reason: string;
+  simTime: number;
+}
+
+/** What one NPC remembers of the player; persists across tiles and reloads. */
+export interface NpcRelationship {
+  npcId: string;
+  npcName: string;
+  npcProfession: string;
+  trust: number;                      // -100 (enemy) to 100 (confidant)
+  conversations: number;
+  firstMetSimTime: number;
+  lastSeenSimTime: number;
+  memories: Array<RelationshipNote & { sentiment: ConversationSummary['sentiment'] }>;
+  debts: RelationshipDebt[];
+  favors: Array<RelationshipNote & { doneBy: 'player' | 'npc' }>;  // deeds, e.g. "gave {other} 2 dirhams"
+  grudges: RelationshipNote[];        // the player's deeds this NPC resents
+  promises: RelationshipNote[];       // promises the player made them
+  facts: RelationshipNote[];          // things the player told them about themself
+  threats: { count: number; lastSimTime: number };
+}
+
 export interface ConversationState {
   messages: ConversationMessage[];
   isLoading: boolean;
@@ -1129,6 +1263,28 @@ export interface EncounterContext {
   nativeLanguageMode: boolean;
   /** If true, the player insisted on following after being dismissed - NPC is angry/fearful */
   isFollowingAfterDismissal?: boolean;
+  /** What this NPC remembers of the player from earlier meetings */
+  relationship?: NpcRelationship | null;
+}
+
+export type NpcDialogueActionType =
+  | 'end_conversation'
+  | 'offer_item'
+  | 'request_payment'
+  | 'reveal_location'
+  | 'call_guard'
+  | 'share_rumor'
+  | 'invite_home';
+
+/** Game outcome an NPC attaches to a chat reply; which payload fields apply depends on the type. */
+export interface NpcDialogueAction {
+  type: NpcDialogueActionType;
+  item?: string;      // offer_item: catalogue name of the good
+  price?: number;     // offer_item: dirhams asked
+  amount?: number;    // request_payment: dirhams asked
+  reason?: string;    // request_payment: what the coin is for
+  location?: string;  // reveal_location: place the NPC points the player to
+  rumor?: string;     // share_rumor: what the NPC passes on
 }
 
 // ============================================
@@ -1142,6 +1298,8 @@ export interface EventOption {
   outcomeText?: string;
   followupEventId?: string;
   requirements?: { stat: 'charisma' | 'piety' | 'currency' | 'health' | 'reputation' | 'wealth'; min?: number; max?: number };
+  /** Hidden unless every storyline test holds when the event is shown */
+  storylines?: StorylineCondition[];
   effects: EventEffect[];
 }
 
@@ -1150,7 +1308,29 @@ export type EventEffect =
   | { type: 'npcStat'; npcId: string; stat: 'disposition' | 'panic'; delta: number }
   | { type: 'worldFlag'; key: string; value: boolean | number | string }
   | { type: 'triggerEvent'; eventId: string }
-  | { type: 'endConversation' };
+  | { type: 'grantItem'; itemName: string; quantity: number }
+  | { type: 'endConversation' }
+  | { type: 'startStoryline'; storylineId: string; title: string; note?: string }
+  | { type: 'setStorylineVar'; storylineId: string; key: string; value?: StorylineValue; delta?: number }
+  | { type: 'storylineNote'; storylineId: string; text: string }
+  | { type: 'endStoryline'; storylineId: string; outcome: 'completed' | 'failed'; note?: string }
+  | { type: 'scheduleEvent'; eventId: string; delayHours: number; storylineId?: string };
+
+/** When an event may fire; every listed condition must hold. */
+export interface EventConditions {
+  district?: DistrictType;
+  timeOfDay?: [number, number];   // Hours [from, to]; wraps past midnight when from > to
+  socialClassMin?: SocialClass;
+  worldFlags?: Record<string, boolean | number | string>; // Must equal; false also matches an unset flag
+  playerPlague?: Array<'healthy' | 'incubating' | 'infected'>;
+  weather?: string[];             // CLEAR | OVERCAST | SANDSTORM
+  epidemicSeverity?: { min?: number; max?: number }; // 0-100: share of the city sick or dead
+  religion?: Religion[];          // The player's faith
+  hasItems?: string[];            // Catalogue names the player must carry
+  lacksItems?: string[];
+  relationship?: { trustMin?: number; trustMax?: number; met?: boolean }; // With the event's NPC
+  storylines?: StorylineCondition[];
+}
 
 export interface EventDefinition {
   id: string;
@@ -1158,7 +1338,96 @@ export interface EventDefinition {
   body: string;
   options: EventOption[];
   tags?: string[];
-  conditions?: { district?: DistrictType; timeOfDay?: [number, number]; socialClassMin?: SocialClass };
+  conditions?: EventConditions;
+  /** Relative chance when several eligible events compete (default 1) */
+  weight?: number;
+}
+
+// ============================================
+// STORYLINES
+// ============================================
+
+export type StorylineValue = boolean | number | string;
+export type StorylineStatus = 'active' | 'completed' | 'failed';
+
+/** Tests one storyline; a storyline that was never started has status 'unstarted' and no vars. */
+export interface StorylineCondition {
+  storylineId: string;
+  status?: Array<StorylineStatus | 'unstarted'>;
+  vars?: Record<string, StorylineValue>;  // Must equal; false also matches an unset var
+  varsMin?: Record<string, number>;       // Numeric vars; unset reads as 0
+  varsMax?: Record<string, number>;
+}
+
+/** A chain of events the player is (or was) part of, with the choices it remembers */
+export interface Storyline {
+  id: string;
+  title: string;
+  status: StorylineStatus;
+  vars: Record<string, StorylineValue>;
+  journal: Array<{ simTime: number; text: string }>;
+  startedAt: number;
+  updatedAt: number;
+}
+
+/** An event waiting for its sim hour, e.g. "two days later" */
+export interface ScheduledStorylet {
+  id: string;
+  eventId: string;
+  fireAt: number;
+  storylineId?: string;
+  /** The NPC of the event that scheduled it, so the same person can return */
+  npc?: EventContextSnapshot['npc'];
+}
+
+export interface StorylineState {
+  storylines: Record<string, Storyline>;
+  scheduled: ScheduledStorylet[];
+}
+
+// ============================================
+// CRIME
+// ============================================
+
+/** 'noticed': the owner found the goods gone but does not suspect the player */
+export type CrimeStatus = 'unnoticed' | 'noticed' | 'reported' | 'judged';
+export type CrimeSanction = 'restitution' | 'fine' | 'flogging' | 'acquitted' | 'bribed';
+
+export interface CrimeRecord {
+  id: string;
+  simTime: number;
+  district: DistrictType;
+  /** Where it happened, for toasts and the court */
+  locationName: string;
+  /** Householder whose goods were taken, from the nearest building; null for unclaimed caravan stores */
+  ownerName: string | null;
+  items: string[];
+  /** What the goods are worth in dirhams; fines and restitution are reckoned from it */
+  value: number;
+  witnesses: string[];
+  /** A guard or soldier saw it */
+  guardWitness: boolean;
+  status: CrimeStatus;
+  /** When the owner finds the goods gone, for thefts nobody saw; null once noticed or if seen */
+  noticeAt: number | null;
+  /** When the hearing it goes before was opened (the court storyline's startedAt) */
+  hearing?: number;
+  sanction?: CrimeSanction;
+}
+
+/** The player's name among one district's people */
+export interface DistrictStanding {
+  /** 0-100; subtracted from the player's reputation in this district */
+  notoriety: number;
+  thefts: number;
+  convictions: number;
+}
+
+export interface CrimeState {
+  records: CrimeRecord[];
+  districts: Partial<Record<DistrictType, DistrictStanding>>;
+  /** Sim hour notoriety was last worn down */
+  updatedAt: number;
 }
 
 export interface EventContextSnapshot {
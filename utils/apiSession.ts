@@ -0,0 +1,34 @@
+/**
+ * The session the api/ routes rate-limit this tab under. Kept in
+ * sessionStorage, so a reload stays the same session and a new tab is its own.
+ */
+
+const SESSION_STORAGE_KEY = 'apiSessionId';
+
+let fallbackSessionId: string | null = null;
+
+const newSessionId = () => (
+  typeof crypto !== 'undefined' && 'randomUUID' in crypto
+    ? crypto.randomUUID()
+    : `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`
+);
+
+export const getApiSessionId = (): string => {
+  try {
+    const stored = sessionStorage.getItem(SESSION_STORAGE_KEY);
+    if (stored) return stored;
+    const id = newSessionId();
+    sessionStorage.setItem(SESSION_STORAGE_KEY, id);
+    return id;
+  } catch {
+    // Storage blocked; one id for as long as the page lives
+    fallbackSessionId ??= newSessionId();
+    return fallbackSessionId;
+  }
+};
+
+/** Headers for a JSON POST to an api/ route */
+export const apiJsonHeaders = (): Record<string, string> => ({
+  'Content-Type': 'application/json',
+  'X-Session-Id': getApiSessionId()
+});
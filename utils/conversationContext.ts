@@ -6,10 +6,13 @@ import {
   ConversationSummary,
   SocialClass,
   SimulationStats,
-  EncounterEnvironment
+  EncounterEnvironment,
+  NpcRelationship
 } from '../types';
 import { MoraleStats } from '../components/Agents';
 import { seededRandom } from './procedural';
+import { formatDialogueActionsForPrompt } from './dialogueActions';
+import { describeDeed, describeTrust, getDebtBalance } from './relationships';
 
 // Generate a deterministic seed from NPC ID for consistent personality
 function npcIdToSeed(npcId: string): number {
@@ -110,13 +113,40 @@ function getPlayerInfluence(player: PlayerStats, npc: NPCStats): string {
   return lines.join('\n');
 }
 
-function buildRelationshipContext(history: { summary: string; sentiment: string }[]): string {
-  if (history.length === 0) {
-    return "## RELATIONSHIP\nYou have never spoken to this person before. This is your first meeting.";
+function buildRelationshipContext(
+  history: { summary: string; sentiment: string }[],
+  relationship?: NpcRelationship | null
+): string {
+  if (!relationship || relationship.conversations === 0) {
+    if (history.length === 0) {
+      return "## RELATIONSHIP\nYou have never spoken to this person before. This is your first meeting.";
+    }
+    const recentSummaries = history.slice(-3).map(h => `- ${h.summary}`).join('\n');
+    return `## RELATIONSHIP\nYou have spoken before. Recent interactions:\n${recentSummaries}`;
   }
 
-  const recentSummaries = history.slice(-3).map(h => `- ${h.summary}`).join('\n');
-  return `## RELATIONSHIP\nYou have spoken before. Recent interactions:\n${recentSummaries}`;
+  const lines = [
+    `## RELATIONSHIP`,
+    `You have spoken ${relationship.conversations === 1 ? 'once' : `${relationship.conversations} times`} before. How you regard them: ${describeTrust(relationship.trust).toLowerCase()} (trust ${relationship.trust}/100).`,
+    `Recent interactions:`,
+    ...relationship.memories.slice(-3).map(memory => `- ${memory.text}`)
+  ];
+  if (relationship.facts.length > 0) {
+    lines.push(`What they have told you about themselves:`, ...relationship.facts.slice(-4).map(fact => `- "${fact.text}"`));
+  }
+  if (relationship.promises.length > 0) {
+    lines.push(`Promises they made you:`, ...relationship.promises.slice(-3).map(promise => `- "${promise.text}"`));
+  }
+  const balance = getDebtBalance(relationship);
+  if (balance > 0) lines.push(`- You owe them ${balance} dirhams and it weighs on you.`);
+  if (balance < 0) lines.push(`- They owe you ${-balance} dirhams.`);
+  relationship.favors.slice(-3).forEach(favor => {
+    lines.push(`- ${describeDeed(favor.text, favor.doneBy, 'npc', relationship.npcName)}.`);
+  });
+  relationship.grudges.slice(-2).forEach(grudge => {
+    lines.push(`- GRUDGE: ${describeDeed(grudge.text, 'player', 'npc', relationship.npcName)}. You have not forgotten.`);
+  });
+  return lines.join('\n');
 }
 
 // Get disposition description for LLM context
@@ -137,20 +167,22 @@ export function buildSystemPrompt(context: EncounterContext): string {
     simulationStats,
     conversationHistory,
     nativeLanguageMode,
-    isFollowingAfterDismissal = false
+    isFollowingAfterDismissal = false,
+    relationship
   } = context;
 
   const timeDescription = getTimeDescription(environment.timeOfDay);
   const threatLevel = calculateThreatLevel(environment, simulationStats);
   const relationshipContext = buildRelationshipContext(
-    conversationHistory.map(h => ({ summary: h.summary, sentiment: h.sentiment }))
+    conversationHistory.map(h => ({ summary: h.summary, sentiment: h.sentiment })),
+    relationship
   );
   const languageLine = npc.language === 'Arabic'
     ? 'Arabic'
     : `${npc.language}, and you also use Arabic in daily trade.`;
 
   // Calculate effective friendliness for this encounter
-  const effectiveFriendliness = calculateEffectiveFriendliness(npc, player, conversationHistory);
+  const effectiveFriendliness = calculateEffectiveFriendliness(npc, player, conversationHistory, relationship);
   const relationshipQuality = getRelationshipDescription(effectiveFriendliness);
 
   // Check for shared identity
@@ -247,6 +279,8 @@ ${isFollowingAfterDismissal ? `
 You MUST respond with valid JSON in this exact format:
 { "message": "Your dialogue here", "action": null }
 
+${formatDialogueActionsForPrompt(npc)}
+
 Set action to "end_conversation" if ANY of these occur:
 - The player insults you, curses, or uses crude/vulgar language (e.g., "wtf", "damn you", profanity)
 - The player fails to show appropriate respect for your social station (a peasant speaking rudely to nobility/clergy)
@@ -257,6 +291,7 @@ Set action to "end_conversation" if ANY of these occur:
 
 When ending the conversation, your message should express displeasure, fear, or dismissal appropriate to your character.
 Example: { "message": "How dare you speak to me in such a manner! Leave my sight.", "action": "end_conversation" }
+If the player threatens you and you would cry out for help, use { "type": "call_guard" } instead.
 
 Respond only as ${npc.name}. Begin speaking now.`;
 }
@@ -0,0 +1,46 @@
+import { describe, expect, it } from 'vitest';
+import { CrimeRecord, Storyline } from '../types';
+import { COURT_STORYLINE_ID, assignHearing, createCrimeState, settleCrimes } from './crime';
+
+const theft = (id: string, simTime: number): CrimeRecord => ({
+  id,
+  simTime,
+  district: 'MARKET',
+  locationName: 'the souq',
+  ownerName: 'Hasan',
+  items: [],
+  value: 10,
+  witnesses: ['npc-1'],
+  guardWitness: false,
+  status: 'reported',
+  noticeAt: null
+});
+
+const court = (status: Storyline['status'], startedAt: number, sanction?: string): Storyline => ({
+  id: COURT_STORYLINE_ID,
+  title: 'Summoned Before the Qadi',
+  status,
+  vars: sanction ? { sanction } : {},
+  journal: [],
+  startedAt,
+  updatedAt: startedAt + 24
+});
+
+describe('settleCrimes', () => {
+  it('judges only the cases the closed hearing covered', () => {
+    let state = { ...createCrimeState(), records: [theft('a', 10), theft('b', 12), theft('c', 60)] };
+    state = assignHearing(state, 'a', undefined, 10);
+    state = assignHearing(state, 'b', court('active', 10), 12);
+    state = assignHearing(state, 'c', court('completed', 10, 'fine'), 60);
+
+    const { state: settled, judged, sanction } = settleCrimes(state, court('completed', 10, 'fine'));
+    expect(sanction).toBe('fine');
+    expect(judged.map(record => record.id)).toEqual(['a', 'b']);
+    expect(settled.records.find(record => record.id === 'c')?.status).toBe('reported');
+  });
+
+  it('leaves reported cases alone while the hearing is pending', () => {
+    const state = assignHearing({ ...createCrimeState(), records: [theft('a', 10)] }, 'a', undefined, 10);
+    expect(settleCrimes(state, court('active', 10)).judged).toEqual([]);
+  });
+});
@@ -0,0 +1,305 @@
+/**
+ * Crime
+ *
+ * Theft from chests and birdcages. When the player takes goods that are not
+ * theirs, anyone on the street who can see the spot becomes a witness; a seen
+ * theft is reported at once, and a guard or soldier among the witnesses may
+ * give chase. An unseen theft is found out later by the householder, who may
+ * or may not put it down to the player.
+ *
+ * Reported thefts go before the qadi as the 'qadi_court' storyline (see the
+ * crime event pack): its vars carry the worth of the goods, the number of
+ * witnesses and whether the player fled the watch (which convicts a denial on
+ * a single witness), and the option that closes the hearing sets the sanction
+ * that settleCrimes applies to every case heard.
+ *
+ * Each district keeps its own notoriety, so a thief known in the souq can
+ * still walk the Christian quarter unremarked. It wears off slowly.
+ */
+
+import { AgentState, BuildingMetadata, CONSTANTS, CrimeRecord, CrimeSanction, CrimeState, DistrictStanding, DistrictType, Storyline } from '../types';
+import { StorylineEffect } from './events/storylines';
+import { getItemDetailsByItemId } from './merchantItems';
+import { seededRandom } from './procedural';
+import { hashToSeed } from './npcRegistry';
+
+export const COURT_STORYLINE_ID = 'qadi_court';
+export const GUARD_PURSUIT_EVENT_ID = 'crime_guard_pursuit';
+const COURT_SUMMONS_EVENT_ID = 'crime_qadi_summons';
+// The qadi hears a case the day after it is reported
+const SUMMONS_DELAY_HOURS = 24;
+
+export const GUARD_PROFESSIONS = ['City Guard', 'Mamluk Soldier', 'Mamluk Officer'];
+
+// How far a bystander can make out what the player is doing, by day and after dark
+const WITNESS_RANGE_DAY = 14;
+const WITNESS_RANGE_NIGHT = 6;
+// A chest or cage this close to a house's walls belongs to that household
+const OWNER_RANGE = 6;
+// Hours before a householder finds their goods gone
+const NOTICE_MIN_HOURS = 4;
+const NOTICE_MAX_HOURS = 24;
+const NOTORIETY_DECAY_PER_DAY = 2;
+
+// Worth of loot that is not in any catalogue, by rarity
+const RARITY_VALUE = { common: 3, uncommon: 8, rare: 20 };
+
+export interface Bystander {
+  id: string;
+  name: string;
+  profession: string;
+  state: AgentState;
+  position: [number, number, number];
+}
+
+export interface TheftInput {
+  simTime: number;
+  district: DistrictType;
+  locationName: string;
+  owner: BuildingMetadata | null;
+  items: Array<{ itemId: string; rarity: 'common' | 'uncommon' | 'rare' }>;
+  witnesses: Bystander[];
+}
+
+const clamp = (value: number, min: number, max: number) => Math.min(max, Math.max(min, value));
+
+export const createCrimeState = (): CrimeState => ({ records: [], districts: {}, updatedAt: 0 });
+
+const isNight = (timeOfDay: number) => timeOfDay < 5 || timeOfDay >= 20;
+
+// Slab test of the segment a-b against a building's square footprint
+const segmentHitsBuilding = (ax: number, az: number, bx: number, bz: number, building: BuildingMetadata) => {
+  // Shrunk a little so a chest set against the wall is not hidden by its own house
+  const half = (CONSTANTS.BUILDING_SIZE * (building.sizeScale ?? 1)) / 2 - 0.5;
+  const [cx, , cz] = building.position;
+  let tMin = 0;
+  let tMax = 1;
+  const axes: Array<[number, number, number]> = [[ax, bx - ax, cx], [az, bz - az, cz]];
+  for (const [start, delta, center] of axes) {
+    if (Math.abs(delta) < 1e-6) {
+      if (Math.abs(start - center) > half) return false;
+      continue;
+    }
+    const t1 = (center - half - start) / delta;
+    const t2 = (center + half - start) / delta;
+    tMin = Math.max(tMin, Math.min(t1, t2));
+    tMax = Math.min(tMax, Math.max(t1, t2));
+    if (tMin > tMax) return false;
+  }
+  return true;
+};
+
+/** Bystanders near enough, awake to the world and with a clear view of `origin` */
+export const findWitnesses = (
+  origin: [number, number, number],
+  bystanders: Bystander[],
+  buildings: BuildingMetadata[],
+  timeOfDay: number
+): Bystander[] => {
+  const range = isNight(timeOfDay) ? WITNESS_RANGE_NIGHT : WITNESS_RANGE_DAY;
+  const [ox, , oz] = origin;
+  return bystanders.filter((bystander) => {
+    // The sick are abed or past caring
+    if (bystander.state === AgentState.INFECTED || bystander.state === AgentState.DECEASED) return false;
+    const [bx, , bz] = bystander.position;
+    if (Math.hypot(bx - ox, bz - oz) > range) return false;
+    return !buildings.some((building) => segmentHitsBuilding(bx, bz, ox, oz, building));
+  });
+};
+
+/** The house a chest or cage stands against, if any */
+export const findOwnerBuilding = (position: [number, number, number], buildings: BuildingMetadata[]): BuildingMetadata | null => {
+  let nearest: BuildingMetadata | null = null;
+  let nearestGap = OWNER_RANGE;
+  buildings.forEach((building) => {
+    const half = (CONSTANTS.BUILDING_SIZE * (building.sizeScale ?? 1)) / 2;
+    const gap = Math.max(
+      Math.abs(position[0] - building.position[0]) - half,
+      Math.abs(position[2] - building.position[2]) - half,
+      0
+    );
+    if (gap <= nearestGap) {
+      nearest = building;
+      nearestGap = gap;
+    }
+  });
+  return nearest;
+};
+
+export const getLootValue = (items: TheftInput['items']) => items.reduce(
+  (sum, item) => sum + (getItemDetailsByItemId(item.itemId)?.basePrice ?? RARITY_VALUE[item.rarity]),
+  0
+);
+
+export const isGuard = (profession: string) => GUARD_PROFESSIONS.includes(profession);
+
+const getStanding = (state: CrimeState, district: DistrictType): DistrictStanding => (
+  state.districts[district] ?? { notoriety: 0, thefts: 0, convictions: 0 }
+);
+
+const withStanding = (state: CrimeState, district: DistrictType, change: Partial<DistrictStanding>): CrimeState => {
+  const standing = { ...getStanding(state, district), ...change };
+  return { ...state, districts: { ...state.districts, [district]: { ...standing, notoriety: clamp(standing.notoriety, 0, 100) } } };
+};
+
+/** Notoriety a reported theft earns in its district */
+const reportNotoriety = (record: CrimeRecord) => 6 + Math.min(10, record.witnesses.length * 2) + Math.min(10, Math.round(record.value / 5));
+
+/**
+ * Record a theft. Returns the new state, the record, and the change to the
+ * player's reputation: only a theft someone saw costs it straight away.
+ */
+export const recordTheft = (state: CrimeState, input: TheftInput): { state: CrimeState; record: CrimeRecord; reputationDelta: number } => {
+  const id = `theft-${input.simTime.toFixed(3)}-${state.records.length}`;
+  const witnessed = input.witnesses.length > 0;
+  const noticeRoll = seededRandom(hashToSeed(id));
+  const record: CrimeRecord = {
+    id,
+    simTime: input.simTime,
+    district: input.district,
+    locationName: input.locationName,
+    ownerName: input.owner?.ownerName ?? null,
+    items: input.items.map((item) => item.itemId),
+    value: getLootValue(input.items),
+    witnesses: input.witnesses.map((witness) => witness.name),
+    guardWitness: input.witnesses.some((witness) => isGuard(witness.profession)),
+    status: witnessed ? 'reported' : 'unnoticed',
+    noticeAt: !witnessed && input.owner
+      ? input.simTime + NOTICE_MIN_HOURS + noticeRoll * (NOTICE_MAX_HOURS - NOTICE_MIN_HOURS)
+      : null
+  };
+  const standing = getStanding(state, input.district);
+  const next = withStanding({ ...state, records: [...state.records, record] }, input.district, {
+    thefts: standing.thefts + 1,
+    notoriety: standing.notoriety + (witnessed ? reportNotoriety(record) : 0)
+  });
+  return { state: next, record, reputationDelta: witnessed ? -(2 + Math.min(4, input.witnesses.length)) : 0 };
+};
+
+/** A watchman who saw the theft gives chase, the more surely where the player is known */
+export const willGuardsPursue = (state: CrimeState, record: CrimeRecord) => (
+  record.guardWitness
+  && seededRandom(hashToSeed(`${record.id}-pursuit`)) < 0.5 + getStanding(state, record.district).notoriety / 100
+);
+
+/**
+ * Wear notoriety down and let householders find their goods gone. A
+ * householder is likelier to suspect the player where the player is already
+ * known for it. Returns the thefts found out this step.
+ */
+export const advanceCrimes = (state: CrimeState, simTime: number): { state: CrimeState; discovered: CrimeRecord[] } => {
+  const discovered: CrimeRecord[] = [];
+  const records = state.records.map((record) => {
+    if (record.status !== 'unnoticed' || record.noticeAt === null || record.noticeAt > simTime) return record;
+    const suspicion = 0.3 + getStanding(state, record.district).notoriety / 150;
+    const suspected = seededRandom(hashToSeed(`${record.id}-suspect`)) < suspicion;
+    const found: CrimeRecord = { ...record, status: suspected ? 'reported' : 'noticed', noticeAt: null };
+    discovered.push(found);
+    return found;
+  });
+
+  const decay = Math.max(0, simTime - state.updatedAt) / 24 * NOTORIETY_DECAY_PER_DAY;
+  let next: CrimeState = { ...state, records, updatedAt: simTime };
+  (Object.keys(state.districts) as DistrictType[]).forEach((district) => {
+    next = withStanding(next, district, { notoriety: getStanding(next, district).notoriety - decay });
+  });
+  discovered.filter((record) => record.status === 'reported').forEach((record) => {
+    next = withStanding(next, record.district, { notoriety: getStanding(next, record.district).notoriety + reportNotoriety(record) / 2 });
+  });
+  return { state: next, discovered };
+};
+
+/**
+ * Storyline effects that put a reported theft before the qadi. Thefts reported
+ * before the hearing are heard together; the summons is only sent once.
+ */
+export const getCourtEffects = (record: CrimeRecord, court: Storyline | undefined): StorylineEffect[] => {
+  const pending = court?.status === 'active';
+  const owner = record.ownerName ? `${record.ownerName}'s house` : 'an unclaimed store';
+  const effects: StorylineEffect[] = [
+    {
+      type: 'startStoryline',
+      storylineId: COURT_STORYLINE_ID,
+      title: 'Summoned Before the Qadi',
+      note: pending ? undefined : 'A theft has been laid at your door, and the qadi will hear it.'
+    },
+    { type: 'storylineNote', storylineId: COURT_STORYLINE_ID, text: `Accused of taking goods worth ${record.value} dirhams from ${owner} in ${record.locationName}.` },
+    { type: 'setStorylineVar', storylineId: COURT_STORYLINE_ID, key: 'charges', delta: 1 },
+    { type: 'setStorylineVar', storylineId: COURT_STORYLINE_ID, key: 'value', delta: record.value },
+    { type: 'setStorylineVar', storylineId: COURT_STORYLINE_ID, key: 'witnesses', delta: record.witnesses.length }
+  ];
+  if (!pending) {
+    effects.push({ type: 'scheduleEvent', eventId: COURT_SUMMONS_EVENT_ID, delayHours: SUMMONS_DELAY_HOURS, storylineId: COURT_STORYLINE_ID });
+  }
+  return effects;
+};
+
+/**
+ * Note which hearing a reported theft goes before: the one still pending, or
+ * the one it opens now. settleCrimes only judges the cases a hearing covered.
+ */
+export const assignHearing = (state: CrimeState, recordId: string, court: Storyline | undefined, simTime: number): CrimeState => {
+  const hearing = court?.status === 'active' ? court.startedAt : simTime;
+  return { ...state, records: state.records.map((record) => record.id === recordId ? { ...record, hearing } : record) };
+};
+
+const CONVICTIONS: CrimeSanction[] = ['restitution', 'fine', 'flogging'];
+
+export const isConviction = (sanction: CrimeSanction) => CONVICTIONS.includes(sanction);
+
+/**
+ * Close the cases the qadi has heard once the court storyline has ended with a
+ * sanction. A conviction that has been paid for earns back some standing; an
+ * acquittal only a little; a bribe none.
+ */
+export const settleCrimes = (state: CrimeState, court: Storyline | undefined): { state: CrimeState; judged: CrimeRecord[]; sanction: CrimeSanction | null } => {
+  const sanction = court && court.status !== 'active' ? court.vars.sanction as CrimeSanction | undefined : undefined;
+  if (!sanction) return { state, judged: [], sanction: null };
+  // A case reported after the hearing closed waits for the next one; records
+  // saved before hearings were noted go to whichever closes first
+  const judged = state.records
+    .filter((record) => record.status === 'reported' && (record.hearing ?? court.startedAt) === court.startedAt)
+    .map((record): CrimeRecord => ({ ...record, status: 'judged', sanction }));
+  if (judged.length === 0) return { state, judged, sanction };
+
+  const byId = new Map(judged.map((record) => [record.id, record]));
+  let next: CrimeState = { ...state, records: state.records.map((record) => byId.get(record.id) ?? record) };
+  const relief = isConviction(sanction) ? 10 : sanction === 'acquitted' ? 4 : 0;
+  new Set(judged.map((record) => record.district)).forEach((district) => {
+    const standing = getStanding(next, district);
+    next = withStanding(next, district, {
+      notoriety: standing.notoriety - relief,
+      convictions: standing.convictions + (isConviction(sanction) ? judged.filter((record) => record.district === district).length : 0)
+    });
+  });
+  return { state: next, judged, sanction };
+};
+
+/**
+ * What the qadi takes from a convicted thief: the goods back where the player
+ * still has them, their worth where not, and for a fine their worth again.
+ */
+export const getRestitution = (judged: CrimeRecord[], sanction: CrimeSanction, heldItemIds: string[]) => {
+  const held = [...heldItemIds];
+  const returned: string[] = [];
+  let owed = 0;
+  judged.forEach((record) => {
+    const value = record.items.length > 0 ? record.value / record.items.length : 0;
+    record.items.forEach((itemId) => {
+      const index = held.indexOf(itemId);
+      if (index >= 0) {
+        held.splice(index, 1);
+        returned.push(itemId);
+      } else {
+        owed += value;
+      }
+    });
+    if (sanction === 'fine') owed += record.value;
+  });
+  return { returned, owed: Math.round(owed) };
+};
+
+/** The player's reputation as this district sees it */
+export const getDistrictReputation = (reputation: number, state: CrimeState, district: DistrictType) => (
+  clamp(reputation - getStanding(state, district).notoriety, 0, 100)
+);
@@ -0,0 +1,241 @@
+/**
+ * NPC Dialogue Actions
+ * The vocabulary an NPC can attach to a chat reply so that talk has game
+ * consequences: selling a good, asking for coin, pointing the way, raising the
+ * watch. Replies are validated against this registry, and each action maps to
+ * ordinary EventEffects so the event system applies them like any other outcome.
+ */
+
+import { EventEffect, NPCStats, NpcDialogueAction, NpcDialogueActionType } from '../types';
+import { findItemByName, getAllItems } from './merchantItems';
+
+interface DialogueActionSpec {
+  /** Prompt line telling the NPC when to use it */
+  usage: string;
+  /** Example action object shown in the prompt */
+  example?: string;
+  /** Waits for the player to accept before its effects apply */
+  needsConsent: boolean;
+  /** Ends the encounter and shows this event afterwards */
+  closingEventId?: string;
+  /** Keep only the payload fields this action uses; null if a required one is missing */
+  normalize: (raw: Record<string, unknown>) => NpcDialogueAction | null;
+}
+
+const MAX_ASKING_PRICE = 200;
+const MAX_TEXT_LENGTH = 160;
+
+const readText = (value: unknown): string | null => {
+  if (typeof value !== 'string') return null;
+  const text = value.replace(/\s+/g, ' ').trim();
+  return text ? text.slice(0, MAX_TEXT_LENGTH) : null;
+};
+
+const readCoins = (value: unknown): number | null => {
+  const amount = typeof value === 'string' ? Number(value) : value;
+  if (typeof amount !== 'number' || !Number.isFinite(amount)) return null;
+  return Math.max(1, Math.min(MAX_ASKING_PRICE, Math.round(amount)));
+};
+
+// Models name goods loosely ("figs", "rose-water"); match the catalogue by words
+const resolveItemName = (value: unknown): string | null => {
+  const text = readText(value);
+  if (!text) return null;
+  const exact = findItemByName(text);
+  if (exact) return exact.name;
+  const wanted = text.toLowerCase().replace(/[^a-z0-9]+/g, ' ').trim();
+  const match = getAllItems().find(item => item.name.toLowerCase().replace(/[^a-z0-9]+/g, ' ').trim() === wanted)
+    ?? getAllItems().find(item => item.name.toLowerCase().includes(wanted));
+  return match?.name ?? null;
+};
+
+export const DIALOGUE_ACTIONS: Record<NpcDialogueActionType, DialogueActionSpec> = {
+  end_conversation: {
+    usage: 'You refuse to talk any longer (see the reasons below).',
+    needsConsent: false,
+    closingEventId: 'npc_dismissed_player',
+    normalize: () => ({ type: 'end_conversation' })
+  },
+  offer_item: {
+    usage: 'You offer to sell or hand over a good you actually have. Name it plainly and ask a fair price in dirhams.',
+    example: '{ "type": "offer_item", "item": "Dried Figs", "price": 3 }',
+    needsConsent: true,
+    normalize: raw => {
+      const item = resolveItemName(raw.item);
+      if (!item) return null;
+      return { type: 'offer_item', item, price: readCoins(raw.price) ?? findItemByName(item)?.basePrice ?? 1 };
+    }
+  },
+  request_payment: {
+    usage: 'You ask the player for coin: alms, a fee, a bribe, or payment for a favour.',
+    example: '{ "type": "request_payment", "amount": 5, "reason": "for bread for my children" }',
+    needsConsent: true,
+    normalize: raw => {
+      const amount = readCoins(raw.amount ?? raw.price);
+      if (amount === null) return null;
+      return { type: 'request_payment', amount, reason: readText(raw.reason) ?? undefined };
+    }
+  },
+  reveal_location: {
+    usage: 'You tell the player how to find a real place in Damascus (a mosque, gate, market, bimaristan, house).',
+    example: '{ "type": "reveal_location", "location": "the Bimaristan al-Nuri" }',
+    needsConsent: false,
+    normalize: raw => {
+      const location = readText(raw.location);
+      return location ? { type: 'reveal_location', location } : null;
+    }
+  },
+  call_guard: {
+    usage: 'You shout for the watch because the player threatens or harasses you. This ends the conversation.',
+    needsConsent: false,
+    closingEventId: 'conversation_guard_warning',
+    normalize: () => ({ type: 'call_guard' })
+  },
+  share_rumor: {
+    usage: 'You pass on a specific piece of news or gossip worth remembering.',
+    example: '{ "type": "share_rumor", "rumor": "The qadi has fled to his estate in the Ghouta." }',
+    needsConsent: false,
+    normalize: raw => {
+      const rumor = readText(raw.rumor);
+      return rumor ? { type: 'share_rumor', rumor } : null;
+    }
+  },
+  invite_home: {
+    usage: 'You trust the player enough to invite them to your home.',
+    needsConsent: false,
+    normalize: () => ({ type: 'invite_home' })
+  }
+};
+
+const isActionType = (value: unknown): value is NpcDialogueActionType => (
+  typeof value === 'string' && Object.prototype.hasOwnProperty.call(DIALOGUE_ACTIONS, value)
+);
+
+/**
+ * Validate the `action` field of a chat reply. Accepts a bare type string
+ * (the older contract) or an object with a `type` and payload; anything
+ * unknown or missing its payload is dropped.
+ */
+export const parseDialogueAction = (raw: unknown): NpcDialogueAction | null => {
+  if (isActionType(raw)) return DIALOGUE_ACTIONS[raw].normalize({});
+  if (!raw || typeof raw !== 'object') return null;
+  const record = raw as Record<string, unknown>;
+  if (!isActionType(record.type)) return null;
+  return DIALOGUE_ACTIONS[record.type].normalize(record);
+};
+
+export const isClosingDialogueAction = (action: NpcDialogueAction | null | undefined): boolean => (
+  !!action && !!DIALOGUE_ACTIONS[action.type].closingEventId
+);
+
+export const isDialogueClosingEvent = (eventId: string): boolean => (
+  Object.values(DIALOGUE_ACTIONS).some(spec => spec.closingEventId === eventId)
+);
+
+export const dialogueActionNeedsConsent = (action: NpcDialogueAction): boolean => DIALOGUE_ACTIONS[action.type].needsConsent;
+
+/** Dirhams the player hands over if they accept, or 0 */
+export const getDialogueActionCost = (action: NpcDialogueAction): number => (
+  action.type === 'offer_item' ? action.price ?? 0 : action.type === 'request_payment' ? action.amount ?? 0 : 0
+);
+
+const slugKey = (text: string) => text.toLowerCase().replace(/[^a-z0-9]+/g, '_').replace(/^_|_$/g, '');
+
+/**
+ * Effects of an action once it happens (for offers and requests, once the
+ * player accepts). Closing actions leave the follow-up event to the encounter.
+ */
+export const getDialogueActionEffects = (action: NpcDialogueAction, npcId: string): EventEffect[] => {
+  switch (action.type) {
+    case 'offer_item':
+      return [
+        { type: 'playerStat', stat: 'currency', delta: -(action.price ?? 0) },
+        { type: 'grantItem', itemName: action.item ?? '', quantity: 1 },
+        { type: 'npcStat', npcId, stat: 'disposition', delta: 2 }
+      ];
+    case 'request_payment':
+      return [
+        { type: 'playerStat', stat: 'currency', delta: -(action.amount ?? 0) },
+        { type: 'playerStat', stat: 'reputation', delta: 1 },
+        { type: 'npcStat', npcId, stat: 'disposition', delta: 8 }
+      ];
+    case 'reveal_location':
+      return [{ type: 'worldFlag', key: `known_location_${slugKey(action.location ?? '')}`, value: action.location ?? '' }];
+    case 'call_guard':
+      return [
+        { type: 'worldFlag', key: 'guard_called', value: npcId },
+        { type: 'playerStat', stat: 'reputation', delta: -3 },
+        { type: 'npcStat', npcId, stat: 'panic', delta: 10 }
+      ];
+    case 'share_rumor':
+      return [
+        { type: 'worldFlag', key: `rumor_${npcId}`, value: action.rumor ?? '' },
+        { type: 'npcStat', npcId, stat: 'disposition', delta: 2 }
+      ];
+    case 'invite_home':
+      return [
+        { type: 'worldFlag', key: `invited_home_${npcId}`, value: true },
+        { type: 'npcStat', npcId, stat: 'disposition', delta: 5 }
+      ];
+    case 'end_conversation':
+    default:
+      return [];
+  }
+};
+
+/** Declining an offer costs a little goodwill; declining a plea for coin costs more. */
+export const getDeclinedDialogueActionEffects = (action: NpcDialogueAction, npcId: string): EventEffect[] => (
+  action.type === 'request_payment'
+    ? [{ type: 'npcStat', npcId, stat: 'disposition', delta: -4 }]
+    : action.type === 'offer_item'
+      ? [{ type: 'npcStat', npcId, stat: 'disposition', delta: -1 }]
+      : []
+);
+
+/** Narration line shown in the conversation log when an action happens */
+export const describeDialogueAction = (action: NpcDialogueAction, npcName: string): string => {
+  const firstName = npcName.split(' ')[0];
+  switch (action.type) {
+    case 'offer_item':
+      return `${firstName} offers you ${action.item} for ${action.price} dirham${action.price === 1 ? '' : 's'}.`;
+    case 'request_payment':
+      return `${firstName} asks you for ${action.amount} dirham${action.amount === 1 ? '' : 's'}${action.reason ? ` ${action.reason}` : ''}.`;
+    case 'reveal_location':
+      return `${firstName} tells you the way to ${action.location}.`;
+    case 'call_guard':
+      return `${firstName} shouts for the watch.`;
+    case 'share_rumor':
+      return `You note what ${firstName} told you: "${action.rumor}"`;
+    case 'invite_home':
+      return `${firstName} invites you to visit their home.`;
+    case 'end_conversation':
+    default:
+      return `${firstName} ends the conversation.`;
+  }
+};
+
+// A handful of common goods an NPC might plausibly carry, stable per NPC
+const sampleGoods = (npc: NPCStats, count = 6): string[] => {
+  const common = getAllItems().filter(item => item.rarity === 'common');
+  let hash = 0;
+  for (let i = 0; i < npc.id.length; i++) hash = (hash * 31 + npc.id.charCodeAt(i)) >>> 0;
+  const goods: string[] = [];
+  for (let i = 0; goods.length < Math.min(count, common.length); i++) {
+    const name = common[(hash + i * 7) % common.length].name;
+    if (!goods.includes(name)) goods.push(name);
+  }
+  return goods;
+};
+
+/** The action section of the system prompt */
+export const formatDialogueActionsForPrompt = (npc: NPCStats): string => {
+  const lines = (Object.keys(DIALOGUE_ACTIONS) as NpcDialogueActionType[])
+    .filter(type => type !== 'end_conversation')
+    .map(type => {
+      const spec = DIALOGUE_ACTIONS[type];
+      return `- "${type}": ${spec.usage}${spec.example ? ` Example: ${spec.example}` : ''}`;
+    });
+  return `Most replies need no action. When what you say has a concrete consequence, set "action" to an object with a "type" instead of null:
+${lines.join('\n')}
+Use at most one action per reply, and only when your words actually make it happen. Goods you might have on you: ${sampleGoods(npc).join(', ')}.`;
+};
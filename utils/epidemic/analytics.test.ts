@@ -0,0 +1,39 @@
+import { describe, expect, it } from 'vitest';
+import {
+  ANALYTICS_SAMPLE_HOURS,
+  EpidemicSample,
+  MAX_ANALYTICS_SAMPLES,
+  MAX_SAVED_ANALYTICS_SAMPLES,
+  buildEpidemicCurve,
+  thinSeriesForSave
+} from './analytics';
+
+const makeSeries = (count: number): EpidemicSample[] => Array.from({ length: count }, (_, i) => ({
+  simTime: i * ANALYTICS_SAMPLE_HOURS,
+  totals: { healthy: 1000 - i, incubating: 0, infected: i, deceased: Math.floor(i / 3), recovered: 0 },
+  byDistrict: {},
+  bySocialClass: {},
+  byReligion: {},
+  byPlagueType: {}
+}));
+
+describe('thinSeriesForSave', () => {
+  it('leaves a short series alone', () => {
+    const series = makeSeries(40);
+    expect(thinSeriesForSave(series)).toBe(series);
+  });
+
+  it('keeps a full series within the save cap and its daily curve intact', () => {
+    const series = makeSeries(MAX_ANALYTICS_SAMPLES);
+    const saved = thinSeriesForSave(series);
+    expect(saved.length).toBeLessThanOrEqual(MAX_SAVED_ANALYTICS_SAMPLES);
+    expect(saved[saved.length - 1]).toBe(series[series.length - 1]);
+    expect(buildEpidemicCurve(saved)).toEqual(buildEpidemicCurve(series));
+  });
+
+  it('spaces out the days of a series too long to keep one per day', () => {
+    const saved = thinSeriesForSave(makeSeries(MAX_ANALYTICS_SAMPLES), 30);
+    expect(saved.length).toBe(30);
+    expect(saved.every((sample, i) => i === 0 || sample.simTime > saved[i - 1].simTime)).toBe(true);
+  });
+});
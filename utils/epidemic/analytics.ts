@@ -0,0 +1,253 @@
+/**
+ * Epidemic Analytics
+ *
+ * Periodic samples of the city-wide epidemic, broken down by district,
+ * social class, religion and plague type, plus the derived measures shown in
+ * the dashboard: epidemic curve, cumulative deaths, a simple Rt estimate and
+ * attack rate by quarter. Samples are plain JSON so they can be saved and
+ * exported as-is.
+ */
+
+import { AgentState, DistrictType, NPCRecord, PlagueType, getDistrictType } from '../../types';
+import { isNpcImmune } from '../npcHealth';
+import { EpidemicState } from './engine';
+import { RatSummary, summarizeRatColonies } from './vectors';
+
+export interface StateCounts {
+  healthy: number;
+  incubating: number;
+  infected: number;
+  deceased: number;
+  /** Survivors; counted separately from healthy. Absent in older saves. */
+  recovered?: number;
+}
+
+export interface EpidemicSample {
+  simTime: number;
+  totals: StateCounts;
+  byDistrict: Record<string, StateCounts>;
+  bySocialClass: Record<string, StateCounts>;
+  byReligion: Record<string, StateCounts>;
+  byPlagueType: Record<string, StateCounts>;
+  /** City-wide rat colonies; absent in older saves. */
+  rats?: RatSummary;
+}
+
+export interface CurvePoint {
+  day: number;
+  newCases: number;
+  newDeaths: number;
+  cumulativeCases: number;
+  cumulativeDeaths: number;
+}
+
+export interface RtPoint {
+  simTime: number;
+  rt: number | null;
+}
+
+export interface AttackRateEntry {
+  district: string;
+  population: number;
+  cases: number;
+  deaths: number;
+  attackRate: number;
+}
+
+export type AnalyticsBreakdown = 'byDistrict' | 'bySocialClass' | 'byReligion' | 'byPlagueType';
+
+export const ANALYTICS_SAMPLE_HOURS = 2;
+export const MAX_ANALYTICS_SAMPLES = 720;
+/** Samples kept in a save slot; see thinSeriesForSave. */
+export const MAX_SAVED_ANALYTICS_SAMPLES = 120;
+// The last two days are saved at full resolution, for the Rt estimate.
+const SAVED_FULL_RESOLUTION_HOURS = 48;
+// Roughly incubation plus half the infectious period on the NPC time scale.
+const SERIAL_INTERVAL_HOURS = 12;
+
+const emptyCounts = (): StateCounts => ({ healthy: 0, incubating: 0, infected: 0, deceased: 0, recovered: 0 });
+
+const addToCounts = (bucket: Record<string, StateCounts>, key: string, record: NPCRecord) => {
+  const counts = bucket[key] ?? (bucket[key] = emptyCounts());
+  const state = record.state;
+  if (state === AgentState.HEALTHY && isNpcImmune(record.plagueMeta)) counts.recovered = (counts.recovered ?? 0) + 1;
+  else if (state === AgentState.HEALTHY) counts.healthy += 1;
+  else if (state === AgentState.INCUBATING) counts.incubating += 1;
+  else if (state === AgentState.INFECTED) counts.infected += 1;
+  else counts.deceased += 1;
+};
+
+/** Everyone who has ever caught the plague, survivors included. */
+export const everInfected = (counts: StateCounts) => (
+  counts.incubating + counts.infected + counts.deceased + (counts.recovered ?? 0)
+);
+
+export const sampleEpidemic = (state: EpidemicState, simTime: number): EpidemicSample => {
+  const totals: Record<string, StateCounts> = {};
+  const byDistrict: Record<string, StateCounts> = {};
+  const bySocialClass: Record<string, StateCounts> = {};
+  const byReligion: Record<string, StateCounts> = {};
+  const byPlagueType: Record<string, StateCounts> = {};
+
+  state.tiles.forEach((registry, tileKey) => {
+    const [x, y] = tileKey.split(',').map(Number);
+    const district: DistrictType = getDistrictType(x, y);
+    registry.npcMap.forEach((record) => {
+      addToCounts(totals, 'all', record);
+      addToCounts(byDistrict, district, record);
+      addToCounts(bySocialClass, record.stats.socialClass, record);
+      addToCounts(byReligion, record.stats.religion, record);
+      if (record.state !== AgentState.HEALTHY || isNpcImmune(record.plagueMeta)) {
+        addToCounts(byPlagueType, record.plagueMeta?.plagueType ?? PlagueType.BUBONIC, record);
+      }
+    });
+  });
+
+  return {
+    simTime,
+    totals: totals.all ?? emptyCounts(),
+    byDistrict,
+    bySocialClass,
+    byReligion,
+    byPlagueType,
+    rats: summarizeRatColonies(state.vectors.values())
+  };
+};
+
+/** Append a sample, dropping the oldest once the cap is reached. */
+export const appendSample = (series: EpidemicSample[], sample: EpidemicSample) => {
+  const next = series.length >= MAX_ANALYTICS_SAMPLES ? series.slice(series.length - MAX_ANALYTICS_SAMPLES + 1) : series.slice();
+  next.push(sample);
+  return next;
+};
+
+/**
+ * The series as a save slot stores it: recent samples as taken, earlier days
+ * down to their last sample (all the epidemic curve reads, besides the very
+ * first sample), and never more than `maxSamples` in all.
+ */
+export const thinSeriesForSave = (series: EpidemicSample[], maxSamples = MAX_SAVED_ANALYTICS_SAMPLES): EpidemicSample[] => {
+  if (series.length <= maxSamples) return series;
+  const latest = series[series.length - 1].simTime;
+  const firstRecent = series.findIndex((sample) => sample.simTime > latest - SAVED_FULL_RESOLUTION_HOURS);
+  const recent = series.slice(firstRecent).slice(-maxSamples);
+  const lastByDay = new Map<number, EpidemicSample>();
+  series.slice(0, firstRecent).forEach((sample) => {
+    lastByDay.set(Math.floor(sample.simTime / 24), sample);
+  });
+  const daily = [series[0], ...Array.from(lastByDay.values()).filter((sample) => sample !== series[0])];
+  const room = maxSamples - recent.length;
+  if (daily.length <= room) return [...daily, ...recent];
+  // A very long game keeps evenly spaced days
+  const step = daily.length / room;
+  return [...Array.from({ length: room }, (_, i) => daily[Math.floor(i * step)]), ...recent];
+};
+
+/** Daily new cases and deaths, using the last sample of each sim-day. */
+export const buildEpidemicCurve = (series: EpidemicSample[]): CurvePoint[] => {
+  const lastByDay = new Map<number, EpidemicSample>();
+  series.forEach((sample) => {
+    lastByDay.set(Math.floor(sample.simTime / 24) + 1, sample);
+  });
+
+  const points: CurvePoint[] = [];
+  let prevCases = series.length > 0 ? everInfected(series[0].totals) : 0;
+  let prevDeaths = series.length > 0 ? series[0].totals.deceased : 0;
+  Array.from(lastByDay.keys()).sort((a, b) => a - b).forEach((day) => {
+    const sample = lastByDay.get(day)!;
+    const cumulativeCases = everInfected(sample.totals);
+    const cumulativeDeaths = sample.totals.deceased;
+    points.push({
+      day,
+      newCases: Math.max(0, cumulativeCases - prevCases),
+      newDeaths: Math.max(0, cumulativeDeaths - prevDeaths),
+      cumulativeCases,
+      cumulativeDeaths
+    });
+    prevCases = cumulativeCases;
+    prevDeaths = cumulativeDeaths;
+  });
+  return points;
+};
+
+/**
+ * Ratio estimate of the reproduction number: cases in the latest serial
+ * interval divided by cases in the interval before. Null when too few cases
+ * to say anything.
+ */
+export const estimateRt = (series: EpidemicSample[], serialIntervalHours = SERIAL_INTERVAL_HOURS): RtPoint[] => {
+  const casesAt = (simTime: number) => {
+    let found: EpidemicSample | null = null;
+    for (const sample of series) {
+      if (sample.simTime > simTime) break;
+      found = sample;
+    }
+    return found ? everInfected(found.totals) : null;
+  };
+
+  return series.map((sample) => {
+    const now = everInfected(sample.totals);
+    const oneBack = casesAt(sample.simTime - serialIntervalHours);
+    const twoBack = casesAt(sample.simTime - serialIntervalHours * 2);
+    if (oneBack === null || twoBack === null) return { simTime: sample.simTime, rt: null };
+    const recent = now - oneBack;
+    const previous = oneBack - twoBack;
+    if (previous < 3) return { simTime: sample.simTime, rt: null };
+    return { simTime: sample.simTime, rt: recent / previous };
+  });
+};
+
+export const attackRateByQuarter = (sample: EpidemicSample | null): AttackRateEntry[] => {
+  if (!sample) return [];
+  return Object.entries(sample.byDistrict)
+    .map(([district, counts]) => {
+      const population = counts.healthy + counts.incubating + counts.infected + counts.deceased + (counts.recovered ?? 0);
+      const cases = everInfected(counts);
+      return {
+        district,
+        population,
+        cases,
+        deaths: counts.deceased,
+        attackRate: population > 0 ? cases / population : 0
+      };
+    })
+    .sort((a, b) => b.attackRate - a.attackRate);
+};
+
+export const seriesToJson = (series: EpidemicSample[]) => JSON.stringify({
+  exportedAt: new Date().toISOString(),
+  sampleHours: ANALYTICS_SAMPLE_HOURS,
+  samples: series
+}, null, 2);
+
+/** Long-format CSV: one row per sample, breakdown and group. */
+export const seriesToCsv = (series: EpidemicSample[]) => {
+  const rows = ['sim_time,day,breakdown,group,healthy,incubating,infected,deceased,recovered'];
+  const pushRow = (sample: EpidemicSample, breakdown: string, group: string, counts: StateCounts) => {
+    const safeGroup = /[",]/.test(group) ? `"${group.replace(/"/g, '""')}"` : group;
+    rows.push([
+      sample.simTime.toFixed(2),
+      Math.floor(sample.simTime / 24) + 1,
+      breakdown,
+      safeGroup,
+      counts.healthy,
+      counts.incubating,
+      counts.infected,
+      counts.deceased,
+      counts.recovered ?? 0
+    ].join(','));
+  };
+  const breakdowns: Array<[string, AnalyticsBreakdown]> = [
+    ['district', 'byDistrict'],
+    ['social_class', 'bySocialClass'],
+    ['religion', 'byReligion'],
+    ['plague_type', 'byPlagueType']
+  ];
+  series.forEach((sample) => {
+    pushRow(sample, 'total', 'all', sample.totals);
+    breakdowns.forEach(([label, key]) => {
+      Object.entries(sample[key]).forEach(([group, counts]) => pushRow(sample, label, group, counts));
+    });
+  });
+  return rows.join('\n');
+};
@@ -0,0 +1,359 @@
+/**
+ * City-wide Epidemic
+ *
+ * Extends the epidemic core to the whole 7x7 district grid. Districts the
+ * player has never visited get a provisional population (generated lazily,
+ * a few per tick) that keeps advancing in the background, and street folk
+ * drift between neighbouring districts along the roads. When the player
+ * walks into a provisional tile its epidemic state is transplanted onto the
+ * real building layout.
+ */
+
+import { AgentState, BuildingMetadata, CONSTANTS, DistrictType, NPCRecord, getDistrictType } from '../../types';
+import { createTileNPCRegistry, getTileKey, hashToSeed } from '../npcRegistry';
+import { seededRandom } from '../procedural';
+import {
+  addEpidemicTile,
+  createEpidemicState,
+  EpidemicConfig,
+  EpidemicState,
+  EpidemicSummary,
+  EpidemicTransition,
+  generateHeadlessBuildings,
+  stepEpidemicTile,
+  summarizeEpidemic,
+  TileRegistry
+} from './engine';
+import { createEpidemicRng } from './rng';
+import { setEpidemicScenario } from './scenario';
+import { createRatColonies, transferRatColonies } from './vectors';
+
+export const CITY_RADIUS = 3;
+
+const ROAD_DISTRICTS = new Set<DistrictType>([
+  'STRAIGHT_STREET',
+  'SOUQ_AXIS',
+  'ROADSIDE',
+  'SOUTHERN_ROAD',
+  'MIDAN',
+  'CARAVANSERAI',
+  'BAB_SHARQI',
+  'MARKET'
+]);
+
+const OUTSKIRT_DISTRICTS = new Set<DistrictType>([
+  'OUTSKIRTS_FARMLAND',
+  'OUTSKIRTS_DESERT',
+  'OUTSKIRTS_SCRUBLAND',
+  'MOUNTAIN_SHRINE'
+]);
+
+// Chance a district already harbours cases when its population is first generated.
+const DISTRICT_IMPORT_RISK: Partial<Record<DistrictType, number>> = {
+  CARAVANSERAI: 0.7,
+  SOUTHERN_ROAD: 0.5,
+  HOVELS: 0.45,
+  MARKET: 0.35,
+  BAB_SHARQI: 0.3,
+  MIDAN: 0.3,
+  ROADSIDE: 0.25
+};
+const DEFAULT_IMPORT_RISK = 0.1;
+
+// Hourly chance a street NPC wanders into a neighbouring district.
+const TRAVEL_RATE_PER_HOUR = 0.01;
+const ROAD_TRAVEL_MULTIPLIER = 3;
+const QUARANTINE_TRAVEL_MULTIPLIER = 0.2;
+const MAX_TRAVEL_HOURS = 24;
+
+export interface TravelEvent {
+  npcId: string;
+  fromTileKey: string;
+  toTileKey: string;
+  simTime: number;
+}
+
+export type CompactNpcRecord = Pick<NPCRecord, 'id' | 'state' | 'stateStartTime' | 'plagueMeta' | 'location' | 'lastUpdateSimTime'>;
+
+const parseTileKey = (tileKey: string) => {
+  const [x, y] = tileKey.split(',').map(Number);
+  return { x, y };
+};
+
+export const getCityTileKeys = () => {
+  const keys: string[] = [];
+  for (let y = -CITY_RADIUS; y <= CITY_RADIUS; y += 1) {
+    for (let x = -CITY_RADIUS; x <= CITY_RADIUS; x += 1) {
+      keys.push(getTileKey(x, y));
+    }
+  }
+  return keys;
+};
+
+const STREET_SEED_TO_TILE = new Map(getCityTileKeys().map((key) => [hashToSeed(key), key]));
+
+/** Street NPC ids embed their tile seed, which tells us where they were born. */
+const getStreetOriginTileKey = (npcId: string) => {
+  const match = /^npc-street-(\d+)-\d+$/.exec(npcId);
+  return match ? STREET_SEED_TO_TILE.get(Number(match[1])) ?? null : null;
+};
+
+const getRoadNeighbors = (tileKey: string) => {
+  const { x, y } = parseTileKey(tileKey);
+  return [[1, 0], [-1, 0], [0, 1], [0, -1]]
+    .map(([dx, dy]) => [x + dx, y + dy])
+    .filter(([nx, ny]) => Math.abs(nx) <= CITY_RADIUS && Math.abs(ny) <= CITY_RADIUS)
+    .map(([nx, ny]) => getTileKey(nx, ny));
+};
+
+const travelRate = (from: DistrictType, to: DistrictType) => {
+  const roads = (ROAD_DISTRICTS.has(from) ? 1 : 0) + (ROAD_DISTRICTS.has(to) ? 1 : 0);
+  return TRAVEL_RATE_PER_HOUR * (1 + (ROAD_TRAVEL_MULTIPLIER - 1) * roads / 2);
+};
+
+const createProvisionalBuildings = (tileKey: string) => {
+  const { x, y } = parseTileKey(tileKey);
+  const district = getDistrictType(x, y);
+  const buildingCount = OUTSKIRT_DISTRICTS.has(district) ? 10 : 36;
+  return generateHeadlessBuildings(hashToSeed(tileKey), district, buildingCount);
+};
+
+/** Stand-in population for a tile the player has not seen; street NPCs match the real tile's. */
+export const createProvisionalTile = (
+  seed: number,
+  tileKey: string,
+  simTime: number,
+  buildings: BuildingMetadata[] = createProvisionalBuildings(tileKey)
+): TileRegistry => {
+  const { x, y } = parseTileKey(tileKey);
+  const district = getDistrictType(x, y);
+  const tileSeed = hashToSeed(tileKey);
+  const importRisk = DISTRICT_IMPORT_RISK[district] ?? DEFAULT_IMPORT_RISK;
+  const seedInitial = seededRandom((seed ^ tileSeed) + 7) < importRisk;
+  return createTileNPCRegistry(buildings, district, simTime, tileSeed, CONSTANTS.AGENT_COUNT, seedInitial);
+};
+
+/** Generate up to `maxNew` missing city tiles; spreading the work keeps frame times flat. */
+export const ensureCityTiles = (state: EpidemicState, simTime: number, maxNew = 2) => {
+  let created = 0;
+  for (const tileKey of getCityTileKeys()) {
+    if (created >= maxNew) break;
+    if (state.tiles.has(tileKey)) continue;
+    const buildings = createProvisionalBuildings(tileKey);
+    addEpidemicTile(state, tileKey, createProvisionalTile(state.seed, tileKey, simTime, buildings), simTime, buildings);
+    state.provisionalTiles.add(tileKey);
+    created += 1;
+  }
+  return created;
+};
+
+/** Move street NPCs between neighbouring districts for the hours since the last call. */
+export const moveTravelers = (
+  state: EpidemicState,
+  simTime: number,
+  config: EpidemicConfig,
+  pinned?: (record: NPCRecord) => boolean
+): TravelEvent[] => {
+  const hours = Math.min(MAX_TRAVEL_HOURS, simTime - state.lastTravelSimTime);
+  if (hours <= 0) return [];
+  state.lastTravelSimTime = simTime;
+
+  const rng = createEpidemicRng(state.seed, state.rngState);
+  const quarantineMod = config.quarantine ? QUARANTINE_TRAVEL_MULTIPLIER : 1;
+  const moves: Array<{ record: NPCRecord; from: string; to: string }> = [];
+
+  Array.from(state.tiles.keys()).sort().forEach((tileKey) => {
+    const registry = state.tiles.get(tileKey)!;
+    const fromDistrict = getDistrictType(parseTileKey(tileKey).x, parseTileKey(tileKey).y);
+    const neighbors = getRoadNeighbors(tileKey).filter((key) => state.tiles.has(key));
+    if (neighbors.length === 0) return;
+    registry.npcMap.forEach((record) => {
+      if (record.homeBuildingId || record.location !== 'outdoor') return;
+      if (record.state === AgentState.INFECTED || record.state === AgentState.DECEASED) return;
+      if (pinned?.(record)) return;
+      for (const neighbor of neighbors) {
+        const { x, y } = parseTileKey(neighbor);
+        const rate = travelRate(fromDistrict, getDistrictType(x, y)) * quarantineMod;
+        if (rng.next() < 1 - Math.exp(-rate * hours)) {
+          moves.push({ record, from: tileKey, to: neighbor });
+          break;
+        }
+      }
+    });
+  });
+
+  state.rngState = rng.getState();
+  return moves.map(({ record, from, to }) => {
+    state.tiles.get(from)?.npcMap.delete(record.id);
+    const { x, y } = parseTileKey(to);
+    record.districtType = getDistrictType(x, y);
+    state.tiles.get(to)?.npcMap.set(record.id, record);
+    return { npcId: record.id, fromTileKey: from, toTileKey: to, simTime };
+  });
+};
+
+/**
+ * Advance background tiles, oldest clock first, at most `maxTiles` per call.
+ * Each tile catches up in fixed sub-steps, so skipping a tick loses nothing.
+ */
+export const stepCityEpidemic = (
+  state: EpidemicState,
+  simTime: number,
+  config: EpidemicConfig,
+  activeTileKey: string | null,
+  maxTiles = 8
+): EpidemicTransition[] => {
+  ensureCityTiles(state, simTime);
+  const keys = Array.from(state.tiles.keys())
+    .filter((key) => key !== activeTileKey)
+    .sort((a, b) => (state.tileClocks.get(a) ?? simTime) - (state.tileClocks.get(b) ?? simTime) || a.localeCompare(b))
+    .slice(0, maxTiles);
+  const transitions: EpidemicTransition[] = [];
+  keys.forEach((key) => {
+    transitions.push(...stepEpidemicTile(state, key, simTime, config));
+  });
+  state.simTime = Math.max(state.simTime, simTime);
+  return transitions;
+};
+
+const copyHealth = (from: NPCRecord, to: NPCRecord) => {
+  to.state = from.state;
+  to.stateStartTime = from.stateStartTime;
+  to.plagueMeta = from.plagueMeta ? { ...from.plagueMeta } : from.plagueMeta;
+  to.lastUpdateSimTime = from.lastUpdateSimTime;
+};
+
+const groupByHousehold = (registry: TileRegistry) => {
+  const households = new Map<string, NPCRecord[]>();
+  registry.npcMap.forEach((record) => {
+    if (!record.homeBuildingId) return;
+    const list = households.get(record.homeBuildingId) ?? [];
+    list.push(record);
+    households.set(record.homeBuildingId, list);
+  });
+  return Array.from(households.keys()).sort().map((key) => households.get(key)!);
+};
+
+/**
+ * Swap a provisional tile for the registry built from its real buildings.
+ * Street NPCs share ids, so they carry over directly (minus anyone who has
+ * wandered off); households are paired in order and inherit their health,
+ * and rat colonies are rebuilt around the real granaries and hovels.
+ */
+export const reconcileProvisionalTile = (
+  state: EpidemicState,
+  tileKey: string,
+  real: TileRegistry,
+  buildings: BuildingMetadata[]
+) => {
+  const provisional = state.tiles.get(tileKey);
+  if (!provisional || !state.provisionalTiles.has(tileKey)) {
+    addEpidemicTile(state, tileKey, real, real.lastScheduleSimTime, buildings);
+    return real;
+  }
+
+  const colonies = createRatColonies(state.seed, tileKey, buildings);
+  state.vectors.set(tileKey, transferRatColonies(state.vectors.get(tileKey) ?? [], colonies));
+
+  Array.from(real.npcMap.values()).forEach((record) => {
+    if (record.homeBuildingId) return;
+    const previous = provisional.npcMap.get(record.id);
+    if (previous) {
+      copyHealth(previous, record);
+    } else {
+      real.npcMap.delete(record.id);
+    }
+  });
+  provisional.npcMap.forEach((record) => {
+    if (!record.homeBuildingId && !real.npcMap.has(record.id)) {
+      real.npcMap.set(record.id, record);
+    }
+  });
+
+  const provisionalHouseholds = groupByHousehold(provisional);
+  const realHouseholds = groupByHousehold(real);
+  const pairs = Math.min(provisionalHouseholds.length, realHouseholds.length);
+  for (let i = 0; i < pairs; i += 1) {
+    const residents = realHouseholds[i];
+    provisionalHouseholds[i].slice(0, residents.length).forEach((previous, index) => {
+      copyHealth(previous, residents[index]);
+    });
+  }
+
+  real.lastScheduleSimTime = provisional.lastScheduleSimTime;
+  state.tiles.set(tileKey, real);
+  state.provisionalTiles.delete(tileKey);
+  return real;
+};
+
+export const compactNpcRecord = (record: NPCRecord): CompactNpcRecord => ({
+  id: record.id,
+  state: record.state,
+  stateStartTime: record.stateStartTime,
+  plagueMeta: record.plagueMeta,
+  location: record.location,
+  lastUpdateSimTime: record.lastUpdateSimTime
+});
+
+/**
+ * Rebuild full records for a provisional tile from their compact save form.
+ * Stats are regenerated from the tile seeds; `cache` avoids regenerating a
+ * tile more than once per load.
+ */
+export const hydrateCompactRecords = (
+  seed: number,
+  tileKey: string,
+  compact: CompactNpcRecord[],
+  cache: Map<string, TileRegistry>
+) => {
+  const { x, y } = parseTileKey(tileKey);
+  const district = getDistrictType(x, y);
+  const getSource = (key: string) => {
+    let registry = cache.get(key);
+    if (!registry) {
+      registry = createProvisionalTile(seed, key, 0);
+      cache.set(key, registry);
+    }
+    return registry;
+  };
+
+  const npcMap = new Map<string, NPCRecord>();
+  compact.forEach((entry) => {
+    const originKey = entry.id.startsWith('npc-street-') ? getStreetOriginTileKey(entry.id) : tileKey;
+    if (!originKey) return;
+    const base = getSource(originKey).npcMap.get(entry.id);
+    if (!base) return;
+    npcMap.set(entry.id, { ...base, ...entry, districtType: district });
+  });
+  return npcMap;
+};
+
+/**
+ * Run the whole city with no renderer attached. Returns daily totals for the
+ * city and for each district tile.
+ */
+export const runHeadlessCityEpidemic = ({ seed, days, config, scenarioId }: {
+  seed: number;
+  days: number;
+  config: EpidemicConfig;
+  scenarioId?: string;
+}) => {
+  if (scenarioId) setEpidemicScenario(scenarioId);
+  const state = createEpidemicState(seed);
+  const keys = getCityTileKeys();
+  ensureCityTiles(state, 0, keys.length);
+  const series: Array<{ city: EpidemicSummary; tiles: Record<string, EpidemicSummary> }> = [];
+  for (let day = 1; day <= days; day += 1) {
+    for (let hour = 1; hour <= 24; hour += 1) {
+      const simTime = (day - 1) * 24 + hour;
+      stepCityEpidemic(state, simTime, config, null, keys.length);
+      moveTravelers(state, simTime, config);
+    }
+    const tiles: Record<string, EpidemicSummary> = {};
+    keys.forEach((key) => {
+      tiles[key] = summarizeEpidemic(state, [key]);
+    });
+    series.push({ city: summarizeEpidemic(state), tiles });
+  }
+  return { state, series };
+};
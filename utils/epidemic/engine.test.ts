@@ -0,0 +1,43 @@
+import { describe, expect, it } from 'vitest';
+import { AgentState, PlagueType } from '../../types';
+import { seedNpcInfection } from '../npcHealth';
+import { createTileNPCRegistry } from '../npcRegistry';
+import { EpidemicConfig, addEpidemicTile, createEpidemicState, runHeadlessEpidemic, stepEpidemicTile } from './engine';
+
+const config: EpidemicConfig = { infectionRate: 0.5, hygieneLevel: 0.5, quarantine: false };
+
+// Two street NPCs, the first of them sick with plague
+const makeStreet = () => {
+  const registry = createTileNPCRegistry([], 'MARKET', 0, 11, 2);
+  const [sick, well] = Array.from(registry.npcMap.values());
+  seedNpcInfection(sick, 0, 1, PlagueType.PNEUMONIC);
+  sick.state = AgentState.INFECTED;
+  sick.plagueMeta = { ...sick.plagueMeta!, onsetTime: 0, deathHours: 100 };
+  const state = createEpidemicState(5);
+  addEpidemicTile(state, '0,0', registry, 0);
+  return { state, sick, well };
+};
+
+describe('runHeadlessEpidemic', () => {
+  it('gives the same series for the same seed', () => {
+    const run = () => runHeadlessEpidemic({ seed: 42, days: 6, tiles: [{ mapX: 0, mapY: 0, buildingCount: 9, streetCount: 12 }], config }).series;
+    expect(run()).toEqual(run());
+  });
+});
+
+describe('stepEpidemicTile', () => {
+  it('passes plague between NPCs standing side by side on screen', () => {
+    const { state, sick, well } = makeStreet();
+    const positions = new Map<string, [number, number]>([[sick.id, [0, 0]], [well.id, [1, 0]]]);
+    const transitions = stepEpidemicTile(state, '0,0', 3, config, { positions });
+    expect(well.state).toBe(AgentState.INCUBATING);
+    expect(transitions.map(transition => transition.npcId)).toContain(well.id);
+  });
+
+  it('spares an NPC on screen with nobody sick within reach', () => {
+    const { state, sick, well } = makeStreet();
+    const positions = new Map<string, [number, number]>([[sick.id, [0, 0]], [well.id, [30, 0]]]);
+    stepEpidemicTile(state, '0,0', 3, config, { positions });
+    expect(well.state).toBe(AgentState.HEALTHY);
+  });
+});
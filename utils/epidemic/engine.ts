@@ -0,0 +1,361 @@
+/**
+ * Headless Epidemic Core
+ *
+ * Pure TypeScript model of plague spread across per-tile NPC registries.
+ * Owns NPCRecord state, steps in sim-hours with a seeded RNG and never
+ * touches React or three.js, so a run can go for thousands of sim-days in
+ * Node and be reproduced exactly from its seed. The 3D scene only renders
+ * what this module decides; for the NPCs it draws on the street it hands in
+ * their positions, so they catch plague from whoever stands beside them.
+ */
+
+import { AgentState, BuildingMetadata, DistrictType, NPCRecord, PlagueType, getDistrictType } from '../../types';
+import { advanceNpcHealth, getHouseholdExposureChance, isNpcImmune, seedNpcInfection } from '../npcHealth';
+import { createTileNPCRegistry, getTileKey, hashToSeed } from '../npcRegistry';
+import { shouldNpcBeHome } from '../npcSchedule';
+import { generateBuildingMetadata } from '../procedural';
+import { createEpidemicRng, EpidemicRng } from './rng';
+import { getContagionWeight, getEpidemicScenario, setEpidemicScenario } from './scenario';
+import { RatColony, createRatColonies, getFleaHazardAt, importRatPlague, stepRatColonies } from './vectors';
+
+export type TileRegistry = { npcMap: Map<string, NPCRecord>; lastScheduleSimTime: number };
+
+export interface EpidemicConfig {
+  infectionRate: number;
+  hygieneLevel: number;
+  quarantine: boolean;
+}
+
+export interface EpidemicState {
+  seed: number;
+  rngState: number;
+  simTime: number;
+  tiles: Map<string, TileRegistry>;
+  /** Sim-time each tile has been advanced to. */
+  tileClocks: Map<string, number>;
+  /** Tiles populated from a stand-in layout because the player has not visited them. */
+  provisionalTiles: Set<string>;
+  lastTravelSimTime: number;
+  /** Rat colonies per tile; tiles whose buildings are unknown have none. */
+  vectors: Map<string, RatColony[]>;
+}
+
+export interface EpidemicTransition {
+  tileKey: string;
+  npcId: string;
+  from: AgentState;
+  to: AgentState;
+  simTime: number;
+}
+
+export interface EpidemicStepOptions {
+  /**
+   * Street positions [x, z] of the NPCs drawn on screen, by id. They catch
+   * plague from contagious NPCs within arm's reach and from the fleas where
+   * they stand, instead of from the street at large.
+   */
+  positions?: Map<string, [number, number]>;
+  /** Building the player is standing in; its residents stay put. */
+  lockedBuildingId?: string | null;
+}
+
+export interface EpidemicSummary {
+  simTime: number;
+  healthy: number;
+  incubating: number;
+  infected: number;
+  deceased: number;
+  recovered: number;
+}
+
+export const EPIDEMIC_STEP_HOURS = 0.25;
+// Two NPCs this close (2m, squared) are in contact
+const CONTACT_RANGE_SQ = 4;
+
+const contagionWeight = (record: NPCRecord) => (
+  getContagionWeight(record.state, record.plagueMeta?.plagueType ?? PlagueType.BUBONIC)
+);
+
+const hygieneModifier = (hygieneLevel: number) => Math.max(0.2, 1.4 - 0.8 * hygieneLevel);
+
+export const createEpidemicState = (
+  seed: number,
+  simTime = 0,
+  tiles: Map<string, TileRegistry> = new Map()
+): EpidemicState => {
+  const tileClocks = new Map<string, number>();
+  tiles.forEach((registry, key) => tileClocks.set(key, registry.lastScheduleSimTime));
+  return {
+    seed,
+    rngState: seed >>> 0,
+    simTime,
+    tiles,
+    tileClocks,
+    provisionalTiles: new Set(),
+    lastTravelSimTime: simTime,
+    vectors: new Map()
+  };
+};
+
+export const addEpidemicTile = (
+  state: EpidemicState,
+  tileKey: string,
+  registry: TileRegistry,
+  simTime: number,
+  buildings?: BuildingMetadata[]
+) => {
+  state.tiles.set(tileKey, registry);
+  state.tileClocks.set(tileKey, simTime);
+  if (buildings) state.vectors.set(tileKey, createRatColonies(state.seed, tileKey, buildings));
+};
+
+/** Where an NPC should be at a given hour: sick and dead stay home, others follow their schedule. */
+export const assignNpcLocation = (record: NPCRecord, timeOfDay: number, lockedBuildingId: string | null = null) => {
+  if (lockedBuildingId && record.homeBuildingId === lockedBuildingId) {
+    record.location = 'interior';
+    return;
+  }
+  if (record.homeBuildingId && (record.state === AgentState.INFECTED || record.state === AgentState.DECEASED)) {
+    record.location = 'interior';
+    return;
+  }
+  if (record.homeBuildingId) {
+    record.location = shouldNpcBeHome(record, timeOfDay) ? 'interior' : 'outdoor';
+  } else {
+    record.location = 'outdoor';
+  }
+};
+
+const stepTileOnce = (
+  tileKey: string,
+  records: NPCRecord[],
+  simTime: number,
+  dt: number,
+  config: EpidemicConfig,
+  rng: EpidemicRng,
+  colonies: RatColony[] | undefined,
+  lockedBuildingId: string | null,
+  positions: Map<string, [number, number]> | undefined,
+  contacts: Map<string, NPCRecord[]>,
+  transitions: EpidemicTransition[]
+) => {
+  const timeOfDay = ((simTime % 24) + 24) % 24;
+  records.forEach((record) => assignNpcLocation(record, timeOfDay, lockedBuildingId));
+
+  const householdRisk = new Set<string>();
+  let outdoorCount = 0;
+  let outdoorPressure = 0;
+  records.forEach((record) => {
+    const weight = contagionWeight(record);
+    if (record.location === 'interior') {
+      if (weight > 0 && record.homeBuildingId) householdRisk.add(record.homeBuildingId);
+      return;
+    }
+    if (record.state === AgentState.DECEASED) return;
+    outdoorCount += 1;
+    if (config.quarantine && record.state === AgentState.INFECTED) return;
+    outdoorPressure += weight;
+  });
+  const streetPressure = outdoorCount > 0 ? outdoorPressure / outdoorCount : 0;
+  // Off screen, mass action stands in for who brushes past whom; on screen an
+  // NPC within arm's reach counts for as much as the whole street
+  const contactRate = config.infectionRate * getEpidemicScenario().streetContactsPerHour * hygieneModifier(config.hygieneLevel);
+  const streetHazard = contactRate * streetPressure;
+
+  // Fleas from dead rats bite whoever is nearby; flea-borne cases are always bubonic.
+  let fleas: ReturnType<typeof stepRatColonies> | null = null;
+  if (colonies && colonies.length > 0) {
+    importRatPlague(colonies, dt, rng);
+    fleas = stepRatColonies(colonies, dt);
+  }
+
+  records.forEach((record) => {
+    const from = record.state;
+    if (from === AgentState.HEALTHY) {
+      if (isNpcImmune(record.plagueMeta)) {
+        record.lastUpdateSimTime = simTime;
+        return;
+      }
+      const position = record.location === 'outdoor' ? positions?.get(record.id) : undefined;
+      let chance = 0;
+      if (record.location === 'interior' && record.homeBuildingId && householdRisk.has(record.homeBuildingId)) {
+        chance = getHouseholdExposureChance(dt);
+      } else if (position) {
+        const pressure = (contacts.get(record.id) ?? []).reduce((sum, other) => (
+          other.location === 'outdoor' ? sum + contagionWeight(other) : sum
+        ), 0);
+        if (pressure > 0) chance = 1 - Math.exp(-contactRate * pressure * dt);
+      } else if (record.location === 'outdoor' && streetHazard > 0) {
+        chance = 1 - Math.exp(-streetHazard * dt);
+      }
+      const fleaHazard = !fleas
+        ? 0
+        : record.location === 'interior'
+          ? fleas.byBuilding.get(record.homeBuildingId ?? '') ?? 0
+          : position
+            ? getFleaHazardAt(colonies!, position[0], position[1])
+            : fleas.street;
+      if (chance > 0 && rng.next() < chance) {
+        seedNpcInfection(record, simTime, rng.nextSeed());
+      } else if (fleaHazard > 0 && rng.next() < 1 - Math.exp(-fleaHazard * dt)) {
+        seedNpcInfection(record, simTime, rng.nextSeed(), PlagueType.BUBONIC);
+      }
+    } else {
+      advanceNpcHealth(record, simTime);
+    }
+    record.lastUpdateSimTime = simTime;
+    if (record.state !== from) {
+      transitions.push({ tileKey, npcId: record.id, from, to: record.state, simTime });
+    }
+  });
+};
+
+// Who stands within reach of whom among the NPCs on screen; they keep their places for the whole step
+const findContacts = (records: NPCRecord[], positions: Map<string, [number, number]> | undefined) => {
+  const contacts = new Map<string, NPCRecord[]>();
+  if (!positions) return contacts;
+  const placed = records.filter((record) => positions.has(record.id));
+  placed.forEach((record, i) => {
+    const [ax, az] = positions.get(record.id)!;
+    placed.slice(i + 1).forEach((other) => {
+      const [bx, bz] = positions.get(other.id)!;
+      if ((ax - bx) ** 2 + (az - bz) ** 2 >= CONTACT_RANGE_SQ) return;
+      contacts.set(record.id, [...(contacts.get(record.id) ?? []), other]);
+      contacts.set(other.id, [...(contacts.get(other.id) ?? []), record]);
+    });
+  });
+  return contacts;
+};
+
+/**
+ * Advance one tile to `targetSimTime` in fixed sub-steps.
+ * Returns every state change so callers can raise toasts, rumors, etc.
+ */
+export const stepEpidemicTile = (
+  state: EpidemicState,
+  tileKey: string,
+  targetSimTime: number,
+  config: EpidemicConfig,
+  options: EpidemicStepOptions = {}
+): EpidemicTransition[] => {
+  const registry = state.tiles.get(tileKey);
+  if (!registry) return [];
+  let clock = state.tileClocks.get(tileKey) ?? targetSimTime;
+  if (clock >= targetSimTime) return [];
+
+  const records = Array.from(registry.npcMap.values());
+  const contacts = findContacts(records, options.positions);
+  const rng = createEpidemicRng(state.seed, state.rngState);
+  const transitions: EpidemicTransition[] = [];
+
+  while (clock < targetSimTime) {
+    const dt = Math.min(EPIDEMIC_STEP_HOURS, targetSimTime - clock);
+    clock += dt;
+    stepTileOnce(
+      tileKey,
+      records,
+      clock,
+      dt,
+      config,
+      rng,
+      state.vectors.get(tileKey),
+      options.lockedBuildingId ?? null,
+      options.positions,
+      contacts,
+      transitions
+    );
+  }
+
+  state.rngState = rng.getState();
+  state.tileClocks.set(tileKey, clock);
+  registry.lastScheduleSimTime = clock;
+  return transitions;
+};
+
+/** Advance every registered tile to `targetSimTime`. */
+export const stepEpidemic = (
+  state: EpidemicState,
+  targetSimTime: number,
+  config: EpidemicConfig,
+  options: EpidemicStepOptions = {}
+): EpidemicTransition[] => {
+  const transitions: EpidemicTransition[] = [];
+  Array.from(state.tiles.keys()).sort().forEach((tileKey) => {
+    transitions.push(...stepEpidemicTile(state, tileKey, targetSimTime, config, options));
+  });
+  state.simTime = Math.max(state.simTime, targetSimTime);
+  return transitions;
+};
+
+export const summarizeEpidemic = (state: EpidemicState, tileKeys?: string[]): EpidemicSummary => {
+  const summary: EpidemicSummary = { simTime: state.simTime, healthy: 0, incubating: 0, infected: 0, deceased: 0, recovered: 0 };
+  const keys = tileKeys ?? Array.from(state.tiles.keys());
+  keys.forEach((key) => {
+    state.tiles.get(key)?.npcMap.forEach((record) => {
+      if (record.state === AgentState.HEALTHY && isNpcImmune(record.plagueMeta)) summary.recovered += 1;
+      else if (record.state === AgentState.HEALTHY) summary.healthy += 1;
+      else if (record.state === AgentState.INCUBATING) summary.incubating += 1;
+      else if (record.state === AgentState.INFECTED) summary.infected += 1;
+      else summary.deceased += 1;
+    });
+  });
+  return summary;
+};
+
+// --- Headless runs -----------------------------------------------------------
+
+export interface HeadlessTileSpec {
+  mapX: number;
+  mapY: number;
+  buildingCount?: number;
+  streetCount?: number;
+}
+
+export interface HeadlessRunOptions {
+  seed: number;
+  days: number;
+  tiles: HeadlessTileSpec[];
+  config: EpidemicConfig;
+  /** Scenario preset to run under; defaults to whichever is active. */
+  scenarioId?: string;
+  /** Called once per sim-day with the city-wide totals. */
+  onDay?: (summary: EpidemicSummary, state: EpidemicState) => void;
+}
+
+/** Procedural buildings for a tile without generating any scene geometry. */
+export const generateHeadlessBuildings = (seed: number, district: DistrictType, count: number): BuildingMetadata[] => {
+  const buildings: BuildingMetadata[] = [];
+  const side = Math.ceil(Math.sqrt(count));
+  for (let i = 0; i < count; i += 1) {
+    const x = ((i % side) - side / 2) * 12;
+    const z = (Math.floor(i / side) - side / 2) * 12;
+    buildings.push(generateBuildingMetadata(seed, x, z, district));
+  }
+  return buildings;
+};
+
+/**
+ * Run the model with no renderer attached, e.g. from a Node script.
+ * The same seed and options always produce the same daily series.
+ */
+export const runHeadlessEpidemic = ({ seed, days, tiles, config, scenarioId, onDay }: HeadlessRunOptions) => {
+  if (scenarioId) setEpidemicScenario(scenarioId);
+  const state = createEpidemicState(seed);
+  tiles.forEach((spec, index) => {
+    const tileKey = getTileKey(spec.mapX, spec.mapY);
+    const district = getDistrictType(spec.mapX, spec.mapY);
+    const tileSeed = hashToSeed(tileKey) ^ seed;
+    const buildings = generateHeadlessBuildings(tileSeed, district, spec.buildingCount ?? 36);
+    const registry = createTileNPCRegistry(buildings, district, 0, tileSeed, spec.streetCount ?? 45, index === 0);
+    addEpidemicTile(state, tileKey, registry, 0, buildings);
+  });
+
+  const series: EpidemicSummary[] = [];
+  for (let day = 1; day <= days; day += 1) {
+    stepEpidemic(state, day * 24, config);
+    const summary = summarizeEpidemic(state);
+    series.push(summary);
+    onDay?.(summary, state);
+  }
+  return { state, series };
+};
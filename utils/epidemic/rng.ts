@@ -0,0 +1,30 @@
+/**
+ * Seeded RNG for the epidemic core.
+ *
+ * Mulberry32: fast, 32-bit state, good enough distribution for exposure rolls.
+ * The state is a plain number so a run can be saved and resumed exactly.
+ */
+
+export interface EpidemicRng {
+  /** Uniform float in [0, 1). */
+  next: () => number;
+  /** Integer seed derived from the stream, for npcHealth's seeded helpers. */
+  nextSeed: () => number;
+  getState: () => number;
+}
+
+export const createEpidemicRng = (seed: number, state?: number): EpidemicRng => {
+  let s = (state ?? seed) >>> 0;
+  const next = () => {
+    s = (s + 0x6d2b79f5) >>> 0;
+    let t = s;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+  return {
+    next,
+    nextSeed: () => Math.floor(next() * 2147483647) + 1,
+    getState: () => s
+  };
+};
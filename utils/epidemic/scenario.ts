@@ -0,0 +1,183 @@
+/**
+ * Epidemic Scenarios
+ *
+ * One place for the compartmental model's knobs: incubation and death
+ * windows, plague-type mix, contagiousness, household/street/flea/airborne
+ * rates, rat and flea dynamics, mortality and the NPC time scale. Presets let instructors compare
+ * runs; the active scenario is module state read by npcHealth, plague,
+ * the epidemic core and the on-screen agents.
+ */
+
+import { AgentState, PlagueType } from '../../types';
+
+export type EpidemicScenarioId = 'historical_1348' | 'pneumonic_winter' | 'mild';
+
+type DayRange = { min: number; max: number };
+
+export interface PlagueTypeParams {
+  /** Share of flea/contact infections that take this form. */
+  share: number;
+  incubationDays: DayRange;
+  deathDay: DayRange;
+  /** Untreated case fatality. */
+  mortality: number;
+  /** Relative contagion while symptomatic / while still incubating. */
+  contagiousness: number;
+  incubatingContagiousness: number;
+}
+
+export interface EpidemicScenario {
+  id: EpidemicScenarioId;
+  name: string;
+  description: string;
+  /** Compresses historical day counts onto the NPC clock. */
+  timeScale: number;
+  npcIncubationHours: DayRange;
+  npcDeathHours: DayRange;
+  types: Record<PlagueType.BUBONIC | PlagueType.PNEUMONIC | PlagueType.SEPTICEMIC, PlagueTypeParams>;
+  bubonicLancedMortality: number;
+  householdExposurePerHour: number;
+  /** Mass-action contact rate used for street spread in the epidemic core. */
+  streetContactsPerHour: number;
+  /** Player exposure chances per second when in range (see plagueExposure.ts). */
+  playerExposure: { flea: number; airborne: number; contact: number };
+  /** Rat colony and flea dynamics (see vectors.ts). */
+  vectors: VectorParams;
+}
+
+export interface VectorParams {
+  /** Rat-to-rat transmission within a colony, per infectious rat per hour. */
+  ratContactsPerHour: number;
+  /** How long an infected rat lives, in sim-hours. */
+  ratDeathHours: number;
+  fleasPerRat: number;
+  /** How long a flea survives without a host, in sim-hours. */
+  fleaSurvivalHours: number;
+  /** Hourly bite hazard for a person beside a colony with one hungry flea per rat. */
+  fleaBitesPerHour: number;
+}
+
+const HISTORICAL_1348: EpidemicScenario = {
+  id: 'historical_1348',
+  name: 'Historical 1348',
+  description: 'Summer arrival from Gaza: mostly flea-borne bubonic plague with high untreated mortality.',
+  timeScale: 0.12,
+  npcIncubationHours: { min: 1, max: 8 },
+  npcDeathHours: { min: 4, max: 22 },
+  types: {
+    [PlagueType.BUBONIC]: {
+      share: 0.8,
+      incubationDays: { min: 2, max: 6 },
+      deathDay: { min: 8, max: 12 },
+      mortality: 0.7,
+      contagiousness: 0.35,
+      incubatingContagiousness: 0.12
+    },
+    [PlagueType.PNEUMONIC]: {
+      share: 0.15,
+      incubationDays: { min: 1, max: 3 },
+      deathDay: { min: 3, max: 5 },
+      mortality: 0.95,
+      contagiousness: 1,
+      incubatingContagiousness: 0.35
+    },
+    [PlagueType.SEPTICEMIC]: {
+      share: 0.05,
+      incubationDays: { min: 1, max: 2 },
+      deathDay: { min: 2, max: 3 },
+      mortality: 0.98,
+      contagiousness: 0.2,
+      incubatingContagiousness: 0.12
+    }
+  },
+  bubonicLancedMortality: 0.4,
+  householdExposurePerHour: 0.04,
+  streetContactsPerHour: 20,
+  playerExposure: { flea: 0.008, airborne: 0.003, contact: 0.0015 },
+  vectors: {
+    ratContactsPerHour: 0.25,
+    ratDeathHours: 30,
+    fleasPerRat: 6,
+    fleaSurvivalHours: 36,
+    fleaBitesPerHour: 0.02
+  }
+};
+
+const PNEUMONIC_WINTER: EpidemicScenario = {
+  ...HISTORICAL_1348,
+  id: 'pneumonic_winter',
+  name: 'Pneumonic Winter',
+  description: 'Cold months drive people indoors; fleas go quiet but coughing spreads the lung form house to house.',
+  types: {
+    [PlagueType.BUBONIC]: { ...HISTORICAL_1348.types[PlagueType.BUBONIC], share: 0.4 },
+    [PlagueType.PNEUMONIC]: { ...HISTORICAL_1348.types[PlagueType.PNEUMONIC], share: 0.55, contagiousness: 1.3, incubatingContagiousness: 0.5 },
+    [PlagueType.SEPTICEMIC]: { ...HISTORICAL_1348.types[PlagueType.SEPTICEMIC], share: 0.05 }
+  },
+  householdExposurePerHour: 0.08,
+  streetContactsPerHour: 28,
+  playerExposure: { flea: 0.003, airborne: 0.006, contact: 0.0015 },
+  // Cold fleas are sluggish and rats shelter deep in storerooms.
+  vectors: { ...HISTORICAL_1348.vectors, ratContactsPerHour: 0.15, fleaBitesPerHour: 0.006 }
+};
+
+const MILD: EpidemicScenario = {
+  ...HISTORICAL_1348,
+  id: 'mild',
+  name: 'Mild',
+  description: 'A gentler strain for classroom demonstrations: slower spread, longer illness and many survivors.',
+  timeScale: 0.18,
+  npcIncubationHours: { min: 2, max: 12 },
+  npcDeathHours: { min: 6, max: 30 },
+  types: {
+    [PlagueType.BUBONIC]: { ...HISTORICAL_1348.types[PlagueType.BUBONIC], mortality: 0.3, contagiousness: 0.2, incubatingContagiousness: 0.06 },
+    [PlagueType.PNEUMONIC]: { ...HISTORICAL_1348.types[PlagueType.PNEUMONIC], mortality: 0.6, contagiousness: 0.5, incubatingContagiousness: 0.15 },
+    [PlagueType.SEPTICEMIC]: { ...HISTORICAL_1348.types[PlagueType.SEPTICEMIC], mortality: 0.8, contagiousness: 0.1, incubatingContagiousness: 0.05 }
+  },
+  bubonicLancedMortality: 0.15,
+  householdExposurePerHour: 0.02,
+  streetContactsPerHour: 10,
+  playerExposure: { flea: 0.004, airborne: 0.0015, contact: 0.0008 },
+  vectors: { ...HISTORICAL_1348.vectors, ratDeathHours: 48, fleaBitesPerHour: 0.01 }
+};
+
+export const EPIDEMIC_SCENARIOS: Record<EpidemicScenarioId, EpidemicScenario> = {
+  historical_1348: HISTORICAL_1348,
+  pneumonic_winter: PNEUMONIC_WINTER,
+  mild: MILD
+};
+
+export const DEFAULT_SCENARIO_ID: EpidemicScenarioId = 'historical_1348';
+
+let activeScenario: EpidemicScenario = HISTORICAL_1348;
+
+export const getEpidemicScenario = () => activeScenario;
+
+/** Switch presets; unknown ids (e.g. from an old save) fall back to the default. */
+export const setEpidemicScenario = (id: string) => {
+  activeScenario = EPIDEMIC_SCENARIOS[id as EpidemicScenarioId] ?? EPIDEMIC_SCENARIOS[DEFAULT_SCENARIO_ID];
+  return activeScenario;
+};
+
+export const getPlagueTypeParams = (type: PlagueType, scenario: EpidemicScenario = activeScenario) => {
+  if (type === PlagueType.PNEUMONIC) return scenario.types[PlagueType.PNEUMONIC];
+  if (type === PlagueType.SEPTICEMIC) return scenario.types[PlagueType.SEPTICEMIC];
+  return scenario.types[PlagueType.BUBONIC];
+};
+
+/** Pick a plague form from a uniform roll using the scenario's case mix. */
+export const pickScenarioPlagueType = (roll: number, scenario: EpidemicScenario = activeScenario) => {
+  const bubonic = scenario.types[PlagueType.BUBONIC].share;
+  const pneumonic = scenario.types[PlagueType.PNEUMONIC].share;
+  const septicemic = scenario.types[PlagueType.SEPTICEMIC].share;
+  const scaled = roll * (bubonic + pneumonic + septicemic);
+  if (scaled < bubonic) return PlagueType.BUBONIC;
+  if (scaled < bubonic + pneumonic) return PlagueType.PNEUMONIC;
+  return PlagueType.SEPTICEMIC;
+};
+
+/** How strongly a sick agent contributes to spread in its surroundings. */
+export const getContagionWeight = (state: AgentState, type: PlagueType, scenario: EpidemicScenario = activeScenario) => {
+  if (state !== AgentState.INFECTED && state !== AgentState.INCUBATING) return 0;
+  const params = getPlagueTypeParams(type === PlagueType.NONE ? PlagueType.BUBONIC : type, scenario);
+  return state === AgentState.INFECTED ? params.contagiousness : params.incubatingContagiousness;
+};
@@ -0,0 +1,227 @@
+/**
+ * Rat and Flea Vectors
+ *
+ * Rat colonies with their own plague state. Infected rats die within a day
+ * or two; every death turns its fleas loose to find a new host, first the
+ * surviving rats and then people. Granaries and hovels hold the big
+ * colonies, so the die-off there comes before bubonic cases among the
+ * people who live beside them. Compartments are expected counts, so
+ * stepping a colony needs no RNG.
+ */
+
+import { BuildingMetadata, BuildingType } from '../../types';
+import { hashToSeed } from '../npcRegistry';
+import { seededRandom } from '../procedural';
+import { EpidemicRng } from './rng';
+import { VectorParams, getEpidemicScenario } from './scenario';
+
+export type ColonyKind = 'granary' | 'hovel' | 'street';
+
+export interface RatColony {
+  id: string;
+  kind: ColonyKind;
+  /** Building the colony nests in; street colonies have none. */
+  buildingId: string | null;
+  /** World x/z of the nest. */
+  position: [number, number];
+  capacity: number;
+  susceptible: number;
+  infected: number;
+  /** Cumulative plague deaths. */
+  dead: number;
+  /** Fleas off-host and looking for a new one; all assumed infective. */
+  hungryFleas: number;
+}
+
+export interface FleaExposure {
+  /** Hourly bite hazard for residents at home, by building id. */
+  byBuilding: Map<string, number>;
+  /** Hourly bite hazard for anyone out on the tile's streets. */
+  street: number;
+}
+
+export interface RatSummary {
+  alive: number;
+  infected: number;
+  dead: number;
+}
+
+const COLONY_CAPACITY: Record<ColonyKind, number> = { granary: 40, hovel: 14, street: 24 };
+const MAX_BUILDING_COLONIES = 8;
+const GRANARY_PROFESSIONS = /grain|miller|baker|flour|granar/i;
+// Chance a colony already carries plague when the tile is first populated.
+const RAT_SEED_CHANCE = 0.12;
+// Hourly chance an infected rat arrives on a tile (carts, grain sacks, caravans).
+const RAT_IMPORT_PER_HOUR = 0.002;
+const RAT_REGROWTH_HOURS = 480;
+const EXTINCTION_FLOOR = 0.05;
+// Share of a building colony's hungry fleas that make it out to the street.
+const STREET_SPILLOVER = 0.15;
+const HAZARD_RADIUS = 6;
+
+const colonyKindFor = (building: BuildingMetadata): ColonyKind | null => {
+  if (building.type === BuildingType.COMMERCIAL && GRANARY_PROFESSIONS.test(building.ownerProfession)) {
+    return 'granary';
+  }
+  if (building.type === BuildingType.RESIDENTIAL
+    && (building.district === 'HOVELS' || building.district === 'ALLEYS' || (building.storyCount ?? 1) === 1)) {
+    return 'hovel';
+  }
+  return null;
+};
+
+const makeColony = (
+  id: string,
+  kind: ColonyKind,
+  buildingId: string | null,
+  position: [number, number],
+  tileSeed: number
+): RatColony => {
+  const capacity = COLONY_CAPACITY[kind];
+  const seeded = seededRandom(tileSeed + hashToSeed(id)) < RAT_SEED_CHANCE ? 1 : 0;
+  return {
+    id,
+    kind,
+    buildingId,
+    position,
+    capacity,
+    susceptible: capacity - seeded,
+    infected: seeded,
+    dead: 0,
+    hungryFleas: 0
+  };
+};
+
+/** Colonies for a tile: granaries first, then hovels, plus one street colony in the drains. */
+export const createRatColonies = (seed: number, tileKey: string, buildings: BuildingMetadata[]): RatColony[] => {
+  const tileSeed = (hashToSeed(tileKey) ^ seed) >>> 0;
+  const colonies = buildings
+    .map((building) => ({ building, kind: colonyKindFor(building) }))
+    .filter((entry): entry is { building: BuildingMetadata; kind: ColonyKind } => entry.kind !== null)
+    .sort((a, b) => (
+      (a.kind === 'granary' ? 0 : 1) - (b.kind === 'granary' ? 0 : 1) || a.building.id.localeCompare(b.building.id)
+    ))
+    .slice(0, MAX_BUILDING_COLONIES)
+    .map(({ building, kind }) => makeColony(
+      `${tileKey}:${building.id}`,
+      kind,
+      building.id,
+      [building.position[0], building.position[2]],
+      tileSeed
+    ));
+  colonies.push(makeColony(
+    `${tileKey}:street`,
+    'street',
+    null,
+    [(seededRandom(tileSeed + 3) - 0.5) * 50, (seededRandom(tileSeed + 5) - 0.5) * 50],
+    tileSeed
+  ));
+  return colonies;
+};
+
+/**
+ * Carry plague state from stand-in colonies over to the ones built from the
+ * real buildings, pairing colonies of the same kind in order.
+ */
+export const transferRatColonies = (previous: RatColony[], next: RatColony[]) => {
+  (['granary', 'hovel', 'street'] as ColonyKind[]).forEach((kind) => {
+    const from = previous.filter((colony) => colony.kind === kind);
+    const to = next.filter((colony) => colony.kind === kind);
+    to.forEach((colony, index) => {
+      const source = from[index];
+      if (!source) return;
+      const scale = colony.capacity / source.capacity;
+      colony.susceptible = source.susceptible * scale;
+      colony.infected = source.infected * scale;
+      colony.dead = source.dead * scale;
+      colony.hungryFleas = source.hungryFleas * scale;
+    });
+  });
+  return next;
+};
+
+const colonyHazard = (colony: RatColony, params: VectorParams) => (
+  params.fleaBitesPerHour * colony.hungryFleas / colony.capacity
+);
+
+/** Advance every colony on a tile by `dt` sim-hours and report the flea hazard they now pose. */
+export const stepRatColonies = (
+  colonies: RatColony[],
+  dt: number,
+  params: VectorParams = getEpidemicScenario().vectors
+): FleaExposure => {
+  const byBuilding = new Map<string, number>();
+  let street = 0;
+  let spillover = 0;
+  let buildingColonies = 0;
+
+  colonies.forEach((colony) => {
+    const alive = colony.susceptible + colony.infected;
+    if (alive > 0 && (colony.infected > 0 || colony.hungryFleas > 0)) {
+      const pressure = colony.infected + colony.hungryFleas / params.fleasPerRat;
+      const force = params.ratContactsPerHour * pressure / alive;
+      const newInfections = colony.susceptible * (1 - Math.exp(-force * dt));
+      const deaths = colony.infected * (1 - Math.exp(-dt / params.ratDeathHours));
+      colony.susceptible -= newInfections;
+      colony.infected += newInfections - deaths;
+      colony.dead += deaths;
+      colony.hungryFleas += deaths * params.fleasPerRat;
+    }
+    colony.hungryFleas *= Math.exp(-dt / params.fleaSurvivalHours);
+    if (colony.infected < EXTINCTION_FLOOR) colony.infected = 0;
+    if (colony.hungryFleas < EXTINCTION_FLOOR) colony.hungryFleas = 0;
+    const room = colony.capacity - colony.susceptible - colony.infected;
+    if (room > 0) colony.susceptible += room * (1 - Math.exp(-dt / RAT_REGROWTH_HOURS));
+
+    const hazard = colonyHazard(colony, params);
+    if (colony.buildingId) {
+      buildingColonies += 1;
+      spillover += hazard;
+      if (hazard > 0) byBuilding.set(colony.buildingId, hazard);
+    } else {
+      street += hazard;
+    }
+  });
+
+  if (buildingColonies > 0) street += STREET_SPILLOVER * spillover / buildingColonies;
+  return { byBuilding, street };
+};
+
+/** Occasionally an infected rat arrives from elsewhere; uses the core's RNG so runs replay. */
+export const importRatPlague = (colonies: RatColony[], dt: number, rng: EpidemicRng) => {
+  if (colonies.length === 0 || rng.next() >= RAT_IMPORT_PER_HOUR * dt) return false;
+  const colony = colonies[Math.floor(rng.next() * colonies.length)];
+  if (colony.susceptible < 1) return false;
+  colony.susceptible -= 1;
+  colony.infected += 1;
+  return true;
+};
+
+/** Hourly flea-bite hazard at a world position, for on-screen NPCs. */
+export const getFleaHazardAt = (
+  colonies: RatColony[],
+  x: number,
+  z: number,
+  params: VectorParams = getEpidemicScenario().vectors
+) => {
+  let hazard = 0;
+  colonies.forEach((colony) => {
+    if (colony.hungryFleas <= 0) return;
+    const radius = colony.buildingId ? HAZARD_RADIUS : HAZARD_RADIUS * 2;
+    const dist = Math.hypot(colony.position[0] - x, colony.position[1] - z);
+    if (dist < radius) hazard += colonyHazard(colony, params) * (1 - dist / radius);
+  });
+  return hazard;
+};
+
+export const summarizeRatColonies = (colonies: Iterable<RatColony[]>): RatSummary => {
+  const summary: RatSummary = { alive: 0, infected: 0, dead: 0 };
+  for (const list of colonies) {
+    list.forEach((colony) => {
+      summary.alive += colony.susceptible + colony.infected;
+      summary.infected += colony.infected;
+      summary.dead += colony.dead;
+    });
+  }
+  return summary;
+};
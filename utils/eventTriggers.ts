@@ -8,13 +8,7 @@ import {
 } from '../types';
 import { ConversationImpact } from './friendliness';
 import { getEventsForBiome, EVENT_CATALOG } from './events/catalog';
-
-const SOCIAL_RANK: Record<SocialClass, number> = {
-  [SocialClass.NOBILITY]: 4,
-  [SocialClass.CLERGY]: 3,
-  [SocialClass.MERCHANT]: 2,
-  [SocialClass.PEASANT]: 1
-};
+import { EventConditionContext, getEventWeight, meetsEventConditions, pickWeighted, SOCIAL_RANK } from './events/conditions';
 
 export function getBiomeForDistrict(district: DistrictType): 'marketplace' | 'religious' | 'wealthy' | 'hovels' | 'desert' | 'scrubland' | 'farmland' | 'civic' | 'road' | 'gate' {
   switch (district) {
@@ -68,18 +62,19 @@ function buildInstance(def: EventDefinition, source: EventInstance['source'], co
 export function checkBiomeRandomEvent(
   context: EventContextSnapshot,
   seedSalt: number,
-  existingEventIds: string[]
+  existingEventIds: string[],
+  conditions?: EventConditionContext
 ): EventInstance | null {
   const biome = getBiomeForDistrict(context.environment.district);
-  const candidates = getEventsForBiome(biome);
+  const candidates = getEventsForBiome(biome)
+    .filter(event => !conditions || meetsEventConditions(event.conditions, conditions));
   if (candidates.length === 0) return null;
 
   const roll = seededRandom(seedSalt);
   if (roll < 0.85) return null;
 
-  const pickIndex = Math.floor(seededRandom(seedSalt + 17) * candidates.length);
-  const def = candidates[pickIndex];
-  if (existingEventIds.includes(def.id)) return null;
+  const def = pickWeighted(candidates, event => getEventWeight(event), seededRandom(seedSalt + 17));
+  if (!def || existingEventIds.includes(def.id)) return null;
 
   return buildInstance(def, 'environment', context);
 }
@@ -0,0 +1,134 @@
+/**
+ * Event Conditions
+ *
+ * Decides whether an event fits the moment (district, hour, weather, the
+ * state of the epidemic, what the player believes and carries, how an NPC
+ * feels about them, where a storyline stands) and picks among the events that do, by weight.
+ */
+
+import {
+  AgentState,
+  DistrictType,
+  EventConditions,
+  EventDefinition,
+  NpcRelationship,
+  PlayerStats,
+  SimulationStats,
+  SocialClass,
+  Storyline
+} from '../../types';
+import { getItemDetailsByItemId } from '../merchantItems';
+import { meetsStorylineConditions } from './storylines';
+
+export const SOCIAL_RANK: Record<SocialClass, number> = {
+  [SocialClass.NOBILITY]: 4,
+  [SocialClass.CLERGY]: 3,
+  [SocialClass.MERCHANT]: 2,
+  [SocialClass.PEASANT]: 1
+};
+
+/** Everything a condition can ask about, captured when the trigger fires */
+export interface EventConditionContext {
+  district: DistrictType;
+  timeOfDay: number;
+  weather: string;
+  player: Pick<PlayerStats, 'socialClass' | 'religion' | 'plague' | 'inventory'>;
+  worldFlags: Record<string, boolean | number | string>;
+  /** 0-100, see getEpidemicSeverity */
+  epidemicSeverity: number;
+  /** The player's standing with the NPC involved, if any; null when they have never met */
+  relationship?: NpcRelationship | null;
+  storylines: Record<string, Storyline>;
+}
+
+/** Share of the city currently sick or already dead, 0-100 */
+export const getEpidemicSeverity = (stats: Pick<SimulationStats, 'healthy' | 'incubating' | 'infected' | 'deceased'>): number => {
+  const total = stats.healthy + stats.incubating + stats.infected + stats.deceased;
+  if (total <= 0) return 0;
+  return Math.round(((stats.infected + stats.deceased) / total) * 100);
+};
+
+const plagueLabel = (state: AgentState): 'healthy' | 'incubating' | 'infected' => {
+  if (state === AgentState.INCUBATING) return 'incubating';
+  if (state === AgentState.INFECTED || state === AgentState.DECEASED) return 'infected';
+  return 'healthy';
+};
+
+const inHourRange = (hour: number, [from, to]: [number, number]) => (
+  from <= to ? hour >= from && hour <= to : hour >= from || hour <= to
+);
+
+const carriedItemNames = (player: EventConditionContext['player']): Set<string> => new Set(
+  player.inventory
+    .filter(item => item.quantity > 0)
+    .map(item => getItemDetailsByItemId(item.itemId)?.name)
+    .filter((name): name is string => !!name)
+);
+
+// An unset flag reads as false, so "worldFlags": { "x": false } means "x has not happened"
+const flagMatches = (actual: boolean | number | string | undefined, expected: boolean | number | string) => (
+  expected === false ? actual === undefined || actual === false : actual === expected
+);
+
+export function meetsEventConditions(conditions: EventConditions | undefined, context: EventConditionContext): boolean {
+  if (!conditions) return true;
+  const {
+    district,
+    timeOfDay,
+    socialClassMin,
+    worldFlags,
+    playerPlague,
+    weather,
+    epidemicSeverity,
+    religion,
+    hasItems,
+    lacksItems,
+    relationship,
+    storylines
+  } = conditions;
+
+  if (district && context.district !== district) return false;
+  if (timeOfDay && !inHourRange(context.timeOfDay, timeOfDay)) return false;
+  if (socialClassMin && SOCIAL_RANK[context.player.socialClass] < SOCIAL_RANK[socialClassMin]) return false;
+  if (worldFlags && !Object.entries(worldFlags).every(([key, value]) => flagMatches(context.worldFlags[key], value))) return false;
+  if (playerPlague && !playerPlague.includes(plagueLabel(context.player.plague.state))) return false;
+  if (weather && !weather.includes(context.weather)) return false;
+  if (epidemicSeverity) {
+    if (epidemicSeverity.min !== undefined && context.epidemicSeverity < epidemicSeverity.min) return false;
+    if (epidemicSeverity.max !== undefined && context.epidemicSeverity > epidemicSeverity.max) return false;
+  }
+  if (religion && !religion.includes(context.player.religion)) return false;
+  if (hasItems || lacksItems) {
+    const carried = carriedItemNames(context.player);
+    if (hasItems && !hasItems.every(name => carried.has(name))) return false;
+    if (lacksItems && lacksItems.some(name => carried.has(name))) return false;
+  }
+  if (relationship) {
+    const rel = context.relationship ?? null;
+    if (relationship.met !== undefined && relationship.met !== !!rel) return false;
+    // Strangers count as trust 0
+    const trust = rel?.trust ?? 0;
+    if (relationship.trustMin !== undefined && trust < relationship.trustMin) return false;
+    if (relationship.trustMax !== undefined && trust > relationship.trustMax) return false;
+  }
+  if (storylines && !meetsStorylineConditions(storylines, context.storylines)) return false;
+  return true;
+}
+
+export const getEventWeight = (event: Pick<EventDefinition, 'weight'>): number => Math.max(0, event.weight ?? 1);
+
+/**
+ * Weighted pick: `roll` in [0, 1) selects an item in proportion to its weight.
+ * Returns null when nothing has positive weight.
+ */
+export function pickWeighted<T>(items: T[], weightOf: (item: T) => number, roll: number): T | null {
+  const total = items.reduce((sum, item) => sum + Math.max(0, weightOf(item)), 0);
+  if (total <= 0) return null;
+  let remaining = roll * total;
+  for (const item of items) {
+    remaining -= Math.max(0, weightOf(item));
+    if (remaining < 0) return item;
+  }
+  // Rounding left a sliver; give it to the last item that could win
+  return [...items].reverse().find(item => weightOf(item) > 0) ?? null;
+}
@@ -0,0 +1,386 @@
+/**
+ * Event Content Packs
+ *
+ * Events and their triggers are authored as JSON packs (utils/events/packs/)
+ * rather than TypeScript. A pack is { id, description?, events?, triggers? }.
+ * Packs are validated and merged in order at startup: a later pack may replace
+ * an earlier pack's event or trigger by reusing its id. Anything invalid is
+ * dropped with a message naming the pack and item, so one bad entry never
+ * takes the rest of the content down with it.
+ */
+
+import { DistrictType, EventDefinition, EventOption, Religion, SocialClass } from '../../types';
+import type { EventTrigger, TriggerTargetType, TriggerWhen } from './triggerCatalog';
+import { findItemByName } from '../merchantItems';
+import { DEATH_MILESTONES, PLAGUE_SYMPTOMS, PRAYER_HOURS } from './worldTriggers';
+
+export interface EventPack {
+  id: string;
+  description?: string;
+  events?: EventDefinition[];
+  triggers?: EventTrigger[];
+}
+
+export interface LoadedEventContent {
+  events: EventDefinition[];
+  triggers: EventTrigger[];
+  /** Pack ids in load order */
+  packs: string[];
+  /** One line per dropped or suspect item, prefixed with its pack */
+  errors: string[];
+}
+
+const PLAYER_STATS = ['piety', 'charisma', 'currency', 'health', 'reputation', 'wealth'];
+const NPC_STATS = ['disposition', 'panic'];
+const SOCIAL_CLASSES: string[] = Object.values(SocialClass);
+const TRIGGER_WHENS: TriggerWhen[] = [
+  'districtEnter', 'npcApproach', 'interiorEnter', 'merchantOpen', 'plagueSymptom', 'npcDeath',
+  'householdDeath', 'weatherChange', 'prayerTime', 'itemPickup', 'itemTheft', 'deathMilestone'
+];
+const TRIGGER_TARGETS: TriggerTargetType[] = [
+  'district', 'npcProfession', 'buildingType', 'buildingDistrict', 'interiorAny', 'merchantAny',
+  'symptom', 'weather', 'prayer', 'item', 'itemAny', 'deathCount'
+];
+
+// Keyed by DistrictType so the compiler flags this list when a district is added
+const DISTRICTS: Record<DistrictType, true> = {
+  MARKET: true,
+  WEALTHY: true,
+  HOVELS: true,
+  CIVIC: true,
+  RESIDENTIAL: true,
+  ALLEYS: true,
+  JEWISH_QUARTER: true,
+  CHRISTIAN_QUARTER: true,
+  UMAYYAD_MOSQUE: true,
+  SALHIYYA: true,
+  OUTSKIRTS_FARMLAND: true,
+  OUTSKIRTS_DESERT: true,
+  OUTSKIRTS_SCRUBLAND: true,
+  ROADSIDE: true,
+  CARAVANSERAI: true,
+  MOUNTAIN_SHRINE: true,
+  SOUTHERN_ROAD: true,
+  STRAIGHT_STREET: true,
+  SOUQ_AXIS: true,
+  MIDAN: true,
+  BAB_SHARQI: true
+};
+
+const RELIGIONS: Record<Religion, true> = {
+  'Sunni Islam': true,
+  'Shia Islam': true,
+  'Ismaili': true,
+  'Eastern Orthodox': true,
+  'Armenian Apostolic': true,
+  'Syriac Orthodox': true,
+  'Coptic Orthodox': true,
+  'Jewish': true,
+  'Samaritan': true,
+  'Druze': true,
+  'Latin Christian': true
+};
+
+const WEATHERS = ['CLEAR', 'OVERCAST', 'SANDSTORM'];
+const PLAGUE_STATES = ['healthy', 'incubating', 'infected'];
+const STORYLINE_STATUSES = ['unstarted', 'active', 'completed', 'failed'];
+const STORYLINE_OUTCOMES = ['completed', 'failed'];
+
+const MIN_OPTIONS = 2;
+const MAX_OPTIONS = 4;
+
+type Json = Record<string, unknown>;
+
+const isObject = (value: unknown): value is Json => !!value && typeof value === 'object' && !Array.isArray(value);
+const isText = (value: unknown): value is string => typeof value === 'string' && value.trim().length > 0;
+const isNumber = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value);
+const isDistrict = (value: unknown): value is DistrictType => typeof value === 'string' && Object.prototype.hasOwnProperty.call(DISTRICTS, value);
+const isWeight = (value: unknown) => value === undefined || (isNumber(value) && value >= 0);
+const isFlagValue = (value: unknown) => ['boolean', 'number', 'string'].includes(typeof value);
+
+// A list condition: an array drawn from `allowed` (any non-empty strings when omitted)
+const checkList = (value: unknown, name: string, allowed?: (entry: string) => boolean): string | null => {
+  if (!Array.isArray(value) || value.length === 0 || !value.every(isText)) return `conditions.${name} must be a list of names`;
+  const unknown = allowed ? value.find(entry => !allowed(entry)) : undefined;
+  return unknown ? `conditions.${name} has unknown "${unknown}"` : null;
+};
+
+// Storyline tests, used by event conditions and by options
+const checkStorylineConditions = (value: unknown, name: string): string | null => {
+  if (!Array.isArray(value) || value.length === 0) return `${name} must be a list of storyline tests`;
+  for (const test of value) {
+    if (!isObject(test) || !isText(test.storylineId)) return `${name} entries need a storylineId`;
+    if (test.status !== undefined && (!Array.isArray(test.status) || !test.status.every(status => STORYLINE_STATUSES.includes(status)))) {
+      return `${name} status must list ${STORYLINE_STATUSES.join(', ')}`;
+    }
+    if (test.vars !== undefined && (!isObject(test.vars) || !Object.values(test.vars).every(isFlagValue))) {
+      return `${name} vars must map names to booleans, numbers or strings`;
+    }
+    for (const bound of ['varsMin', 'varsMax']) {
+      if (test[bound] !== undefined && (!isObject(test[bound]) || !Object.values(test[bound] as Json).every(isNumber))) {
+        return `${name} ${bound} must map names to numbers`;
+      }
+    }
+  }
+  return null;
+};
+
+const checkConditions = (conditions: unknown): string | null => {
+  if (!isObject(conditions)) return 'conditions must be an object';
+  if (conditions.district !== undefined && !isDistrict(conditions.district)) return `conditions name unknown district "${conditions.district}"`;
+  if (conditions.timeOfDay !== undefined) {
+    const range = conditions.timeOfDay;
+    if (!Array.isArray(range) || range.length !== 2 || !range.every(hour => isNumber(hour) && hour >= 0 && hour <= 24)) {
+      return 'conditions.timeOfDay must be [fromHour, toHour] within 0-24';
+    }
+  }
+  if (conditions.socialClassMin !== undefined && !SOCIAL_CLASSES.includes(conditions.socialClassMin as string)) {
+    return `conditions name unknown social class "${conditions.socialClassMin}"`;
+  }
+  if (conditions.worldFlags !== undefined) {
+    const flags = conditions.worldFlags;
+    if (!isObject(flags) || !Object.values(flags).every(isFlagValue)) {
+      return 'conditions.worldFlags must map flag names to booleans, numbers or strings';
+    }
+  }
+  const lists: Array<[string, ((entry: string) => boolean) | undefined]> = [
+    ['playerPlague', entry => PLAGUE_STATES.includes(entry)],
+    ['weather', entry => WEATHERS.includes(entry)],
+    ['religion', entry => Object.prototype.hasOwnProperty.call(RELIGIONS, entry)],
+    ['hasItems', entry => !!findItemByName(entry)],
+    ['lacksItems', entry => !!findItemByName(entry)]
+  ];
+  for (const [name, allowed] of lists) {
+    if (conditions[name] === undefined) continue;
+    const problem = checkList(conditions[name], name, allowed);
+    if (problem) return problem;
+  }
+  if (conditions.epidemicSeverity !== undefined) {
+    const range = conditions.epidemicSeverity;
+    if (!isObject(range) || ![range.min, range.max].every(bound => bound === undefined || (isNumber(bound) && bound >= 0 && bound <= 100))) {
+      return 'conditions.epidemicSeverity min/max must be within 0-100';
+    }
+  }
+  if (conditions.relationship !== undefined) {
+    const rel = conditions.relationship;
+    if (!isObject(rel)) return 'conditions.relationship must be an object';
+    if (![rel.trustMin, rel.trustMax].every(bound => bound === undefined || (isNumber(bound) && bound >= -100 && bound <= 100))) {
+      return 'conditions.relationship trustMin/trustMax must be within -100 to 100';
+    }
+    if (rel.met !== undefined && typeof rel.met !== 'boolean') return 'conditions.relationship.met must be true or false';
+  }
+  if (conditions.storylines !== undefined) return checkStorylineConditions(conditions.storylines, 'conditions.storylines');
+  return null;
+};
+
+// Structural problems with one effect; references to other events are checked after merging
+const checkEffect = (effect: unknown): string | null => {
+  if (!isObject(effect)) return 'effect is not an object';
+  switch (effect.type) {
+    case 'playerStat':
+      if (!PLAYER_STATS.includes(effect.stat as string)) return `playerStat has unknown stat "${effect.stat}"`;
+      return isNumber(effect.delta) ? null : 'playerStat needs a numeric delta';
+    case 'npcStat':
+      if (!isText(effect.npcId)) return 'npcStat needs an npcId';
+      if (!NPC_STATS.includes(effect.stat as string)) return `npcStat has unknown stat "${effect.stat}"`;
+      return isNumber(effect.delta) ? null : 'npcStat needs a numeric delta';
+    case 'worldFlag':
+      if (!isText(effect.key)) return 'worldFlag needs a key';
+      return isFlagValue(effect.value) ? null : 'worldFlag value must be a boolean, number or string';
+    case 'triggerEvent':
+      return isText(effect.eventId) ? null : 'triggerEvent needs an eventId';
+    case 'grantItem':
+      if (!isText(effect.itemName) || !findItemByName(effect.itemName)) return `grantItem names unknown item "${effect.itemName}"`;
+      return Number.isInteger(effect.quantity) && (effect.quantity as number) > 0 ? null : 'grantItem needs a positive whole quantity';
+    case 'endConversation':
+      return null;
+    case 'startStoryline':
+      return isText(effect.storylineId) && isText(effect.title) ? null : 'startStoryline needs a storylineId and a title';
+    case 'setStorylineVar':
+      if (!isText(effect.storylineId) || !isText(effect.key)) return 'setStorylineVar needs a storylineId and a key';
+      if (effect.delta !== undefined) {
+        if (effect.value !== undefined) return 'setStorylineVar takes a value or a delta, not both';
+        return isNumber(effect.delta) ? null : 'setStorylineVar delta must be a number';
+      }
+      return effect.value === undefined || isFlagValue(effect.value) ? null : 'setStorylineVar value must be a boolean, number or string';
+    case 'storylineNote':
+      return isText(effect.storylineId) && isText(effect.text) ? null : 'storylineNote needs a storylineId and text';
+    case 'endStoryline':
+      if (!isText(effect.storylineId)) return 'endStoryline needs a storylineId';
+      return STORYLINE_OUTCOMES.includes(effect.outcome as string) ? null : 'endStoryline outcome must be completed or failed';
+    case 'scheduleEvent':
+      if (!isText(effect.eventId)) return 'scheduleEvent needs an eventId';
+      if (effect.storylineId !== undefined && !isText(effect.storylineId)) return 'scheduleEvent has an empty storylineId';
+      return isNumber(effect.delayHours) && effect.delayHours >= 0 ? null : 'scheduleEvent needs delayHours of 0 or more';
+    default:
+      return `unknown effect type "${effect.type}"`;
+  }
+};
+
+const checkOption = (option: unknown): string | null => {
+  if (!isObject(option)) return 'option is not an object';
+  if (!isText(option.id) || !isText(option.label)) return 'option needs an id and a label';
+  if (!Array.isArray(option.effects)) return `option "${option.id}" needs an effects array`;
+  for (const effect of option.effects) {
+    const problem = checkEffect(effect);
+    if (problem) return `option "${option.id}": ${problem}`;
+  }
+  if (option.requirements !== undefined) {
+    const req = option.requirements;
+    if (!isObject(req) || !PLAYER_STATS.includes(req.stat as string)) return `option "${option.id}" has requirements on an unknown stat`;
+    if ((req.min !== undefined && !isNumber(req.min)) || (req.max !== undefined && !isNumber(req.max))) {
+      return `option "${option.id}" requirement min/max must be numbers`;
+    }
+  }
+  if (option.followupEventId !== undefined && !isText(option.followupEventId)) return `option "${option.id}" has an empty followupEventId`;
+  if (option.storylines !== undefined) {
+    const problem = checkStorylineConditions(option.storylines, 'storylines');
+    if (problem) return `option "${option.id}" ${problem}`;
+  }
+  return null;
+};
+
+const checkEvent = (event: Json): string | null => {
+  if (!isText(event.title) || !isText(event.body)) return 'needs a title and a body';
+  if (!Array.isArray(event.options) || event.options.length < MIN_OPTIONS || event.options.length > MAX_OPTIONS) {
+    return `needs ${MIN_OPTIONS} to ${MAX_OPTIONS} options`;
+  }
+  const optionIds = new Set<string>();
+  for (const option of event.options) {
+    const problem = checkOption(option);
+    if (problem) return problem;
+    const id = (option as EventOption).id;
+    if (optionIds.has(id)) return `repeats option id "${id}"`;
+    optionIds.add(id);
+  }
+  if (event.tags !== undefined && (!Array.isArray(event.tags) || !event.tags.every(isText))) return 'tags must be strings';
+  if (event.conditions !== undefined) {
+    const problem = checkConditions(event.conditions);
+    if (problem) return problem;
+  }
+  if (!isWeight(event.weight)) return 'weight must be 0 or more';
+  return null;
+};
+
+const checkTrigger = (trigger: Json): string | null => {
+  if (!isText(trigger.eventId)) return 'needs an eventId';
+  if (!TRIGGER_WHENS.includes(trigger.when as TriggerWhen)) return `unknown "when" "${trigger.when}"`;
+  if (!TRIGGER_TARGETS.includes(trigger.targetType as TriggerTargetType)) return `unknown targetType "${trigger.targetType}"`;
+  if (!isText(trigger.targetId)) return 'needs a targetId';
+  if ((trigger.targetType === 'district' || trigger.targetType === 'buildingDistrict') && !isDistrict(trigger.targetId)) {
+    return `targets unknown district "${trigger.targetId}"`;
+  }
+  const targetIds: Partial<Record<TriggerTargetType, (id: string) => boolean>> = {
+    symptom: id => (PLAGUE_SYMPTOMS as string[]).includes(id),
+    weather: id => WEATHERS.includes(id),
+    prayer: id => Object.prototype.hasOwnProperty.call(PRAYER_HOURS, id),
+    item: id => !!findItemByName(id),
+    deathCount: id => DEATH_MILESTONES.map(String).includes(id)
+  };
+  const knownTarget = targetIds[trigger.targetType as TriggerTargetType];
+  if (knownTarget && !knownTarget(trigger.targetId)) return `targets unknown ${trigger.targetType} "${trigger.targetId}"`;
+  if (trigger.nth !== undefined && !(Number.isInteger(trigger.nth) && (trigger.nth as number) >= 1)) return 'nth must be a whole number from 1';
+  if (trigger.chance !== undefined && !(isNumber(trigger.chance) && trigger.chance >= 0 && trigger.chance <= 1)) return 'chance must be between 0 and 1';
+  if (trigger.cooldownDays !== undefined && !(isNumber(trigger.cooldownDays) && trigger.cooldownDays >= 0)) return 'cooldownDays must be 0 or more';
+  if (!isWeight(trigger.weight)) return 'weight must be 0 or more';
+  return null;
+};
+
+// Event ids an event points at through follow-ups, triggerEvent and scheduleEvent effects
+const referencedEventIds = (event: EventDefinition): string[] => event.options.flatMap(option => [
+  ...(option.followupEventId ? [option.followupEventId] : []),
+  ...option.effects.flatMap(effect => (effect.type === 'triggerEvent' || effect.type === 'scheduleEvent' ? [effect.eventId] : []))
+]);
+
+/**
+ * Validate and merge packs in order. Structural checks run per item; then
+ * events whose follow-ups or triggerEvent/scheduleEvent effects point at
+ * missing events are dropped (repeatedly, since dropping one can orphan
+ * another), and finally triggers whose event is missing.
+ */
+export function loadEventPacks(packs: unknown[]): LoadedEventContent {
+  const errors: string[] = [];
+  const events = new Map<string, { event: EventDefinition; pack: string }>();
+  const triggers = new Map<string, { trigger: EventTrigger; pack: string }>();
+  const packIds: string[] = [];
+
+  packs.forEach((pack, index) => {
+    if (!isObject(pack) || !isText(pack.id)) {
+      errors.push(`pack #${index + 1}: needs an "id"`);
+      return;
+    }
+    const packId = pack.id;
+    if (packIds.includes(packId)) {
+      errors.push(`${packId}: pack id is used twice; skipped the second`);
+      return;
+    }
+    packIds.push(packId);
+
+    const seenEvents = new Set<string>();
+    (Array.isArray(pack.events) ? pack.events : []).forEach((raw: unknown, itemIndex: number) => {
+      const label = isObject(raw) && isText(raw.id) ? raw.id : `events[${itemIndex}]`;
+      if (!isObject(raw) || !isText(raw.id)) {
+        errors.push(`${packId}: ${label} needs an id`);
+        return;
+      }
+      if (seenEvents.has(raw.id)) {
+        errors.push(`${packId}: event ${label} is defined twice in this pack`);
+        return;
+      }
+      seenEvents.add(raw.id);
+      const problem = checkEvent(raw);
+      if (problem) {
+        errors.push(`${packId}: event ${label} ${problem}`);
+        return;
+      }
+      events.set(raw.id, { event: raw as unknown as EventDefinition, pack: packId });
+    });
+
+    const seenTriggers = new Set<string>();
+    (Array.isArray(pack.triggers) ? pack.triggers : []).forEach((raw: unknown, itemIndex: number) => {
+      const label = isObject(raw) && isText(raw.id) ? raw.id : `triggers[${itemIndex}]`;
+      if (!isObject(raw) || !isText(raw.id)) {
+        errors.push(`${packId}: ${label} needs an id`);
+        return;
+      }
+      if (seenTriggers.has(raw.id)) {
+        errors.push(`${packId}: trigger ${label} is defined twice in this pack`);
+        return;
+      }
+      seenTriggers.add(raw.id);
+      const problem = checkTrigger(raw);
+      if (problem) {
+        errors.push(`${packId}: trigger ${label} ${problem}`);
+        return;
+      }
+      triggers.set(raw.id, { trigger: raw as unknown as EventTrigger, pack: packId });
+    });
+  });
+
+  let dropped = true;
+  while (dropped) {
+    dropped = false;
+    for (const [id, { event, pack }] of events) {
+      const missing = referencedEventIds(event).find(ref => !events.has(ref));
+      if (missing) {
+        errors.push(`${pack}: event ${id} refers to missing event "${missing}"`);
+        events.delete(id);
+        dropped = true;
+      }
+    }
+  }
+
+  for (const [id, { trigger, pack }] of triggers) {
+    if (!events.has(trigger.eventId)) {
+      errors.push(`${pack}: trigger ${id} refers to missing event "${trigger.eventId}"`);
+      triggers.delete(id);
+    }
+  }
+
+  return {
+    events: [...events.values()].map(entry => entry.event),
+    triggers: [...triggers.values()].map(entry => entry.trigger),
+    packs: packIds,
+    errors
+  };
+}
@@ -0,0 +1,222 @@
+/**
+ * LLM Event Schema
+ *
+ * The shape a generated event must take, derived from EventEffect so a new
+ * effect type cannot be added without deciding how (or whether) the model may
+ * use it. Shared by the /api/event route, which asks the provider for output
+ * constrained to the JSON schema built here, and the client, which validates
+ * what comes back against the same fields (see llmEventValidation.ts).
+ *
+ * Each event source has a budget: which effects the model may use and how far
+ * they may move a stat. Storyline effects, scheduled and triggered events,
+ * follow-ups and item grants are never offered: the model is sent no event
+ * ids or item names to choose from, and chains stay in hand-written content.
+ */
+
+import type { EventEffect, EventInstance } from '../../types';
+
+export type LlmEventSource = EventInstance['source'];
+
+type EffectType = EventEffect['type'];
+type PlayerStatName = Extract<EventEffect, { type: 'playerStat' }>['stat'];
+type NpcStatName = Extract<EventEffect, { type: 'npcStat' }>['stat'];
+
+export const PLAYER_STATS: PlayerStatName[] = ['piety', 'charisma', 'currency', 'health', 'reputation', 'wealth'];
+export const NPC_STATS: NpcStatName[] = ['disposition', 'panic'];
+
+/**
+ * How one effect field is written by the model. `eventNpc` fields are not
+ * asked for; they are filled with the NPC of the event being rewritten.
+ */
+export interface EffectFieldSpec {
+  kind: 'string' | 'number' | 'integer' | 'flagValue' | 'eventNpc';
+  enum?: readonly string[];
+  optional?: boolean;
+}
+
+type EffectFields<T extends EffectType> = {
+  [K in Exclude<keyof Extract<EventEffect, { type: T }>, 'type'>]-?: EffectFieldSpec;
+};
+
+/** Every EventEffect field, by type; `summary` is what the prompt tells the model the effect does */
+export const EFFECT_FIELDS: { [T in EffectType]: { summary: string; fields: EffectFields<T> } } = {
+  playerStat: {
+    summary: 'change one of the player\'s stats by delta',
+    fields: { stat: { kind: 'string', enum: PLAYER_STATS }, delta: { kind: 'number' } }
+  },
+  npcStat: {
+    summary: 'change how the NPC in the scene feels about the player (disposition) or how frightened they are (panic)',
+    fields: { npcId: { kind: 'eventNpc' }, stat: { kind: 'string', enum: NPC_STATS }, delta: { kind: 'number' } }
+  },
+  worldFlag: {
+    summary: 'remember something about this choice under key',
+    fields: { key: { kind: 'string' }, value: { kind: 'flagValue' } }
+  },
+  triggerEvent: {
+    summary: 'follow with a known event, by eventId',
+    fields: { eventId: { kind: 'string' } }
+  },
+  grantItem: {
+    summary: 'give the player goods, by catalogue itemName',
+    fields: { itemName: { kind: 'string' }, quantity: { kind: 'integer' } }
+  },
+  endConversation: {
+    summary: 'end the conversation with the NPC',
+    fields: {}
+  },
+  startStoryline: {
+    summary: 'begin a storyline',
+    fields: { storylineId: { kind: 'string' }, title: { kind: 'string' }, note: { kind: 'string', optional: true } }
+  },
+  setStorylineVar: {
+    summary: 'set a storyline var',
+    fields: {
+      storylineId: { kind: 'string' },
+      key: { kind: 'string' },
+      value: { kind: 'flagValue', optional: true },
+      delta: { kind: 'number', optional: true }
+    }
+  },
+  storylineNote: {
+    summary: 'add to a storyline journal',
+    fields: { storylineId: { kind: 'string' }, text: { kind: 'string' } }
+  },
+  endStoryline: {
+    summary: 'finish a storyline',
+    fields: {
+      storylineId: { kind: 'string' },
+      outcome: { kind: 'string', enum: ['completed', 'failed'] },
+      note: { kind: 'string', optional: true }
+    }
+  },
+  scheduleEvent: {
+    summary: 'hold an event back for later',
+    fields: { eventId: { kind: 'string' }, delayHours: { kind: 'number' }, storylineId: { kind: 'string', optional: true } }
+  }
+};
+
+export interface LlmEffectBudget {
+  effects: EffectType[];
+  /** Largest total change to each player stat one option may make */
+  playerStat: Record<PlayerStatName, number>;
+  /** Largest total change to the NPC's disposition or panic one option may make */
+  npcStat: number;
+  effectsPerOption: number;
+}
+
+export const LLM_EFFECT_BUDGETS: Record<LlmEventSource, LlmEffectBudget> = {
+  conversation: {
+    effects: ['playerStat', 'npcStat', 'worldFlag', 'endConversation'],
+    playerStat: { piety: 2, charisma: 1, currency: 5, health: 3, reputation: 4, wealth: 4 },
+    npcStat: 15,
+    effectsPerOption: 3
+  },
+  environment: {
+    effects: ['playerStat', 'npcStat', 'worldFlag'],
+    playerStat: { piety: 2, charisma: 1, currency: 5, health: 5, reputation: 3, wealth: 4 },
+    npcStat: 10,
+    effectsPerOption: 3
+  },
+  action: {
+    effects: ['playerStat', 'npcStat', 'worldFlag'],
+    playerStat: { piety: 2, charisma: 1, currency: 5, health: 5, reputation: 3, wealth: 4 },
+    npcStat: 10,
+    effectsPerOption: 3
+  },
+  system: {
+    effects: ['playerStat', 'worldFlag'],
+    playerStat: { piety: 1, charisma: 1, currency: 3, health: 3, reputation: 2, wealth: 2 },
+    npcStat: 5,
+    effectsPerOption: 2
+  }
+};
+
+/** Flags the model sets live under this prefix, so it cannot flip flags hand-written events rely on */
+export const LLM_FLAG_PREFIX = 'llm_';
+
+export const LLM_EVENT_LIMITS = {
+  title: 80,
+  body: 600,
+  label: 80,
+  outcomeText: 300,
+  minOptions: 2,
+  maxOptions: 4
+};
+
+const fieldSchema = (spec: EffectFieldSpec) => {
+  if (spec.kind === 'flagValue') return { anyOf: [{ type: 'boolean' }, { type: 'number' }, { type: 'string' }] };
+  return spec.enum ? { type: spec.kind, enum: [...spec.enum] } : { type: spec.kind };
+};
+
+/**
+ * The JSON schema a provider constrains generation to. Effects are one flat
+ * object (a `type` plus the union of the allowed types' fields) because not
+ * every provider accepts oneOf; the client checks which fields each type needs.
+ */
+export function buildLlmEventJsonSchema(source: LlmEventSource) {
+  const budget = LLM_EFFECT_BUDGETS[source];
+  const effectProperties: Record<string, object> = { type: { type: 'string', enum: budget.effects } };
+  budget.effects.forEach(type => {
+    Object.entries<EffectFieldSpec>(EFFECT_FIELDS[type].fields).forEach(([name, spec]) => {
+      if (spec.kind === 'eventNpc') return;
+      // Stat names differ between types, so the enum is the union
+      const existing = effectProperties[name] as { enum?: string[] } | undefined;
+      const schema = fieldSchema(spec) as { enum?: string[] };
+      if (existing?.enum && schema.enum) schema.enum = Array.from(new Set([...existing.enum, ...schema.enum]));
+      effectProperties[name] = schema;
+    });
+  });
+
+  return {
+    type: 'object',
+    properties: {
+      title: { type: 'string' },
+      body: { type: 'string' },
+      options: {
+        type: 'array',
+        minItems: LLM_EVENT_LIMITS.minOptions,
+        maxItems: LLM_EVENT_LIMITS.maxOptions,
+        items: {
+          type: 'object',
+          properties: {
+            id: { type: 'string' },
+            label: { type: 'string' },
+            outcomeText: { type: 'string' },
+            requirements: {
+              type: 'object',
+              properties: {
+                stat: { type: 'string', enum: PLAYER_STATS },
+                min: { type: 'number' },
+                max: { type: 'number' }
+              },
+              required: ['stat']
+            },
+            effects: {
+              type: 'array',
+              maxItems: budget.effectsPerOption,
+              items: { type: 'object', properties: effectProperties, required: ['type'] }
+            }
+          },
+          required: ['id', 'label', 'effects']
+        }
+      }
+    },
+    required: ['title', 'body', 'options']
+  };
+}
+
+/** The effect vocabulary and its limits, written out for the system prompt */
+export function describeLlmEffects(source: LlmEventSource): string[] {
+  const budget = LLM_EFFECT_BUDGETS[source];
+  return budget.effects.map(type => {
+    const fields = Object.entries<EffectFieldSpec>(EFFECT_FIELDS[type].fields)
+      .filter(([, spec]) => spec.kind !== 'eventNpc')
+      .map(([name, spec]) => (spec.enum ? `${name}: ${spec.enum.join('|')}` : name));
+    const limit = type === 'playerStat'
+      ? ` Total delta per stat per option at most ${PLAYER_STATS.map(stat => `${stat} ${budget.playerStat[stat]}`).join(', ')}.`
+      : type === 'npcStat'
+        ? ` Only when an NPC is present; total delta at most ${budget.npcStat}.`
+        : '';
+    return `- "${type}"${fields.length > 0 ? ` { ${fields.join(', ')} }` : ''}: ${EFFECT_FIELDS[type].summary}.${limit}`;
+  });
+}
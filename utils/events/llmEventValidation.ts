@@ -0,0 +1,218 @@
+/**
+ * LLM Event Validation
+ *
+ * Turns a generated event into an EventInstance only if it fits the schema
+ * in llmEventSchema.ts. Anything the model may not do (an effect outside its
+ * budget or a malformed field) rejects the option it
+ * sits in; too few options left rejects the event, and the caller falls back
+ * to the prewritten one. Magnitudes beyond the budget are clamped rather than
+ * rejected, and noted.
+ */
+
+import { EventContextSnapshot, EventEffect, EventInstance, EventOption } from '../../types';
+import {
+  EFFECT_FIELDS,
+  EffectFieldSpec,
+  LLM_EFFECT_BUDGETS,
+  LLM_EVENT_LIMITS,
+  LLM_FLAG_PREFIX,
+  LlmEffectBudget,
+  LlmEventSource,
+  PLAYER_STATS
+} from './llmEventSchema';
+
+export interface LlmEventValidation {
+  ok: boolean;
+  content?: EventInstance['content'];
+  /** Why the event, or some of its options, were rejected */
+  errors: string[];
+  /** Values that were clamped or trimmed to fit */
+  adjustments: string[];
+}
+
+/** A generation that was not used, kept for the event debug panel */
+export interface LlmEventRejection {
+  id: string;
+  simTime: number;
+  source: LlmEventSource;
+  definitionId?: string;
+  /** Title of the prewritten event shown instead */
+  fallbackTitle: string;
+  errors: string[];
+  /** What the model sent, cut short */
+  raw?: string;
+}
+
+export const LLM_REJECTION_LOG_LIMIT = 20;
+export const LLM_REJECTION_RAW_LIMIT = 2000;
+
+type Raw = Record<string, unknown>;
+
+const isObject = (value: unknown): value is Raw => typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const text = (value: unknown) => (typeof value === 'string' ? value.trim() : '');
+
+const fieldMatches = (spec: EffectFieldSpec, value: unknown) => {
+  if (spec.kind === 'flagValue') {
+    return typeof value === 'boolean' || typeof value === 'string' || (typeof value === 'number' && Number.isFinite(value));
+  }
+  if (spec.kind === 'string') return typeof value === 'string' && value.trim().length > 0 && (!spec.enum || spec.enum.includes(value));
+  if (spec.kind === 'integer') return typeof value === 'number' && Number.isInteger(value);
+  if (spec.kind === 'number') return typeof value === 'number' && Number.isFinite(value);
+  return true;
+};
+
+const clampMagnitude = (value: number, limit: number) => Math.max(-limit, Math.min(limit, value));
+
+// Running totals for one option, so two small effects cannot add up past the budget
+interface OptionSpend {
+  playerStat: Partial<Record<string, number>>;
+  npcStat: Partial<Record<string, number>>;
+}
+
+const spend = (spent: Partial<Record<string, number>>, key: string, delta: number, limit: number) => {
+  const before = spent[key] ?? 0;
+  const allowed = clampMagnitude(before + delta, limit) - before;
+  spent[key] = before + allowed;
+  return allowed;
+};
+
+function validateEffect(
+  raw: unknown,
+  budget: LlmEffectBudget,
+  npc: EventContextSnapshot['npc'],
+  spent: OptionSpend,
+  adjustments: string[]
+): EventEffect | string {
+  if (!isObject(raw)) return 'effect is not an object';
+  const type = raw.type as EventEffect['type'];
+  if (!(type in EFFECT_FIELDS)) return `unknown effect type "${String(raw.type)}"`;
+  if (!budget.effects.includes(type)) return `effect "${type}" is not allowed here`;
+
+  const fields = Object.entries<EffectFieldSpec>(EFFECT_FIELDS[type].fields);
+  const bad = fields.find(([name, spec]) => !(spec.optional && raw[name] === undefined) && !fieldMatches(spec, raw[name]));
+  if (bad) return `"${type}" has an invalid ${bad[0]}`;
+
+  switch (type) {
+    case 'playerStat': {
+      const stat = raw.stat as Extract<EventEffect, { type: 'playerStat' }>['stat'];
+      const delta = spend(spent.playerStat, stat, raw.delta as number, budget.playerStat[stat]);
+      if (delta !== raw.delta) adjustments.push(`${stat} ${raw.delta} clamped to ${delta}`);
+      return { type, stat, delta };
+    }
+    case 'npcStat': {
+      if (!npc) return '"npcStat" with no NPC in the scene';
+      const stat = raw.stat as Extract<EventEffect, { type: 'npcStat' }>['stat'];
+      const delta = spend(spent.npcStat, stat, raw.delta as number, budget.npcStat);
+      if (delta !== raw.delta) adjustments.push(`npc ${stat} ${raw.delta} clamped to ${delta}`);
+      return { type, npcId: npc.id, stat, delta };
+    }
+    case 'worldFlag': {
+      const base = text(raw.key).toLowerCase().replace(/[^a-z0-9_]+/g, '_');
+      const key = base.startsWith(LLM_FLAG_PREFIX) ? base : `${LLM_FLAG_PREFIX}${base}`;
+      return { type, key, value: raw.value as boolean | number | string };
+    }
+    case 'endConversation':
+      return { type };
+    default:
+      // Allowed by a budget but with no sandboxing written for it yet
+      return `effect "${type}" is not allowed here`;
+  }
+}
+
+function validateOption(
+  raw: unknown,
+  index: number,
+  budget: LlmEffectBudget,
+  npc: EventContextSnapshot['npc'],
+  adjustments: string[]
+): EventOption | string {
+  if (!isObject(raw)) return `option ${index + 1} is not an object`;
+  const label = text(raw.label);
+  if (!label) return `option ${index + 1} has no label`;
+  if (!Array.isArray(raw.effects)) return `"${label}" has no effects list`;
+  if (raw.effects.length > budget.effectsPerOption) {
+    return `"${label}" has ${raw.effects.length} effects (at most ${budget.effectsPerOption})`;
+  }
+
+  const spent: OptionSpend = { playerStat: {}, npcStat: {} };
+  const effects: EventEffect[] = [];
+  for (const entry of raw.effects) {
+    const effect = validateEffect(entry, budget, npc, spent, adjustments);
+    if (typeof effect === 'string') return `"${label}": ${effect}`;
+    // Spent budget can clamp a change to nothing
+    if ((effect.type === 'playerStat' || effect.type === 'npcStat') && effect.delta === 0) continue;
+    effects.push(effect);
+  }
+
+  let requirements: EventOption['requirements'];
+  if (raw.requirements !== undefined) {
+    const req = raw.requirements as Raw;
+    const stat = isObject(req) ? req.stat as NonNullable<EventOption['requirements']>['stat'] : undefined;
+    if (!stat || !PLAYER_STATS.includes(stat)) return `"${label}" has invalid requirements`;
+    requirements = {
+      stat,
+      min: typeof req.min === 'number' ? req.min : undefined,
+      max: typeof req.max === 'number' ? req.max : undefined
+    };
+  }
+
+  const outcomeText = text(raw.outcomeText);
+  return {
+    id: text(raw.id).replace(/[^a-zA-Z0-9_-]+/g, '_') || `opt-${index + 1}`,
+    label: label.slice(0, LLM_EVENT_LIMITS.label),
+    outcomeText: outcomeText ? outcomeText.slice(0, LLM_EVENT_LIMITS.outcomeText) : undefined,
+    requirements,
+    effects
+  };
+}
+
+/** Check a parsed generation against the schema and the source's effect budget */
+export function validateLlmEvent(
+  raw: unknown,
+  source: LlmEventSource,
+  npc?: EventContextSnapshot['npc']
+): LlmEventValidation {
+  const errors: string[] = [];
+  const adjustments: string[] = [];
+  if (!isObject(raw)) return { ok: false, errors: ['response is not a JSON object'], adjustments };
+
+  const title = text(raw.title);
+  const body = text(raw.body);
+  if (!title) errors.push('missing title');
+  if (!body) errors.push('missing body');
+  if (!Array.isArray(raw.options)) {
+    errors.push('missing options');
+    return { ok: false, errors, adjustments };
+  }
+  if (raw.options.length > LLM_EVENT_LIMITS.maxOptions) {
+    adjustments.push(`${raw.options.length} options trimmed to ${LLM_EVENT_LIMITS.maxOptions}`);
+  }
+
+  const budget = LLM_EFFECT_BUDGETS[source];
+  const options: EventOption[] = [];
+  raw.options.slice(0, LLM_EVENT_LIMITS.maxOptions).forEach((entry, index) => {
+    const option = validateOption(entry, index, budget, npc, adjustments);
+    if (typeof option === 'string') {
+      errors.push(option);
+      return;
+    }
+    // Ids must stay unique for the modal's keys
+    if (options.some(existing => existing.id === option.id)) option.id = `${option.id}-${index + 1}`;
+    options.push(option);
+  });
+  if (options.length < LLM_EVENT_LIMITS.minOptions) {
+    errors.push(`${options.length} usable option(s), need ${LLM_EVENT_LIMITS.minOptions}`);
+  }
+
+  if (title.length > LLM_EVENT_LIMITS.title || body.length > LLM_EVENT_LIMITS.body) adjustments.push('title or body trimmed');
+  const ok = !!title && !!body && options.length >= LLM_EVENT_LIMITS.minOptions;
+  return {
+    ok,
+    content: ok
+      ? { title: title.slice(0, LLM_EVENT_LIMITS.title), body: body.slice(0, LLM_EVENT_LIMITS.body), options }
+      : undefined,
+    errors,
+    adjustments
+  };
+}
@@ -0,0 +1,15 @@
+/**
+ * Event content packs, loaded in this order. To add a pack, drop its JSON
+ * file in this folder and list it here; later packs override earlier ones
+ * by id. See utils/events/contentPack.ts for the format.
+ */
+
+import core from './core.json';
+import firstEncounters from './first-encounters.json';
+import biomes from './biomes.json';
+import plagueSeason from './plague-season.json';
+import storylines from './storylines.json';
+import worldMoments from './world-moments.json';
+import crime from './crime.json';
+
+export const EVENT_PACKS: unknown[] = [core, firstEncounters, biomes, plagueSeason, storylines, worldMoments, crime];
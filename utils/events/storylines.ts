@@ -0,0 +1,158 @@
+/**
+ * Storylines
+ *
+ * Events that belong together: a storyline remembers the choices made along
+ * it as vars, keeps a short journal for the dossier, and can hold events back
+ * until a later sim hour ("two days later"). Events and options test a
+ * storyline through StorylineCondition, which is how a chain branches on what
+ * the player chose earlier. State is plain JSON so it persists to
+ * localStorage and save games.
+ */
+
+import {
+  EventContextSnapshot,
+  EventEffect,
+  EventOption,
+  ScheduledStorylet,
+  Storyline,
+  StorylineCondition,
+  StorylineState,
+  StorylineValue
+} from '../../types';
+
+export const STORYLINE_STORAGE_KEY = 'storylines';
+
+// Journal entries kept per storyline; older entries fall away first
+const JOURNAL_LIMIT = 12;
+
+export type StorylineEffect = Extract<EventEffect, {
+  type: 'startStoryline' | 'setStorylineVar' | 'storylineNote' | 'endStoryline' | 'scheduleEvent';
+}>;
+
+export const createStorylineState = (): StorylineState => ({ storylines: {}, scheduled: [] });
+
+export const loadStoredStorylines = (): StorylineState => {
+  try {
+    const raw = localStorage.getItem(STORYLINE_STORAGE_KEY);
+    return raw ? { ...createStorylineState(), ...JSON.parse(raw) } : createStorylineState();
+  } catch {
+    return createStorylineState();
+  }
+};
+
+export const isStorylineEffect = (effect: EventEffect): effect is StorylineEffect => (
+  effect.type === 'startStoryline' ||
+  effect.type === 'setStorylineVar' ||
+  effect.type === 'storylineNote' ||
+  effect.type === 'endStoryline' ||
+  effect.type === 'scheduleEvent'
+);
+
+/** Options that read or change a storyline must not be rewritten by the event LLM */
+export const hasStorylineContent = (options: EventOption[]): boolean => options.some(option => (
+  (option.storylines?.length ?? 0) > 0 || option.effects.some(isStorylineEffect)
+));
+
+// An unset var reads as false, matching how world flags are tested
+const varMatches = (actual: StorylineValue | undefined, expected: StorylineValue) => (
+  expected === false ? actual === undefined || actual === false : actual === expected
+);
+
+const numericVar = (value: StorylineValue | undefined) => (typeof value === 'number' ? value : 0);
+
+export function meetsStorylineConditions(
+  conditions: StorylineCondition[] | undefined,
+  storylines: Record<string, Storyline>
+): boolean {
+  if (!conditions) return true;
+  return conditions.every(condition => {
+    const storyline = storylines[condition.storylineId];
+    const vars = storyline?.vars ?? {};
+    if (condition.status && !condition.status.includes(storyline?.status ?? 'unstarted')) return false;
+    if (condition.vars && !Object.entries(condition.vars).every(([key, value]) => varMatches(vars[key], value))) return false;
+    if (condition.varsMin && !Object.entries(condition.varsMin).every(([key, min]) => numericVar(vars[key]) >= min)) return false;
+    if (condition.varsMax && !Object.entries(condition.varsMax).every(([key, max]) => numericVar(vars[key]) <= max)) return false;
+    return true;
+  });
+}
+
+/** The options an event offers right now; never strips an event of every option */
+export const getAvailableOptions = (options: EventOption[], storylines: Record<string, Storyline>): EventOption[] => {
+  const available = options.filter(option => meetsStorylineConditions(option.storylines, storylines));
+  return available.length > 0 ? available : options;
+};
+
+const withJournal = (storyline: Storyline, text: string | undefined, simTime: number): Storyline => (
+  text ? { ...storyline, journal: [...storyline.journal, { simTime, text }].slice(-JOURNAL_LIMIT) } : storyline
+);
+
+// Vars and notes for a storyline nobody started still count; it starts under its id
+const ensureStoryline = (state: StorylineState, id: string, simTime: number): Storyline => state.storylines[id] ?? {
+  id,
+  title: id,
+  status: 'active',
+  vars: {},
+  journal: [],
+  startedAt: simTime,
+  updatedAt: simTime
+};
+
+/**
+ * Apply one storyline effect. `npc` is the NPC of the event the effect came
+ * from; scheduled events carry it so the same person can come back.
+ */
+export function applyStorylineEffect(
+  state: StorylineState,
+  effect: StorylineEffect,
+  simTime: number,
+  npc?: EventContextSnapshot['npc']
+): StorylineState {
+  if (effect.type === 'scheduleEvent') {
+    const entry: ScheduledStorylet = {
+      id: `${effect.eventId}-${simTime.toFixed(3)}-${state.scheduled.length}`,
+      eventId: effect.eventId,
+      fireAt: simTime + Math.max(0, effect.delayHours),
+      storylineId: effect.storylineId,
+      npc
+    };
+    return { ...state, scheduled: [...state.scheduled, entry] };
+  }
+
+  let storyline = ensureStoryline(state, effect.storylineId, simTime);
+  if (effect.type === 'startStoryline') {
+    // Starting again restarts a finished storyline but leaves a running one alone
+    storyline = storyline.status === 'active' && state.storylines[effect.storylineId]
+      ? { ...storyline, title: effect.title }
+      : { ...storyline, title: effect.title, status: 'active', vars: {}, journal: [], startedAt: simTime };
+    storyline = withJournal(storyline, effect.note, simTime);
+  } else if (effect.type === 'setStorylineVar') {
+    const value = effect.delta !== undefined
+      ? numericVar(storyline.vars[effect.key]) + effect.delta
+      : effect.value ?? true;
+    storyline = { ...storyline, vars: { ...storyline.vars, [effect.key]: value } };
+  } else if (effect.type === 'storylineNote') {
+    storyline = withJournal(storyline, effect.text, simTime);
+  } else {
+    storyline = withJournal({ ...storyline, status: effect.outcome }, effect.note, simTime);
+  }
+
+  const scheduled = storyline.status === 'active'
+    ? state.scheduled
+    // A finished storyline has nothing left to happen
+    : state.scheduled.filter(entry => entry.storylineId !== storyline.id);
+  return {
+    storylines: { ...state.storylines, [storyline.id]: { ...storyline, updatedAt: simTime } },
+    scheduled
+  };
+}
+
+/** Scheduled events whose sim hour has come, earliest first */
+export const getDueStorylets = (state: StorylineState, simTime: number): ScheduledStorylet[] => state.scheduled
+  .filter(entry => entry.fireAt <= simTime)
+  .sort((a, b) => a.fireAt - b.fireAt);
+
+/** Running storylines first, then finished ones, most recently touched first */
+export const listStorylines = (state: StorylineState): Storyline[] => Object.values<Storyline>(state.storylines)
+  .sort((a, b) => (
+    Number(b.status === 'active') - Number(a.status === 'active') || b.updatedAt - a.updatedAt
+  ));
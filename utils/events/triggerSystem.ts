@@ -2,6 +2,7 @@ import { seededRandom } from '../procedural';
 import { EventDefinition } from '../../types';
 import { EVENT_TRIGGERS, EventTrigger, TriggerTargetType, TriggerWhen } from './triggerCatalog';
 import { getEventById } from './catalog';
+import { EventConditionContext, getEventWeight, meetsEventConditions, pickWeighted } from './conditions';
 
 export interface TriggerState {
   counts: Record<string, number>;
@@ -26,7 +27,8 @@ function shouldTrigger(
 
   if (trigger.cooldownDays !== undefined) {
     const lastDay = state.lastTriggeredDay[trigger.id];
-    if (lastDay !== undefined && dayIndex - lastDay < trigger.cooldownDays) {
+    // A day later than today was recorded by older saves, which counted hours
+    if (lastDay !== undefined && lastDay <= dayIndex && dayIndex - lastDay < trigger.cooldownDays) {
       return false;
     }
   }
@@ -40,30 +42,44 @@ function shouldTrigger(
   return true;
 }
 
+/**
+ * Every trigger for this moment that passes its nth/cooldown/chance checks and
+ * whose event's conditions hold is eligible; one is picked by weight. A
+ * trigger tied to this count (`nth`) will never be eligible again, so those
+ * are picked from first. Without a condition context, event conditions are
+ * not checked.
+ */
 export function evaluateTriggers(params: {
   when: TriggerWhen;
   targetType: TriggerTargetType;
   targetId: string;
   dayIndex: number;
   state: TriggerState;
+  conditions?: EventConditionContext;
 }): EventDefinition | null {
-  const { when, targetType, targetId, dayIndex, state } = params;
+  const { when, targetType, targetId, dayIndex, state, conditions } = params;
   const countKey = `${when}:${targetType}:${targetId}`;
   const nextCount = (state.counts[countKey] ?? 0) + 1;
   state.counts[countKey] = nextCount;
 
-  const candidates = EVENT_TRIGGERS.filter(trigger =>
-    trigger.when === when &&
-    trigger.targetType === targetType &&
-    trigger.targetId === targetId
-  );
+  const eligible = EVENT_TRIGGERS
+    .filter(trigger =>
+      trigger.when === when &&
+      trigger.targetType === targetType &&
+      trigger.targetId === targetId
+    )
+    .filter(trigger => shouldTrigger(trigger, dayIndex, nextCount, state))
+    .map(trigger => ({ trigger, def: getEventById(trigger.eventId) }))
+    .filter((entry): entry is { trigger: EventTrigger; def: EventDefinition } => (
+      !!entry.def && (!conditions || meetsEventConditions(entry.def.conditions, conditions))
+    ));
 
-  for (const trigger of candidates) {
-    if (!shouldTrigger(trigger, dayIndex, nextCount, state)) continue;
-    state.lastTriggeredDay[trigger.id] = dayIndex;
-    const def = getEventById(trigger.eventId);
-    if (def) return def;
-  }
+  const counted = eligible.filter(entry => entry.trigger.nth !== undefined);
+  const pool = counted.length > 0 ? counted : eligible;
+  const roll = seededRandom(hashString(`${countKey}:${dayIndex}:${nextCount}:pick`));
+  const chosen = pickWeighted(pool, entry => entry.trigger.weight ?? getEventWeight(entry.def), roll);
+  if (!chosen) return null;
 
-  return null;
+  state.lastTriggeredDay[chosen.trigger.id] = dayIndex;
+  return chosen.def;
 }
@@ -0,0 +1,60 @@
+/**
+ * World Trigger Points
+ *
+ * The moments besides entering places and meeting people that can fire
+ * triggers: the player's symptoms worsening, a neighbour or a whole household
+ * dying, the weather turning, the call to prayer, picking something up or
+ * stealing it, and the city's dead passing a milestone. Helpers here decide
+ * when such a moment has happened; hooks/useWorldEventTriggers.ts routes them
+ * through tryTriggerEvent.
+ */
+
+/** Symptoms usePlagueMonitor announces when they pass its threshold */
+export type PlagueSymptom = 'fever' | 'buboes' | 'coughingBlood' | 'skinBleeding' | 'delirium' | 'gangrene';
+export const PLAGUE_SYMPTOMS: PlagueSymptom[] = ['fever', 'buboes', 'coughingBlood', 'skinBleeding', 'delirium', 'gangrene'];
+
+export type PrayerName = 'fajr' | 'dhuhr' | 'asr' | 'maghrib' | 'isha';
+
+// The hours the adhan sounds in components/audio/layers/SacredLayer.ts
+export const PRAYER_HOURS: Record<PrayerName, number> = {
+  fajr: 5.5,
+  dhuhr: 12,
+  asr: 15.5,
+  maghrib: 18.5,
+  isha: 20
+};
+
+/** City-wide death counts that fire `deathMilestone` triggers, targeted by their number */
+export const DEATH_MILESTONES = [10, 50, 100, 250, 500, 1000, 2500, 5000];
+
+/**
+ * Minimum sim hours between two events from the same kind of moment, on top
+ * of each trigger's own cooldown; deaths come in waves and would otherwise
+ * stack one event on another.
+ */
+export const WORLD_TRIGGER_COOLDOWN_HOURS = {
+  plagueSymptom: 2,
+  npcDeath: 6,
+  householdDeath: 12,
+  weatherChange: 4,
+  prayerTime: 0,
+  itemPickup: 1,
+  itemTheft: 0,
+  deathMilestone: 0
+};
+
+// Did the clock pass `hour` going from `from` to `to`? Handles the wrap past midnight.
+const passedHour = (from: number, to: number, hour: number) => (
+  from <= to ? hour > from && hour <= to : hour > from || hour <= to
+);
+
+/** Prayers whose hour fell between two readings of the time of day */
+export const getPrayersBetween = (fromHour: number, toHour: number): PrayerName[] => {
+  if (fromHour === toHour) return [];
+  return (Object.keys(PRAYER_HOURS) as PrayerName[]).filter(name => passedHour(fromHour, toHour, PRAYER_HOURS[name]));
+};
+
+/** Milestones reached going from one death count to a higher one */
+export const getDeathMilestonesCrossed = (previous: number, current: number): number[] => (
+  DEATH_MILESTONES.filter(milestone => previous < milestone && current >= milestone)
+);
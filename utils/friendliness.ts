@@ -11,8 +11,11 @@ import {
   PlayerStats,
   SocialClass,
   ConversationMessage,
-  ConversationSummary
+  ConversationSummary,
+  NpcRelationship
 } from '../types';
+import { getRelationshipFriendlinessModifier } from './relationships';
+import { IMPACT_RULES, matchesImpactRule, normalizeForLexicon } from './impactLexicon';
 
 // Friendliness levels for greeting selection
 export type FriendlinessLevel = 'friendly' | 'neutral' | 'unfriendly';
@@ -36,7 +39,8 @@ const clamp = (value: number, min: number, max: number): number =>
 export function calculateEffectiveFriendliness(
   npc: NPCStats,
   player: PlayerStats,
-  conversationHistory?: ConversationSummary[]
+  conversationHistory?: ConversationSummary[],
+  relationship?: NpcRelationship | null
 ): number {
   // Base: NPC's innate disposition (0-100)
   let friendliness = npc.disposition;
@@ -72,8 +76,12 @@ export function calculateEffectiveFriendliness(
     friendliness += classGap * 3; // -3 to -9
   }
 
-  // Conversation history modifier (-30 to +20)
-  if (conversationHistory && conversationHistory.length > 0) {
+  // Relationship modifier (-40 to +25); its trust already folds in past
+  // conversations, so the session history only counts for NPCs without one
+  if (relationship) {
+    friendliness += getRelationshipFriendlinessModifier(relationship);
+  } else if (conversationHistory && conversationHistory.length > 0) {
+    // Conversation history modifier (-30 to +20)
     const historyMod = getConversationHistoryModifier(conversationHistory);
     friendliness += historyMod;
   }
@@ -137,8 +145,18 @@ export interface ConversationImpact {
   offenseLevel: number;       // 0-100 offense/insult signal from player messages
 }
 
+const sentimentFor = (friendlinessChange: number): ConversationImpact['sentiment'] => {
+  if (friendlinessChange >= 5) return 'positive';
+  if (friendlinessChange <= -5) return 'negative';
+  return 'neutral';
+};
+
+const NEUTRAL_IMPACT: ConversationImpact = { friendlinessChange: 0, panicChange: 0, sentiment: 'neutral', threatLevel: 0, offenseLevel: 0 };
+
 /**
- * Analyze player messages to determine conversation impact
+ * Analyze player messages to determine conversation impact.
+ * Keyword scoring over the impact lexicon (English plus transliterated Arabic,
+ * Armenian, Hebrew and Greek); the offline fallback for the impact analyzers.
  */
 export function analyzeConversationImpact(
   messages: ConversationMessage[]
@@ -146,7 +164,7 @@ export function analyzeConversationImpact(
   const playerMessages = messages.filter(m => m.role === 'player');
 
   if (playerMessages.length === 0) {
-    return { friendlinessChange: 0, panicChange: 0, sentiment: 'neutral', threatLevel: 0, offenseLevel: 0 };
+    return { ...NEUTRAL_IMPACT };
   }
 
   let friendlinessDelta = 0;
@@ -155,97 +173,28 @@ export function analyzeConversationImpact(
   let offenseLevel = 0;
 
   for (const msg of playerMessages) {
-    const text = msg.content.toLowerCase();
-    const words = text.split(/\s+/);
-
-    // === THREATENING/SCARY LANGUAGE ===
-
-    // Extreme threats (major panic, big friendliness drop)
-    if (/you will die|going to die|death comes for you|plague will take you|curse you/.test(text)) {
-      panicDelta += 20;
-      friendlinessDelta -= 15;
-      threatLevel += 30;
-    }
-    if (/i('?| )?ll kill you|i will kill you|kill you/.test(text)) {
-      panicDelta += 25;
-      friendlinessDelta -= 20;
-      threatLevel += 60;
-    }
-    // Death/plague mentions (moderate panic)
-    else if (/\b(die|dying|death|plague|pestilence|curse|damned|doom)\b/.test(text)) {
-      panicDelta += 8;
-      friendlinessDelta -= 5;
-      threatLevel += 10;
-    }
-
-    // Mentions of sickness nearby
-    if (/sick|infected|ill|fever|buboes|black death/.test(text)) {
-      panicDelta += 5;
-    }
-
-    // Direct threats or demands
-    if (/give me your money|hand over|pay me now|i will hurt you|or else|i will take it/.test(text)) {
-      threatLevel += 35;
-      friendlinessDelta -= 10;
-    }
-
-    if (/\b(rob|steal|threaten|harm|kill|stab)\b/.test(text)) {
-      threatLevel += 20;
-      friendlinessDelta -= 8;
+    const text = normalizeForLexicon(msg.content);
+    const words = msg.content.split(/\s+/);
+
+    const matched = new Set<string>();
+    for (const rule of IMPACT_RULES) {
+      if (rule.unless && matched.has(rule.unless)) continue;
+      if (!matchesImpactRule(rule, text)) continue;
+      matched.add(rule.id);
+      friendlinessDelta += rule.friendliness ?? 0;
+      panicDelta += rule.panic ?? 0;
+      threatLevel += rule.threat ?? 0;
+      offenseLevel += rule.offense ?? 0;
     }
 
     // Shouting (ALL CAPS detection)
-    const capsWords = words.filter(w => w.length > 2 && w === w.toUpperCase());
+    const capsWords = words.filter(w => w.length > 2 && w === w.toUpperCase() && w !== w.toLowerCase());
     if (capsWords.length >= 2) {
       panicDelta += 3;
       friendlinessDelta -= 3;
       threatLevel += 5;
     }
 
-    // === AGGRESSIVE/INSULTING LANGUAGE ===
-
-    if (/\b(fool|idiot|stupid|worthless|scum|pig|dog|filth|wretch)\b/.test(text)) {
-      friendlinessDelta -= 10;
-      offenseLevel += 20;
-    }
-    if (/get out|go away|leave me|shut up|be silent/.test(text)) {
-      friendlinessDelta -= 6;
-      offenseLevel += 10;
-    }
-    if (/\b(hate|despise|loathe)\b/.test(text)) {
-      friendlinessDelta -= 8;
-      offenseLevel += 12;
-    }
-
-    // === POSITIVE/KIND LANGUAGE ===
-
-    // Blessings and well-wishes
-    if (/\b(bless|blessing|peace be|god protect|allah protect|safe journey)\b/.test(text)) {
-      friendlinessDelta += 4;
-      panicDelta -= 2;
-    }
-
-    // Friendly terms
-    if (/\b(friend|brother|sister|neighbor|kind|thank|grateful)\b/.test(text)) {
-      friendlinessDelta += 3;
-    }
-
-    // Offers of help
-    if (/help you|assist you|protect you|warn you|save you/.test(text)) {
-      friendlinessDelta += 5;
-      panicDelta -= 3;
-    }
-
-    // Gifts/trade (positive commercial interaction)
-    if (/\b(gift|offer|trade|buy|purchase|coin|pay)\b/.test(text)) {
-      friendlinessDelta += 2;
-    }
-
-    // Compliments
-    if (/\b(fine|excellent|beautiful|wonderful|wise|skilled)\b/.test(text)) {
-      friendlinessDelta += 2;
-    }
-
     // === NEUTRAL/INFORMATIONAL ===
 
     // Questions are generally neutral
@@ -255,28 +204,43 @@ export function analyzeConversationImpact(
     }
   }
 
-  // Clamp values
-  friendlinessDelta = clamp(Math.round(friendlinessDelta), -30, 15);
-  panicDelta = clamp(Math.round(panicDelta), -10, 40);
-  threatLevel = clamp(Math.round(threatLevel), 0, 100);
-  offenseLevel = clamp(Math.round(offenseLevel), 0, 100);
-
-  // Determine overall sentiment
-  let sentiment: 'positive' | 'neutral' | 'negative';
-  if (friendlinessDelta >= 5) {
-    sentiment = 'positive';
-  } else if (friendlinessDelta <= -5) {
-    sentiment = 'negative';
-  } else {
-    sentiment = 'neutral';
-  }
-
-  return {
+  return normalizeConversationImpact({
     friendlinessChange: friendlinessDelta,
     panicChange: panicDelta,
-    sentiment,
     threatLevel,
     offenseLevel
+  }) ?? { ...NEUTRAL_IMPACT };
+}
+
+/**
+ * Validate an impact from an untrusted source (a model's JSON reply):
+ * numbers are rounded and clamped to the ranges above, and sentiment is
+ * derived from the friendliness change when missing or unrecognized.
+ * Returns null if any of the four numbers is missing.
+ */
+export function normalizeConversationImpact(raw: unknown): ConversationImpact | null {
+  if (!raw || typeof raw !== 'object') return null;
+  const record = raw as Record<string, unknown>;
+  const read = (value: unknown) => {
+    const num = typeof value === 'string' ? Number(value) : value;
+    return typeof num === 'number' && Number.isFinite(num) ? num : null;
+  };
+  const friendlinessChange = read(record.friendlinessChange);
+  const panicChange = read(record.panicChange);
+  const threatLevel = read(record.threatLevel);
+  const offenseLevel = read(record.offenseLevel);
+  if (friendlinessChange === null || panicChange === null || threatLevel === null || offenseLevel === null) return null;
+
+  const friendliness = clamp(Math.round(friendlinessChange), -30, 15);
+  const sentiment = record.sentiment === 'positive' || record.sentiment === 'neutral' || record.sentiment === 'negative'
+    ? record.sentiment
+    : sentimentFor(friendliness);
+  return {
+    friendlinessChange: friendliness,
+    panicChange: clamp(Math.round(panicChange), -10, 40),
+    sentiment,
+    threatLevel: clamp(Math.round(threatLevel), 0, 100),
+    offenseLevel: clamp(Math.round(offenseLevel), 0, 100)
   };
 }
 
@@ -0,0 +1,90 @@
+import { describe, expect, it } from 'vitest';
+import { MerchantType, NpcRelationship, PlayerStats } from '../types';
+import { getBuyBackCeiling, getHaggleImpact, getHaggleTerms, makeHaggleOffer, startHaggle } from './haggling';
+import { createMarketState, getBuyPrice, getSellPrice } from './market';
+import { generateMerchantNPC } from './merchantGeneration';
+import { generatePlayerStats } from './procedural';
+
+const market = createMarketState();
+
+const makePlayer = (seed: number, overrides: Partial<PlayerStats> = {}): PlayerStats => ({
+  ...generatePlayerStats(seed),
+  currency: 100,
+  inventory: [],
+  maxInventorySlots: 20,
+  ...overrides
+} as PlayerStats);
+
+const confidant = (npcId: string): NpcRelationship => ({
+  npcId,
+  npcName: 'Friend',
+  npcProfession: 'Merchant',
+  trust: 100,
+  conversations: 40,
+  firstMetSimTime: 0,
+  lastSeenSimTime: 0,
+  memories: [],
+  debts: [],
+  favors: [],
+  grudges: [],
+  promises: [],
+  facts: [],
+  threats: { count: 0, lastSimTime: 0 }
+});
+
+describe('buying and selling back', () => {
+  it('never makes money, however well the player haggles', () => {
+    const types = Object.values(MerchantType);
+    for (let seed = 1; seed <= 40; seed++) {
+      const merchant = generateMerchantNPC(`stall-${seed}`, 'STALL', types[seed % types.length], [0, 0, 0], seed * 97, 0);
+      merchant.stats.panicLevel = seed % 2 === 0 ? 100 : 0;
+      const player = makePlayer(seed, seed % 3 === 0 ? { reputation: 100, charisma: 20 } : {});
+      const relationship = seed % 4 === 0 ? confidant(merchant.stats.id) : null;
+
+      for (const item of merchant.inventory.items) {
+        const askPrice = getBuyPrice(market, item, merchant.haggleModifier);
+        const lowestAsk = getHaggleTerms(merchant, player, relationship, askPrice, 'buy').limitPrice;
+
+        const offerPrice = Math.min(getSellPrice(market, item), getBuyBackCeiling(merchant, player, relationship, askPrice));
+        const sellTerms = getHaggleTerms(merchant, player, relationship, offerPrice, 'sell', askPrice);
+        const session = startHaggle(item.id, item.name, 'sell', offerPrice, sellTerms);
+        const highestBid = Math.max(session.openingPrice, sellTerms.limitPrice);
+
+        expect(offerPrice, item.name).toBeLessThan(lowestAsk);
+        expect(highestBid, item.name).toBeLessThan(lowestAsk);
+      }
+    }
+  });
+
+  it('settles a sell haggle no higher than the ceiling', () => {
+    const merchant = generateMerchantNPC('stall-x', 'STALL', MerchantType.TRADER, [0, 0, 0], 1234, 0);
+    const player = makePlayer(7, { reputation: 100, charisma: 20 });
+    const item = merchant.inventory.items[0];
+    const askPrice = getBuyPrice(market, item, merchant.haggleModifier);
+    const ceiling = getBuyBackCeiling(merchant, player, null, askPrice);
+    const listPrice = getSellPrice(market, item);
+    let session = startHaggle(item.id, item.name, 'sell', listPrice, getHaggleTerms(merchant, player, null, listPrice, 'sell', askPrice));
+    while (session.status === 'open') session = makeHaggleOffer(session, Math.max(session.currentPrice, ceiling));
+    if (session.agreedPrice !== null) expect(session.agreedPrice).toBeLessThanOrEqual(ceiling);
+  });
+});
+
+describe('getHaggleImpact', () => {
+  const outcome = { side: 'buy' as const, itemName: 'Hemp Rope', openingPrice: 10, agreedPrice: 8, offers: 2, insults: 0, status: 'agreed' as const };
+
+  it('earns respect for a bargain that moved the price', () => {
+    expect(getHaggleImpact(outcome).reputationDelta).toBe(1);
+  });
+
+  it('earns none for a deal at the opening price', () => {
+    expect(getHaggleImpact({ ...outcome, agreedPrice: 10 }).reputationDelta).toBe(0);
+  });
+
+  it('earns none from a merchant who already granted it today', () => {
+    expect(getHaggleImpact(outcome, true).reputationDelta).toBe(0);
+  });
+
+  it('still costs reputation for insults', () => {
+    expect(getHaggleImpact({ ...outcome, insults: 2 }, true).reputationDelta).toBe(-2);
+  });
+});
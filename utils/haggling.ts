@@ -0,0 +1,290 @@
+/**
+ * Haggling
+ *
+ * Bargaining over one item in the merchant modal. When the player opens a
+ * haggle the merchant privately settles how far they will bend, judged from
+ * their haggleModifier, how warmly they regard the player
+ * (calculateEffectiveFriendliness, which already weighs charisma, shared faith
+ * and origin, past dealings and panic), the player's reputation and how
+ * frightened they are. Each offer is answered with a counter until the
+ * merchant's patience runs out and they name a final price; an offer far
+ * beneath their limit is an insult and costs patience twice over.
+ *
+ * The finished haggle becomes a ConversationImpact, so it moves disposition
+ * and trust the way a conversation does (see handleHaggleResult in App).
+ */
+
+import { ConversationSummary, MerchantNPC, NpcRelationship, PlayerStats } from '../types';
+import { ConversationImpact, calculateEffectiveFriendliness } from './friendliness';
+import { seededRandom } from './procedural';
+
+/** 'buy': the player buys from the merchant; 'sell': the merchant buys from the player */
+export type HaggleSide = 'buy' | 'sell';
+export type HaggleStatus = 'open' | 'agreed' | 'walkedAway';
+
+export interface HaggleTerms {
+  /** The merchant's worst price: lowest ask when selling to the player, highest bid when buying */
+  limitPrice: number;
+  /** Counters the merchant makes before naming a final price */
+  patience: number;
+  /** How far each counter moves toward the player's offer, 0-1 */
+  concession: number;
+}
+
+export interface HaggleLine {
+  speaker: 'player' | 'merchant';
+  text: string;
+}
+
+export interface HaggleSession {
+  /** Merchant stock id when buying, player inventory id when selling */
+  itemId: string;
+  itemName: string;
+  side: HaggleSide;
+  terms: HaggleTerms;
+  openingPrice: number;
+  /** What the merchant currently asks (or bids) */
+  currentPrice: number;
+  patienceLeft: number;
+  offers: number;
+  insults: number;
+  status: HaggleStatus;
+  /** Set once agreed */
+  agreedPrice: number | null;
+  lines: HaggleLine[];
+}
+
+export type HaggleOutcome = Pick<HaggleSession, 'side' | 'itemName' | 'openingPrice' | 'agreedPrice' | 'offers' | 'insults' | 'status'>;
+
+// An offer this far past the merchant's limit is taken as an insult
+const INSULT_SHARE = 0.6;
+
+const clamp = (value: number, min: number, max: number) => Math.min(max, Math.max(min, value));
+
+// Share of the list price the merchant will give up
+const getGive = (merchant: MerchantNPC, player: PlayerStats, friendliness: number) => clamp(
+  0.08
+    + (friendliness - 50) / 250
+    + (player.reputation - 50) / 500
+    + (player.charisma - 5) / 100
+    + (1.2 - merchant.haggleModifier) / 2
+    // A frightened merchant wants coin in hand more than a good price
+    + merchant.stats.panicLevel / 1000,
+  0.02,
+  0.45
+);
+
+const getLowestAsk = (askPrice: number, give: number) => Math.max(1, Math.round(askPrice * (1 - give)));
+
+/**
+ * The most the merchant will pay for an item they sell at `askPrice`: always
+ * below the lowest price they would take for it, so nothing bought from a
+ * merchant can be sold straight back to them at a profit.
+ */
+export const getBuyBackCeiling = (
+  merchant: MerchantNPC,
+  player: PlayerStats,
+  relationship: NpcRelationship | null | undefined,
+  askPrice: number
+) => {
+  const friendliness = calculateEffectiveFriendliness(merchant.stats, player, undefined, relationship);
+  return getLowestAsk(askPrice, getGive(merchant, player, friendliness)) - 1;
+};
+
+/** `askPrice`, when selling, is the merchant's own price for the item; their bid stays under getBuyBackCeiling */
+export const getHaggleTerms = (
+  merchant: MerchantNPC,
+  player: PlayerStats,
+  relationship: NpcRelationship | null | undefined,
+  listPrice: number,
+  side: HaggleSide,
+  askPrice?: number
+): HaggleTerms => {
+  const friendliness = calculateEffectiveFriendliness(merchant.stats, player, undefined, relationship);
+  const panic = merchant.stats.panicLevel;
+  const give = getGive(merchant, player, friendliness);
+  const ceiling = askPrice === undefined ? Infinity : getLowestAsk(askPrice, give) - 1;
+  const limitPrice = side === 'buy'
+    ? getLowestAsk(listPrice, give)
+    : Math.max(0, Math.min(ceiling, Math.max(listPrice, Math.round(listPrice * (1 + give)))));
+  return {
+    limitPrice,
+    patience: Math.round(clamp(1 + friendliness / 30 - panic / 50, 1, 5)),
+    concession: clamp(0.3 + friendliness / 250, 0.25, 0.7)
+  };
+};
+
+const pick = (lines: string[], seed: number) => lines[Math.floor(seededRandom(seed) * lines.length)];
+
+const COUNTER_LINES = [
+  'You wound me. {price}, and only because the day is slow.',
+  'For you, {price}. My children must eat too.',
+  'Ah, no, no. {price} is the best I can do.',
+  '{price}. Feel the quality, friend.'
+];
+const BID_LINES = [
+  'I could give {price}, no more.',
+  'Who else will buy it in times like these? {price}.',
+  '{price}, and I am doing you a kindness.'
+];
+const FINAL_LINES = [
+  '{price}. That is my last word.',
+  'Enough. {price} or nothing.'
+];
+const INSULT_LINES = [
+  'Do you take me for a fool?',
+  'An insult! Go and haggle with the dogs in the street.',
+  'By God, I have never been so offended at my own stall.'
+];
+const AGREED_LINES = [
+  'Done. May it serve you well.',
+  'Agreed. You drive a hard bargain.',
+  'Very well, very well. Done.'
+];
+const WALK_AWAY_LINES = [
+  'We are finished here.',
+  'Then we have nothing more to say to each other.'
+];
+
+const say = (template: string, price?: number) => template.replace('{price}', `${price} dirham${price === 1 ? '' : 's'}`);
+
+export const startHaggle = (
+  itemId: string,
+  itemName: string,
+  side: HaggleSide,
+  listPrice: number,
+  terms: HaggleTerms
+): HaggleSession => {
+  // A bid never opens above what the merchant would finally pay
+  const openingPrice = side === 'sell' ? Math.min(listPrice, terms.limitPrice) : listPrice;
+  return {
+    itemId,
+    itemName,
+    side,
+    terms,
+    openingPrice,
+    currentPrice: openingPrice,
+    patienceLeft: terms.patience,
+    offers: 0,
+    insults: 0,
+    status: 'open',
+    agreedPrice: null,
+    lines: [{ speaker: 'merchant', text: say(side === 'buy' ? 'I ask {price}.' : 'I would give {price} for it.', openingPrice) }]
+  };
+};
+
+/** The merchant's answer to one offer */
+export const makeHaggleOffer = (session: HaggleSession, offer: number): HaggleSession => {
+  if (session.status !== 'open') return session;
+  const amount = Math.max(0, Math.round(offer));
+  const { side, terms, currentPrice } = session;
+  // True when `price` is at least as good for the merchant as `than`
+  const suits = (price: number, than: number) => (side === 'buy' ? price >= than : price <= than);
+  const seed = session.openingPrice * 31 + session.offers * 7 + amount;
+  const next: HaggleSession = {
+    ...session,
+    offers: session.offers + 1,
+    lines: [...session.lines, { speaker: 'player', text: say('{price}?', amount) }]
+  };
+  const reply = (text: string) => ({ speaker: 'merchant' as const, text });
+  const agree = (price: number): HaggleSession => ({
+    ...next,
+    status: 'agreed',
+    agreedPrice: price,
+    currentPrice: price,
+    lines: [...next.lines, reply(pick(AGREED_LINES, seed))]
+  });
+  const walkAway = (text: string): HaggleSession => ({ ...next, status: 'walkedAway', lines: [...next.lines, reply(text)] });
+  const finalNamed = session.patienceLeft <= 0;
+
+  if (suits(amount, currentPrice)) return agree(currentPrice);
+
+  const insulting = side === 'buy' ? amount < terms.limitPrice * INSULT_SHARE : amount > terms.limitPrice / INSULT_SHARE;
+  if (insulting) {
+    const insults = session.insults + 1;
+    const patienceLeft = session.patienceLeft - 2;
+    const text = pick(INSULT_LINES, seed);
+    if (finalNamed || patienceLeft <= 0) return { ...walkAway(text), insults, patienceLeft };
+    return { ...next, insults, patienceLeft, lines: [...next.lines, reply(text)] };
+  }
+
+  // Bargaining is expected: the first fair offer still draws a counter
+  if (suits(amount, terms.limitPrice) && session.offers > 0) return agree(amount);
+  if (finalNamed) return walkAway(pick(WALK_AWAY_LINES, seed));
+
+  const toward = currentPrice + (amount - currentPrice) * terms.concession;
+  const counter = side === 'buy'
+    ? Math.max(terms.limitPrice, Math.round(toward))
+    : Math.min(terms.limitPrice, Math.round(toward));
+  const patienceLeft = session.patienceLeft - 1;
+  const lines = patienceLeft <= 0 ? FINAL_LINES : side === 'buy' ? COUNTER_LINES : BID_LINES;
+  return { ...next, currentPrice: counter, patienceLeft, lines: [...next.lines, reply(say(pick(lines, seed), counter))] };
+};
+
+/** Taking the merchant's current price ends the haggle */
+export const acceptHagglePrice = (session: HaggleSession): HaggleSession => (
+  session.status === 'open'
+    ? {
+      ...session,
+      status: 'agreed',
+      agreedPrice: session.currentPrice,
+      lines: [...session.lines, { speaker: 'player', text: say('{price}, then.', session.currentPrice) }]
+    }
+    : session
+);
+
+export const toHaggleOutcome = (session: HaggleSession): HaggleOutcome => ({
+  side: session.side,
+  itemName: session.itemName,
+  openingPrice: session.openingPrice,
+  agreedPrice: session.agreedPrice,
+  offers: session.offers,
+  insults: session.insults,
+  status: session.status
+});
+
+/**
+ * What the haggle did to the merchant's regard and the player's name in the
+ * souq: a deal struck after honest bargaining earns a little respect, while
+ * insults and a merchant driven to walk away cost both. Respect comes only
+ * from a deal that moved the price, and once a day from any one merchant
+ * (`respectEarnedToday`).
+ */
+export const getHaggleImpact = (
+  outcome: HaggleOutcome,
+  respectEarnedToday = false
+): { impact: ConversationImpact; reputationDelta: number } => {
+  const bargained = outcome.status === 'agreed' && outcome.offers > 0;
+  const earnedRespect = bargained && outcome.insults === 0 && outcome.agreedPrice !== outcome.openingPrice && !respectEarnedToday;
+  let friendlinessChange = bargained ? 2 : 0;
+  let reputationDelta = earnedRespect ? 1 : 0;
+  friendlinessChange -= outcome.insults * 5;
+  reputationDelta -= outcome.insults;
+  if (outcome.status === 'walkedAway') friendlinessChange -= 3;
+
+  const sentiment: ConversationImpact['sentiment'] = friendlinessChange >= 2 ? 'positive' : friendlinessChange <= -3 ? 'negative' : 'neutral';
+  return {
+    impact: {
+      friendlinessChange: clamp(friendlinessChange, -30, 15),
+      panicChange: 0,
+      sentiment,
+      threatLevel: 0,
+      offenseLevel: outcome.insults > 0 ? clamp(40 + outcome.insults * 20, 0, 100) : 0
+    },
+    reputationDelta
+  };
+};
+
+/** The haggle as the merchant will remember it */
+export const summarizeHaggle = (
+  outcome: HaggleOutcome,
+  merchant: MerchantNPC,
+  simTime: number,
+  sentiment: ConversationSummary['sentiment']
+): ConversationSummary => {
+  const price = outcome.side === 'buy' ? 'first asked' : 'first offered';
+  const summary = outcome.status === 'agreed'
+    ? `Haggled with ${merchant.stats.name} over ${outcome.itemName}, settling on ${outcome.agreedPrice} dirhams (${price} ${outcome.openingPrice}).`
+    : `Haggled with ${merchant.stats.name} over ${outcome.itemName} until talks broke down${outcome.insults > 0 ? ' after insulting offers' : ''}.`;
+  return { npcId: merchant.stats.id, simTime, summary, sentiment };
+};
@@ -0,0 +1,64 @@
+/**
+ * Conversation Impact Analyzers
+ *
+ * How a finished conversation is scored is pluggable: the keyword analyzer
+ * reads the impact lexicon locally, and the model analyzer asks /api/impact,
+ * which can catch sarcasm and languages the lexicon misses. Both return the
+ * same ConversationImpact, and the model analyzer falls back to keywords when
+ * the route is slow, down or answers nonsense.
+ */
+
+import { ConversationMessage, NPCStats } from '../types';
+import { analyzeConversationImpact, ConversationImpact, normalizeConversationImpact } from './friendliness';
+import { apiJsonHeaders } from './apiSession';
+
+export interface ImpactAnalyzer {
+  id: 'keywords' | 'llm';
+  analyze: (messages: ConversationMessage[], npc?: NPCStats) => Promise<ConversationImpact>;
+}
+
+// Ending a conversation should never hang on the network
+const LLM_TIMEOUT_MS = 3500;
+
+export const keywordImpactAnalyzer: ImpactAnalyzer = {
+  id: 'keywords',
+  analyze: async messages => analyzeConversationImpact(messages)
+};
+
+export const createLlmImpactAnalyzer = (
+  fallback: ImpactAnalyzer = keywordImpactAnalyzer,
+  timeoutMs = LLM_TIMEOUT_MS
+): ImpactAnalyzer => ({
+  id: 'llm',
+  analyze: async (messages, npc) => {
+    // Nothing the player said; no call worth making
+    if (!messages.some(message => message.role === 'player')) return fallback.analyze(messages, npc);
+
+    const controller = new AbortController();
+    const timer = setTimeout(() => controller.abort(), timeoutMs);
+    try {
+      const response = await fetch('/api/impact', {
+        method: 'POST',
+        headers: apiJsonHeaders(),
+        body: JSON.stringify({
+          messages: messages.filter(message => message.role !== 'system'),
+          npcName: npc?.name,
+          npcProfession: npc?.profession
+        }),
+        signal: controller.signal
+      });
+      if (!response.ok) throw new Error(`Impact API error: ${response.status}`);
+      const data = await response.json();
+      const impact = normalizeConversationImpact(data.impact);
+      if (!impact) throw new Error('Impact API returned no usable impact');
+      return impact;
+    } catch (err) {
+      console.warn('Impact analysis unavailable; scoring with keywords:', err);
+      return fallback.analyze(messages, npc);
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+});
+
+export const defaultImpactAnalyzer: ImpactAnalyzer = createLlmImpactAnalyzer();
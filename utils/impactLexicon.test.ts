@@ -0,0 +1,28 @@
+import { describe, expect, it } from 'vitest';
+import { IMPACT_RULES, matchesImpactRule, normalizeForLexicon } from './impactLexicon';
+
+const matchedRules = (message: string) => IMPACT_RULES
+  .filter(rule => matchesImpactRule(rule, normalizeForLexicon(message)))
+  .map(rule => rule.id);
+
+describe('matchesImpactRule', () => {
+  it('reads transliterated words in each language', () => {
+    expect(matchedRules('ya kalb')).toContain('insult');
+    expect(matchedRules('khoz es')).toContain('insult');
+    expect(matchedRules('ha-dever ba ha-ir')).toContain('death');
+    expect(matchedRules('shalom aleikhem')).toContain('blessing');
+  });
+
+  it('does not mistake everyday Hebrew for Armenian', () => {
+    expect(matchedRules('mah shlomkha')).toEqual([]);
+    expect(matchedRules('yesh esh ba-shuk')).toEqual([]);
+  });
+
+  it('lists no word under two rules', () => {
+    const owners = new Map<string, string>();
+    IMPACT_RULES.forEach(rule => Object.values(rule.transliterations).flat().forEach((word) => {
+      expect(owners.get(word as string) ?? rule.id, word).toBe(rule.id);
+      owners.set(word as string, rule.id);
+    }));
+  });
+});
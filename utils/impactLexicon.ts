@@ -0,0 +1,217 @@
+/**
+ * Conversation Impact Lexicon
+ *
+ * Keyword rules for the offline impact analyzer. Each rule carries its English
+ * pattern plus Latin-letter transliterations of Arabic, Armenian, Hebrew and
+ * Greek, the languages players type in when they answer an NPC in its own
+ * tongue. Transliteration varies, so common spellings are listed side by side.
+ * A word is left out when its spelling is also an everyday word in another of
+ * these languages: Armenian mah "death" is Hebrew "what", esh "donkey" is
+ * Hebrew "fire".
+ */
+
+export type TransliteratedLanguage = 'arabic' | 'armenian' | 'hebrew' | 'greek';
+
+export interface ImpactRule {
+  id: string;
+  friendliness?: number;
+  panic?: number;
+  threat?: number;
+  offense?: number;
+  /** Skip this rule for a message that already matched the named rule */
+  unless?: string;
+  english: RegExp;
+  transliterations: Partial<Record<TransliteratedLanguage, string[]>>;
+}
+
+export const IMPACT_RULES: ImpactRule[] = [
+  // === THREATENING/SCARY LANGUAGE ===
+  {
+    id: 'doom',
+    panic: 20, friendliness: -15, threat: 30,
+    english: /you will die|going to die|death comes for you|plague will take you|curse you/,
+    transliterations: {
+      arabic: ['satamut', 'sa-tamut', 'ha-tamut', 'al-mawt qadim', "la'anak allah", "yil'an", "la'natullah"],
+      armenian: ['pitie mernes', 'kmernes', 'anitsyal es', 'anitsum em kez'],
+      hebrew: ['atah tamut', 'tamut', 'arur atah', 'kelala alekha'],
+      greek: ['tha pethaneis', 'anathema se', 'katara se']
+    }
+  },
+  {
+    id: 'kill',
+    panic: 25, friendliness: -20, threat: 60,
+    english: /i('?| )?ll kill you|i will kill you|kill you/,
+    transliterations: {
+      arabic: ['aqtulak', 'aqtuluk', 'sa-aqtuluk', 'saqtulak', 'bidi aqtulak'],
+      armenian: ['kspanem kez', 'kspanem', 'spanelu em kez'],
+      hebrew: ['eharog otkha', 'eharog otakh', 'ani aharog', 'aharog otkha'],
+      greek: ['tha se skotoso', 'se skotono', 'tha se sfaxo']
+    }
+  },
+  {
+    id: 'death',
+    panic: 8, friendliness: -5, threat: 10,
+    unless: 'kill',
+    english: /\b(die|dying|death|plague|pestilence|curse|damned|doom)\b/,
+    transliterations: {
+      arabic: ['mawt', 'al-mawt', "ta'un", 'taun', "al-ta'un", "waba'", 'waba', "la'na", "mal'un"],
+      armenian: ['zhantakht', 'jhantakht', 'anetsk', 'anitsyal'],
+      hebrew: ['mavet', 'magefa', 'dever', 'klala', 'arur'],
+      greek: ['thanatos', 'loimos', 'panoukla', 'katara', 'kataramenos']
+    }
+  },
+  {
+    id: 'sickness',
+    panic: 5,
+    english: /sick|infected|ill|fever|buboes|black death/,
+    transliterations: {
+      arabic: ['marid', 'marad', 'humma', 'hummah', 'dummal'],
+      armenian: ['hivand', 'hivandutyun', 'jerm', 'tendutyun'],
+      hebrew: ['khole', 'chole', 'machala', 'kadachat'],
+      greek: ['arrostos', 'arrostia', 'pyretos', 'vouvones']
+    }
+  },
+  {
+    id: 'demand',
+    threat: 35, friendliness: -10,
+    english: /give me your money|hand over|pay me now|i will hurt you|or else|i will take it/,
+    transliterations: {
+      arabic: ["a'tini fulusak", "a'tini al-mal", 'hat fulusak', 'wa illa'],
+      armenian: ['tur pogherd', 'tur dramd', 'te voch'],
+      hebrew: ['ten li et ha-kesef', 'ten li kesef', "ve-im lo"],
+      greek: ['dose mou ta lefta', 'fere ta lefta', 'alliws']
+    }
+  },
+  {
+    id: 'violence',
+    threat: 20, friendliness: -8,
+    english: /\b(rob|steal|threaten|harm|kill|stab)\b/,
+    transliterations: {
+      arabic: ['asriq', 'sariq', 'qatl', "adhbah", "at'anuk"],
+      armenian: ['goghanal', 'spanel', 'harvatsel'],
+      hebrew: ['lignov', 'liroach', 'laharog', 'ganav'],
+      greek: ['klevo', 'kleftis', 'skotono', 'machairono']
+    }
+  },
+
+  // === AGGRESSIVE/INSULTING LANGUAGE ===
+  {
+    id: 'insult',
+    friendliness: -10, offense: 20,
+    english: /\b(fool|idiot|stupid|worthless|scum|pig|dog|filth|wretch)\b/,
+    transliterations: {
+      arabic: ['kalb', 'ya kalb', 'ibn al-kalb', 'himar', 'hmar', 'ahmaq', 'ghabi', 'khinzir', 'haywan', 'wasikh'],
+      armenian: ['khoz', 'himar', 'anasun', 'tsakhik'],
+      hebrew: ['tipesh', 'kelev', 'hamor', 'chamor', 'khazir', 'nevela', 'idyot'],
+      greek: ['vlakas', 'moros', 'skylos', 'gaidouri', 'gouruni', 'anoitos']
+    }
+  },
+  {
+    id: 'dismissal',
+    friendliness: -6, offense: 10,
+    english: /get out|go away|leave me|shut up|be silent/,
+    transliterations: {
+      arabic: ['imshi', 'ruh min hon', 'ukhruj', 'uskut', 'ikhras'],
+      armenian: ['gna', 'heratsir', 'lrir', 'dzaynd ktrir'],
+      hebrew: ['lekh mi-po', 'tistalek', 'shtok', 'sheket'],
+      greek: ['fyge', 'sopa', 'skase', 'fyge apo do']
+    }
+  },
+  {
+    id: 'hatred',
+    friendliness: -8, offense: 12,
+    english: /\b(hate|despise|loathe)\b/,
+    transliterations: {
+      arabic: ['akrahak', 'akrahuk', 'bakrahak'],
+      armenian: ['atum em', 'zzvum em'],
+      hebrew: ['soneh otkha', 'ani sone', "ani mit'ab"],
+      greek: ['se miso', 'misos', 'sichainomai']
+    }
+  },
+
+  // === POSITIVE/KIND LANGUAGE ===
+  {
+    id: 'blessing',
+    friendliness: 4, panic: -2,
+    english: /\b(bless|blessing|peace be|god protect|allah protect|safe journey)\b/,
+    transliterations: {
+      arabic: ['salam', 'salaam', 'as-salamu alaykum', 'assalamu alaikum', 'salamu alaykum', 'barak allah', 'baraka', 'allah yahfazak', 'allah yahmik', "ma'a as-salama", 'bismillah', 'mashallah', 'inshallah'],
+      armenian: ['astvats pahi', 'orhnutyun', 'orhnyal', 'khaghaghutyun', 'bari chanaparh', 'barev'],
+      hebrew: ['shalom', 'shalom aleikhem', 'barukh', 'baruch', 'brakha', 'bracha', "barukh ha-shem", "derekh tzlekha"],
+      greek: ['eirene', 'irini', 'evlogia', 'o theos na se fylaei', 'kalo taxidi', 'chaire']
+    }
+  },
+  {
+    id: 'friendly',
+    friendliness: 3,
+    english: /\b(friend|brother|sister|neighbor|kind|thank|grateful)\b/,
+    transliterations: {
+      arabic: ['akhi', 'ukhti', 'sadiq', 'sadiqi', 'habibi', 'shukran', 'jazak allah', 'jari'],
+      armenian: ['yeghbayr', 'yeghbayrs', 'kuyr', 'enker', 'barekam', 'shnorhakalutyun', 'shnorhakal em'],
+      hebrew: ['achi', 'akhi', 'achoti', 'chaver', 'khaver', 'toda', 'todah', 'shachen'],
+      greek: ['adelfe', 'adelfi', 'filos', 'efharisto', 'evcharisto', 'geitonas']
+    }
+  },
+  {
+    id: 'help',
+    friendliness: 5, panic: -3,
+    english: /help you|assist you|protect you|warn you|save you/,
+    transliterations: {
+      arabic: ["asa'iduk", "usa'iduk", "musa'ada", 'ahmik', 'unqidhuk'],
+      armenian: ['ognem kez', 'ognutyun', 'pashtpanem kez'],
+      hebrew: ["la'azor lekha", 'e-ezor lekha', 'ashmor alekha'],
+      greek: ['na se voithiso', 'voitheia', 'tha se prostatepso']
+    }
+  },
+  {
+    id: 'commerce',
+    friendliness: 2,
+    english: /\b(gift|offer|trade|buy|purchase|coin|pay)\b/,
+    transliterations: {
+      arabic: ['hadiya', 'hadiyya', 'ashtari', 'dirham', 'dinar', 'fulus'],
+      armenian: ['nver', 'gnel', 'dramov', 'arevtur'],
+      hebrew: ['matana', 'liknot', 'eknoh', 'kesef', 'sachar'],
+      greek: ['doro', 'agorazo', 'emporio', 'nomisma']
+    }
+  },
+  {
+    id: 'compliment',
+    friendliness: 2,
+    english: /\b(fine|excellent|beautiful|wonderful|wise|skilled)\b/,
+    transliterations: {
+      arabic: ['jamil', 'jamila', 'mumtaz', "ya'tik al-'afiya", 'shatir'],
+      armenian: ['geghetsik', 'imastun', 'hrashali', 'varpet'],
+      hebrew: ['yafe', 'yafa', 'chacham', 'khakham', 'nifla'],
+      greek: ['oraios', 'oraia', 'sofos', 'thavmasios', 'exairetos']
+    }
+  }
+];
+
+const escapeRegex = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// One regex per rule across every transliterated language; built once
+const TRANSLITERATION_PATTERNS = new Map<string, RegExp | null>(
+  IMPACT_RULES.map(rule => {
+    const words = Object.values(rule.transliterations).flat() as string[];
+    return [rule.id, words.length > 0 ? new RegExp(`(^|[^a-z'])(${words.map(escapeRegex).join('|')})(?![a-z])`) : null];
+  })
+);
+
+/**
+ * Lower-case a message and fold transliteration marks (ʿ ʾ ’, macrons,
+ * dots under letters) so "ṭāʿūn" matches the "ta'un" entry.
+ */
+export const normalizeForLexicon = (text: string): string => (
+  text
+    .toLowerCase()
+    .normalize('NFD')
+    .replace(/[̀-ͯ]/g, '')
+    .replace(/[ʿʾ’‘`]/g, "'")
+);
+
+/** Whether a message (already passed through normalizeForLexicon) triggers a rule in any language */
+export const matchesImpactRule = (rule: ImpactRule, normalizedText: string): boolean => {
+  if (rule.english.test(normalizedText)) return true;
+  const transliterated = TRANSLITERATION_PATTERNS.get(rule.id);
+  return transliterated ? transliterated.test(normalizedText) : false;
+};
@@ -0,0 +1,221 @@
+/**
+ * Item Use and Active Effects
+ * Eating, drinking, wearing and burning what the player carries. Consumables
+ * are used up; timed effects run on PlayerStats.activeEffects until they
+ * expire, so a vinegar cloth dries out and incense burns down. Amulets with
+ * no duration are worn until taken off and are not used up.
+ */
+
+import { ActiveItemEffect, ItemEffect, ItemEffectStat, ItemUseVerb, MerchantItem, PlayerStats } from '../types';
+import { getItemDetailsByItemId } from './merchantItems';
+
+type ItemDetails = Pick<MerchantItem, 'name' | 'effects' | 'use'>;
+
+export const ITEM_USE_LABELS: Record<ItemUseVerb, string> = {
+  eat: 'Eat',
+  drink: 'Drink',
+  wear: 'Wear',
+  burn: 'Burn',
+  apply: 'Apply'
+};
+
+const WORN_OUT_PHRASES: Record<ItemUseVerb, string> = {
+  eat: 'has worn off',
+  drink: 'has worn off',
+  wear: 'has worn out',
+  burn: 'has burned down',
+  apply: 'has faded'
+};
+
+const STAT_LABELS: Record<ItemEffectStat, string> = {
+  strength: 'Strength',
+  perceptiveness: 'Perceptiveness',
+  charisma: 'Charisma',
+  piety: 'Piety'
+};
+
+export const getItemUseVerb = (details: ItemDetails | null): ItemUseVerb | null => {
+  if (!details?.effects?.length) return null;
+  if (details.use) return details.use;
+  return details.effects.some(effect => effect.type === 'plagueProtection') ? 'wear' : 'eat';
+};
+
+/** Worn with no duration: stays in the inventory and lasts until taken off. */
+const isEquipEffect = (effect: ItemEffect) => effect.type === 'plagueProtection' && effect.duration === undefined;
+
+export const isItemEquipped = (activeEffects: ActiveItemEffect[] | undefined, itemId: string) => (
+  (activeEffects ?? []).some(effect => effect.itemId === itemId && effect.expiresAt === null)
+);
+
+/** Button label for an inventory item, or null when it has no use. */
+export const getItemUseLabel = (activeEffects: ActiveItemEffect[] | undefined, itemId: string) => {
+  if (isItemEquipped(activeEffects, itemId)) return 'Take off';
+  const verb = getItemUseVerb(getItemDetailsByItemId(itemId));
+  return verb ? ITEM_USE_LABELS[verb] : null;
+};
+
+const shiftStat = (stats: PlayerStats, stat: ItemEffectStat, delta: number): PlayerStats => ({
+  ...stats,
+  [stat]: Math.max(0, stats[stat] + delta)
+});
+
+const statDelta = (effect: Pick<ActiveItemEffect, 'type' | 'value'>) => (
+  effect.type === 'buff' ? effect.value : effect.type === 'debuff' ? -effect.value : 0
+);
+
+/** Undo a running buff or debuff as it ends or is replaced. */
+const endEffect = (stats: PlayerStats, effect: ActiveItemEffect) => (
+  effect.stat && statDelta(effect) !== 0 ? shiftStat(stats, effect.stat, -statDelta(effect)) : stats
+);
+
+const describeEffect = (effect: ItemEffect) => {
+  const over = effect.duration !== undefined ? ` over ${effect.duration} hours` : '';
+  const lasting = effect.duration !== undefined ? ` for ${effect.duration} hours` : ' while worn';
+  switch (effect.type) {
+    case 'heal':
+      return `+${effect.value} health${over}`;
+    case 'plagueProtection':
+      return `${effect.value}% less exposure${lasting}`;
+    default: {
+      const sign = effect.type === 'buff' ? '+' : '-';
+      const stat = effect.stat ? STAT_LABELS[effect.stat] : 'spirits';
+      return `${sign}${effect.value} ${stat}${effect.duration !== undefined ? ` for ${effect.duration} hours` : ''}`;
+    }
+  }
+};
+
+/**
+ * Use an inventory item: eat, drink, apply or burn it (using one up), or put
+ * it on / take it off. Returns the unchanged stats when it cannot be used.
+ */
+export const applyPlayerItem = (
+  playerStats: PlayerStats,
+  inventoryId: string,
+  simTime: number
+): { stats: PlayerStats; used: boolean; message: string } => {
+  const item = playerStats.inventory.find(entry => entry.id === inventoryId && entry.quantity > 0);
+  if (!item) return { stats: playerStats, used: false, message: 'You no longer carry that.' };
+  const details = getItemDetailsByItemId(item.itemId);
+  const verb = getItemUseVerb(details);
+  if (!details?.effects?.length || !verb) {
+    return { stats: playerStats, used: false, message: `The ${details?.name ?? 'item'} has no use here.` };
+  }
+
+  let stats = playerStats;
+  const previous = playerStats.activeEffects ?? [];
+  const mine = previous.filter(effect => effect.itemId === item.itemId);
+
+  if (isItemEquipped(previous, item.itemId)) {
+    stats = mine.reduce(endEffect, stats);
+    return {
+      stats: { ...stats, activeEffects: previous.filter(effect => effect.itemId !== item.itemId) },
+      used: true,
+      message: `You take off the ${details.name}.`
+    };
+  }
+
+  // Using the same thing again starts its effects afresh rather than stacking them
+  stats = mine.reduce(endEffect, stats);
+  const activeEffects = previous.filter(effect => effect.itemId !== item.itemId);
+
+  details.effects.forEach((effect, index) => {
+    const timed = effect.duration !== undefined && effect.duration > 0;
+    if (effect.type === 'heal' && !timed) {
+      stats = { ...stats, health: Math.min(100, stats.health + effect.value) };
+      return;
+    }
+    if (effect.stat && statDelta(effect) !== 0) {
+      stats = shiftStat(stats, effect.stat, statDelta(effect));
+    }
+    if (!timed && !isEquipEffect(effect)) return;
+    activeEffects.push({
+      id: `${item.itemId}:${index}`,
+      itemId: item.itemId,
+      itemName: details.name,
+      use: verb,
+      type: effect.type,
+      value: effect.value,
+      stat: effect.stat,
+      startedAt: simTime,
+      expiresAt: timed ? simTime + effect.duration! : null,
+      lastTickAt: simTime
+    });
+  });
+
+  const equip = details.effects.some(isEquipEffect);
+  const inventory = equip
+    ? stats.inventory
+    : stats.inventory
+      .map(entry => (entry.id === item.id ? { ...entry, quantity: entry.quantity - 1 } : entry))
+      .filter(entry => entry.quantity > 0);
+
+  const verbText = verb === 'wear' ? 'put on' : verb;
+  return {
+    stats: { ...stats, inventory, activeEffects },
+    used: true,
+    message: `You ${verbText} the ${details.name}: ${details.effects.map(describeEffect).join(', ')}.`
+  };
+};
+
+/**
+ * Advance running effects to `simTime`: credit healing spread over a
+ * duration, end what has expired, and drop worn items no longer carried.
+ */
+export const tickItemEffects = (playerStats: PlayerStats, simTime: number): PlayerStats => {
+  const active = playerStats.activeEffects;
+  if (!active || active.length === 0) return playerStats;
+
+  let stats = playerStats;
+  let changed = false;
+  const next: ActiveItemEffect[] = [];
+
+  active.forEach(effect => {
+    if (effect.expiresAt === null) {
+      if (stats.inventory.some(entry => entry.itemId === effect.itemId && entry.quantity > 0)) {
+        next.push(effect);
+      } else {
+        changed = true;
+      }
+      return;
+    }
+
+    let current = effect;
+    if (effect.type === 'heal' && simTime > effect.lastTickAt) {
+      const until = Math.min(simTime, effect.expiresAt);
+      const span = effect.expiresAt - effect.startedAt;
+      // Whole points only, so health stays an integer
+      const creditedBy = (time: number) => (span > 0 ? Math.floor(effect.value * (time - effect.startedAt) / span) : 0);
+      const credit = creditedBy(until) - creditedBy(effect.lastTickAt);
+      if (credit > 0) {
+        stats = { ...stats, health: Math.min(100, stats.health + credit) };
+      }
+      current = { ...effect, lastTickAt: until };
+      changed = true;
+    }
+
+    if (simTime >= effect.expiresAt) {
+      stats = endEffect(stats, current);
+      changed = true;
+    } else {
+      next.push(current);
+    }
+  });
+
+  return changed ? { ...stats, activeEffects: next } : playerStats;
+};
+
+/** Toast text for timed effects that ran out between two snapshots, one per item. */
+export const getExpiredEffectMessages = (
+  before: ActiveItemEffect[] | undefined,
+  after: ActiveItemEffect[] | undefined,
+  simTime: number
+) => {
+  const remaining = new Set((after ?? []).map(effect => effect.id));
+  const messages = new Map<string, string>();
+  (before ?? []).forEach(effect => {
+    if (remaining.has(effect.id) || effect.expiresAt === null || effect.expiresAt > simTime) return;
+    if (effect.type === 'heal') return;
+    messages.set(effect.itemId, `Your ${effect.itemName} ${WORN_OUT_PHRASES[effect.use]}.`);
+  });
+  return Array.from(messages.values());
+};
@@ -0,0 +1,274 @@
+/**
+ * City Market
+ *
+ * One price per kind of good for the whole city, moved by the epidemic. As
+ * more of Damascus sickens, demand for grain, medicine, shrouds and charms
+ * against the corrupted air climbs while luxuries go begging. Merchants dying
+ * and caravans turning back at the gates thin the supply; caravans that do
+ * arrive refill it. Buying from a stall draws supply down and selling adds to
+ * it, and stalls restock only as far as supply allows (see
+ * restockMerchantInventory in merchantGeneration.ts).
+ *
+ * The market moves on each epidemic sample. A category's price is its demand
+ * over its supply, both 1 in an ordinary year, and multiplies basePrice.
+ */
+
+import {
+  GoodCategory,
+  MarketCategoryState,
+  MarketNews,
+  MarketState,
+  MerchantItem,
+  MerchantType,
+  SocialClass
+} from '../types';
+import { EpidemicSample } from './epidemic/analytics';
+import { getEpidemicSeverity } from './events/conditions';
+import { seededRandom } from './procedural';
+
+export const GOOD_CATEGORIES: GoodCategory[] = ['staples', 'medicine', 'funerary', 'protection', 'cloth', 'wares', 'luxury'];
+
+export const GOOD_CATEGORY_LABELS: Record<GoodCategory, string> = {
+  staples: 'Grain & Staples',
+  medicine: 'Medicines',
+  funerary: 'Shrouds & Burial',
+  protection: 'Charms & Fumigants',
+  cloth: 'Cloth',
+  wares: 'Household Wares',
+  luxury: 'Luxuries'
+};
+
+interface CategoryProfile {
+  /** Demand at the height of the plague, against 1 in an ordinary year */
+  demandAtPeak: number;
+  /** Supply at the height of the plague before merchant deaths are counted */
+  supplyAtPeak: number;
+  /** Units traded that move supply by a whole ordinary year's worth */
+  depth: number;
+  /** Relative chance a caravan carries this good */
+  caravanWeight: number;
+}
+
+const CATEGORY_PROFILES: Record<GoodCategory, CategoryProfile> = {
+  staples: { demandAtPeak: 1.3, supplyAtPeak: 0.7, depth: 200, caravanWeight: 4 },
+  medicine: { demandAtPeak: 2.5, supplyAtPeak: 0.75, depth: 60, caravanWeight: 2 },
+  funerary: { demandAtPeak: 3, supplyAtPeak: 0.9, depth: 80, caravanWeight: 1 },
+  protection: { demandAtPeak: 2.5, supplyAtPeak: 0.8, depth: 80, caravanWeight: 1 },
+  cloth: { demandAtPeak: 0.9, supplyAtPeak: 0.8, depth: 120, caravanWeight: 3 },
+  wares: { demandAtPeak: 0.7, supplyAtPeak: 0.9, depth: 150, caravanWeight: 2 },
+  // The households of the dead sell off what they owned
+  luxury: { demandAtPeak: 0.35, supplyAtPeak: 1.3, depth: 40, caravanWeight: 2 }
+};
+
+// Goods whose use in a plague year decides their market, whatever stall sells them
+const CATEGORY_BY_NAME: Record<string, GoodCategory> = {
+  'Linen Burial Shroud': 'funerary',
+  'Aleppo Soap': 'funerary',
+  'Candles (Set of 6)': 'funerary',
+  'Cumin': 'staples',
+  'Coriander Seeds': 'staples',
+  'Black Pepper': 'staples',
+  'Sesame Oil': 'staples',
+  'Olive Oil (Amphora)': 'staples',
+  'Herb Bundle': 'medicine',
+  'Bezoar Stone': 'medicine',
+  'Desert Truffles': 'luxury'
+};
+
+/** Severity (see getEpidemicSeverity) at which the plague's pull on the market is at its height */
+const PEAK_SEVERITY = 40;
+/** Merchant deaths cut supply by this many times their share of the merchant class */
+const MERCHANT_LOSS_WEIGHT = 1;
+const DEMAND_TIME_CONSTANT_HOURS = 12;
+const SUPPLY_TIME_CONSTANT_HOURS = 36;
+const SUPPLY_RANGE: [number, number] = [0.15, 3];
+const PRICE_RANGE: [number, number] = [0.3, 5];
+// A long absence (travel, a loaded save) moves the market at most this far at once
+const MAX_STEP_HOURS = 48;
+
+const CARAVAN_INTERVAL_HOURS: [number, number] = [36, 96];
+const CARAVAN_SUPPLY_BOOST = 0.35;
+const CARAVAN_ORIGINS = ['Aleppo', 'Baghdad', 'Cairo', 'Hebron', 'Beirut', 'Homs', 'the Hejaz'];
+
+export const MARKET_HISTORY_HOURS = 6;
+export const MAX_MARKET_HISTORY = 120;
+export const MAX_MARKET_NEWS = 12;
+
+const SHORTAGE_PRICE = 2;
+const GLUT_PRICE = 0.6;
+
+/** Share of a price a merchant pays when buying from the player */
+export const MARKET_SELL_SHARE = 0.7;
+
+/** What the market needs to know about an item */
+export type MarketGood = Pick<MerchantItem, 'name' | 'category' | 'rarity' | 'effects'>;
+
+export interface MarketConditions {
+  simTime: number;
+  /** 0-100, see getEpidemicSeverity */
+  severity: number;
+  /** Share of the merchant class dead, 0-1 */
+  merchantLoss: number;
+}
+
+const clamp = (value: number, [min, max]: [number, number]) => Math.max(min, Math.min(max, value));
+const round2 = (value: number) => Math.round(value * 100) / 100;
+
+export const getGoodCategory = (item: MarketGood): GoodCategory => {
+  const named = CATEGORY_BY_NAME[item.name];
+  if (named) return named;
+  if (item.effects?.some(effect => effect.type === 'plagueProtection')) return 'protection';
+  if (item.effects?.some(effect => effect.type === 'heal')) return item.category === MerchantType.TRADER ? 'staples' : 'medicine';
+  if (item.rarity !== 'common') return 'luxury';
+  return item.category === MerchantType.TEXTILE ? 'cloth' : 'wares';
+};
+
+const priceOf = (category: Pick<MarketCategoryState, 'supply' | 'demand'>) => (
+  round2(clamp(category.demand / Math.max(SUPPLY_RANGE[0], category.supply), PRICE_RANGE))
+);
+
+export const createMarketState = (): MarketState => ({
+  categories: Object.fromEntries(
+    GOOD_CATEGORIES.map(category => [category, { supply: 1, demand: 1, price: 1 }])
+  ) as Record<GoodCategory, MarketCategoryState>,
+  history: [],
+  news: [],
+  lastUpdate: null,
+  nextCaravanAt: 0
+});
+
+export const getMarketConditions = (sample: EpidemicSample): MarketConditions => {
+  const merchants = sample.bySocialClass[SocialClass.MERCHANT];
+  const merchantTotal = merchants
+    ? merchants.healthy + merchants.incubating + merchants.infected + merchants.deceased + (merchants.recovered ?? 0)
+    : 0;
+  return {
+    simTime: sample.simTime,
+    severity: getEpidemicSeverity(sample.totals),
+    merchantLoss: merchantTotal > 0 ? merchants.deceased / merchantTotal : 0
+  };
+};
+
+const caravanGap = (seed: number) => (
+  CARAVAN_INTERVAL_HOURS[0] + seededRandom(seed) * (CARAVAN_INTERVAL_HOURS[1] - CARAVAN_INTERVAL_HOURS[0])
+);
+
+const pickCaravanGoods = (seed: number): GoodCategory[] => {
+  const picked: GoodCategory[] = [];
+  for (let i = 0; i < 2; i++) {
+    const pool = GOOD_CATEGORIES.filter(category => !picked.includes(category));
+    const total = pool.reduce((sum, category) => sum + CATEGORY_PROFILES[category].caravanWeight, 0);
+    let roll = seededRandom(seed + 17 + i * 31) * total;
+    const choice = pool.find(category => (roll -= CATEGORY_PROFILES[category].caravanWeight) < 0) ?? pool[pool.length - 1];
+    picked.push(choice);
+  }
+  return picked;
+};
+
+const pushNews = (news: MarketNews[], entry: MarketNews) => [...news, entry].slice(-MAX_MARKET_NEWS);
+
+/**
+ * Move the market on to `conditions.simTime`: caravans due in between arrive
+ * (or, the worse the plague, turn back), then demand and supply drift toward
+ * what the epidemic calls for.
+ */
+export const advanceMarket = (market: MarketState, conditions: MarketConditions): MarketState => {
+  const { simTime } = conditions;
+  if (market.lastUpdate === null) {
+    return { ...market, lastUpdate: simTime, nextCaravanAt: simTime + caravanGap(Math.floor(simTime) + 101) };
+  }
+  if (simTime <= market.lastUpdate) return market;
+
+  const hours = Math.min(MAX_STEP_HOURS, simTime - market.lastUpdate);
+  const pressure = clamp(conditions.severity / PEAK_SEVERITY, [0, 1]);
+  const supplyLoss = clamp(1 - conditions.merchantLoss * MERCHANT_LOSS_WEIGHT, [0.4, 1]);
+  const categories = { ...market.categories };
+  let news = market.news;
+  let nextCaravanAt = Math.max(market.nextCaravanAt, simTime - hours);
+
+  while (nextCaravanAt <= simTime) {
+    const seed = Math.floor(nextCaravanAt);
+    const origin = CARAVAN_ORIGINS[Math.floor(seededRandom(seed + 7) * CARAVAN_ORIGINS.length)];
+    if (seededRandom(seed + 3) < 1 - pressure * 0.7) {
+      const goods = pickCaravanGoods(seed);
+      goods.forEach(category => {
+        const current = categories[category];
+        categories[category] = { ...current, supply: clamp(current.supply + CARAVAN_SUPPLY_BOOST, SUPPLY_RANGE) };
+      });
+      news = pushNews(news, {
+        simTime: nextCaravanAt,
+        kind: 'caravan',
+        text: `A caravan from ${origin} unloads ${goods.map(category => GOOD_CATEGORY_LABELS[category].toLowerCase()).join(' and ')}.`,
+        categories: goods
+      });
+    } else {
+      news = pushNews(news, {
+        simTime: nextCaravanAt,
+        kind: 'caravanTurnedBack',
+        text: `The caravan from ${origin} turned back rather than enter a city of the dying.`,
+        categories: []
+      });
+    }
+    nextCaravanAt += caravanGap(seed);
+  }
+
+  const demandPull = 1 - Math.exp(-hours / DEMAND_TIME_CONSTANT_HOURS);
+  const supplyPull = 1 - Math.exp(-hours / SUPPLY_TIME_CONSTANT_HOURS);
+  GOOD_CATEGORIES.forEach(category => {
+    const profile = CATEGORY_PROFILES[category];
+    const current = categories[category];
+    const demandTarget = 1 + (profile.demandAtPeak - 1) * pressure;
+    const supplyTarget = (1 + (profile.supplyAtPeak - 1) * pressure) * supplyLoss;
+    const demand = round2(current.demand + (demandTarget - current.demand) * demandPull);
+    const supply = round2(clamp(current.supply + (supplyTarget - current.supply) * supplyPull, SUPPLY_RANGE));
+    const price = priceOf({ demand, supply });
+
+    const label = GOOD_CATEGORY_LABELS[category];
+    if (price >= SHORTAGE_PRICE && current.price < SHORTAGE_PRICE) {
+      news = pushNews(news, { simTime, kind: 'shortage', text: `${label} now fetch double their usual price.`, categories: [category] });
+    } else if (price <= GLUT_PRICE && current.price > GLUT_PRICE) {
+      news = pushNews(news, { simTime, kind: 'glut', text: `${label} go begging at little more than half their worth.`, categories: [category] });
+    }
+    categories[category] = { supply, demand, price };
+  });
+
+  const last = market.history[market.history.length - 1];
+  const history = !last || simTime - last.simTime >= MARKET_HISTORY_HOURS
+    ? [
+      ...market.history,
+      {
+        simTime,
+        prices: Object.fromEntries(GOOD_CATEGORIES.map(category => [category, categories[category].price])) as Record<GoodCategory, number>
+      }
+    ].slice(-MAX_MARKET_HISTORY)
+    : market.history;
+
+  return { categories, history, news, lastUpdate: simTime, nextCaravanAt };
+};
+
+/** Goods bought from a stall leave the city's supply; goods sold to one join it */
+export const applyTrade = (market: MarketState, item: MarketGood, quantity: number, side: 'buy' | 'sell'): MarketState => {
+  const category = getGoodCategory(item);
+  const current = market.categories[category];
+  const shift = (side === 'buy' ? -quantity : quantity) / CATEGORY_PROFILES[category].depth;
+  const supply = round2(clamp(current.supply + shift, SUPPLY_RANGE));
+  return {
+    ...market,
+    categories: { ...market.categories, [category]: { ...current, supply, price: priceOf({ demand: current.demand, supply }) } }
+  };
+};
+
+export const getMarketMultiplier = (market: MarketState, item: MarketGood) => market.categories[getGoodCategory(item)].price;
+
+export const getBuyPrice = (market: MarketState, item: MarketGood & Pick<MerchantItem, 'basePrice'>, haggleModifier: number) => (
+  Math.max(1, Math.round(item.basePrice * getMarketMultiplier(market, item) * haggleModifier))
+);
+
+export const getSellPrice = (market: MarketState, item: MarketGood & Pick<MerchantItem, 'basePrice'>) => (
+  Math.round(item.basePrice * getMarketMultiplier(market, item) * MARKET_SELL_SHARE)
+);
+
+/** How far a category's supply lets a stall stock, as a share of its usual stock */
+export const getSupplyShare = (market: MarketState, item: MarketGood) => (
+  Math.min(1.5, market.categories[getGoodCategory(item)].supply)
+);
@@ -5,12 +5,15 @@ import {
   NPCStats,
   SocialClass,
   MerchantInventory,
+  MerchantItem,
+  MarketState,
   Ethnicity,
   Religion
 } from '../types';
 import { seededRandom, generateNameForMerchant } from './procedural';
 import { assignDemographics } from './demographics';
 import { generateMerchantInventory } from './merchantItems';
+import { getSupplyShare } from './market';
 
 // Map stall types to merchant types
 export const mapStallTypeToMerchantType = (stallType: MarketStallType): MerchantType => {
@@ -362,32 +365,108 @@ export const generateMerchantNPC = (
   };
 };
 
-// Helper to restock merchant inventory
+// Usual stock for items saved before stalls kept a target
+const DEFAULT_STOCK_TARGET: Record<MerchantItem['rarity'], number> = { common: 8, uncommon: 3, rare: 1 };
+
+const stockCeiling = (item: MerchantItem, market: MarketState) => (
+  Math.round((item.stockTarget ?? DEFAULT_STOCK_TARGET[item.rarity]) * getSupplyShare(market, item))
+);
+
+// A stall first met in a lean market has less of what the city is short of
+export const stockMerchantFromSupply = (merchant: MerchantNPC, market: MarketState): MerchantNPC => ({
+  ...merchant,
+  inventory: {
+    ...merchant.inventory,
+    items: merchant.inventory.items.map(item => ({
+      ...item,
+      stockTarget: item.stockTarget ?? item.quantity,
+      quantity: Math.min(item.quantity, stockCeiling(item, market))
+    }))
+  }
+});
+
+// Each restock interval a stall refills part of what it sold, up to what the city's supply allows;
+// goods already on hand are never taken away
 export const restockMerchantInventory = (
   merchant: MerchantNPC,
   simTime: number,
-  seed: number
+  market: MarketState
 ): MerchantNPC => {
-  const hoursSinceRestock = simTime - merchant.inventory.lastRestockTime;
-
-  if (hoursSinceRestock >= merchant.inventory.restockInterval) {
-    // Generate new inventory
-    const newItems = generateMerchantInventory(
-      merchant.type,
-      merchant.id,
-      seed + Math.floor(simTime / 24), // Different seed each day
-      simTime
-    );
-
-    return {
-      ...merchant,
-      inventory: {
-        ...merchant.inventory,
-        items: newItems,
-        lastRestockTime: simTime
-      }
-    };
-  }
+  const { lastRestockTime, restockInterval } = merchant.inventory;
+  const restocks = Math.floor((simTime - lastRestockTime) / restockInterval);
+  if (restocks < 1) return merchant;
+
+  const items = merchant.inventory.items.map(item => {
+    const ceiling = stockCeiling(item, market);
+    if (item.quantity >= ceiling) return item;
+    const perRestock = Math.max(1, Math.ceil((item.stockTarget ?? DEFAULT_STOCK_TARGET[item.rarity]) / 2));
+    return { ...item, quantity: Math.min(ceiling, item.quantity + perRestock * restocks) };
+  });
+
+  return {
+    ...merchant,
+    inventory: {
+      ...merchant.inventory,
+      items,
+      lastRestockTime: lastRestockTime + restocks * restockInterval
+    }
+  };
+};
+
+// Which goods an ordinary townsperson can spare, judged by their trade
+export const getProfessionMerchantType = (profession: string): MerchantType => {
+  const lower = profession.toLowerCase();
+  if (/weaver|tailor|dyer|silk|cloth|textile|tanner|spinner|embroider|cobbler|rug/.test(lower)) return MerchantType.TEXTILE;
+  if (/apothecary|herb|physician|hakim|spice|perfum|attar|barber|midwife|healer/.test(lower)) return MerchantType.APOTHECARY;
+  if (/smith|copper|brass|farrier|armor|sword|jewel|gold|silver|tinker/.test(lower)) return MerchantType.METALSMITH;
+  if (/bedouin|camel|caravan|nomad/.test(lower)) return MerchantType.BEDOUIN;
+  return MerchantType.TRADER;
+};
+
+// Turn any NPC into a one-off barter partner with a few goods from their profession
+export const generateBarterPartner = (
+  stats: NPCStats,
+  position: [number, number, number],
+  seed: number,
+  simTime: number
+): MerchantNPC => {
+  const merchantId = `barter-${stats.id}`;
+  let randOffset = 0;
+  const rand = () => seededRandom(seed + randOffset++);
+  const merchantType = getProfessionMerchantType(stats.profession);
 
-  return merchant;
+  // Friendly folk part with things cheaply; the sour ones ask more than a shopkeeper would
+  const haggleModifier = 1.25 - (Math.max(0, Math.min(100, stats.disposition)) / 100) * 0.4;
+
+  // Only a handful of goods, and never more than a few of each
+  const itemCount = 3 + Math.floor(rand() * 3);
+  const items = generateMerchantInventory(merchantType, merchantId, seed, simTime)
+    .filter((item, index, all) => all.findIndex(other => other.name === item.name) === index)
+    .slice(0, itemCount)
+    .map(item => {
+      const quantity = Math.min(item.quantity, 1 + Math.floor(rand() * 3));
+      return { ...item, quantity, stockTarget: quantity };
+    });
+
+  const inventory: MerchantInventory = {
+    merchantId,
+    items,
+    lastRestockTime: simTime,
+    restockInterval: 72
+  };
+
+  const prefix = getMerchantGreetingPrefix(stats.religion, stats.name, rand);
+  const greeting = `${prefix} I am no merchant, but a ${stats.profession.toLowerCase()} can spare a few things.`;
+
+  return {
+    id: merchantId,
+    type: merchantType,
+    stats,
+    locationId: merchantId,
+    locationType: 'STALL',
+    position,
+    inventory,
+    haggleModifier,
+    greeting
+  };
 };
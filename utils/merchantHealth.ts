@@ -0,0 +1,196 @@
+/**
+ * Merchant Health and Succession
+ *
+ * Stall keepers are registered in their tile's NPC registry as records with
+ * role 'merchant', so the epidemic core advances their health exactly as it
+ * does for residents and street folk. A keeper who falls sick shutters the
+ * stall; once a dead keeper has been mourned a relative reopens the business
+ * with part of the stock and a smaller trade, so the souq thins out as the
+ * plague peaks. Heirs are records too and can die in their turn.
+ */
+
+import { AgentState, BuildingMetadata, BuildingType, DistrictType, MerchantInventory, MerchantKeeper, MerchantNPC, NPCRecord, NPCStats, PlagueType } from '../types';
+import { TileRegistry } from './epidemic/engine';
+import { generateNameForMerchant, seededRandom } from './procedural';
+import { hashToSeed } from './npcRegistry';
+
+export const MERCHANT_ROLE = 'merchant';
+
+// Hours between a keeper's death and an heir taking down the shutters
+const MOURNING_HOURS = 48;
+// After this many heirs the family has nobody left and the stall stays shut
+const MAX_HEIRS = 2;
+// Share of the stock (and of the usual trade) an heir carries on with
+export const HEIR_STOCK_SHARE = 0.4;
+
+export interface MerchantSuccession {
+  tileKey: string;
+  merchantId: string;
+  heir: NPCRecord;
+  predecessor: NPCRecord;
+}
+
+export const isMerchantRecord = (record: NPCRecord) => record.role === MERCHANT_ROLE;
+
+const keeperId = (merchantId: string, generation: number) => (
+  generation === 0 ? merchantId : `${merchantId}-heir-${generation}`
+);
+
+const HEIR_PATTERN = /^(.*)-heir-(\d+)$/;
+
+const parseKeeperId = (id: string) => {
+  const match = HEIR_PATTERN.exec(id);
+  return match ? { merchantId: match[1], generation: Number(match[2]) } : { merchantId: id, generation: 0 };
+};
+
+const HEALTHY_META = {
+  plagueType: PlagueType.NONE,
+  exposureTime: null,
+  incubationHours: null,
+  deathHours: null,
+  onsetTime: null
+};
+
+const createKeeperRecord = (
+  stats: NPCStats,
+  position: [number, number, number],
+  simTime: number,
+  districtType?: DistrictType
+): NPCRecord => ({
+  id: stats.id,
+  stats,
+  state: AgentState.HEALTHY,
+  stateStartTime: simTime,
+  plagueMeta: { ...HEALTHY_META },
+  // Keepers stand at their stalls; they have no house on the tile to go home to
+  location: 'outdoor',
+  homeBuildingId: null,
+  lastOutdoorPos: position,
+  scheduleSeed: hashToSeed(stats.id),
+  lastUpdateSimTime: simTime,
+  isEphemeral: false,
+  role: MERCHANT_ROLE,
+  districtType
+});
+
+/** Add the tile's merchants to its registry the first time they are seen */
+export const registerMerchants = (
+  registry: TileRegistry,
+  merchants: MerchantNPC[],
+  simTime: number,
+  districtType?: DistrictType
+) => {
+  merchants.forEach((merchant) => {
+    if (registry.npcMap.has(merchant.id)) return;
+    registry.npcMap.set(merchant.id, createKeeperRecord({ ...merchant.stats, id: merchant.id }, merchant.position, simTime, districtType));
+  });
+};
+
+// Who inherits is settled by the heir's id, so the same family turns up on every reload
+const pickHeir = (heirId: string, predecessor: NPCStats) => {
+  let offset = 0;
+  const rand = () => seededRandom(hashToSeed(heirId) + offset++ * 53);
+  const relations = ['son', 'daughter', 'brother', 'nephew', predecessor.gender === 'Male' ? 'widow' : 'widower'];
+  const relation = relations[Math.floor(rand() * relations.length)];
+  const gender: NPCStats['gender'] = relation === 'daughter' || relation === 'widow' ? 'Female' : 'Male';
+  const age = relation === 'brother' || relation === 'widow' || relation === 'widower'
+    ? Math.max(20, predecessor.age - 8 + Math.floor(rand() * 12))
+    : 16 + Math.floor(rand() * 14);
+  return { relation, gender, age, rand };
+};
+
+const createHeirStats = (heirId: string, predecessor: NPCStats): NPCStats => {
+  const { gender, age, rand } = pickHeir(heirId, predecessor);
+  return {
+    ...predecessor,
+    id: heirId,
+    name: generateNameForMerchant(rand, gender, predecessor.ethnicity, predecessor.religion),
+    gender,
+    age,
+    headwearStyle: gender === 'Female' ? 'scarf' : predecessor.gender === 'Female' ? 'cap' : predecessor.headwearStyle,
+    // A household in mourning
+    panicLevel: Math.min(100, predecessor.panicLevel + 20)
+  };
+};
+
+const findKeeperRecord = (registry: TileRegistry, merchantId: string) => {
+  let record = registry.npcMap.get(merchantId);
+  for (let generation = 1; record && generation <= MAX_HEIRS; generation += 1) {
+    const heir = registry.npcMap.get(keeperId(merchantId, generation));
+    if (!heir) break;
+    record = heir;
+  }
+  return record;
+};
+
+/**
+ * Put heirs in place of keepers who have been dead and mourned long enough,
+ * across every tile. Returns the successions so the caller can announce them.
+ */
+export const advanceMerchantSuccession = (tiles: Map<string, TileRegistry>, simTime: number): MerchantSuccession[] => {
+  const successions: MerchantSuccession[] = [];
+  tiles.forEach((registry, tileKey) => {
+    const keepers = Array.from(registry.npcMap.values()).filter(isMerchantRecord);
+    keepers.forEach((record) => {
+      if (record.state !== AgentState.DECEASED || simTime - record.stateStartTime < MOURNING_HOURS) return;
+      const { merchantId, generation } = parseKeeperId(record.id);
+      if (generation >= MAX_HEIRS) return;
+      const heirId = keeperId(merchantId, generation + 1);
+      if (registry.npcMap.has(heirId)) return;
+      const heir = createKeeperRecord(createHeirStats(heirId, record.stats), record.lastOutdoorPos, simTime, record.districtType);
+      registry.npcMap.set(heirId, heir);
+      successions.push({ tileKey, merchantId, heir, predecessor: record });
+    });
+  });
+  return successions;
+};
+
+/** Who keeps a stall now and whether it is trading */
+export const getMerchantKeeper = (registry: TileRegistry | undefined, merchant: MerchantNPC): MerchantKeeper => {
+  const record = registry ? findKeeperRecord(registry, merchant.id) : undefined;
+  if (!record) return { merchantId: merchant.id, status: 'open', stats: merchant.stats, generation: 0 };
+
+  const { generation } = parseKeeperId(record.id);
+  const predecessor = generation > 0 ? registry?.npcMap.get(keeperId(merchant.id, generation - 1)) : undefined;
+  const status: MerchantKeeper['status'] = record.state === AgentState.INFECTED
+    ? 'sick'
+    : record.state === AgentState.DECEASED
+      ? generation < MAX_HEIRS ? 'mourning' : 'closed'
+      : 'open';
+  return {
+    merchantId: merchant.id,
+    status,
+    stats: record.stats,
+    generation,
+    predecessorName: predecessor?.stats.name,
+    relation: predecessor ? pickHeir(record.id, predecessor.stats).relation : undefined
+  };
+};
+
+/** The merchant as the stall's current keeper presents them */
+export const applyMerchantKeeper = (merchant: MerchantNPC, keeper: MerchantKeeper): MerchantNPC => {
+  if (keeper.generation === 0) return { ...merchant, stats: keeper.stats };
+  const greeting = `Peace upon you. I am ${keeper.stats.name}, ${keeper.relation} of ${keeper.predecessorName}, who kept this stall until the plague took them. I carry on with what was left.`;
+  return { ...merchant, stats: keeper.stats, greeting };
+};
+
+/**
+ * The stock an heir opens with: a share of what the stall held, and a smaller
+ * trade to restock toward. Stamps the heir so it only happens once.
+ */
+export const inheritStock = (inventory: MerchantInventory, heirId: string): MerchantInventory => ({
+  ...inventory,
+  keeperId: heirId,
+  items: inventory.items.map((item) => ({
+    ...item,
+    quantity: Math.floor(item.quantity * HEIR_STOCK_SHARE),
+    stockTarget: Math.max(1, Math.round((item.stockTarget ?? item.quantity) * HEIR_STOCK_SHARE))
+  }))
+});
+
+/** Shops whose owner is sick or dead are barred */
+export const isShopShuttered = (building: BuildingMetadata, registry: TileRegistry | undefined) => {
+  if (building.type !== BuildingType.COMMERCIAL) return false;
+  const owner = registry?.npcMap.get(`npc-owner-${building.id}`);
+  return owner?.state === AgentState.INFECTED || owner?.state === AgentState.DECEASED;
+};
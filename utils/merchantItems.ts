@@ -1,5 +1,10 @@
-import { MerchantItem, MerchantType, ItemEffect } from '../types';
+import { BuildingType, DistrictType, MerchantItem, MerchantType, ItemEffect, SocialClass } from '../types';
+import { EXPOSURE_CONFIG } from './plagueExposure';
 import { seededRandom } from './procedural';
+import { hashToSeed } from './npcRegistry';
+
+// Percent exposure reduction for a worn or burning item, from its protection multiplier
+const protection = (multiplier: number) => Math.round((1 - multiplier) * 100);
 
 // Base item templates (without id and quantity which are generated)
 type ItemTemplate = Omit<MerchantItem, 'id' | 'quantity'>;
@@ -15,6 +20,7 @@ export const TEXTILE_ITEMS: ItemTemplate[] = [
   { name: 'Linen Scrap', description: 'Frayed linen remnant, still useful', category: MerchantType.TEXTILE, basePrice: 2, rarity: 'common' },
   { name: 'Leather Sandals', description: 'Simple open footwear for the heat', category: MerchantType.TEXTILE, basePrice: 10, rarity: 'common' },
   { name: 'Linen Burial Shroud', description: 'Simple white cloth for the deceased', category: MerchantType.TEXTILE, basePrice: 8, rarity: 'common' },
+  { name: 'Linen Face Cloth', description: 'A plain veil tied over nose and mouth in the streets', category: MerchantType.TEXTILE, basePrice: 4, rarity: 'common', use: 'wear', effects: [{ type: 'plagueProtection', value: protection(EXPOSURE_CONFIG.PROTECTION.FACE_CLOTH), duration: 48 }] },
 
   // Uncommon (30% chance)
   { name: 'Damask Robe', description: 'Fine patterned silk from Damascus looms', category: MerchantType.TEXTILE, basePrice: 45, rarity: 'uncommon' },
@@ -42,19 +48,21 @@ export const APOTHECARY_ITEMS: ItemTemplate[] = [
   { name: 'Pomegranate Seeds', description: 'Dried seeds, valued as a digestive tonic', category: MerchantType.APOTHECARY, basePrice: 4, rarity: 'common', effects: [{ type: 'heal', value: 6 }] },
   { name: 'Henna Powder', description: 'Red-orange dye for hands, hair, and nails', category: MerchantType.APOTHECARY, basePrice: 5, rarity: 'common' },
   { name: 'Kohl Powder', description: 'Black antimony powder for eye cosmetics', category: MerchantType.APOTHECARY, basePrice: 4, rarity: 'common' },
+  { name: 'Vinegar Cloth', description: 'Linen soaked in vinegar, held to the face against corrupted air; dries out within half a day', category: MerchantType.APOTHECARY, basePrice: 3, rarity: 'common', use: 'wear', effects: [{ type: 'plagueProtection', value: protection(EXPOSURE_CONFIG.PROTECTION.VINEGAR_CLOTH), duration: 12 }] },
+  { name: 'Aromatic Herb Pouch', description: 'Rue, wormwood and mint sewn into a pouch and worn at the throat', category: MerchantType.APOTHECARY, basePrice: 5, rarity: 'common', use: 'wear', effects: [{ type: 'plagueProtection', value: protection(EXPOSURE_CONFIG.PROTECTION.AROMATIC_HERB_POUCH), duration: 24 }] },
 
   // Uncommon
-  { name: 'Rose Water', description: 'Fragrant distillation for health and beauty', category: MerchantType.APOTHECARY, basePrice: 25, rarity: 'uncommon', effects: [{ type: 'heal', value: 30 }] },
+  { name: 'Rose Water', description: 'Fragrant distillation for health and beauty', category: MerchantType.APOTHECARY, basePrice: 25, rarity: 'uncommon', use: 'drink', effects: [{ type: 'heal', value: 30 }] },
   { name: 'Saffron Threads', description: 'Precious spice and medicine from Persia', category: MerchantType.APOTHECARY, basePrice: 40, rarity: 'uncommon' },
-  { name: 'Camphor Oil', description: 'Aromatic remedy for respiratory ailments', category: MerchantType.APOTHECARY, basePrice: 35, rarity: 'uncommon', effects: [{ type: 'heal', value: 40 }] },
+  { name: 'Camphor Oil', description: 'Aromatic remedy for respiratory ailments', category: MerchantType.APOTHECARY, basePrice: 35, rarity: 'uncommon', use: 'apply', effects: [{ type: 'heal', value: 40, duration: 6 }] },
   { name: 'Myrrh Resin', description: 'Medicinal gum from Arabia', category: MerchantType.APOTHECARY, basePrice: 30, rarity: 'uncommon', effects: [{ type: 'heal', value: 35 }] },
   { name: 'Cardamom', description: 'Rare spice from distant lands', category: MerchantType.APOTHECARY, basePrice: 28, rarity: 'uncommon' },
 
   // Rare
-  { name: 'Theriac Compound', description: 'Ancient cure-all tonic of many ingredients', category: MerchantType.APOTHECARY, basePrice: 150, rarity: 'rare', effects: [{ type: 'heal', value: 100 }] },
-  { name: 'Musk Perfume', description: 'Rare fragrance from the East', category: MerchantType.APOTHECARY, basePrice: 180, rarity: 'rare' },
+  { name: 'Theriac Compound', description: 'Ancient cure-all tonic of many ingredients', category: MerchantType.APOTHECARY, basePrice: 150, rarity: 'rare', use: 'drink', effects: [{ type: 'heal', value: 100, duration: 12 }] },
+  { name: 'Musk Perfume', description: 'Rare fragrance from the East', category: MerchantType.APOTHECARY, basePrice: 180, rarity: 'rare', use: 'apply', effects: [{ type: 'buff', stat: 'charisma', value: 2, duration: 8 }] },
   { name: 'Ambergris', description: 'Mysterious oceanic substance, invaluable', category: MerchantType.APOTHECARY, basePrice: 300, rarity: 'rare' },
-  { name: 'Opium Paste', description: 'Powerful sedative from poppy, used sparingly by hakims', category: MerchantType.APOTHECARY, basePrice: 120, rarity: 'rare', effects: [{ type: 'heal', value: 80 }] },
+  { name: 'Opium Paste', description: 'Powerful sedative from poppy, used sparingly by hakims', category: MerchantType.APOTHECARY, basePrice: 120, rarity: 'rare', effects: [{ type: 'heal', value: 80, duration: 4 }, { type: 'debuff', stat: 'perceptiveness', value: 3, duration: 6 }] },
   { name: 'Bezoar Stone', description: 'Stone from goat stomach, believed to cure poison', category: MerchantType.APOTHECARY, basePrice: 200, rarity: 'rare' }
 ];
 
@@ -67,7 +75,7 @@ export const METALSMITH_ITEMS: ItemTemplate[] = [
   { name: 'Iron Nail Set', description: 'Assorted nails for construction', category: MerchantType.METALSMITH, basePrice: 3, rarity: 'common' },
   { name: 'Bronze Bell', description: 'Small hand bell', category: MerchantType.METALSMITH, basePrice: 7, rarity: 'common' },
   { name: 'Tin Cup', description: 'Serviceable drinking vessel', category: MerchantType.METALSMITH, basePrice: 4, rarity: 'common' },
-  { name: 'Copper Amulet', description: 'Engraved with Quranic verses for protection', category: MerchantType.METALSMITH, basePrice: 6, rarity: 'common' },
+  { name: 'Copper Amulet', description: 'Engraved with Quranic verses for protection', category: MerchantType.METALSMITH, basePrice: 6, rarity: 'common', use: 'wear', effects: [{ type: 'plagueProtection', value: protection(EXPOSURE_CONFIG.PROTECTION.QURANIC_AMULET) }] },
   { name: 'Iron Key', description: 'Heavy iron key for a strongbox or door', category: MerchantType.METALSMITH, basePrice: 5, rarity: 'common' },
 
   // Uncommon
@@ -128,7 +136,7 @@ export const TRADER_ITEMS: ItemTemplate[] = [
 
   // Uncommon
   { name: 'Glass Drinking Vessel', description: 'Fine Damascus glasswork', category: MerchantType.TRADER, basePrice: 20, rarity: 'uncommon' },
-  { name: 'Incense Sticks', description: 'Frankincense and myrrh blend', category: MerchantType.TRADER, basePrice: 15, rarity: 'uncommon' },
+  { name: 'Incense Sticks', description: 'Frankincense and myrrh blend', category: MerchantType.TRADER, basePrice: 15, rarity: 'uncommon', use: 'burn', effects: [{ type: 'plagueProtection', value: protection(EXPOSURE_CONFIG.PROTECTION.FRANKINCENSE), duration: 3 }] },
   { name: 'Painted Ceramic Plate', description: 'Decorated with geometric patterns', category: MerchantType.TRADER, basePrice: 18, rarity: 'uncommon' },
   { name: 'Leather Satchel', description: 'Sturdy travel bag', category: MerchantType.TRADER, basePrice: 22, rarity: 'uncommon' },
   { name: 'Olive Oil (Amphora)', description: 'Fine pressed oil for cooking and lamps', category: MerchantType.TRADER, basePrice: 25, rarity: 'uncommon' },
@@ -159,6 +167,9 @@ export const getItemPool = (merchantType: MerchantType): ItemTemplate[] => {
   }
 };
 
+// Generated stock ids end in the item's slug so bought goods can still be looked up
+const itemSlug = (name: string) => name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '');
+
 // Generate merchant inventory based on type and seed
 export const generateMerchantInventory = (
   merchantType: MerchantType,
@@ -180,10 +191,12 @@ export const generateMerchantInventory = (
 
     for (let i = 0; i < itemCount; i++) {
       const selectedItem = shuffled[i];
+      const quantity = 1 + Math.floor(rand(i * 10 + 7) * 2); // 1-2 quantity
       inventory.push({
         ...selectedItem,
-        id: `item-${merchantId}-${i}`,
-        quantity: 1 + Math.floor(rand(i * 10 + 7) * 2) // 1-2 quantity
+        id: `item-${merchantId}-${i}-${itemSlug(selectedItem.name)}`,
+        quantity,
+        stockTarget: quantity
       });
     }
 
@@ -218,8 +231,9 @@ export const generateMerchantInventory = (
 
     inventory.push({
       ...selectedItem,
-      id: `item-${merchantId}-${i}`,
-      quantity
+      id: `item-${merchantId}-${i}-${itemSlug(selectedItem.name)}`,
+      quantity,
+      stockTarget: quantity
     });
   }
 
@@ -322,6 +336,9 @@ const STARTING_ITEM_MAP: Record<string, string> = {
   'start-compass': 'Geometric Compass',
   'start-myrrh': 'Myrrh Resin',
   'start-camphor': 'Camphor Oil',
+  'start-vinegar-cloth': 'Vinegar Cloth',
+  'start-herb-pouch': 'Aromatic Herb Pouch',
+  'start-face-cloth': 'Linen Face Cloth',
   'start-dagger': 'Damascus Steel Dagger'
 };
 
@@ -369,12 +386,26 @@ export const getItemDetailsByItemId = (itemId: string): { name: string; descript
     if (item) return item;
   }
 
-  // For future: handle dynamic merchant item IDs             
-  // Could parse the ID pattern here if needed                
+  // Merchant stock: item-<merchantId>-<index>-<slug>; prefer the longest slug that fits
+  if (itemId.startsWith('item-')) {
+    let match: ItemTemplate | null = null;
+    let matchLength = 0;
+    for (const item of getAllItems()) {
+      const slug = itemSlug(item.name);
+      if (slug.length > matchLength && itemId.endsWith(`-${slug}`)) {
+        match = item;
+        matchLength = slug.length;
+      }
+    }
+    if (match) return match;
+  }
 
   return null;
 };
 
+// Inventory id for a catalogue good that did not come from a merchant's stock (gifts, event rewards)
+export const makeLooseItemId = (sourceId: string, itemName: string): string => `item-${sourceId}-0-${itemSlug(itemName)}`;
+
 // Get item details by itemId pattern (best effort lookup)
 export const getItemDetailsByName = (itemName: string): { name: string; description: string; rarity: 'common' | 'uncommon' | 'rare'; basePrice: number; category: MerchantType; effects?: ItemEffect[] } | null => {
   const item = findItemByName(itemName);
@@ -382,6 +413,282 @@ export const getItemDetailsByName = (itemName: string): { name: string; descript
   return item;
 };
 
+// CHEST LOOT - what is kept locked away, by who keeps it
+// A chest draws from every table that matches its owner: a key a table leaves
+// out matches anything. Items are catalogue names with a relative weight, so
+// rarity comes from the weights rather than a separate roll.
+export interface ChestLootTable {
+  id: string;
+  /** true: only chests beside a house; false: only chests nobody claims */
+  owned?: boolean;
+  buildingTypes?: BuildingType[];
+  professions?: string[];
+  socialClasses?: SocialClass[];
+  districts?: DistrictType[];
+  items: Array<{ name: string; weight: number }>;
+}
+
+export const CHEST_LOOT_TABLES: ChestLootTable[] = [
+  // Households
+  {
+    id: 'household',
+    owned: true,
+    items: [
+      { name: 'Aleppo Soap', weight: 2 }, { name: 'Candles (Set of 6)', weight: 1.5 }, { name: 'Linen Cloth', weight: 1.5 },
+      { name: 'Sesame Oil', weight: 1.5 }, { name: 'Prayer Beads', weight: 1 }, { name: 'Iron Key', weight: 1 },
+      { name: 'Copper Amulet', weight: 1 }, { name: 'Henna Powder', weight: 1 }, { name: 'Kohl Powder', weight: 1 },
+      { name: 'Dried Figs', weight: 1 }
+    ]
+  },
+  {
+    id: 'poor-household',
+    owned: true,
+    socialClasses: [SocialClass.PEASANT],
+    items: [
+      { name: 'Linen Scrap', weight: 4 }, { name: 'Palm Twine', weight: 3 }, { name: 'Candle Stub', weight: 3 },
+      { name: 'Chickpeas', weight: 3 }, { name: 'Pottery Shard', weight: 2 }, { name: 'Hemp Rope', weight: 2 },
+      { name: 'Clay Oil Lamp', weight: 2 }
+    ]
+  },
+  {
+    id: 'merchant-household',
+    owned: true,
+    socialClasses: [SocialClass.MERCHANT],
+    items: [
+      { name: 'Copper Coin Purse', weight: 3 }, { name: 'Writing Reed', weight: 2 }, { name: 'Brass Bowl', weight: 2 },
+      { name: 'Pistachio Nuts', weight: 2 }, { name: 'Glass Drinking Vessel', weight: 1 }, { name: 'Leather Satchel', weight: 1 },
+      { name: 'Sugar Loaf', weight: 1 }, { name: 'Steel Mirror', weight: 0.3 }
+    ]
+  },
+  {
+    id: 'clergy-household',
+    owned: true,
+    socialClasses: [SocialClass.CLERGY],
+    items: [
+      { name: 'Writing Reed', weight: 3 }, { name: 'Prayer Beads', weight: 3 }, { name: 'Candles (Set of 6)', weight: 2 },
+      { name: 'Incense Sticks', weight: 2 }, { name: 'Silk Prayer Rug', weight: 0.3 },
+      { name: 'Illuminated Manuscript Page', weight: 0.3 }
+    ]
+  },
+  {
+    id: 'noble-household',
+    owned: true,
+    socialClasses: [SocialClass.NOBILITY],
+    items: [
+      { name: 'Silk Headwrap', weight: 2 }, { name: 'Damask Robe', weight: 2 }, { name: 'Rose Water', weight: 2 },
+      { name: 'Silver Kohl Container', weight: 2 }, { name: 'Glass Drinking Vessel', weight: 2 }, { name: 'Steel Mirror', weight: 1 },
+      { name: 'Musk Perfume', weight: 0.5 }, { name: 'Silver Filigree Pendant', weight: 0.5 },
+      { name: 'Chinese Porcelain Bowl', weight: 0.3 }, { name: 'Geometric Compass', weight: 0.3 }
+    ]
+  },
+  // Buildings
+  {
+    id: 'shop-stores',
+    buildingTypes: [BuildingType.COMMERCIAL],
+    items: [
+      { name: 'Wicker Basket', weight: 3 }, { name: 'Linen Cloth', weight: 2 }, { name: 'Olive Oil (Amphora)', weight: 2 },
+      { name: 'Sugar Loaf', weight: 1 }, { name: 'Copper Coin Purse', weight: 1 }
+    ]
+  },
+  {
+    id: 'inn-stores',
+    buildingTypes: [BuildingType.HOSPITALITY],
+    items: [
+      { name: 'Clay Oil Lamp', weight: 3 }, { name: 'Painted Ceramic Plate', weight: 2 }, { name: 'Glass Drinking Vessel', weight: 2 },
+      { name: 'Copper Ewer', weight: 1 }, { name: 'Arabian Coffee Beans', weight: 0.2 }
+    ]
+  },
+  {
+    id: 'sanctuary',
+    buildingTypes: [BuildingType.RELIGIOUS, BuildingType.SCHOOL],
+    items: [
+      { name: 'Candles (Set of 6)', weight: 3 }, { name: 'Incense Sticks', weight: 3 }, { name: 'Prayer Beads', weight: 2 },
+      { name: 'Bronze Incense Burner', weight: 1 }, { name: 'Illuminated Manuscript Page', weight: 0.2 }
+    ]
+  },
+  {
+    id: 'records',
+    buildingTypes: [BuildingType.CIVIC],
+    items: [{ name: 'Writing Reed', weight: 3 }, { name: 'Candles (Set of 6)', weight: 2 }, { name: 'Copper Coin Purse', weight: 1 }]
+  },
+  {
+    id: 'infirmary',
+    buildingTypes: [BuildingType.MEDICAL],
+    items: [
+      { name: 'Vinegar Cloth', weight: 3 }, { name: 'Linen Face Cloth', weight: 3 }, { name: 'Linen Burial Shroud', weight: 2 },
+      { name: 'Camphor Oil', weight: 1 }, { name: 'Theriac Compound', weight: 0.3 }
+    ]
+  },
+  // Trades
+  {
+    id: 'apothecary',
+    professions: ['Apothecary', 'Pharmacist', 'Hakim', 'Physician', 'Barber-Surgeon', 'Perfumer', 'Spice Merchant'],
+    items: [
+      { name: 'Aromatic Herb Pouch', weight: 3 }, { name: 'Coriander Seeds', weight: 2 }, { name: 'Cumin', weight: 2 },
+      { name: 'Rose Water', weight: 2 }, { name: 'Myrrh Resin', weight: 1 }, { name: 'Saffron Threads', weight: 1 },
+      { name: 'Musk Perfume', weight: 0.3 }, { name: 'Theriac Compound', weight: 0.2 }
+    ]
+  },
+  {
+    id: 'cloth-trade',
+    professions: ['Weaver', 'Draper', 'Silk Merchant', 'Rug Merchant', 'Spinner', 'Embroiderer', 'Silk Winder', 'Dyer'],
+    items: [
+      { name: 'Linen Cloth', weight: 3 }, { name: 'Cotton Headscarf', weight: 2 }, { name: 'Indigo Dye Cake', weight: 2 },
+      { name: 'Silk Headwrap', weight: 1 }, { name: 'Embroidered Kaftan', weight: 0.5 }, { name: 'Persian Carpet', weight: 0.1 }
+    ]
+  },
+  {
+    id: 'metal-trade',
+    professions: ['Blacksmith', 'Coppersmith', 'Brass Worker', 'Locksmith', 'Goldsmith', 'Jeweler'],
+    items: [
+      { name: 'Iron Nail Set', weight: 3 }, { name: 'Tin Cup', weight: 2 }, { name: 'Iron Key', weight: 2 },
+      { name: 'Brass Bowl', weight: 2 }, { name: 'Copper Ewer', weight: 1 }, { name: 'Silver Filigree Pendant', weight: 0.4 }
+    ]
+  },
+  {
+    id: 'money',
+    professions: ['Money Changer', 'Commercial Agent', 'Jeweler', 'Goldsmith'],
+    items: [{ name: 'Copper Coin Purse', weight: 3 }, { name: 'Writing Reed', weight: 1 }, { name: 'Ancient Nabataean Coin', weight: 0.3 }]
+  },
+  {
+    id: 'scribe',
+    professions: ['Scribe', 'Copyist', 'Court Clerk', 'Notary', 'Madrasa Teacher', 'Qur\'an Teacher', 'Copyist Teacher'],
+    items: [
+      { name: 'Writing Reed', weight: 3 }, { name: 'Candles (Set of 6)', weight: 2 }, { name: 'Illuminated Manuscript Page', weight: 0.2 }
+    ]
+  },
+  {
+    id: 'soldier',
+    professions: ['City Guard', 'Mamluk Soldier', 'Mamluk Officer', 'Retired Guard'],
+    items: [{ name: 'Leather Waterskin', weight: 3 }, { name: 'Iron Horseshoe', weight: 2 }, { name: 'Damascus Steel Dagger', weight: 0.5 }]
+  },
+  // Districts
+  {
+    id: 'wealthy-quarter',
+    owned: true,
+    districts: ['WEALTHY', 'SALHIYYA'],
+    items: [
+      { name: 'Rose Water', weight: 2 }, { name: 'Silk Headwrap', weight: 2 }, { name: 'Silver Kohl Container', weight: 1 },
+      { name: 'Steel Mirror', weight: 1 }, { name: 'Brass Oil Lamp', weight: 1 }, { name: 'Musk Perfume', weight: 0.3 },
+      { name: 'Chinese Porcelain Bowl', weight: 0.2 }
+    ]
+  },
+  {
+    id: 'hovels',
+    owned: true,
+    districts: ['HOVELS', 'ALLEYS'],
+    items: [{ name: 'Linen Scrap', weight: 3 }, { name: 'Pottery Shard', weight: 3 }, { name: 'Candle Stub', weight: 2 }, { name: 'Palm Twine', weight: 2 }]
+  },
+  {
+    id: 'caravan-goods',
+    districts: ['CARAVANSERAI'],
+    items: [
+      { name: 'Leather Waterskin', weight: 2 }, { name: 'Hemp Rope', weight: 2 }, { name: 'Olive Oil (Amphora)', weight: 2 },
+      { name: 'Pistachio Nuts', weight: 2 }, { name: 'Cardamom', weight: 1 }, { name: 'Incense Sticks', weight: 1 },
+      { name: 'Saffron Threads', weight: 0.5 }, { name: 'Frankincense Tears', weight: 0.2 },
+      { name: 'Arabian Coffee Beans', weight: 0.2 }, { name: 'Woven Camel Saddle Bag', weight: 0.2 }
+    ]
+  },
+  {
+    id: 'road-stores',
+    districts: ['SOUTHERN_ROAD', 'ROADSIDE', 'OUTSKIRTS_DESERT', 'OUTSKIRTS_SCRUBLAND', 'OUTSKIRTS_FARMLAND'],
+    items: [
+      { name: 'Leather Waterskin', weight: 3 }, { name: 'Dates', weight: 3 }, { name: 'Dried Apricots', weight: 2 },
+      { name: 'Hemp Rope', weight: 2 }, { name: 'Iron Horseshoe', weight: 2 }, { name: 'Wool Cloak', weight: 1 }
+    ]
+  },
+  // Abandoned: chests nobody claims hold what was left behind
+  {
+    id: 'abandoned',
+    owned: false,
+    items: [
+      { name: 'Pottery Shard', weight: 3 }, { name: 'Linen Scrap', weight: 3 }, { name: 'Palm Twine', weight: 2 },
+      { name: 'Hemp Rope', weight: 2 }, { name: 'Wool Cloak', weight: 1 }, { name: 'Ancient Nabataean Coin', weight: 0.1 }
+    ]
+  }
+];
+
+// How many goods a chest holds, by its owner's standing
+export const CHEST_ITEM_COUNT: Record<SocialClass, [number, number]> = {
+  [SocialClass.PEASANT]: [0, 2],
+  [SocialClass.CLERGY]: [1, 2],
+  [SocialClass.MERCHANT]: [1, 3],
+  [SocialClass.NOBILITY]: [2, 4]
+};
+const UNOWNED_CHEST_ITEM_COUNT: [number, number] = [1, 2];
+
+export interface ChestOwner {
+  /** null when the chest stands beside no building */
+  buildingType: BuildingType | null;
+  profession?: string;
+  socialClass?: SocialClass;
+  district: DistrictType;
+}
+
+export interface ChestLootItem {
+  itemId: string;
+  itemName: string;
+  description: string;
+  rarity: 'common' | 'uncommon' | 'rare';
+  category: string;
+}
+
+const tableMatches = (table: ChestLootTable, owner: ChestOwner) => {
+  const owned = owner.buildingType !== null;
+  if (table.owned !== undefined && table.owned !== owned) return false;
+  if (table.buildingTypes && (!owner.buildingType || !table.buildingTypes.includes(owner.buildingType))) return false;
+  if (table.professions && (!owner.profession || !table.professions.includes(owner.profession))) return false;
+  if (table.socialClasses && (!owner.socialClass || !table.socialClasses.includes(owner.socialClass))) return false;
+  if (table.districts && !table.districts.includes(owner.district)) return false;
+  return true;
+};
+
+export const getChestLootTables = (owner: ChestOwner): ChestLootTable[] => CHEST_LOOT_TABLES.filter(table => tableMatches(table, owner));
+
+/**
+ * A chest's contents, settled by its id and owner so the same chest always
+ * holds the same goods. Ids follow merchant stock (item-<chestId>-<n>-<slug>)
+ * so taken goods can be looked up like anything bought.
+ */
+export const rollChestLoot = (chestId: string, owner: ChestOwner): ChestLootItem[] => {
+  const seed = hashToSeed(chestId);
+  const rand = (offset: number) => seededRandom(seed + offset);
+
+  const weights = new Map<string, number>();
+  getChestLootTables(owner).forEach(table => {
+    table.items.forEach(entry => {
+      if (!findItemByName(entry.name)) {
+        console.warn(`Chest loot table "${table.id}" names unknown item "${entry.name}"`);
+        return;
+      }
+      weights.set(entry.name, (weights.get(entry.name) ?? 0) + entry.weight);
+    });
+  });
+  const entries = Array.from(weights.entries());
+  const total = entries.reduce((sum, [, weight]) => sum + weight, 0);
+  if (total <= 0) return [];
+
+  const [min, max] = owner.buildingType !== null && owner.socialClass
+    ? CHEST_ITEM_COUNT[owner.socialClass]
+    : UNOWNED_CHEST_ITEM_COUNT;
+  const count = min + Math.floor(rand(0) * (max - min + 1));
+
+  const items: ChestLootItem[] = [];
+  for (let i = 0; i < count; i++) {
+    let roll = rand(i * 10 + 3) * total;
+    const [name] = entries.find(([, weight]) => (roll -= weight) < 0) ?? entries[entries.length - 1];
+    const item = findItemByName(name)!;
+    items.push({
+      itemId: `item-${chestId}-${i}-${itemSlug(name)}`,
+      itemName: item.name,
+      description: item.description,
+      rarity: item.rarity,
+      category: item.category
+    });
+  }
+  return items;
+};
+
 // Get merchant type display name
 export const getMerchantTypeName = (type: MerchantType): string => {
   switch (type) {
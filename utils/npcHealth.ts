@@ -1,5 +1,5 @@
 import { AgentState, CONSTANTS, NPCRecord, NPCPlagueMeta, PlagueType } from '../types';
-import { PLAGUE_CONFIG } from './plague';
+import { getEpidemicScenario, getPlagueTypeParams, pickScenarioPlagueType } from './epidemic/scenario';
 
 const DEFAULT_PLAGUE_META: NPCPlagueMeta = {
   plagueType: PlagueType.NONE,
@@ -10,12 +10,6 @@ const DEFAULT_PLAGUE_META: NPCPlagueMeta = {
 };
 
 const HOURS_PER_DAY = 24;
-const HOUSEHOLD_EXPOSURE_PER_HOUR = 0.04;
-const NPC_PLAGUE_TIME_SCALE = 0.12;
-const NPC_MIN_INCUBATION_HOURS = 1;
-const NPC_MAX_INCUBATION_HOURS = 8;
-const NPC_MIN_DEATH_HOURS = 4;
-const NPC_MAX_DEATH_HOURS = 22;
 
 const hashStringToSeed = (input: string) => {
   let hash = 0;
@@ -30,36 +24,28 @@ const seededRand = (seed: number) => {
   return x - Math.floor(x);
 };
 
-const pickPlagueType = (seed: number) => {
-  const roll = seededRand(seed);
-  if (roll < 0.8) return PlagueType.BUBONIC;
-  if (roll < 0.95) return PlagueType.PNEUMONIC;
-  return PlagueType.SEPTICEMIC;
-};
+const pickPlagueType = (seed: number) => pickScenarioPlagueType(seededRand(seed));
 
 const sampleHours = (minDays: number, maxDays: number, seed: number) => {
   const t = seededRand(seed);
   return (minDays + (maxDays - minDays) * t) * HOURS_PER_DAY;
 };
 
-export const createNpcPlagueMeta = (seed: number, simTime: number): NPCPlagueMeta => {
-  const type = pickPlagueType(seed + 11);
-  const config = type === PlagueType.BUBONIC
-    ? PLAGUE_CONFIG.BUBONIC
-    : type === PlagueType.PNEUMONIC
-      ? PLAGUE_CONFIG.PNEUMONIC
-      : PLAGUE_CONFIG.SEPTICEMIC;
+export const createNpcPlagueMeta = (seed: number, simTime: number, plagueType?: PlagueType): NPCPlagueMeta => {
+  const scenario = getEpidemicScenario();
+  const type = plagueType ?? pickPlagueType(seed + 11);
+  const config = getPlagueTypeParams(type, scenario);
   const incubationHoursRaw = sampleHours(config.incubationDays.min, config.incubationDays.max, seed + 29);
   const deathHoursFromExposureRaw = sampleHours(config.deathDay.min, config.deathDay.max, seed + 47);
   const incubationHours = Math.min(
-    NPC_MAX_INCUBATION_HOURS,
-    Math.max(NPC_MIN_INCUBATION_HOURS, incubationHoursRaw * NPC_PLAGUE_TIME_SCALE)
+    scenario.npcIncubationHours.max,
+    Math.max(scenario.npcIncubationHours.min, incubationHoursRaw * scenario.timeScale)
   );
   const scaledDeathFromExposure = Math.min(
-    NPC_MAX_DEATH_HOURS,
-    Math.max(incubationHours + NPC_MIN_DEATH_HOURS, deathHoursFromExposureRaw * NPC_PLAGUE_TIME_SCALE)
+    scenario.npcDeathHours.max,
+    Math.max(incubationHours + scenario.npcDeathHours.min, deathHoursFromExposureRaw * scenario.timeScale)
   );
-  const deathHours = Math.max(NPC_MIN_DEATH_HOURS, scaledDeathFromExposure - incubationHours);
+  const deathHours = Math.max(scenario.npcDeathHours.min, scaledDeathFromExposure - incubationHours);
   return {
     plagueType: type,
     exposureTime: simTime,
@@ -79,11 +65,12 @@ export const ensureNpcPlagueMeta = (record: NPCRecord, simTime: number) => {
   record.plagueMeta = createNpcPlagueMeta(seed, simTime);
 };
 
-export const seedNpcInfection = (record: NPCRecord, simTime: number, seedOverride?: number) => {
+/** Infect a record; flea bites pass `PlagueType.BUBONIC`, other routes roll the scenario's mix. */
+export const seedNpcInfection = (record: NPCRecord, simTime: number, seedOverride?: number, plagueType?: PlagueType) => {
   const seed = seedOverride ?? (hashStringToSeed(record.id) + Math.floor(simTime * 10));
   record.state = AgentState.INCUBATING;
   record.stateStartTime = simTime;
-  record.plagueMeta = createNpcPlagueMeta(seed, simTime);
+  record.plagueMeta = createNpcPlagueMeta(seed, simTime, plagueType);
 };
 
 export const seedNpcInfectedNearDeath = (record: NPCRecord, simTime: number, seedOverride?: number) => {
@@ -99,15 +86,36 @@ export const seedNpcInfectedNearDeath = (record: NPCRecord, simTime: number, see
   };
 };
 
+export const getHouseholdExposureChance = (exposureHours: number) => (
+  Math.min(0.95, getEpidemicScenario().householdExposurePerHour * exposureHours)
+);
+
+/** Survivors keep their plague history and cannot catch it again. */
+export const isNpcImmune = (plagueMeta?: NPCPlagueMeta) => (
+  plagueMeta?.recoveredTime !== undefined && plagueMeta.recoveredTime !== null
+);
+
+/**
+ * Whether this case ends in recovery rather than death. Rolled once per
+ * infection from the NPC id and exposure time, so on-screen and off-screen
+ * agents agree.
+ */
+export const npcSurvivesPlague = (npcId: string, plagueMeta?: NPCPlagueMeta) => {
+  const type = plagueMeta?.plagueType ?? PlagueType.BUBONIC;
+  const mortality = getPlagueTypeParams(type).mortality;
+  const seed = hashStringToSeed(npcId) + 83 + Math.floor((plagueMeta?.exposureTime ?? 0) * 10);
+  return seededRand(seed) >= mortality;
+};
+
 export const applyHouseholdExposure = (
   record: NPCRecord,
   simTime: number,
   exposureHours: number,
   seedOffset = 0
 ) => {
-  if (record.state !== AgentState.HEALTHY) return false;
+  if (record.state !== AgentState.HEALTHY || isNpcImmune(record.plagueMeta)) return false;
   const seed = hashStringToSeed(record.id) + seedOffset + Math.floor(simTime * 10);
-  const chance = Math.min(0.95, HOUSEHOLD_EXPOSURE_PER_HOUR * exposureHours);
+  const chance = getHouseholdExposureChance(exposureHours);
   if (seededRand(seed) < chance) {
     seedNpcInfection(record, simTime, seed);
     return true;
@@ -144,7 +152,12 @@ export const advanceNpcHealth = (record: NPCRecord, simTime: number) => {
     const onsetTime = plagueMeta?.onsetTime ?? record.stateStartTime;
     const deathHours = plagueMeta?.deathHours ?? (CONSTANTS.HOURS_TO_DEATH - CONSTANTS.HOURS_TO_INFECTED);
     if (simTime - onsetTime >= deathHours) {
-      record.state = AgentState.DECEASED;
+      if (npcSurvivesPlague(record.id, plagueMeta)) {
+        record.state = AgentState.HEALTHY;
+        record.plagueMeta = { ...(plagueMeta ?? DEFAULT_PLAGUE_META), recoveredTime: simTime };
+      } else {
+        record.state = AgentState.DECEASED;
+      }
       record.stateStartTime = simTime;
       return true;
     }
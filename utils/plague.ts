@@ -4,35 +4,46 @@
  * Based on 14th century Damascus outbreak patterns
  */
 
-import { AgentState, PlagueType, BuboLocation, PlagueStatus } from '../types';
+import { AgentState, PlagueType, BuboLocation, PlagueStatus, PlagueTreatmentCourse } from '../types';
 import { seededRandom } from './procedural';
+import { EPIDEMIC_SCENARIOS, getEpidemicScenario, getPlagueTypeParams, pickScenarioPlagueType } from './epidemic/scenario';
 
 // Game time constants (assumed - adjust based on your game's time system)
 export const GAME_DAY_LENGTH = 60; // seconds per game day (adjust to match your simulation)
 
-// Historical plague progression data
+// Symptom timeline for the player's case. Incubation ranges, mortality and
+// contagiousness come from the active epidemic scenario (utils/epidemic/scenario.ts).
 export const PLAGUE_CONFIG = {
   BUBONIC: {
-    incubationDays: { min: 2, max: 6 },
     symptomsOnsetDay: 4,
     buboCriticalDay: 7,
-    deathDay: { min: 8, max: 12 },
-    baseMortality: 0.7, // 70% without treatment
-    lancedMortality: 0.4, // 40% if bubo lanced
   },
   PNEUMONIC: {
-    incubationDays: { min: 1, max: 3 },
     symptomsOnsetDay: 2,
-    deathDay: { min: 3, max: 5 },
-    baseMortality: 0.95, // 95% mortality
   },
   SEPTICEMIC: {
-    incubationDays: { min: 1, max: 2 },
-    deathDay: { min: 2, max: 3 },
-    baseMortality: 0.98, // 98% mortality
+    symptomsOnsetDay: 1.5, // Very rapid onset
   }
 };
 
+/** Scenario mortality relative to the historical preset the daily checks were tuned for. */
+const getMortalityScale = (type: PlagueType) => (
+  getPlagueTypeParams(type).mortality / getPlagueTypeParams(type, EPIDEMIC_SCENARIOS.historical_1348).mortality
+);
+
+/** Treatments still acting at `simTime`. */
+const activeTreatments = (plague: PlagueStatus, simTime: number) => (
+  (plague.treatments ?? []).filter(course => simTime < course.expiresAt)
+);
+
+/** Start a treatment course; a repeat of the same treatment replaces the old one. */
+export function addTreatmentCourse(plague: PlagueStatus, course: PlagueTreatmentCourse): PlagueStatus {
+  return {
+    ...plague,
+    treatments: [...activeTreatments(plague, course.givenAt).filter(existing => existing.id !== course.id), course]
+  };
+}
+
 /**
  * Initialize a healthy plague status
  */
@@ -96,10 +107,7 @@ export function exposePlayerToPlague(
   if (exposureType === 'airborne') {
     plagueType = PlagueType.PNEUMONIC; // Always pneumonic from airborne
   } else {
-    const roll = rand();
-    if (roll < 0.80) plagueType = PlagueType.BUBONIC;
-    else if (roll < 0.95) plagueType = PlagueType.PNEUMONIC;
-    else plagueType = PlagueType.SEPTICEMIC;
+    plagueType = pickScenarioPlagueType(rand());
   }
 
   // Determine bubo location if bubonic
@@ -144,6 +152,9 @@ export function progressPlague(
   }
 
   const newPlague = { ...currentPlague };
+  const courses = activeTreatments(currentPlague, simTime);
+  const mortalityFactor = courses.reduce((factor, course) => factor * course.mortalityFactor, 1);
+  if (currentPlague.treatments) newPlague.treatments = courses;
 
   // === INCUBATION PHASE ===
   if (currentPlague.state === AgentState.INCUBATING) {
@@ -156,7 +167,7 @@ export function progressPlague(
     } else if (currentPlague.plagueType === PlagueType.PNEUMONIC) {
       symptomsOnsetDay = PLAGUE_CONFIG.PNEUMONIC.symptomsOnsetDay;
     } else { // SEPTICEMIC
-      symptomsOnsetDay = 1.5; // Very rapid onset
+      symptomsOnsetDay = PLAGUE_CONFIG.SEPTICEMIC.symptomsOnsetDay;
     }
 
     if (daysSinceExposure >= symptomsOnsetDay) {
@@ -187,6 +198,12 @@ export function progressPlague(
     const daysInfected = (simTime - currentPlague.onsetTime!) / GAME_DAY_LENGTH;
     newPlague.daysInfected = Math.floor(daysInfected);
 
+    // Late stages carry symptoms over from the last tick; start from the untreated values
+    if (currentPlague.treatmentOffset) {
+      newPlague.fever = Math.max(0, Math.min(100, newPlague.fever - currentPlague.treatmentOffset.fever));
+      newPlague.weakness = Math.max(0, Math.min(100, newPlague.weakness - currentPlague.treatmentOffset.weakness));
+    }
+
     if (currentPlague.plagueType === PlagueType.BUBONIC) {
       // Day 0-2: Onset
       if (daysInfected < 2) {
@@ -221,10 +238,10 @@ export function progressPlague(
       // Day 7+: Death or recovery
       else {
         const mortality = newPlague.buboBurst
-          ? PLAGUE_CONFIG.BUBONIC.lancedMortality
-          : PLAGUE_CONFIG.BUBONIC.baseMortality;
+          ? getEpidemicScenario().bubonicLancedMortality
+          : getPlagueTypeParams(PlagueType.BUBONIC).mortality;
 
-        if (Math.random() < mortality * 0.1) { // 10% of mortality rate per day check
+        if (Math.random() < mortality * 0.1 * mortalityFactor) { // 10% of mortality rate per day check
           newPlague.state = AgentState.DECEASED;
         } else if (daysInfected > 10) {
           // Recovery begins - symptoms decrease
@@ -247,7 +264,7 @@ export function progressPlague(
       newPlague.delirium = Math.min(90, daysInfected * 25);
 
       // Death usually by day 3-5
-      if (daysInfected >= 3 && Math.random() < 0.5) { // 50% chance per day after day 3
+      if (daysInfected >= 3 && Math.random() < 0.5 * getMortalityScale(PlagueType.PNEUMONIC) * mortalityFactor) { // 50% chance per day after day 3
         newPlague.state = AgentState.DECEASED;
       }
 
@@ -262,14 +279,32 @@ export function progressPlague(
       newPlague.weakness = Math.min(95, 70 + daysInfected * 13);
       newPlague.delirium = Math.min(95, daysInfected * 30);
 
-      // Death usually by day 2-3
-      if (daysInfected >= 2) {
+      // Death usually by day 2-3; the rare survivor is decided once per case
+      const survives = seededRandom(Math.floor((currentPlague.exposureTime ?? 0) * 1000) + 7)
+        >= getPlagueTypeParams(PlagueType.SEPTICEMIC).mortality * mortalityFactor;
+      if (daysInfected >= 2 && !survives) {
         newPlague.state = AgentState.DECEASED;
+      } else if (daysInfected >= 3) {
+        newPlague.fever = Math.max(0, 95 - (daysInfected - 3) * 15);
+        newPlague.skinBleeding = Math.max(0, 95 - (daysInfected - 3) * 15);
       }
 
       newPlague.survivalChance = Math.max(2, 15 - daysInfected * 7);
     }
 
+    // Treatments bend the symptom curves while they last, fading as they wear off
+    const offset = courses.reduce((sum, course) => {
+      const remaining = (course.expiresAt - simTime) / (course.expiresAt - course.givenAt);
+      return { fever: sum.fever + course.feverOffset * remaining, weakness: sum.weakness + course.weaknessOffset * remaining };
+    }, { fever: 0, weakness: 0 });
+    const untreated = { fever: newPlague.fever, weakness: newPlague.weakness };
+    newPlague.fever = Math.max(0, Math.min(100, untreated.fever + offset.fever));
+    newPlague.weakness = Math.max(0, Math.min(100, untreated.weakness + offset.weakness));
+    newPlague.treatmentOffset = courses.length > 0
+      ? { fever: newPlague.fever - untreated.fever, weakness: newPlague.weakness - untreated.weakness }
+      : undefined;
+    newPlague.survivalChance = Math.round(Math.max(0, Math.min(100, 100 - (100 - newPlague.survivalChance) * mortalityFactor)));
+
     // Calculate overall severity for UI
     newPlague.overallSeverity = Math.max(
       newPlague.fever,
@@ -4,11 +4,11 @@
  * Balanced for engaging gameplay while maintaining realism
  */
 
+import { ActiveItemEffect } from '../types';
+import { getEpidemicScenario } from './epidemic/scenario';
+
 export const EXPOSURE_CONFIG = {
-  // Base exposure chances per second (when in range)
-  RAT_BASE_CHANCE: 0.008,      // 0.8% per second near rats (flea bites)
-  INFECTED_BASE_CHANCE: 0.003, // 0.3% per second near infected NPCs (pneumonic)
-  CORPSE_BASE_CHANCE: 0.0015,  // 0.15% per second near corpses (contact)
+  // Base exposure chances per second come from the active scenario (see getExposureBaseChances)
 
   // Detection radii (world units)
   RAT_RADIUS: 2.5,             // Rat activity/flea jump range
@@ -35,6 +35,16 @@ export const EXPOSURE_CONFIG = {
   }
 } as const;
 
+/**
+ * Base exposure chances per second (when in range) for the active scenario.
+ * Historical 1348: 0.8% near rats (flea bites), 0.3% near infected NPCs
+ * (pneumonic), 0.15% near corpses (contact).
+ */
+export const getExposureBaseChances = () => {
+  const { flea, airborne, contact } = getEpidemicScenario().playerExposure;
+  return { rat: flea, infected: airborne, corpse: contact };
+};
+
 /**
  * Expected infection rates with base config:
  * - 30s near rats: ~20% infection chance
@@ -44,26 +54,18 @@ export const EXPOSURE_CONFIG = {
  */
 
 /**
- * Calculate total plague protection multiplier from player inventory
+ * Calculate total plague protection multiplier from the items the player has
+ * on: worn cloths and pouches, burning incense. Carrying them does nothing.
  * Protection items stack multiplicatively (each reduces remaining risk)
  * Example: 30% reduction + 15% reduction = 1 - (0.7 * 0.85) = 40.5% total reduction
  */
-export function calculatePlagueProtection(inventory: Array<{ itemId: string; quantity: number }>): number {
+export function calculatePlagueProtection(activeEffects: ActiveItemEffect[] | undefined): number {
   let protectionMultiplier = 1.0;
 
-  // Check for each protective item in inventory
-  const hasAromaticHerbPouch = inventory.some(item => item.itemId === 'aromatic_herb_pouch' && item.quantity > 0);
-  const hasFaceCloth = inventory.some(item => item.itemId === 'face_cloth' && item.quantity > 0);
-  const hasVinegarCloth = inventory.some(item => item.itemId === 'vinegar_cloth' && item.quantity > 0);
-  const hasFrankincense = inventory.some(item => item.itemId === 'frankincense' && item.quantity > 0);
-  const hasQuranicAmulet = inventory.some(item => item.itemId === 'quranic_amulet' && item.quantity > 0);
-
-  // Stack protection multiplicatively
-  if (hasAromaticHerbPouch) protectionMultiplier *= EXPOSURE_CONFIG.PROTECTION.AROMATIC_HERB_POUCH;
-  if (hasFaceCloth) protectionMultiplier *= EXPOSURE_CONFIG.PROTECTION.FACE_CLOTH;
-  if (hasVinegarCloth) protectionMultiplier *= EXPOSURE_CONFIG.PROTECTION.VINEGAR_CLOTH;
-  if (hasFrankincense) protectionMultiplier *= EXPOSURE_CONFIG.PROTECTION.FRANKINCENSE;
-  if (hasQuranicAmulet) protectionMultiplier *= EXPOSURE_CONFIG.PROTECTION.QURANIC_AMULET;
+  (activeEffects ?? []).forEach(effect => {
+    if (effect.type !== 'plagueProtection') return;
+    protectionMultiplier *= Math.max(0, 1 - effect.value / 100);
+  });
 
   return protectionMultiplier;
 }
@@ -1,13 +1,68 @@
 import * as THREE from 'three';
-import { ActionId, PLAYER_ACTIONS, PlayerActionEvent, PlayerStats } from '../types';
+import {
+  ActionId,
+  AgentState,
+  BuildingMetadata,
+  BuildingType,
+  HealOutcome,
+  MerchantNPC,
+  NPCStats,
+  PLAYER_ACTIONS,
+  PlagueStatus,
+  PlagueType,
+  PlayerActionEvent,
+  PlayerItem,
+  PlayerStats,
+  Religion
+} from '../types';
+import { getContagionWeight } from './epidemic/scenario';
+import { generateBarterPartner } from './merchantGeneration';
+import { getItemDetailsByItemId } from './merchantItems';
+import { hashToSeed } from './npcRegistry';
+import { attemptTreatment, exposePlayerToPlague } from './plague';
+import { calculatePlagueProtection } from './plagueExposure';
+import { seededRandom } from './procedural';
 import { AgentSnapshot, SpatialHash, queryNearbyAgents } from './spatial';
 
 export interface ActionResult {
   success: boolean;
   affectedNpcIds: string[];
   message: string;
+  /** Nothing was attempted (no remedy, nobody to trade with), so no cooldown is spent. */
+  blocked?: boolean;
+  /** Inventory entry to spend one unit of. */
+  consumedInventoryId?: string;
+  /** Player's plague status after the action, when it changed. */
+  playerPlague?: PlagueStatus;
+  pietyDelta?: number;
+  /** Extra fields for the event broadcast to NPCs. */
+  event?: Partial<PlayerActionEvent>;
+  /** Trade: the NPC to barter with, dressed up as a small merchant. */
+  barterPartner?: MerchantNPC;
 }
 
+/**
+ * World state the richer actions need beyond the player and the agent hash
+ */
+export interface ActionContext {
+  simTime: number;
+  /** Seed for this use of the action; outcomes replay for the same seed. */
+  seed: number;
+  /** Building the player is standing at, for prayer bonuses. */
+  sanctuary?: BuildingMetadata | null;
+  /** NPC close enough to talk to, for trade. */
+  tradePartner?: { stats: NPCStats; state: AgentState } | null;
+}
+
+export interface Remedy {
+  inventoryId: string;
+  name: string;
+  /** 0-1, from the item's heal value. */
+  potency: number;
+}
+
+type Faith = 'islam' | 'christian' | 'jewish' | 'druze';
+
 /**
  * Check if an action can be executed
  */
@@ -145,6 +200,214 @@ export const executeObserveAction = (): ActionResult => {
   };
 };
 
+/**
+ * Strongest healing item the player carries
+ */
+export const findBestRemedy = (inventory: PlayerItem[]): Remedy | null => {
+  let best: Remedy | null = null;
+  inventory.forEach(item => {
+    if (item.quantity <= 0) return;
+    const details = getItemDetailsByItemId(item.itemId);
+    const heal = details?.effects?.find(effect => effect.type === 'heal');
+    if (!details || !heal) return;
+    const potency = Math.min(1, heal.value / 100);
+    if (!best || potency > best.potency) {
+      best = { inventoryId: item.id, name: details.name, potency };
+    }
+  });
+  return best;
+};
+
+// Caught early, a good remedy often turns the sickness; once the fever has taken hold
+// it rarely does, and almost never for the lung or blood forms.
+const healCureChance = (state: AgentState, plagueType: PlagueType | undefined, potency: number) => {
+  if (state === AgentState.INCUBATING) return 0.05 + 0.6 * potency;
+  if (plagueType === PlagueType.PNEUMONIC || plagueType === PlagueType.SEPTICEMIC) return 0.1 * potency;
+  return 0.3 * potency;
+};
+
+/**
+ * Execute heal action - spends one remedy on every sick NPC in reach. Each
+ * outcome is rolled here so NPCs only apply it; tending them exposes the healer.
+ */
+export const executeHealAction = (
+  playerPosition: THREE.Vector3,
+  playerStats: PlayerStats,
+  agentHash: SpatialHash<AgentSnapshot> | null,
+  context: ActionContext
+): ActionResult => {
+  const remedy = findBestRemedy(playerStats.inventory);
+  if (!remedy) {
+    return {
+      success: false,
+      blocked: true,
+      affectedNpcIds: [],
+      message: 'You carry nothing to treat them with.'
+    };
+  }
+
+  const action = PLAYER_ACTIONS.heal;
+  const sick = getAffectedNpcs(playerPosition, action.radius, agentHash)
+    .filter(agent => agent.state === AgentState.INCUBATING || agent.state === AgentState.INFECTED);
+  if (sick.length === 0) {
+    return {
+      success: false,
+      blocked: true,
+      affectedNpcIds: [],
+      message: 'No one within reach needs your remedies.'
+    };
+  }
+
+  const healOutcomes: Record<string, HealOutcome> = {};
+  let cured = 0;
+  let contagion = 0;
+  let airborne = false;
+  sick.forEach(agent => {
+    const state = agent.state as AgentState;
+    const plagueType = agent.plagueType ?? PlagueType.BUBONIC;
+    const roll = seededRandom(context.seed + hashToSeed(agent.id));
+    const outcome: HealOutcome = roll < healCureChance(state, plagueType, remedy.potency) ? 'cured' : 'eased';
+    healOutcomes[agent.id] = outcome;
+    if (outcome === 'cured') cured += 1;
+    contagion += getContagionWeight(state, plagueType);
+    if (state === AgentState.INFECTED && plagueType === PlagueType.PNEUMONIC) airborne = true;
+  });
+
+  // Leaning over the sick is close contact; a coughing patient can pass on the lung form.
+  const intensity = Math.min(1, 0.5 * contagion * calculatePlagueProtection(playerStats.activeEffects));
+  const exposed = exposePlayerToPlague(
+    playerStats.plague,
+    airborne ? 'airborne' : 'contact',
+    intensity,
+    context.simTime,
+    context.seed + 7
+  );
+
+  const eased = sick.length - cured;
+  const parts = [cured > 0 ? `${cured} recovering` : null, eased > 0 ? `${eased} eased` : null].filter(Boolean);
+  return {
+    success: true,
+    affectedNpcIds: sick.map(agent => agent.id),
+    message: `You treat ${sick.length === 1 ? 'the sick' : `${sick.length} of the sick`} with ${remedy.name}: ${parts.join(', ')}.`,
+    consumedInventoryId: remedy.inventoryId,
+    playerPlague: exposed !== playerStats.plague ? exposed : undefined,
+    event: { healOutcomes, remedyPotency: remedy.potency }
+  };
+};
+
+const faithOf = (religion: Religion): Faith => {
+  switch (religion) {
+    case 'Sunni Islam':
+    case 'Shia Islam':
+    case 'Ismaili':
+      return 'islam';
+    case 'Jewish':
+    case 'Samaritan':
+      return 'jewish';
+    case 'Druze':
+      return 'druze';
+    default:
+      return 'christian';
+  }
+};
+
+// Which faith a religious building serves, judged by who keeps it
+const sanctuaryFaith = (building: BuildingMetadata): Faith | null => {
+  if (building.type !== BuildingType.RELIGIOUS) return null;
+  if (/priest|monk|deacon/i.test(building.ownerProfession)) return 'christian';
+  if (/rabbi|cantor|torah|slaughterer|scholar/i.test(building.ownerProfession)) return 'jewish';
+  return 'islam';
+};
+
+const SANCTUARY_NAMES: Record<Faith, string> = {
+  islam: 'mosque',
+  christian: 'church',
+  jewish: 'synagogue',
+  druze: 'khalwa'
+};
+
+const PRAYER_TEXT: Record<Faith, string> = {
+  islam: 'You perform the salat and ask God for mercy on the city.',
+  christian: 'You cross yourself and pray for deliverance from the pestilence.',
+  jewish: 'You recite psalms and pray that the plague pass over this house.',
+  druze: 'You sit in quiet contemplation of the divine unity.'
+};
+
+/**
+ * Execute pray action - raises piety and steadies believers nearby; much
+ * stronger at a house of the player's own faith
+ */
+export const executePrayAction = (
+  playerStats: PlayerStats,
+  context: ActionContext
+): ActionResult => {
+  const faith = faithOf(playerStats.religion);
+  const houseFaith = context.sanctuary ? sanctuaryFaith(context.sanctuary) : null;
+  const atOwnHouse = houseFaith !== null && houseFaith === faith;
+  const atOtherHouse = houseFaith !== null && houseFaith !== faith;
+
+  const devotion = atOwnHouse ? 1 : atOtherHouse ? 0.25 : 0.5;
+  const radius = atOwnHouse ? 10 : 4;
+  let message = PRAYER_TEXT[faith];
+  if (atOwnHouse) {
+    message += ` The ${SANCTUARY_NAMES[faith]} steadies you and those gathered here.`;
+  } else if (atOtherHouse) {
+    message += ` This ${SANCTUARY_NAMES[houseFaith]} is not your own; few here join you.`;
+  }
+
+  // Prayer eases the mind of a sick believer, nothing more.
+  const comforted = attemptTreatment(playerStats.plague, 'prayer');
+
+  return {
+    success: true,
+    affectedNpcIds: [],
+    message,
+    pietyDelta: atOwnHouse ? 2 : atOtherHouse ? 0 : 1,
+    playerPlague: comforted !== playerStats.plague ? comforted : undefined,
+    event: { radius, religion: playerStats.religion, devotion }
+  };
+};
+
+/**
+ * Execute trade action - barter with the NPC beside the player using the
+ * goods of their profession
+ */
+export const executeTradeAction = (
+  playerPosition: THREE.Vector3,
+  context: ActionContext
+): ActionResult => {
+  const partner = context.tradePartner;
+  if (!partner || partner.state === AgentState.DECEASED) {
+    return {
+      success: false,
+      blocked: true,
+      affectedNpcIds: [],
+      message: 'There is no one close enough to trade with.'
+    };
+  }
+  if (partner.state === AgentState.INFECTED) {
+    return {
+      success: false,
+      blocked: true,
+      affectedNpcIds: [partner.stats.id],
+      message: `${partner.stats.name} is too sick to trade.`
+    };
+  }
+
+  const barterPartner = generateBarterPartner(
+    partner.stats,
+    [playerPosition.x, playerPosition.y, playerPosition.z],
+    hashToSeed(partner.stats.id),
+    context.simTime
+  );
+  return {
+    success: true,
+    affectedNpcIds: [partner.stats.id],
+    message: `${partner.stats.name} opens their pack.`,
+    barterPartner
+  };
+};
+
 /**
  * Main action executor
  */
@@ -152,7 +415,8 @@ export const executeAction = (
   actionId: ActionId,
   playerPosition: THREE.Vector3,
   playerStats: PlayerStats,
-  agentHash: SpatialHash<AgentSnapshot> | null
+  agentHash: SpatialHash<AgentSnapshot> | null,
+  context: ActionContext
 ): ActionResult => {
   switch (actionId) {
     case 'warn':
@@ -161,11 +425,11 @@ export const executeAction = (
       return executeEncourageAction(playerPosition, playerStats, agentHash);
     case 'observe':
       return executeObserveAction();
-    default:
-      return {
-        success: false,
-        affectedNpcIds: [],
-        message: 'Action not implemented yet.'
-      };
+    case 'heal':
+      return executeHealAction(playerPosition, playerStats, agentHash, context);
+    case 'pray':
+      return executePrayAction(playerStats, context);
+    case 'trade':
+      return executeTradeAction(playerPosition, context);
   }
 };
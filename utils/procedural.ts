@@ -1613,6 +1613,14 @@ export const generateNPCStats = (seed: number, context?: { districtType?: Distri
   };
 };
 
+// 100 when the four humors are equal, falling as they drift apart
+export const computeHumoralBalance = (humors: PlayerStats['humors']) => {
+  const humorValues = [humors.blood, humors.phlegm, humors.yellowBile, humors.blackBile];
+  const avg = humorValues.reduce((a, b) => a + b, 0) / humorValues.length;
+  const variance = humorValues.reduce((a, b) => a + (b - avg) * (b - avg), 0) / humorValues.length;
+  return Math.max(0, Math.round(100 - Math.sqrt(variance)));
+};
+
 export const generatePlayerStats = (
   seed: number,
   context?: { districtType?: DistrictType }
@@ -1807,10 +1815,7 @@ export const generatePlayerStats = (
     yellowBile: 20 + Math.floor(rand() * 30),
     blackBile: 20 + Math.floor(rand() * 30),
   };
-  const humorValues = [humors.blood, humors.phlegm, humors.yellowBile, humors.blackBile];
-  const avg = humorValues.reduce((a, b) => a + b, 0) / humorValues.length;
-  const variance = humorValues.reduce((a, b) => a + (b - avg) * (b - avg), 0) / humorValues.length;
-  const humoralBalance = Math.max(0, Math.round(100 - Math.sqrt(variance)));
+  const humoralBalance = computeHumoralBalance(humors);
 
   const height = age < 18 ? 0.6 + (age / 18) * 0.3 : 0.9 + rand() * 0.2;
   const weight = rand() * 0.4 + 0.8;
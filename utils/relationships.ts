@@ -0,0 +1,238 @@
+/**
+ * NPC Relationships
+ *
+ * Long-lived memory of the player, one record per NPC id: trust, money owed
+ * either way, favours, grudges, promises the player made and things the player
+ * said about themself. Records are plain JSON so they persist to localStorage
+ * and save games, and they outlive the tile the NPC was met on.
+ */
+
+import {
+  ConversationMessage,
+  ConversationSummary,
+  NPCStats,
+  NpcDialogueAction,
+  NpcRelationship,
+  RelationshipNote
+} from '../types';
+import type { ConversationImpact } from './friendliness';
+
+export type NpcRelationshipMap = Record<string, NpcRelationship>;
+
+/** Facts and promises pulled from the player's side of one conversation */
+export interface ConversationNotes {
+  facts: string[];
+  promises: string[];
+}
+
+export const RELATIONSHIP_STORAGE_KEY = 'npcRelationships';
+
+// How much of each list an NPC keeps; older entries fall away first
+const LIMITS = {
+  memories: 6,
+  debts: 6,
+  favors: 6,
+  grudges: 5,
+  promises: 5,
+  facts: 8
+};
+
+// Threats repeated within this many sim hours escalate instead of starting over
+const THREAT_WINDOW_HOURS = 1;
+const MAX_NOTE_LENGTH = 120;
+
+const clamp = (value: number, min: number, max: number) => Math.min(max, Math.max(min, value));
+
+const keepLast = <T,>(items: T[], limit: number) => items.slice(-limit);
+
+export const loadStoredRelationships = (): NpcRelationshipMap => {
+  try {
+    const raw = localStorage.getItem(RELATIONSHIP_STORAGE_KEY);
+    return raw ? JSON.parse(raw) : {};
+  } catch {
+    return {};
+  }
+};
+
+export const createRelationship = (npc: Pick<NPCStats, 'id' | 'name' | 'profession'>, simTime: number): NpcRelationship => ({
+  npcId: npc.id,
+  npcName: npc.name,
+  npcProfession: npc.profession,
+  trust: 0,
+  conversations: 0,
+  firstMetSimTime: simTime,
+  lastSeenSimTime: simTime,
+  memories: [],
+  debts: [],
+  favors: [],
+  grudges: [],
+  promises: [],
+  facts: [],
+  threats: { count: 0, lastSimTime: simTime }
+});
+
+const FACT_PATTERN = /\b(i am|i'm|my name is|i have|i've|i come from|i came from|i live|i work|my (wife|husband|son|daughter|children|father|mother|family|house|home|shop|master|brother|sister))\b/i;
+const PROMISE_PATTERN = /\b(i will|i'll|i shall|i promise|i swear|you have my word)\b/i;
+
+/**
+ * Pull statements about the player and promises out of their messages.
+ * Deliberately literal: a sentence counts only if it says "I will..." or
+ * "my family..." outright, and questions are skipped.
+ */
+export const extractConversationNotes = (messages: ConversationMessage[]): ConversationNotes => {
+  const facts: string[] = [];
+  const promises: string[] = [];
+  messages
+    .filter(message => message.role === 'player')
+    .forEach(message => {
+      message.content
+        .split(/(?<=[.!?])\s+/)
+        .map(sentence => sentence.replace(/\s+/g, ' ').trim())
+        .filter(sentence => sentence.length > 6 && !sentence.endsWith('?'))
+        .forEach(sentence => {
+          const note = sentence.length > MAX_NOTE_LENGTH ? `${sentence.slice(0, MAX_NOTE_LENGTH - 3)}...` : sentence;
+          if (PROMISE_PATTERN.test(sentence)) {
+            if (!promises.includes(note)) promises.push(note);
+          } else if (FACT_PATTERN.test(sentence)) {
+            if (!facts.includes(note)) facts.push(note);
+          }
+        });
+    });
+  return { facts, promises };
+};
+
+const addNotes = (existing: RelationshipNote[], texts: string[], simTime: number, limit: number): RelationshipNote[] => {
+  const known = new Set(existing.map(note => note.text.toLowerCase()));
+  const added = texts
+    .filter(text => !known.has(text.toLowerCase()))
+    .map(text => ({ text, simTime }));
+  return keepLast([...existing, ...added], limit);
+};
+
+// A repeated grievance refreshes the old one rather than listing it twice
+const addGrudge = (grudges: RelationshipNote[], text: string, simTime: number): RelationshipNote[] => (
+  keepLast([...grudges.filter(grudge => grudge.text !== text), { text, simTime }], LIMITS.grudges)
+);
+
+/** Fold a finished conversation into the NPC's record. */
+export const recordConversation = (
+  relationship: NpcRelationship,
+  summary: ConversationSummary,
+  impact: ConversationImpact,
+  notes: ConversationNotes | undefined,
+  simTime: number
+): NpcRelationship => {
+  const sentimentTrust = summary.sentiment === 'positive' ? 4 : summary.sentiment === 'negative' ? -6 : 1;
+  let trust = relationship.trust + sentimentTrust + Math.round(clamp(impact.friendlinessChange, -15, 15) / 3);
+
+  let threats = relationship.threats;
+  let grudges = relationship.grudges;
+  const threatened = impact.threatLevel >= 40;
+  const insulted = impact.offenseLevel >= 50;
+  if (threatened || insulted) {
+    const recent = relationship.threats.count > 0 && simTime - relationship.threats.lastSimTime <= THREAT_WINDOW_HOURS;
+    threats = { count: recent ? relationship.threats.count + 1 : 1, lastSimTime: simTime };
+    grudges = addGrudge(grudges, threatened ? 'threatened {other}' : 'insulted {other}', simTime);
+    trust -= threatened ? 10 : 6;
+  }
+
+  return {
+    ...relationship,
+    trust: clamp(trust, -100, 100),
+    conversations: relationship.conversations + 1,
+    lastSeenSimTime: simTime,
+    memories: keepLast([...relationship.memories, { text: summary.summary, simTime: summary.simTime, sentiment: summary.sentiment }], LIMITS.memories),
+    grudges,
+    threats,
+    facts: addNotes(relationship.facts, notes?.facts ?? [], simTime, LIMITS.facts),
+    promises: addNotes(relationship.promises, notes?.promises ?? [], simTime, LIMITS.promises)
+  };
+};
+
+const LOAN_PATTERN = /\b(loan|lend|borrow|repay|owe)\b/i;
+
+/** Record what a dialogue action did between the two of them. */
+export const recordDialogueAction = (
+  relationship: NpcRelationship,
+  action: NpcDialogueAction,
+  accepted: boolean,
+  simTime: number
+): NpcRelationship => {
+  const next = { ...relationship, lastSeenSimTime: simTime };
+  const favor = (text: string, doneBy: 'player' | 'npc') => keepLast([...next.favors, { text, simTime, doneBy }], LIMITS.favors);
+  switch (action.type) {
+    case 'offer_item':
+      return accepted ? { ...next, trust: clamp(next.trust + 3, -100, 100) } : next;
+    case 'request_payment': {
+      if (!accepted) return { ...next, trust: clamp(next.trust - 3, -100, 100) };
+      const amount = action.amount ?? 0;
+      const reason = action.reason ?? 'when they asked';
+      if (LOAN_PATTERN.test(reason)) {
+        return {
+          ...next,
+          trust: clamp(next.trust + 4, -100, 100),
+          debts: keepLast([...next.debts, { amount, owedBy: 'npc', reason, simTime }], LIMITS.debts)
+        };
+      }
+      return { ...next, trust: clamp(next.trust + 6, -100, 100), favors: favor(`gave {other} ${amount} dirhams ${reason}`, 'player') };
+    }
+    case 'reveal_location':
+      return { ...next, favors: favor(`told {other} the way to ${action.location}`, 'npc') };
+    case 'share_rumor':
+      return { ...next, trust: clamp(next.trust + 1, -100, 100) };
+    case 'invite_home':
+      return { ...next, trust: clamp(next.trust + 5, -100, 100), favors: favor('invited {other} home', 'npc') };
+    case 'call_guard':
+      return {
+        ...next,
+        trust: clamp(next.trust - 15, -100, 100),
+        grudges: addGrudge(next.grudges, 'drove {other} to call the watch', simTime)
+      };
+    case 'end_conversation':
+    default:
+      return next;
+  }
+};
+
+/**
+ * Favours and grudges are stored as deeds, "gave {other} 2 dirhams", so one
+ * record reads right from either side: the player's dossier or the NPC's prompt.
+ */
+export const describeDeed = (deed: string, doneBy: 'player' | 'npc', viewpoint: 'player' | 'npc', npcName: string): string => {
+  const npcFirstName = npcName.split(' ')[0];
+  if (viewpoint === 'player') {
+    return doneBy === 'player' ? `You ${deed.replace('{other}', npcFirstName)}` : `${npcFirstName} ${deed.replace('{other}', 'you')}`;
+  }
+  return doneBy === 'player' ? `They ${deed.replace('{other}', 'you')}` : `You ${deed.replace('{other}', 'them')}`;
+};
+
+/** Dirhams owed on balance: positive when the NPC owes the player. */
+export const getDebtBalance = (relationship: NpcRelationship): number => (
+  relationship.debts.reduce((sum, debt) => sum + (debt.owedBy === 'npc' ? debt.amount : -debt.amount), 0)
+);
+
+/**
+ * Friendliness adjustment from the relationship (-40 to +25): trust counts
+ * most, grudges linger, and favours the player did them are remembered.
+ */
+export const getRelationshipFriendlinessModifier = (relationship: NpcRelationship | null | undefined): number => {
+  if (!relationship) return 0;
+  const playerFavors = relationship.favors.filter(favor => favor.doneBy === 'player').length;
+  const balance = getDebtBalance(relationship);
+  let modifier = relationship.trust / 4;
+  modifier -= Math.min(15, relationship.grudges.length * 5);
+  modifier += Math.min(9, playerFavors * 3);
+  // Owing the player makes them accommodating; being owed makes them cool
+  if (balance > 0) modifier += 3;
+  if (balance < 0) modifier -= 5;
+  return clamp(Math.round(modifier), -40, 25);
+};
+
+export const describeTrust = (trust: number): string => {
+  if (trust >= 60) return 'Confidant';
+  if (trust >= 25) return 'Trusted';
+  if (trust >= 5) return 'Acquaintance';
+  if (trust > -15) return 'Stranger';
+  if (trust > -50) return 'Wary';
+  return 'Hostile';
+};
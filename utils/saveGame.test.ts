@@ -0,0 +1,53 @@
+import { describe, expect, it } from 'vitest';
+import { SAVE_VERSION, SaveGameData, migrateSaveGame } from './saveGame';
+
+const versionOneSave = () => ({
+  version: 1,
+  summary: { id: 'slot-a', name: 'Old', savedAt: 0, simTime: 30, mapX: 2, mapY: -1, playerName: 'Yusuf', playerProfession: 'Scribe', isAutosave: false, version: 1 },
+  params: { infectionRate: 0.02, hygieneLevel: 0.5, quarantine: false, simulationSpeed: 1, timeOfDay: 9, mapX: 2, mapY: -1 },
+  stats: { simTime: 30 },
+  playerSeed: 7,
+  playerStats: { name: 'Yusuf' },
+  worldFlags: {},
+  eventTriggerState: { counts: {}, lastTriggeredDay: {} },
+  tileRegistries: [],
+  buildingInfection: [],
+  rumorPools: [],
+  conversationHistories: [
+    { npcId: 'merchant-stall-3', simTime: 20, summary: 'Haggled over rope.', sentiment: 'neutral' },
+    { npcId: 'npc-41', simTime: 22, summary: 'Talked of the plague.', sentiment: 'negative' }
+  ],
+  npcRelationships: {
+    'merchant-stall-3': { npcId: 'merchant-stall-3', npcName: 'Hasan', trust: 12 },
+    'npc-41': { npcId: 'npc-41', npcName: 'Maryam', trust: 3 }
+  },
+  merchantInventories: [
+    ['merchant-stall-3', { merchantId: 'merchant-stall-3', items: [], lastRestockTime: 0, restockInterval: 24 }],
+    ['merchant-bedouin-tent-2--1-0', { merchantId: 'merchant-bedouin-tent-2--1-0', items: [], lastRestockTime: 0, restockInterval: 24 }]
+  ],
+  seededInitialInfections: true,
+  forcedPlagueTriggered: false
+});
+
+describe('migrateSaveGame', () => {
+  it('moves version 1 stall merchants onto the tile the game was saved on', () => {
+    const data = migrateSaveGame(versionOneSave()) as SaveGameData;
+    expect(data.version).toBe(SAVE_VERSION);
+    expect(data.merchantInventories.map(([id, inventory]) => [id, inventory.merchantId])).toEqual([
+      ['merchant-stall-2--1-3', 'merchant-stall-2--1-3'],
+      ['merchant-bedouin-tent-2--1-0', 'merchant-bedouin-tent-2--1-0']
+    ]);
+    expect(Object.keys(data.npcRelationships ?? {})).toEqual(['merchant-stall-2--1-3', 'npc-41']);
+    expect(data.npcRelationships?.['merchant-stall-2--1-3'].npcId).toBe('merchant-stall-2--1-3');
+    expect(data.conversationHistories.map(summary => summary.npcId)).toEqual(['merchant-stall-2--1-3', 'npc-41']);
+  });
+
+  it('leaves a current save as it is', () => {
+    const current = { ...versionOneSave(), version: SAVE_VERSION };
+    expect(migrateSaveGame(current)).toBe(current);
+  });
+
+  it('refuses a save from a newer version', () => {
+    expect(migrateSaveGame({ ...versionOneSave(), version: SAVE_VERSION + 1 })).toBeNull();
+  });
+});
@@ -0,0 +1,330 @@
+/**
+ * Save Game System
+ *
+ * Versioned, slot-based persistence for a full playthrough. Serializes the
+ * player, clock, per-tile NPC registries, household infection state, rumor
+ * pools, conversation summaries, NPC relationships, storylines, merchant
+ * stock, city market prices, the player's thefts and emptied chests to
+ * localStorage.
+ */
+
+import {
+  BuildingInfectionState,
+  ConversationSummary,
+  CrimeState,
+  DistrictType,
+  MarketState,
+  MerchantInventory,
+  NPCRecord,
+  NpcRelationship,
+  PlayerStats,
+  SimulationParams,
+  SimulationStats,
+  StorylineState
+} from '../types';
+import { TriggerState } from './events/triggerSystem';
+import { createStorylineState } from './events/storylines';
+import { createMarketState } from './market';
+import { createCrimeState } from './crime';
+import { TileRegistry } from './epidemic/engine';
+import { DEFAULT_SCENARIO_ID, EpidemicScenarioId } from './epidemic/scenario';
+import { RatColony } from './epidemic/vectors';
+import { EpidemicSample, thinSeriesForSave } from './epidemic/analytics';
+import { CompactNpcRecord, compactNpcRecord, hydrateCompactRecords } from './epidemic/city';
+
+export const SAVE_VERSION = 2;
+export const AUTOSAVE_SLOT_ID = 'autosave';
+export const MAX_SAVE_SLOTS = 8;
+/** A slot over this many characters is written without its epidemic series. */
+export const MAX_SAVE_SLOT_CHARS = 1_500_000;
+
+const SAVE_INDEX_KEY = 'saveGame:index';
+const SAVE_SLOT_PREFIX = 'saveGame:slot:';
+
+export type { TileRegistry };
+export type RumorEntry = { text: string; simTime: number };
+
+export interface SaveSlotSummary {
+  id: string;
+  name: string;
+  savedAt: number;          // Real-world timestamp (ms)
+  simTime: number;
+  mapX: number;
+  mapY: number;
+  playerName: string;
+  playerProfession: string;
+  isAutosave: boolean;
+  version: number;
+}
+
+/** Live game state gathered from App before serialization. */
+export interface SaveGameSnapshot {
+  params: SimulationParams;
+  stats: SimulationStats;
+  playerSeed: number;
+  playerStats: PlayerStats;
+  worldFlags: Record<string, boolean | number | string>;
+  eventTriggerState: TriggerState;
+  tileRegistries: Map<string, TileRegistry>;
+  buildingInfection: Map<string, Map<string, BuildingInfectionState>>;
+  rumorPools: Map<DistrictType, RumorEntry[]>;
+  conversationHistories: ConversationSummary[];
+  npcRelationships: Record<string, NpcRelationship>;
+  storylines: StorylineState;
+  merchantInventories: Map<string, MerchantInventory>;
+  market: MarketState;
+  crime: CrimeState;
+  lootedChests: Record<string, string[]>;
+  seededInitialInfections: boolean;
+  forcedPlagueTriggered: boolean;
+  epidemic: SavedEpidemicState;
+  epidemicSeries: EpidemicSample[];
+  scenarioId: EpidemicScenarioId;
+}
+
+/** Seeded RNG position and per-tile clocks of the epidemic core. */
+export interface SavedEpidemicState {
+  rngState: number;
+  tileClocks: Array<[string, number]>;
+  provisionalTiles?: string[];
+  lastTravelSimTime?: number;
+  vectors?: Array<[string, RatColony[]]>;
+}
+
+/** JSON-safe form written to storage (Maps flattened to entry arrays). */
+export interface SaveGameData {
+  version: number;
+  summary: SaveSlotSummary;
+  params: Pick<SimulationParams, 'infectionRate' | 'hygieneLevel' | 'quarantine' | 'simulationSpeed' | 'timeOfDay' | 'mapX' | 'mapY'>;
+  stats: SimulationStats;
+  playerSeed: number;
+  playerStats: PlayerStats;
+  worldFlags: Record<string, boolean | number | string>;
+  eventTriggerState: TriggerState;
+  // Provisional (never visited) tiles store health only; stats are regenerated from their seeds.
+  tileRegistries: Array<[string, { npcs: NPCRecord[]; compactNpcs?: CompactNpcRecord[]; lastScheduleSimTime: number }]>;
+  buildingInfection: Array<[string, Array<[string, BuildingInfectionState]>]>;
+  rumorPools: Array<[DistrictType, RumorEntry[]]>;
+  conversationHistories: ConversationSummary[];
+  npcRelationships?: Record<string, NpcRelationship>;
+  storylines?: StorylineState;
+  merchantInventories: Array<[string, MerchantInventory]>;
+  market?: MarketState;
+  crime?: CrimeState;
+  lootedChests?: Record<string, string[]>;
+  seededInitialInfections: boolean;
+  forcedPlagueTriggered: boolean;
+  epidemic?: SavedEpidemicState;
+  epidemicSeries?: EpidemicSample[];
+  scenarioId?: EpidemicScenarioId;
+}
+
+const slotKey = (slotId: string) => `${SAVE_SLOT_PREFIX}${slotId}`;
+
+export const createSaveSlotId = () => `slot-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 6)}`;
+
+export const serializeSaveGame = (snapshot: SaveGameSnapshot, slotId: string, name: string): SaveGameData => {
+  const { params, stats, playerStats } = snapshot;
+  const provisionalTiles = new Set(snapshot.epidemic.provisionalTiles ?? []);
+  const summary: SaveSlotSummary = {
+    id: slotId,
+    name,
+    savedAt: Date.now(),
+    simTime: stats.simTime,
+    mapX: params.mapX,
+    mapY: params.mapY,
+    playerName: playerStats.name,
+    playerProfession: playerStats.profession,
+    isAutosave: slotId === AUTOSAVE_SLOT_ID,
+    version: SAVE_VERSION
+  };
+
+  return {
+    version: SAVE_VERSION,
+    summary,
+    params: {
+      infectionRate: params.infectionRate,
+      hygieneLevel: params.hygieneLevel,
+      quarantine: params.quarantine,
+      simulationSpeed: params.simulationSpeed,
+      timeOfDay: params.timeOfDay,
+      mapX: params.mapX,
+      mapY: params.mapY
+    },
+    stats,
+    playerSeed: snapshot.playerSeed,
+    playerStats,
+    worldFlags: snapshot.worldFlags,
+    eventTriggerState: snapshot.eventTriggerState,
+    tileRegistries: Array.from(snapshot.tileRegistries.entries()).map(([key, registry]) => {
+      const records = Array.from(registry.npcMap.values());
+      return provisionalTiles.has(key)
+        ? [key, { npcs: [], compactNpcs: records.map(compactNpcRecord), lastScheduleSimTime: registry.lastScheduleSimTime }]
+        : [key, { npcs: records, lastScheduleSimTime: registry.lastScheduleSimTime }];
+    }),
+    buildingInfection: Array.from(snapshot.buildingInfection.entries()).map(([key, map]) => [
+      key,
+      Array.from(map.entries())
+    ]),
+    rumorPools: Array.from(snapshot.rumorPools.entries()),
+    conversationHistories: snapshot.conversationHistories,
+    npcRelationships: snapshot.npcRelationships,
+    storylines: snapshot.storylines,
+    merchantInventories: Array.from(snapshot.merchantInventories.entries()),
+    market: snapshot.market,
+    crime: snapshot.crime,
+    lootedChests: snapshot.lootedChests,
+    seededInitialInfections: snapshot.seededInitialInfections,
+    forcedPlagueTriggered: snapshot.forcedPlagueTriggered,
+    epidemic: snapshot.epidemic,
+    epidemicSeries: thinSeriesForSave(snapshot.epidemicSeries),
+    scenarioId: snapshot.scenarioId
+  };
+};
+
+/**
+ * Rebuild the live (Map-based) structures from stored data.
+ * Returned records are fresh objects so the caller can mutate them freely.
+ */
+export const deserializeSaveGame = (data: SaveGameData) => {
+  const tileRegistries = new Map<string, TileRegistry>();
+  const regenerated = new Map<string, TileRegistry>();
+  data.tileRegistries.forEach(([key, registry]) => {
+    const npcMap = registry.compactNpcs
+      ? hydrateCompactRecords(data.playerSeed, key, registry.compactNpcs, regenerated)
+      : new Map<string, NPCRecord>();
+    registry.npcs.forEach((record) => npcMap.set(record.id, record));
+    tileRegistries.set(key, { npcMap, lastScheduleSimTime: registry.lastScheduleSimTime });
+  });
+
+  const buildingInfection = new Map<string, Map<string, BuildingInfectionState>>();
+  data.buildingInfection.forEach(([key, entries]) => {
+    buildingInfection.set(key, new Map(entries));
+  });
+
+  return {
+    params: data.params,
+    stats: data.stats,
+    playerSeed: data.playerSeed,
+    playerStats: data.playerStats,
+    worldFlags: data.worldFlags,
+    eventTriggerState: data.eventTriggerState,
+    tileRegistries,
+    buildingInfection,
+    rumorPools: new Map(data.rumorPools),
+    conversationHistories: data.conversationHistories,
+    npcRelationships: data.npcRelationships ?? {},
+    storylines: data.storylines ?? createStorylineState(),
+    merchantInventories: new Map(data.merchantInventories),
+    market: data.market ?? createMarketState(),
+    crime: data.crime ?? createCrimeState(),
+    lootedChests: data.lootedChests ?? {},
+    seededInitialInfections: data.seededInitialInfections,
+    forcedPlagueTriggered: data.forcedPlagueTriggered,
+    epidemic: data.epidemic ?? null,
+    epidemicSeries: data.epidemicSeries ?? [],
+    scenarioId: data.scenarioId ?? DEFAULT_SCENARIO_ID
+  };
+};
+
+export type LoadedSaveGame = ReturnType<typeof deserializeSaveGame>;
+
+// Version 1 numbered market stalls within a tile ("merchant-stall-3"), so
+// stall merchants on different tiles shared one id; version 2 adds the tile.
+// An old save's stall merchants are taken to be those of the tile it was on.
+const OLD_STALL_MERCHANT_ID = /^merchant-stall-(\d+)$/;
+
+const migrateStallMerchantIds = (data: SaveGameData): SaveGameData => {
+  const { mapX, mapY } = data.params;
+  const renameId = (id: string) => id.replace(OLD_STALL_MERCHANT_ID, `merchant-stall-${mapX}-${mapY}-$1`);
+  return {
+    ...data,
+    merchantInventories: data.merchantInventories.map(([id, inventory]) => [
+      renameId(id),
+      { ...inventory, merchantId: renameId(inventory.merchantId) }
+    ]),
+    npcRelationships: data.npcRelationships && Object.fromEntries(
+      Object.entries(data.npcRelationships).map(([id, relationship]) => [
+        renameId(id),
+        { ...relationship, npcId: renameId(relationship.npcId) }
+      ])
+    ),
+    conversationHistories: data.conversationHistories.map((summary) => ({ ...summary, npcId: renameId(summary.npcId) }))
+  };
+};
+
+/**
+ * Upgrade older save payloads to the current format.
+ * Returns null for unknown or newer versions so the caller can refuse them.
+ */
+export const migrateSaveGame = (raw: unknown): SaveGameData | null => {
+  if (!raw || typeof raw !== 'object') return null;
+  const data = raw as Partial<SaveGameData>;
+  if (typeof data.version !== 'number' || data.version > SAVE_VERSION) return null;
+  if (!data.summary || !data.playerStats || !data.stats || !data.params) return null;
+  let migrated = data as SaveGameData;
+  if (migrated.version < 2) migrated = { ...migrateStallMerchantIds(migrated), version: 2 };
+  return migrated;
+};
+
+const readIndex = (): SaveSlotSummary[] => {
+  try {
+    const raw = localStorage.getItem(SAVE_INDEX_KEY);
+    return raw ? JSON.parse(raw) : [];
+  } catch {
+    return [];
+  }
+};
+
+const writeIndex = (index: SaveSlotSummary[]) => {
+  localStorage.setItem(SAVE_INDEX_KEY, JSON.stringify(index));
+};
+
+/** List saved slots, autosave first, then newest manual saves. */
+export const listSaveSlots = (): SaveSlotSummary[] => {
+  return readIndex().sort((a, b) => {
+    if (a.isAutosave !== b.isAutosave) return a.isAutosave ? -1 : 1;
+    return b.savedAt - a.savedAt;
+  });
+};
+
+export const writeSaveGame = (snapshot: SaveGameSnapshot, slotId: string, name: string): SaveSlotSummary | null => {
+  const data = serializeSaveGame(snapshot, slotId, name);
+  try {
+    let json = JSON.stringify(data);
+    // Every slot shares the one origin's few megabytes of localStorage
+    if (json.length > MAX_SAVE_SLOT_CHARS && (data.epidemicSeries?.length ?? 0) > 0) {
+      console.warn(`[SaveGame] Save is ${json.length} characters; leaving out the epidemic series`);
+      json = JSON.stringify({ ...data, epidemicSeries: [] });
+    }
+    localStorage.setItem(slotKey(slotId), json);
+    const index = readIndex().filter((entry) => entry.id !== slotId);
+    index.push(data.summary);
+    writeIndex(index);
+    return data.summary;
+  } catch (error) {
+    console.warn('[SaveGame] Failed to write save', error);
+    return null;
+  }
+};
+
+export const readSaveGame = (slotId: string): LoadedSaveGame | null => {
+  try {
+    const raw = localStorage.getItem(slotKey(slotId));
+    if (!raw) return null;
+    const data = migrateSaveGame(JSON.parse(raw));
+    return data ? deserializeSaveGame(data) : null;
+  } catch (error) {
+    console.warn('[SaveGame] Failed to read save', error);
+    return null;
+  }
+};
+
+export const deleteSaveGame = (slotId: string) => {
+  try {
+    localStorage.removeItem(slotKey(slotId));
+    writeIndex(readIndex().filter((entry) => entry.id !== slotId));
+  } catch {
+    // Ignore storage errors.
+  }
+};
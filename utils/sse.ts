@@ -0,0 +1,56 @@
+/**
+ * Server-Sent Events
+ * A minimal reader for `text/event-stream` bodies, shared by the chat route
+ * (reading Gemini and OpenAI-compatible streams) and the encounter hook
+ * (reading the chat route's own stream). Only `event:` and `data:` fields are
+ * used; comments and ids are ignored.
+ */
+
+export interface ServerSentEvent {
+  /** `message` when the server named no event */
+  event: string;
+  data: string;
+}
+
+/** Serialize one event for writing to a response */
+export const formatServerSentEvent = (event: string, data: unknown): string => (
+  `event: ${event}\ndata: ${JSON.stringify(data)}\n\n`
+);
+
+/**
+ * Read events from a stream until it ends, calling onEvent for each one.
+ * Rejects with the stream's error, including an AbortError when cancelled.
+ */
+export const readServerSentEvents = async (
+  body: ReadableStream<Uint8Array>,
+  onEvent: (event: ServerSentEvent) => void
+): Promise<void> => {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  const dispatch = (block: string) => {
+    let event = 'message';
+    const data: string[] = [];
+    block.split(/\r?\n/).forEach(line => {
+      if (line.startsWith('event:')) event = line.slice(6).trim();
+      else if (line.startsWith('data:')) data.push(line.slice(5).replace(/^ /, ''));
+    });
+    if (data.length > 0) onEvent({ event, data: data.join('\n') });
+  };
+
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      buffer += decoder.decode(value, { stream: true });
+      const blocks = buffer.split(/\r?\n\r?\n/);
+      buffer = blocks.pop() ?? '';
+      blocks.forEach(dispatch);
+    }
+    buffer += decoder.decode();
+    if (buffer.trim()) dispatch(buffer);
+  } finally {
+    reader.releaseLock();
+  }
+};
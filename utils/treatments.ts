@@ -0,0 +1,236 @@
+/**
+ * Medieval Plague Treatments
+ * The remedies a Damascene of 1348 could actually seek out: the barber's lancet,
+ * the hakim's theriac and cooling regimens, a bed in the bimaristan. Each shifts
+ * the four humors and bends the course of the player's plague a little. True to
+ * the record, almost none of them help against the disease itself.
+ */
+
+import { AgentState, BuildingMetadata, BuildingType, PlagueTreatmentId, PlagueType, PlayerStats } from '../types';
+import { getItemDetailsByItemId } from './merchantItems';
+import { GAME_DAY_LENGTH, addTreatmentCourse } from './plague';
+import { computeHumoralBalance } from './procedural';
+
+export type TreatmentProvider = 'barber' | 'hakim' | 'bimaristan' | 'self';
+
+type Humors = PlayerStats['humors'];
+
+export interface TreatmentDefinition {
+  id: PlagueTreatmentId;
+  name: string;
+  description: string;
+  /** Any one of these can give it. */
+  providers: TreatmentProvider[];
+  /** Fee in dirhams when a practitioner gives it. */
+  cost: number;
+  /** Carried item the player can take instead of paying a practitioner. */
+  itemName?: string;
+  humorShift: Partial<Humors>;
+  healthDelta: number;
+  course?: {
+    days: number;
+    feverOffset: number;
+    weaknessOffset: number;
+    mortalityFactor: number;
+  };
+  historicalNote: string;
+}
+
+export interface TreatmentOption {
+  definition: TreatmentDefinition;
+  available: boolean;
+  /** Why it cannot be given right now. */
+  reason?: string;
+  /** Will use a carried item rather than a paid practitioner. */
+  usesItem: boolean;
+}
+
+export const TREATMENTS: Record<PlagueTreatmentId, TreatmentDefinition> = {
+  bloodletting: {
+    id: 'bloodletting',
+    name: 'Bloodletting',
+    description: 'A barber opens a vein to draw off the corrupted blood.',
+    providers: ['barber', 'hakim'],
+    cost: 3,
+    humorShift: { blood: -12 },
+    healthDelta: -4,
+    course: { days: 2, feverOffset: -4, weaknessOffset: 12, mortalityFactor: 1.08 },
+    historicalNote: 'Galenic physicians bled the feverish to restore balance. Against plague it only weakened the patient.'
+  },
+  lanceBubo: {
+    id: 'lanceBubo',
+    name: 'Lance the Bubo',
+    description: 'The swelling is cut open and drained, then dressed with ointment.',
+    providers: ['barber', 'hakim'],
+    cost: 6,
+    humorShift: { blackBile: -4 },
+    healthDelta: -3,
+    course: { days: 1, feverOffset: 6, weaknessOffset: 5, mortalityFactor: 1 },
+    historicalNote: 'Draining a ripe bubo was one of the few measures that sometimes helped, though the wound often festered.'
+  },
+  theriac: {
+    id: 'theriac',
+    name: 'Theriac',
+    description: 'The great compound of vipers, opium and sixty ingredients, taken in wine.',
+    providers: ['hakim'],
+    cost: 25,
+    itemName: 'Theriac Compound',
+    humorShift: { phlegm: -8, blackBile: -6 },
+    healthDelta: 0,
+    course: { days: 1, feverOffset: -8, weaknessOffset: -4, mortalityFactor: 0.97 },
+    historicalNote: 'Prized as an antidote to all poisons. Its opium dulled pain and fever; the pestilence it left untouched.'
+  },
+  roseWater: {
+    id: 'roseWater',
+    name: 'Rose-Water Regimen',
+    description: 'Cooling rose water, sour pomegranate and barley broth to temper the heat of putrid fever.',
+    providers: ['hakim'],
+    cost: 6,
+    itemName: 'Rose Water',
+    humorShift: { yellowBile: -10, blood: -4 },
+    healthDelta: 1,
+    course: { days: 1, feverOffset: -6, weaknessOffset: 0, mortalityFactor: 1 },
+    historicalNote: 'Physicians such as Ibn al-Khatib prescribed cooling foods and waters. Comforting, but no cure.'
+  },
+  vinegar: {
+    id: 'vinegar',
+    name: 'Vinegar Regimen',
+    description: 'Sponging with vinegar and breathing its fumes to drive off the corrupted air.',
+    providers: ['self'],
+    cost: 1,
+    humorShift: { yellowBile: -5, blood: -5 },
+    healthDelta: 0,
+    course: { days: 1, feverOffset: -3, weaknessOffset: 0, mortalityFactor: 1 },
+    historicalNote: 'Vinegar was the common defence against miasma, the bad air thought to carry plague.'
+  },
+  bimaristan: {
+    id: 'bimaristan',
+    name: 'Bimaristan Admission',
+    description: 'A bed in the hospital: clean linen, water, broth and attendants through the night.',
+    providers: ['bimaristan'],
+    cost: 0,
+    humorShift: {},
+    healthDelta: 5,
+    course: { days: 3, feverOffset: -5, weaknessOffset: -15, mortalityFactor: 0.9 },
+    historicalNote: 'The Nur al-Din bimaristan treated the sick free under its endowment. Rest, water and nursing were its best medicine.'
+  }
+};
+
+// A course given within this window is still running; wait for it to finish
+const REPEAT_INTERVAL = GAME_DAY_LENGTH / 2;
+
+/** Practitioners within reach: the NPC beside the player and the building they are at or in. */
+export const getTreatmentProviders = (
+  npcProfession: string | null,
+  building: BuildingMetadata | null
+): TreatmentProvider[] => {
+  const providers: TreatmentProvider[] = ['self'];
+  const professions = [npcProfession ?? '', building?.ownerProfession ?? ''].join(' ');
+  if (/barber/i.test(professions)) providers.push('barber');
+  if (/hakim|physician|doctor|apothecary/i.test(professions)) providers.push('hakim');
+  if (building?.type === BuildingType.MEDICAL) providers.push('bimaristan', 'hakim');
+  return providers;
+};
+
+const findCarriedItem = (playerStats: PlayerStats, itemName: string) => (
+  playerStats.inventory.find(item => item.quantity > 0 && getItemDetailsByItemId(item.itemId)?.name === itemName)
+);
+
+export const getTreatmentOptions = (
+  playerStats: PlayerStats,
+  providers: TreatmentProvider[],
+  simTime: number
+): TreatmentOption[] => (
+  (Object.values(TREATMENTS)).map(definition => {
+    const usesItem = !!definition.itemName && !!findCarriedItem(playerStats, definition.itemName);
+    const plague = playerStats.plague;
+    const lastCourse = plague.treatments?.find(course => course.id === definition.id);
+    let reason: string | undefined;
+
+    if (!usesItem && !definition.providers.some(provider => providers.includes(provider))) {
+      reason = definition.providers.includes('bimaristan')
+        ? 'Only at a bimaristan'
+        : `Needs a ${definition.providers.filter(provider => provider !== 'self').join(' or ')}`;
+    } else if (!usesItem && playerStats.currency < definition.cost) {
+      reason = `Costs ${definition.cost} dirhams`;
+    } else if (definition.id === 'lanceBubo' && (
+      plague.state !== AgentState.INFECTED
+      || plague.plagueType !== PlagueType.BUBONIC
+      || plague.buboBurst
+      || plague.buboes < 60
+    )) {
+      reason = 'No ripe bubo to lance';
+    } else if (lastCourse && simTime - lastCourse.givenAt < REPEAT_INTERVAL) {
+      reason = 'Still taking effect';
+    }
+
+    return { definition, available: !reason, reason, usesItem };
+  })
+);
+
+const clampHumor = (value: number) => Math.max(0, Math.min(100, Math.round(value)));
+
+/**
+ * Give a treatment: pay or spend the remedy, shift the humors, and start its
+ * course on the plague. Returns the unchanged stats when it cannot be given.
+ */
+export const applyPlayerTreatment = (
+  playerStats: PlayerStats,
+  treatmentId: PlagueTreatmentId,
+  providers: TreatmentProvider[],
+  simTime: number
+): { stats: PlayerStats; applied: boolean; message: string } => {
+  const option = getTreatmentOptions(playerStats, providers, simTime).find(entry => entry.definition.id === treatmentId);
+  if (!option || !option.available) {
+    return { stats: playerStats, applied: false, message: option?.reason ?? 'Unknown treatment.' };
+  }
+  const definition = option.definition;
+
+  const humors = { ...playerStats.humors };
+  (Object.keys(definition.humorShift) as Array<keyof Humors>).forEach(humor => {
+    humors[humor] = clampHumor(humors[humor] + (definition.humorShift[humor] ?? 0));
+  });
+  if (definition.id === 'bimaristan') {
+    // Diet and rest draw every humor halfway back toward the mean
+    const mean = (humors.blood + humors.phlegm + humors.yellowBile + humors.blackBile) / 4;
+    (Object.keys(humors) as Array<keyof Humors>).forEach(humor => {
+      humors[humor] = clampHumor((humors[humor] + mean) / 2);
+    });
+  }
+
+  let plague = playerStats.plague;
+  if (definition.id === 'lanceBubo') {
+    plague = { ...plague, buboBurst: true, buboes: Math.max(0, plague.buboes - 20) };
+  }
+  if (definition.course && plague.state !== AgentState.HEALTHY && plague.state !== AgentState.DECEASED) {
+    plague = addTreatmentCourse(plague, {
+      id: definition.id,
+      givenAt: simTime,
+      expiresAt: simTime + definition.course.days * GAME_DAY_LENGTH,
+      feverOffset: definition.course.feverOffset,
+      weaknessOffset: definition.course.weaknessOffset,
+      mortalityFactor: definition.course.mortalityFactor
+    });
+  }
+
+  const carried = option.usesItem && definition.itemName ? findCarriedItem(playerStats, definition.itemName) : undefined;
+  const inventory = carried
+    ? playerStats.inventory
+      .map(item => (item.id === carried.id ? { ...item, quantity: item.quantity - 1 } : item))
+      .filter(item => item.quantity > 0)
+    : playerStats.inventory;
+
+  return {
+    stats: {
+      ...playerStats,
+      humors,
+      humoralBalance: computeHumoralBalance(humors),
+      health: Math.max(0, Math.min(100, playerStats.health + definition.healthDelta)),
+      currency: carried ? playerStats.currency : playerStats.currency - definition.cost,
+      inventory,
+      plague
+    },
+    applied: true,
+    message: `${definition.name}: ${definition.historicalNote}`
+  };
+};